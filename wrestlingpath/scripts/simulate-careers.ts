@@ -0,0 +1,62 @@
+/**
+ * Balance runner: simulate many careers headlessly and print aggregate outcomes.
+ *
+ *   npm run sim -- --seeds 1000 --policy balanced --weight 145 --out reports.json
+ *
+ * --seeds N      careers to play (seeds "<prefix>-0" … "<prefix>-N-1"), default 100
+ * --prefix P     seed prefix, default "sim"
+ * --policy NAME  one of CAREER_POLICIES (default, balanced)
+ * --weight W     starting weight class
+ * --out FILE     also write every CareerReport as JSON
+ */
+
+import { writeFileSync } from 'node:fs';
+import { CAREER_POLICIES, simulateCareer, summarizeCareers, type CareerReport } from '../src/engine/unified/CareerSimulator';
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const key = argv[i];
+    if (key.startsWith('--')) args[key.slice(2)] = argv[i + 1] ?? '';
+  }
+  return args;
+}
+
+function main(): void {
+  const args = parseArgs(process.argv.slice(2));
+  const seeds = Math.max(1, Number(args.seeds ?? 100) || 100);
+  const prefix = args.prefix ?? 'sim';
+  const policy = CAREER_POLICIES[args.policy ?? 'default'];
+  if (!policy) {
+    console.error(`Unknown policy "${args.policy}". Choose one of: ${Object.keys(CAREER_POLICIES).join(', ')}`);
+    process.exit(1);
+  }
+  const weightClass = args.weight ? Number(args.weight) : undefined;
+
+  const reports: CareerReport[] = [];
+  const started = Date.now();
+  for (let i = 0; i < seeds; i++) {
+    reports.push(simulateCareer(`${prefix}-${i}`, { policy, weightClass }));
+    if ((i + 1) % 100 === 0) console.error(`${i + 1}/${seeds} careers…`);
+  }
+
+  const summary = summarizeCareers(reports);
+  const pct = (x: number) => `${(x * 100).toFixed(1)}%`;
+  console.log(`Policy ${policy.name}, ${summary.careers} careers in ${((Date.now() - started) / 1000).toFixed(1)}s`);
+  console.log(`  State champion   ${pct(summary.shareStateChampion)}`);
+  console.log(`  Went D1          ${pct(summary.shareD1)}`);
+  console.log(`  NCAA All-American ${pct(summary.shareAllAmerican)}`);
+  console.log(`  NCAA champion    ${pct(summary.shareNcaaChampion)}`);
+  console.log(`  Avg win %        ${pct(summary.avgWinPct)}`);
+  console.log(`  Avg peak rating  ${summary.avgPeakRating.toFixed(1)}`);
+  console.log(`  Avg final money  $${Math.round(summary.avgFinalMoney).toLocaleString()}`);
+  console.log(`  Avg weight misses ${summary.avgWeightMisses.toFixed(2)}`);
+  console.log(`  End reasons      ${Object.entries(summary.endReasons).map(([k, v]) => `${k} ${v}`).join(', ')}`);
+
+  if (args.out) {
+    writeFileSync(args.out, JSON.stringify({ summary, reports }, null, 2));
+    console.log(`Wrote ${reports.length} reports to ${args.out}`);
+  }
+}
+
+main();
@@ -24,7 +24,7 @@ const EFFECT = (e: LifePopupChoiceEffects): LifePopupChoice['effects'] => e;
 
 /** Relationship is in trouble: love-interest meter low or romantic partner level low. */
 function isRelationshipLow(s: UnifiedState): boolean {
-  const meter = s.relationshipMeter ?? 50;
+  const meter = s.relationshipMeter;
   const status = s.relationshipStatus;
   const romantic = (s.relationships ?? []).find((r) => r.kind === 'romantic');
   const romanticLevel = romantic?.level ?? 60;
@@ -35,7 +35,7 @@ function isRelationshipLow(s: UnifiedState): boolean {
 
 /** Relationship is healthy: meter or romantic level decent. */
 function isRelationshipOkay(s: UnifiedState): boolean {
-  const meter = s.relationshipMeter ?? 50;
+  const meter = s.relationshipMeter;
   const romantic = (s.relationships ?? []).find((r) => r.kind === 'romantic');
   const romanticLevel = romantic?.level ?? 60;
   if ((s.relationshipStatus === 'DATING' || s.relationshipStatus === 'PARTNER') && meter >= 50) return true;
@@ -74,7 +74,7 @@ export const LIFE_POPUP_DEFS: LifePopupDef[] = [
     category: 'training_performance',
     text: 'A teammate is gunning for your spot. He goes hard every drill.',
     baseWeight: 0.9,
-    condition: (s) => (s.coachTrust ?? 50) > 40 ? 1.2 : 0.8,
+    condition: (s) => s.coachTrust > 40 ? 1.2 : 0.8,
     choices: [
       { label: 'Match his intensity', effects: EFFECT({ energy: -10, performanceMult: 0.08, coachTrust: 3 }) },
       { label: 'Stay steady, don’t get hurt', effects: EFFECT({ energy: -4, injuryRiskMult: -0.05 }) },
@@ -161,7 +161,7 @@ export const LIFE_POPUP_DEFS: LifePopupDef[] = [
     category: 'social_team',
     text: 'Student paper wants a quick quote about the season.',
     baseWeight: 0.9,
-    condition: (s) => (s.popularity ?? 50) > 55 ? 1.4 : (s.popularity ?? 50) > 40 ? 1 : 0.6,
+    condition: (s) => s.popularity > 55 ? 1.4 : s.popularity > 40 ? 1 : 0.6,
     choices: [
       { label: 'Give a good quote', effects: EFFECT({ popularity: 5, coachTrust: 2 }) },
       { label: 'Decline politely', effects: EFFECT({ stress: -1 }) },
@@ -174,7 +174,7 @@ export const LIFE_POPUP_DEFS: LifePopupDef[] = [
     category: 'money_nil',
     text: 'A local business wants you to do a short promo for a small NIL deal.',
     baseWeight: 0.85,
-    condition: (s) => (s.popularity ?? 50) > 50 && (s.collegeName != null) ? 1.3 : (s.collegeName != null) ? 0.8 : 0,
+    condition: (s) => s.popularity > 50 && (s.collegeName != null) ? 1.3 : (s.collegeName != null) ? 0.8 : 0,
     choices: [
       { label: 'Do it', effects: EFFECT({ money: 120, energy: -4 }) },
       { label: 'Pass', effects: EFFECT({ energy: 2 }) },
@@ -268,7 +268,7 @@ export const LIFE_POPUP_DEFS: LifePopupDef[] = [
       const inRel = s.relationshipStatus === 'DATING' || s.relationshipStatus === 'PARTNER';
       const hasRomantic = (s.relationships ?? []).some((r) => r.kind === 'romantic');
       if (!inRel && !hasRomantic) return 0;
-      const meter = s.relationshipMeter ?? 50;
+      const meter = s.relationshipMeter;
       const romantic = (s.relationships ?? []).find((r) => r.kind === 'romantic');
       const level = romantic?.level ?? 60;
       const low = meter < 45 || (romantic != null && level < 50);
@@ -369,7 +369,7 @@ export const LIFE_POPUP_DEFS: LifePopupDef[] = [
     category: 'relationships',
     text: "Your partner suggests a proper date night. You've both been busy.",
     baseWeight: 0.7,
-    condition: (s) => (isRelationshipOkay(s) && !isRelationshipLow(s) && ((s.relationshipMeter ?? 0) >= 55 || ((s.relationships ?? []).find((r) => r.kind === 'romantic')?.level ?? 0) >= 55)) ? 1.3 : 0,
+    condition: (s) => (isRelationshipOkay(s) && !isRelationshipLow(s) && (s.relationshipMeter >= 55 || ((s.relationships ?? []).find((r) => r.kind === 'romantic')?.level ?? 0) >= 55)) ? 1.3 : 0,
     choices: [
       { label: 'Plan something special', effects: EFFECT({ relationshipMeter: 12, chemistry: 3, money: -40, energy: -4 }) },
       { label: 'Low-key night in', effects: EFFECT({ relationshipMeter: 8, energy: -2 }) },
@@ -384,7 +384,7 @@ export const LIFE_POPUP_DEFS: LifePopupDef[] = [
     condition: (s) => {
       const inRel = (s.relationshipStatus === 'DATING' || s.relationshipStatus === 'PARTNER') || (s.relationships ?? []).some((r) => r.kind === 'romantic');
       if (!inRel) return 0;
-      const meter = s.relationshipMeter ?? 50;
+      const meter = s.relationshipMeter;
       const romantic = (s.relationships ?? []).find((r) => r.kind === 'romantic');
       const level = romantic?.level ?? 60;
       if (meter < 40 || (romantic != null && level < 40)) return 2.0;
@@ -419,7 +419,7 @@ export const LIFE_POPUP_DEFS: LifePopupDef[] = [
     category: 'relationships',
     text: "Things feel really good between you two. You're thinking about the future.",
     baseWeight: 0.5,
-    condition: (s) => (s.allowRelationshipEvents && (s.relationshipMeter ?? 0) >= 85 && (s.relationshipStatus === 'DATING' || s.relationshipStatus === 'PARTNER')) ? 1.2 : 0,
+    condition: (s) => (s.allowRelationshipEvents && s.relationshipMeter >= 85 && (s.relationshipStatus === 'DATING' || s.relationshipStatus === 'PARTNER')) ? 1.2 : 0,
     choices: [
       { label: 'Share your feelings', effects: EFFECT({ relationshipMeter: 5, chemistry: 4, happiness: 6 }) },
       { label: 'Take it slow', effects: EFFECT({ relationshipMeter: 2 }) },
@@ -431,7 +431,7 @@ export const LIFE_POPUP_DEFS: LifePopupDef[] = [
     category: 'relationships',
     text: "You've been talking for a while but it's going nowhere. Do you push for a real date or let it go?",
     baseWeight: 0.6,
-    condition: (s) => (s.allowRelationshipEvents && s.relationshipStatus === 'TALKING' && (s.relationshipMeter ?? 0) >= 25 && (s.relationshipMeter ?? 0) < 55) ? 1.3 : 0,
+    condition: (s) => (s.allowRelationshipEvents && s.relationshipStatus === 'TALKING' && s.relationshipMeter >= 25 && s.relationshipMeter < 55) ? 1.3 : 0,
     choices: [
       { label: 'Ask them out properly', effects: EFFECT({ relationshipMeter: 15, chemistry: 5 }) },
       { label: 'Back off', effects: EFFECT({ relationshipMeter: -20 }) },
@@ -531,7 +531,7 @@ export const LIFE_POPUP_DEFS: LifePopupDef[] = [
     category: 'money_nil',
     text: "A one-off gig comes up—campus event, local ad, or helping a friend's business.",
     baseWeight: 0.75,
-    condition: (s) => (s.money ?? 0) < 400 ? 1.3 : (s.popularity ?? 50) > 45 ? 1 : 0.6,
+    condition: (s) => (s.money ?? 0) < 400 ? 1.3 : s.popularity > 45 ? 1 : 0.6,
     choices: [
       { label: 'Take it', effects: EFFECT({ money: 140, energy: -6 }) },
       { label: 'Pass—focus on wrestling', effects: EFFECT({ energy: 3 }) },
@@ -557,7 +557,7 @@ export const LIFE_POPUP_DEFS: LifePopupDef[] = [
     category: 'discipline',
     text: "Coach heard you skipped a class. He's not happy.",
     baseWeight: 0.6,
-    condition: (s) => (s.grades ?? 75) < 80 && (s.coachTrust ?? 50) > 30 ? 1.3 : 0.5,
+    condition: (s) => (s.grades ?? 75) < 80 && s.coachTrust > 30 ? 1.3 : 0.5,
     choices: [
       { label: 'Own it and promise better', effects: EFFECT({ coachTrust: -2, grades: 2 }) },
       { label: "It was a one-time thing", effects: EFFECT({ coachTrust: -6 }) },
@@ -569,7 +569,7 @@ export const LIFE_POPUP_DEFS: LifePopupDef[] = [
     category: 'social_team',
     text: "A team captain pulls you aside. 'We need you to step up—in the room and off the mat.'",
     baseWeight: 0.65,
-    condition: (s) => (s.coachTrust ?? 50) >= 45 && (s.popularity ?? 50) < 60 ? 1.2 : 0.7,
+    condition: (s) => s.coachTrust >= 45 && s.popularity < 60 ? 1.2 : 0.7,
     choices: [
       { label: "I'm in", effects: EFFECT({ coachTrust: 4, popularity: 3 }) },
       { label: 'Focus on my own game', effects: EFFECT({ coachTrust: -1 }) },
@@ -1,20 +1,20 @@
 /**
- * Sample colleges: 30 across D1/D2/D3/NAIA/JUCO.
+ * Sample colleges: 30 across D1/D2/D3/NAIA/JUCO. D1 schools carry their wrestling conference.
  */
 
 import type { School } from '../engine/types';
 
 export const SCHOOLS: School[] = [
-  { id: 'iowa', name: 'Iowa', division: 'D1', tuitionCost: 32000, cityCostIndex: 1.1, academicMinGPA: 2.8, scholarshipBudget: 900000, needsByWeight: { 125: 5, 133: 4, 141: 5, 149: 4, 157: 3, 165: 5, 174: 4, 184: 3, 197: 4, 285: 5 }, rosterDepth: { 125: 3, 133: 3, 141: 3, 149: 2, 157: 2, 165: 3, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.9, facilitiesLevel: 98, coachQuality: 95 },
-  { id: 'penn-state', name: 'Penn State', division: 'D1', tuitionCost: 38000, cityCostIndex: 1.0, academicMinGPA: 2.9, scholarshipBudget: 950000, needsByWeight: { 125: 4, 133: 5, 141: 4, 149: 5, 157: 4, 165: 4, 174: 5, 184: 4, 197: 5, 285: 4 }, rosterDepth: { 125: 3, 133: 3, 141: 3, 149: 3, 157: 2, 165: 3, 174: 3, 184: 2, 197: 3, 285: 3 }, coachAggressiveness: 0.85, facilitiesLevel: 99, coachQuality: 98 },
-  { id: 'ohio-state', name: 'Ohio State', division: 'D1', tuitionCost: 35000, cityCostIndex: 1.05, academicMinGPA: 2.8, scholarshipBudget: 850000, needsByWeight: { 125: 3, 133: 4, 141: 5, 149: 3, 157: 5, 165: 4, 174: 3, 184: 5, 197: 3, 285: 4 }, rosterDepth: { 125: 2, 133: 3, 141: 3, 149: 2, 157: 3, 165: 2, 174: 2, 184: 3, 197: 2, 285: 2 }, coachAggressiveness: 0.8, facilitiesLevel: 95, coachQuality: 92 },
-  { id: 'nc-state', name: 'NC State', division: 'D1', tuitionCost: 28000, cityCostIndex: 0.95, academicMinGPA: 2.7, scholarshipBudget: 750000, needsByWeight: { 125: 4, 133: 3, 141: 4, 149: 4, 157: 3, 165: 4, 174: 4, 184: 3, 197: 4, 285: 3 }, rosterDepth: { 125: 2, 133: 2, 141: 3, 149: 2, 157: 2, 165: 3, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.75, facilitiesLevel: 88, coachQuality: 88 },
-  { id: 'michigan', name: 'Michigan', division: 'D1', tuitionCost: 36000, cityCostIndex: 1.2, academicMinGPA: 2.9, scholarshipBudget: 820000, needsByWeight: { 125: 3, 133: 4, 141: 3, 149: 5, 157: 4, 165: 3, 174: 4, 184: 4, 197: 3, 285: 5 }, rosterDepth: { 125: 2, 133: 3, 141: 2, 149: 3, 157: 2, 165: 2, 174: 3, 184: 2, 197: 2, 285: 3 }, coachAggressiveness: 0.7, facilitiesLevel: 92, coachQuality: 90 },
-  { id: 'oklahoma-state', name: 'Oklahoma State', division: 'D1', tuitionCost: 26000, cityCostIndex: 0.85, academicMinGPA: 2.6, scholarshipBudget: 880000, needsByWeight: { 125: 5, 133: 4, 141: 4, 149: 4, 157: 5, 165: 4, 174: 4, 184: 5, 197: 4, 285: 4 }, rosterDepth: { 125: 3, 133: 2, 141: 3, 149: 3, 157: 3, 165: 2, 174: 3, 184: 3, 197: 2, 285: 2 }, coachAggressiveness: 0.88, facilitiesLevel: 94, coachQuality: 93 },
-  { id: 'iowa-state', name: 'Iowa State', division: 'D1', tuitionCost: 24000, cityCostIndex: 0.9, academicMinGPA: 2.6, scholarshipBudget: 780000, needsByWeight: { 125: 4, 133: 3, 141: 5, 149: 3, 157: 4, 165: 5, 174: 3, 184: 4, 197: 3, 285: 4 }, rosterDepth: { 125: 2, 133: 2, 141: 3, 149: 2, 157: 3, 165: 3, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.82, facilitiesLevel: 90, coachQuality: 89 },
-  { id: 'cornell', name: 'Cornell', division: 'D1', tuitionCost: 58000, cityCostIndex: 1.4, academicMinGPA: 3.2, scholarshipBudget: 720000, needsByWeight: { 125: 3, 133: 4, 141: 3, 149: 4, 157: 3, 165: 4, 174: 3, 184: 3, 197: 4, 285: 3 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.65, facilitiesLevel: 96, coachQuality: 94 },
-  { id: 'virginia-tech', name: 'Virginia Tech', division: 'D1', tuitionCost: 30000, cityCostIndex: 0.92, academicMinGPA: 2.7, scholarshipBudget: 700000, needsByWeight: { 125: 3, 133: 3, 141: 4, 149: 4, 157: 4, 165: 3, 174: 4, 184: 3, 197: 3, 285: 4 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.72, facilitiesLevel: 85, coachQuality: 86 },
-  { id: 'nebraska', name: 'Nebraska', division: 'D1', tuitionCost: 27000, cityCostIndex: 0.88, academicMinGPA: 2.6, scholarshipBudget: 760000, needsByWeight: { 125: 4, 133: 4, 141: 3, 149: 4, 157: 4, 165: 4, 174: 3, 184: 4, 197: 4, 285: 4 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.78, facilitiesLevel: 88, coachQuality: 87 },
+  { id: 'iowa', name: 'Iowa', division: 'D1', tuitionCost: 32000, cityCostIndex: 1.1, academicMinGPA: 2.8, scholarshipBudget: 900000, needsByWeight: { 125: 5, 133: 4, 141: 5, 149: 4, 157: 3, 165: 5, 174: 4, 184: 3, 197: 4, 285: 5 }, rosterDepth: { 125: 3, 133: 3, 141: 3, 149: 2, 157: 2, 165: 3, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.9, facilitiesLevel: 98, coachQuality: 95, conference: 'Big Ten' },
+  { id: 'penn-state', name: 'Penn State', division: 'D1', tuitionCost: 38000, cityCostIndex: 1.0, academicMinGPA: 2.9, scholarshipBudget: 950000, needsByWeight: { 125: 4, 133: 5, 141: 4, 149: 5, 157: 4, 165: 4, 174: 5, 184: 4, 197: 5, 285: 4 }, rosterDepth: { 125: 3, 133: 3, 141: 3, 149: 3, 157: 2, 165: 3, 174: 3, 184: 2, 197: 3, 285: 3 }, coachAggressiveness: 0.85, facilitiesLevel: 99, coachQuality: 98, conference: 'Big Ten' },
+  { id: 'ohio-state', name: 'Ohio State', division: 'D1', tuitionCost: 35000, cityCostIndex: 1.05, academicMinGPA: 2.8, scholarshipBudget: 850000, needsByWeight: { 125: 3, 133: 4, 141: 5, 149: 3, 157: 5, 165: 4, 174: 3, 184: 5, 197: 3, 285: 4 }, rosterDepth: { 125: 2, 133: 3, 141: 3, 149: 2, 157: 3, 165: 2, 174: 2, 184: 3, 197: 2, 285: 2 }, coachAggressiveness: 0.8, facilitiesLevel: 95, coachQuality: 92, conference: 'Big Ten' },
+  { id: 'nc-state', name: 'NC State', division: 'D1', tuitionCost: 28000, cityCostIndex: 0.95, academicMinGPA: 2.7, scholarshipBudget: 750000, needsByWeight: { 125: 4, 133: 3, 141: 4, 149: 4, 157: 3, 165: 4, 174: 4, 184: 3, 197: 4, 285: 3 }, rosterDepth: { 125: 2, 133: 2, 141: 3, 149: 2, 157: 2, 165: 3, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.75, facilitiesLevel: 88, coachQuality: 88, conference: 'ACC' },
+  { id: 'michigan', name: 'Michigan', division: 'D1', tuitionCost: 36000, cityCostIndex: 1.2, academicMinGPA: 2.9, scholarshipBudget: 820000, needsByWeight: { 125: 3, 133: 4, 141: 3, 149: 5, 157: 4, 165: 3, 174: 4, 184: 4, 197: 3, 285: 5 }, rosterDepth: { 125: 2, 133: 3, 141: 2, 149: 3, 157: 2, 165: 2, 174: 3, 184: 2, 197: 2, 285: 3 }, coachAggressiveness: 0.7, facilitiesLevel: 92, coachQuality: 90, conference: 'Big Ten' },
+  { id: 'oklahoma-state', name: 'Oklahoma State', division: 'D1', tuitionCost: 26000, cityCostIndex: 0.85, academicMinGPA: 2.6, scholarshipBudget: 880000, needsByWeight: { 125: 5, 133: 4, 141: 4, 149: 4, 157: 5, 165: 4, 174: 4, 184: 5, 197: 4, 285: 4 }, rosterDepth: { 125: 3, 133: 2, 141: 3, 149: 3, 157: 3, 165: 2, 174: 3, 184: 3, 197: 2, 285: 2 }, coachAggressiveness: 0.88, facilitiesLevel: 94, coachQuality: 93, conference: 'Big 12' },
+  { id: 'iowa-state', name: 'Iowa State', division: 'D1', tuitionCost: 24000, cityCostIndex: 0.9, academicMinGPA: 2.6, scholarshipBudget: 780000, needsByWeight: { 125: 4, 133: 3, 141: 5, 149: 3, 157: 4, 165: 5, 174: 3, 184: 4, 197: 3, 285: 4 }, rosterDepth: { 125: 2, 133: 2, 141: 3, 149: 2, 157: 3, 165: 3, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.82, facilitiesLevel: 90, coachQuality: 89, conference: 'Big 12' },
+  { id: 'cornell', name: 'Cornell', division: 'D1', tuitionCost: 58000, cityCostIndex: 1.4, academicMinGPA: 3.2, scholarshipBudget: 720000, needsByWeight: { 125: 3, 133: 4, 141: 3, 149: 4, 157: 3, 165: 4, 174: 3, 184: 3, 197: 4, 285: 3 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.65, facilitiesLevel: 96, coachQuality: 94, conference: 'EIWA' },
+  { id: 'virginia-tech', name: 'Virginia Tech', division: 'D1', tuitionCost: 30000, cityCostIndex: 0.92, academicMinGPA: 2.7, scholarshipBudget: 700000, needsByWeight: { 125: 3, 133: 3, 141: 4, 149: 4, 157: 4, 165: 3, 174: 4, 184: 3, 197: 3, 285: 4 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.72, facilitiesLevel: 85, coachQuality: 86, conference: 'ACC' },
+  { id: 'nebraska', name: 'Nebraska', division: 'D1', tuitionCost: 27000, cityCostIndex: 0.88, academicMinGPA: 2.6, scholarshipBudget: 760000, needsByWeight: { 125: 4, 133: 4, 141: 3, 149: 4, 157: 4, 165: 4, 174: 3, 184: 4, 197: 4, 285: 4 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.78, facilitiesLevel: 88, coachQuality: 87, conference: 'Big Ten' },
   { id: 'st-cloud', name: 'St. Cloud State', division: 'D2', tuitionCost: 18000, cityCostIndex: 0.82, academicMinGPA: 2.5, scholarshipBudget: 280000, needsByWeight: { 125: 4, 133: 3, 141: 4, 149: 3, 157: 4, 165: 3, 174: 4, 184: 3, 197: 3, 285: 4 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.7, facilitiesLevel: 78, coachQuality: 82 },
   { id: 'nebraska-kearney', name: 'Nebraska-Kearney', division: 'D2', tuitionCost: 16000, cityCostIndex: 0.75, academicMinGPA: 2.4, scholarshipBudget: 260000, needsByWeight: { 125: 3, 133: 4, 141: 3, 149: 4, 157: 3, 165: 4, 174: 3, 184: 4, 197: 3, 285: 3 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.75, facilitiesLevel: 75, coachQuality: 80 },
   { id: 'central-oklahoma', name: 'Central Oklahoma', division: 'D2', tuitionCost: 17000, cityCostIndex: 0.8, academicMinGPA: 2.5, scholarshipBudget: 270000, needsByWeight: { 125: 4, 133: 3, 141: 4, 149: 3, 157: 4, 165: 3, 174: 4, 184: 3, 197: 4, 285: 3 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.72, facilitiesLevel: 76, coachQuality: 81 },
@@ -27,12 +27,12 @@ export const SCHOOLS: School[] = [
   { id: 'iowa-central', name: 'Iowa Central CC', division: 'JUCO', tuitionCost: 12000, cityCostIndex: 0.7, academicMinGPA: 2.0, scholarshipBudget: 180000, needsByWeight: { 125: 5, 133: 5, 141: 5, 149: 5, 157: 5, 165: 5, 174: 5, 184: 5, 197: 5, 285: 5 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.85, facilitiesLevel: 75, coachQuality: 82 },
   { id: 'northeastern-ok', name: 'Northeastern Oklahoma A&M', division: 'JUCO', tuitionCost: 10000, cityCostIndex: 0.65, academicMinGPA: 2.0, scholarshipBudget: 160000, needsByWeight: { 125: 4, 133: 4, 141: 4, 149: 4, 157: 4, 165: 4, 174: 4, 184: 4, 197: 4, 285: 4 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.8, facilitiesLevel: 72, coachQuality: 78 },
   { id: 'clackamas', name: 'Clackamas CC', division: 'JUCO', tuitionCost: 11000, cityCostIndex: 1.1, academicMinGPA: 2.0, scholarshipBudget: 170000, needsByWeight: { 125: 4, 133: 4, 141: 4, 149: 4, 157: 4, 165: 4, 174: 4, 184: 4, 197: 4, 285: 4 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.78, facilitiesLevel: 74, coachQuality: 80 },
-  { id: 'virginia', name: 'Virginia', division: 'D1', tuitionCost: 34000, cityCostIndex: 1.0, academicMinGPA: 2.8, scholarshipBudget: 680000, needsByWeight: { 125: 3, 133: 3, 141: 4, 149: 3, 157: 4, 165: 3, 174: 4, 184: 3, 197: 3, 285: 4 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.68, facilitiesLevel: 86, coachQuality: 85 },
-  { id: 'wisconsin', name: 'Wisconsin', division: 'D1', tuitionCost: 30000, cityCostIndex: 1.05, academicMinGPA: 2.7, scholarshipBudget: 720000, needsByWeight: { 125: 4, 133: 3, 141: 4, 149: 4, 157: 3, 165: 4, 174: 3, 184: 4, 197: 3, 285: 4 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.72, facilitiesLevel: 88, coachQuality: 86 },
-  { id: 'rutgers', name: 'Rutgers', division: 'D1', tuitionCost: 32000, cityCostIndex: 1.25, academicMinGPA: 2.7, scholarshipBudget: 690000, needsByWeight: { 125: 3, 133: 4, 141: 3, 149: 4, 157: 4, 165: 3, 174: 4, 184: 3, 197: 4, 285: 3 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.7, facilitiesLevel: 84, coachQuality: 84 },
-  { id: 'minnesota', name: 'Minnesota', division: 'D1', tuitionCost: 28000, cityCostIndex: 1.15, academicMinGPA: 2.6, scholarshipBudget: 740000, needsByWeight: { 125: 4, 133: 4, 141: 4, 149: 3, 157: 4, 165: 4, 174: 4, 184: 3, 197: 4, 285: 4 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.75, facilitiesLevel: 90, coachQuality: 88 },
-  { id: 'mizzou', name: 'Missouri', division: 'D1', tuitionCost: 26000, cityCostIndex: 0.9, academicMinGPA: 2.6, scholarshipBudget: 710000, needsByWeight: { 125: 4, 133: 3, 141: 4, 149: 4, 157: 4, 165: 3, 174: 4, 184: 4, 197: 3, 285: 4 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.76, facilitiesLevel: 86, coachQuality: 87 },
-  { id: 'arizona-state', name: 'Arizona State', division: 'D1', tuitionCost: 29000, cityCostIndex: 1.0, academicMinGPA: 2.7, scholarshipBudget: 730000, needsByWeight: { 125: 3, 133: 4, 141: 4, 149: 3, 157: 4, 165: 4, 174: 3, 184: 4, 197: 4, 285: 3 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.74, facilitiesLevel: 88, coachQuality: 86 },
+  { id: 'virginia', name: 'Virginia', division: 'D1', tuitionCost: 34000, cityCostIndex: 1.0, academicMinGPA: 2.8, scholarshipBudget: 680000, needsByWeight: { 125: 3, 133: 3, 141: 4, 149: 3, 157: 4, 165: 3, 174: 4, 184: 3, 197: 3, 285: 4 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.68, facilitiesLevel: 86, coachQuality: 85, conference: 'ACC' },
+  { id: 'wisconsin', name: 'Wisconsin', division: 'D1', tuitionCost: 30000, cityCostIndex: 1.05, academicMinGPA: 2.7, scholarshipBudget: 720000, needsByWeight: { 125: 4, 133: 3, 141: 4, 149: 4, 157: 3, 165: 4, 174: 3, 184: 4, 197: 3, 285: 4 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.72, facilitiesLevel: 88, coachQuality: 86, conference: 'Big Ten' },
+  { id: 'rutgers', name: 'Rutgers', division: 'D1', tuitionCost: 32000, cityCostIndex: 1.25, academicMinGPA: 2.7, scholarshipBudget: 690000, needsByWeight: { 125: 3, 133: 4, 141: 3, 149: 4, 157: 4, 165: 3, 174: 4, 184: 3, 197: 4, 285: 3 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.7, facilitiesLevel: 84, coachQuality: 84, conference: 'Big Ten' },
+  { id: 'minnesota', name: 'Minnesota', division: 'D1', tuitionCost: 28000, cityCostIndex: 1.15, academicMinGPA: 2.6, scholarshipBudget: 740000, needsByWeight: { 125: 4, 133: 4, 141: 4, 149: 3, 157: 4, 165: 4, 174: 4, 184: 3, 197: 4, 285: 4 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.75, facilitiesLevel: 90, coachQuality: 88, conference: 'Big Ten' },
+  { id: 'mizzou', name: 'Missouri', division: 'D1', tuitionCost: 26000, cityCostIndex: 0.9, academicMinGPA: 2.6, scholarshipBudget: 710000, needsByWeight: { 125: 4, 133: 3, 141: 4, 149: 4, 157: 4, 165: 3, 174: 4, 184: 4, 197: 3, 285: 4 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.76, facilitiesLevel: 86, coachQuality: 87, conference: 'Big 12' },
+  { id: 'arizona-state', name: 'Arizona State', division: 'D1', tuitionCost: 29000, cityCostIndex: 1.0, academicMinGPA: 2.7, scholarshipBudget: 730000, needsByWeight: { 125: 3, 133: 4, 141: 4, 149: 3, 157: 4, 165: 4, 174: 3, 184: 4, 197: 4, 285: 3 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.74, facilitiesLevel: 88, coachQuality: 86, conference: 'Big 12' },
   { id: 'lindenwood', name: 'Lindenwood', division: 'D2', tuitionCost: 22000, cityCostIndex: 0.95, academicMinGPA: 2.5, scholarshipBudget: 265000, needsByWeight: { 125: 3, 133: 4, 141: 3, 149: 4, 157: 3, 165: 4, 174: 3, 184: 4, 197: 3, 285: 4 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.72, facilitiesLevel: 80, coachQuality: 81 },
   { id: 'mckendree', name: 'McKendree', division: 'D2', tuitionCost: 20000, cityCostIndex: 0.78, academicMinGPA: 2.4, scholarshipBudget: 255000, needsByWeight: { 125: 4, 133: 3, 141: 4, 149: 3, 157: 4, 165: 3, 174: 4, 184: 3, 197: 4, 285: 3 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.7, facilitiesLevel: 76, coachQuality: 79 },
   { id: 'coe', name: 'Coe College', division: 'D3', tuitionCost: 44000, cityCostIndex: 0.88, academicMinGPA: 2.8, scholarshipBudget: 0, needsByWeight: { 125: 3, 133: 3, 141: 3, 149: 3, 157: 3, 165: 3, 174: 3, 184: 3, 197: 3, 285: 3 }, rosterDepth: { 125: 2, 133: 2, 141: 2, 149: 2, 157: 2, 165: 2, 174: 2, 184: 2, 197: 2, 285: 2 }, coachAggressiveness: 0.58, facilitiesLevel: 74, coachQuality: 80 },
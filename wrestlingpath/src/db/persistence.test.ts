@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { UnifiedEngine, migrateSave } from '@/engine/unified/UnifiedEngine';
+import {
+  createSaveSlot,
+  deleteSaveSlot,
+  duplicateSaveSlot,
+  getActiveSlotId,
+  listSaveSlots,
+  loadGame,
+  renameSaveSlot,
+  saveGame,
+} from './persistence';
+import { setStorage } from './storage';
+
+/** In-memory localStorage; setting quota (characters across all keys) makes setItem throw like a full browser store. */
+function memoryStorage() {
+  const data = new Map<string, string>();
+  const used = () => Array.from(data.values()).reduce((n, v) => n + v.length, 0);
+  return {
+    quota: Infinity,
+    used,
+    getItem: (k: string) => (data.has(k) ? data.get(k)! : null),
+    setItem(k: string, v: string) {
+      if (used() - (data.get(k)?.length ?? 0) + String(v).length > this.quota) throw new DOMException('full', 'QuotaExceededError');
+      data.set(k, String(v));
+    },
+    removeItem: (k: string) => { data.delete(k); },
+    clear: () => data.clear(),
+    key: (i: number) => Array.from(data.keys())[i] ?? null,
+    get length() { return data.size; },
+  };
+}
+
+const g = globalThis as unknown as { window?: { localStorage: ReturnType<typeof memoryStorage> } };
+
+describe('save slots', () => {
+  beforeEach(() => {
+    g.window = { localStorage: memoryStorage() };
+    setStorage(null);
+  });
+  afterEach(() => {
+    delete g.window;
+  });
+
+  it('creating a second career keeps the first save', async () => {
+    const a = (await createSaveSlot(UnifiedEngine.createState('a', { name: 'Alpha' })))!;
+    const b = (await createSaveSlot(UnifiedEngine.createState('b', { name: 'Bravo' })))!;
+    expect((await listSaveSlots()).map((m) => m.id).sort()).toEqual([a.id, b.id].sort());
+    expect(((await loadGame(a.id))!.state as { name: string }).name).toBe('Alpha');
+    expect(await getActiveSlotId()).toBe(b.id);
+  });
+
+  it('saveGame writes to the active slot and refreshes its summary', async () => {
+    const slot = (await createSaveSlot(UnifiedEngine.createState('s', { name: 'Sam', weightClass: 152 })))!;
+    const engine = new UnifiedEngine((await loadGame(slot.id))!.state as ReturnType<typeof UnifiedEngine.createState>);
+    engine.advanceWeek();
+    const state = engine.getState();
+    state.stats.matchesWon = 7;
+    state.stats.matchesLost = 2;
+    expect(await saveGame(state)).toEqual({ success: true });
+    const meta = (await listSaveSlots()).find((m) => m.id === slot.id)!;
+    expect(meta.summary).toMatchObject({ name: 'Sam', weightClass: 152, record: '7-2', week: state.week });
+    expect(((await loadGame())!.state as { week: number }).week).toBe(state.week);
+  });
+
+  it('renames, duplicates and deletes slots', async () => {
+    const slot = (await createSaveSlot(UnifiedEngine.createState('r', { name: 'Riley' })))!;
+    expect(await renameSaveSlot(slot.id, '  Main career ')).toBe(true);
+    expect(await renameSaveSlot(slot.id, '   ')).toBe(false);
+    const copy = (await duplicateSaveSlot(slot.id))!;
+    expect(copy.label).toBe('Main career (copy)');
+    expect(await loadGame(copy.id)).toEqual(await loadGame(slot.id));
+    expect(await deleteSaveSlot(slot.id)).toBe(true);
+    expect(await getActiveSlotId()).toBeNull();
+    expect(await loadGame(slot.id)).toBeNull();
+    expect((await listSaveSlots()).map((m) => m.id)).toEqual([copy.id]);
+  });
+
+  it('refuses to duplicate an ironman career', async () => {
+    const slot = (await createSaveSlot({ ...UnifiedEngine.createState('iron', { name: 'Iron' }), ironman: true }))!;
+    expect(await duplicateSaveSlot(slot.id)).toBeNull();
+    expect((await listSaveSlots()).map((m) => m.id)).toEqual([slot.id]);
+  });
+
+  it('migrates the old single-key save into a slot', async () => {
+    const legacy = UnifiedEngine.createState('legacy', { name: 'Old Save' });
+    g.window!.localStorage.setItem('wrestlingpath_save', JSON.stringify(legacy));
+    const slots = await listSaveSlots();
+    expect(slots).toHaveLength(1);
+    expect(slots[0].label).toBe('Old Save');
+    expect(await getActiveSlotId()).toBe(slots[0].id);
+    expect(g.window!.localStorage.getItem('wrestlingpath_save')).toBeNull();
+  });
+
+  it('migrates the old save only once when slots are read at the same time', async () => {
+    g.window!.localStorage.setItem('wrestlingpath_save', JSON.stringify(UnifiedEngine.createState('legacy', { name: 'Old Save' })));
+    const [first, second] = await Promise.all([listSaveSlots(), listSaveSlots(), getActiveSlotId()]);
+    expect(first).toHaveLength(1);
+    expect(second).toEqual(first);
+    expect(await listSaveSlots()).toEqual(first);
+  });
+});
+
+describe('save backups and storage limits', () => {
+  afterEach(() => {
+    delete g.window;
+  });
+
+  async function twoSaves() {
+    g.window = { localStorage: memoryStorage() };
+    setStorage(null);
+    const engine = new UnifiedEngine(UnifiedEngine.createState('backup', { name: 'Backup' }));
+    const slot = (await createSaveSlot(engine.getState()))!;
+    const firstWeek = engine.getState().week;
+    engine.advanceWeek();
+    await saveGame(engine.getState());
+    return { engine, slot, firstWeek, secondWeek: engine.getState().week };
+  }
+
+  it('loads the last good backup when the primary save is damaged', async () => {
+    const { slot, firstWeek } = await twoSaves();
+    const ls = g.window!.localStorage;
+    const key = `wrestlingpath_slot_${slot.id}`;
+    ls.setItem(key, ls.getItem(key)!.slice(0, 500));
+    const loaded = await loadGame(slot.id);
+    expect(loaded?.fromBackup).toBe(true);
+    expect((loaded!.state as { week: number }).week).toBe(firstWeek);
+  });
+
+  it('a damaged primary does not replace the good backup on the next save', async () => {
+    const { slot, firstWeek } = await twoSaves();
+    const ls = g.window!.localStorage;
+    ls.setItem(`wrestlingpath_slot_${slot.id}`, '{"broken":');
+    const recovered = migrateSave((await loadGame(slot.id))!.state);
+    expect(recovered.week).toBe(firstWeek);
+    await saveGame(recovered);
+    ls.setItem(`wrestlingpath_slot_${slot.id}`, 'null');
+    expect(((await loadGame(slot.id))!.state as { week: number }).week).toBe(firstWeek);
+  });
+
+  it('reports a full store and leaves the previous save intact', async () => {
+    const { engine, slot, secondWeek } = await twoSaves();
+    const ls = g.window!.localStorage;
+    ls.quota = ls.used() + 10_000;
+    const keys = [`wrestlingpath_slot_${slot.id}`, `wrestlingpath_slot_${slot.id}_backup`, 'wrestlingpath_slots'];
+    const before = keys.map((k) => ls.getItem(k));
+    engine.advanceWeek();
+    // Bigger than the whole store, so even dropping the backup can't make room.
+    const result = await saveGame({ ...engine.getState(), story: 'x'.repeat(ls.quota) });
+    expect(result).toEqual({ success: false, message: expect.stringMatching(/storage is full/) });
+    expect(keys.map((k) => ls.getItem(k))).toEqual(before);
+    expect(((await loadGame(slot.id))!.state as { week: number }).week).toBe(secondWeek);
+  });
+
+  it('drops the backup to save a career too big to keep twice', async () => {
+    const { engine, slot } = await twoSaves();
+    const ls = g.window!.localStorage;
+    const story = 'x'.repeat(50_000);
+    // Room for the bigger save, but not for it and a backup of the last one as well.
+    ls.quota = ls.used() + story.length - 1_000;
+    engine.advanceWeek();
+    const result = await saveGame({ ...engine.getState(), story });
+    expect(result).toEqual({ success: true });
+    expect(ls.getItem(`wrestlingpath_slot_${slot.id}_backup`)).toBeNull();
+    const loaded = (await loadGame(slot.id))!;
+    expect(loaded.fromBackup).toBe(false);
+    expect((loaded.state as { week: number }).week).toBe(engine.getState().week);
+    expect(ls.used()).toBeLessThanOrEqual(ls.quota);
+  });
+});
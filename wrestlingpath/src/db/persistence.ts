@@ -1,36 +1,340 @@
 /**
  * Save/Load game state. Deterministic: same seed + same choices => identical outcomes after reload.
  * State includes rngState so RNG continues from correct position.
+ *
+ * Careers live in named save slots: an index of slot metadata plus one key per slot.
+ * The active slot is the one the running game autosaves into.
+ *
+ * Storage goes through a StorageAdapter (IndexedDB or localStorage, see storage.ts). Every write of a slot
+ * or the index keeps the previous good copy under a backup key in the same atomic write, and reads fall
+ * back to that backup when the primary copy is damaged. A slot too big to keep twice in a full store is saved without
+ * its backup rather than not at all.
  */
 
-const STORAGE_KEY = 'wrestlingpath_save';
+import type { UnifiedState } from '@/engine/unified/types';
+import { packSave } from '@/engine/unified/UnifiedEngine';
+import { StorageFullError, getStorage } from './storage';
 
-export function saveGame(state: unknown): void {
+/** Pre-slot single save key; migrated into a slot the first time the index is read. */
+const LEGACY_STORAGE_KEY = 'wrestlingpath_save';
+const SLOT_INDEX_KEY = 'wrestlingpath_slots';
+const ACTIVE_SLOT_KEY = 'wrestlingpath_active_slot';
+const SLOT_KEY_PREFIX = 'wrestlingpath_slot_';
+const BACKUP_SUFFIX = '_backup';
+
+/** Card shown for a slot in the load screen, built from the saved UnifiedState. */
+export interface SaveSlotSummary {
+  name: string;
+  age: number;
+  league: string;
+  collegeName: string | null;
+  weightClass: number;
+  /** Career record, e.g. "24-6". */
+  record: string;
+  year: number;
+  week: number;
+  /** Ironman career (no rewinding). Missing on slots indexed before ironman existed. */
+  ironman?: boolean;
+}
+
+export interface SaveSlotMeta {
+  id: string;
+  /** Player-editable slot name (defaults to the wrestler's name). */
+  label: string;
+  createdAt: number;
+  /** Last time the slot was written (ms since epoch). */
+  lastPlayed: number;
+  summary: SaveSlotSummary;
+}
+
+export type SaveResult = { success: true } | { success: false; message: string };
+
+/** A slot read back from storage; fromBackup means the primary copy was damaged and the last good copy was used. */
+export interface LoadedSave {
+  state: unknown;
+  fromBackup: boolean;
+}
+
+function slotKey(id: string): string {
+  return SLOT_KEY_PREFIX + id;
+}
+
+function newSlotId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/** Summary card fields for a save. Tolerates partial/legacy states. */
+export function buildSlotSummary(state: UnifiedState): SaveSlotSummary {
+  const stats = state.stats ?? ({} as Partial<UnifiedState['stats']>);
+  return {
+    name: state.name ?? 'Wrestler',
+    age: state.age ?? 14,
+    league: state.league ?? 'HS_JV',
+    collegeName: state.collegeName ?? null,
+    weightClass: state.weightClass ?? 145,
+    record: `${stats.matchesWon ?? 0}-${stats.matchesLost ?? 0}`,
+    year: state.year ?? 1,
+    week: state.week ?? 1,
+    ironman: state.ironman === true,
+  };
+}
+
+/** Parse a stored value, or undefined when it's missing or damaged. */
+function parseStored(raw: string | null, valid: (value: unknown) => boolean): unknown {
+  if (raw == null) return undefined;
+  try {
+    const value = JSON.parse(raw);
+    return valid(value) ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function isSave(value: unknown): boolean {
+  return value != null && typeof value === 'object' && typeof (value as UnifiedState).seed === 'string' && typeof (value as UnifiedState).rngState === 'string';
+}
+
+/** Read key, falling back to its backup when the primary is missing or fails to parse. */
+async function readWithBackup(key: string, valid: (value: unknown) => boolean): Promise<{ value: unknown; fromBackup: boolean } | null> {
+  const storage = await getStorage();
+  const primary = parseStored(await storage.get(key), valid);
+  if (primary !== undefined) return { value: primary, fromBackup: false };
+  const backup = parseStored(await storage.get(key + BACKUP_SUFFIX), valid);
+  if (backup !== undefined) {
+    console.warn(`Save data under ${key} was damaged; using the last good backup.`);
+    return { value: backup, fromBackup: true };
+  }
+  return null;
+}
+
+/**
+ * Entries that write value to key and move the current copy to the backup key.
+ * A damaged current copy is not backed up, so the last good backup survives until a good write replaces it.
+ */
+async function withBackup(key: string, value: string, valid: (value: unknown) => boolean): Promise<Record<string, string>> {
+  const storage = await getStorage();
+  const current = await storage.get(key);
+  const entries: Record<string, string> = { [key]: value };
+  if (parseStored(current, valid) !== undefined) entries[key + BACKUP_SUFFIX] = current!;
+  return entries;
+}
+
+/** The slot index. Run it inside `queued` only: the first read migrates the legacy save, and two at once would migrate it twice. */
+async function readIndex(): Promise<SaveSlotMeta[]> {
+  const storage = await getStorage();
+  const read = await readWithBackup(SLOT_INDEX_KEY, Array.isArray);
+  const index = (read?.value as SaveSlotMeta[] | undefined) ?? [];
+  const legacyRaw = await storage.get(LEGACY_STORAGE_KEY);
+  if (legacyRaw) {
+    const legacy = parseStored(legacyRaw, isSave) as UnifiedState | undefined;
+    // Unreadable legacy save: leave it in place rather than lose it.
+    if (legacy) {
+      const now = Date.now();
+      const id = newSlotId();
+      const summary = buildSlotSummary(legacy);
+      index.push({ id, label: summary.name, createdAt: now, lastPlayed: now, summary });
+      const entries = { ...(await indexEntries(index)), [slotKey(id)]: legacyRaw };
+      if (!(await storage.get(ACTIVE_SLOT_KEY))) entries[ACTIVE_SLOT_KEY] = id;
+      try {
+        await storage.putAll(entries);
+        await storage.remove([LEGACY_STORAGE_KEY]);
+      } catch (e) {
+        console.warn('Legacy save migration failed', e);
+        index.pop();
+      }
+    }
+  }
+  return index;
+}
+
+function indexEntries(index: SaveSlotMeta[]): Promise<Record<string, string>> {
+  return withBackup(SLOT_INDEX_KEY, JSON.stringify(index), Array.isArray);
+}
+
+/** Writes run one at a time so overlapping autosaves can't interleave their read-backup-write steps. */
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function queued<T>(write: () => Promise<T>): Promise<T> {
+  const next = writeQueue.then(write, write);
+  writeQueue = next.catch(() => undefined);
+  return next;
+}
+
+function failure(e: unknown): SaveResult {
+  return { success: false, message: e instanceof Error ? e.message : 'Could not save.' };
+}
+
+/** All save slots, most recently played first. */
+export async function listSaveSlots(): Promise<SaveSlotMeta[]> {
+  if (typeof window === 'undefined') return [];
+  return (await queued(readIndex)).sort((a, b) => b.lastPlayed - a.lastPlayed);
+}
+
+export async function getActiveSlotId(): Promise<string | null> {
+  if (typeof window === 'undefined') return null;
+  return queued(activeSlotId);
+}
+
+async function activeSlotId(): Promise<string | null> {
+  const id = await (await getStorage()).get(ACTIVE_SLOT_KEY);
+  if (!id) return null;
+  return (await readIndex()).some((m) => m.id === id) ? id : null;
+}
+
+export async function setActiveSlotId(id: string | null): Promise<void> {
   if (typeof window === 'undefined') return;
+  return queued(async () => {
+    const storage = await getStorage();
+    if (id) await storage.putAll({ [ACTIVE_SLOT_KEY]: id });
+    else await storage.remove([ACTIVE_SLOT_KEY]);
+  });
+}
+
+/** Create a new slot holding state and make it active. Returns its metadata, or null if storage failed. */
+export async function createSaveSlot(state: UnifiedState, label?: string): Promise<SaveSlotMeta | null> {
+  if (typeof window === 'undefined') return null;
+  return queued(() => addSlot(state, label));
+}
+
+async function addSlot(state: UnifiedState, label?: string): Promise<SaveSlotMeta | null> {
   try {
-    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    const index = await readIndex();
+    const now = Date.now();
+    const summary = buildSlotSummary(state);
+    const meta: SaveSlotMeta = { id: newSlotId(), label: label?.trim() || summary.name, createdAt: now, lastPlayed: now, summary };
+    index.push(meta);
+    await (await getStorage()).putAll({
+      ...(await indexEntries(index)),
+      [slotKey(meta.id)]: JSON.stringify(packSave(state)),
+      [ACTIVE_SLOT_KEY]: meta.id,
+    });
+    return meta;
   } catch (e) {
-    console.warn('Save failed', e);
+    console.warn('Create save slot failed', e);
+    return null;
   }
 }
 
-export function loadGame(): unknown {
+export async function renameSaveSlot(id: string, label: string): Promise<boolean> {
+  if (typeof window === 'undefined') return false;
+  const trimmed = label.trim();
+  if (!trimmed) return false;
+  return queued(async () => {
+    const index = await readIndex();
+    const meta = index.find((m) => m.id === id);
+    if (!meta) return false;
+    meta.label = trimmed;
+    try {
+      await (await getStorage()).putAll(await indexEntries(index));
+      return true;
+    } catch (e) {
+      console.warn('Rename save slot failed', e);
+      return false;
+    }
+  });
+}
+
+/**
+ * Copy a slot into a new one (not made active). Returns the copy's metadata, or null on failure.
+ * Ironman careers can't be copied: a copy would be a save point to go back to.
+ */
+export async function duplicateSaveSlot(id: string): Promise<SaveSlotMeta | null> {
+  if (typeof window === 'undefined') return null;
+  return queued(async () => {
+    try {
+      const index = await readIndex();
+      const source = index.find((m) => m.id === id);
+      const read = await readWithBackup(slotKey(id), isSave);
+      if (!source || !read || (read.value as UnifiedState).ironman === true) return null;
+      const now = Date.now();
+      const copy: SaveSlotMeta = { ...source, id: newSlotId(), label: `${source.label} (copy)`, createdAt: now, lastPlayed: now, summary: { ...source.summary } };
+      index.push(copy);
+      await (await getStorage()).putAll({ ...(await indexEntries(index)), [slotKey(copy.id)]: JSON.stringify(read.value) });
+      return copy;
+    } catch (e) {
+      console.warn('Duplicate save slot failed', e);
+      return null;
+    }
+  });
+}
+
+export async function deleteSaveSlot(id: string): Promise<boolean> {
+  if (typeof window === 'undefined') return false;
+  return queued(async () => {
+    const storage = await getStorage();
+    const index = await readIndex();
+    const next = index.filter((m) => m.id !== id);
+    if (next.length === index.length) return false;
+    await storage.putAll(await indexEntries(next));
+    const removed = [slotKey(id), slotKey(id) + BACKUP_SUFFIX];
+    if ((await storage.get(ACTIVE_SLOT_KEY)) === id) removed.push(ACTIVE_SLOT_KEY);
+    await storage.remove(removed);
+    return true;
+  });
+}
+
+/**
+ * Write state into a slot (the active slot by default) and refresh its summary card.
+ * The slot, its backup and the index are written together. When the store is too full for that, the older backup is
+ * dropped to make room for the new save; if it still doesn't fit, nothing changes.
+ */
+export async function saveGame(state: UnifiedState, slotId?: string | null): Promise<SaveResult> {
+  if (typeof window === 'undefined') return { success: false, message: 'Saving is only available in the browser.' };
+  const json = JSON.stringify(packSave(state));
+  return queued(async (): Promise<SaveResult> => {
+    try {
+      const id = slotId ?? (await activeSlotId());
+      if (!id) {
+        return (await addSlot(state)) ? { success: true } : { success: false, message: 'Could not create a save slot.' };
+      }
+      const index = await readIndex();
+      const meta = index.find((m) => m.id === id);
+      const now = Date.now();
+      if (meta) {
+        meta.lastPlayed = now;
+        meta.summary = buildSlotSummary(state);
+      } else {
+        const summary = buildSlotSummary(state);
+        index.push({ id, label: summary.name, createdAt: now, lastPlayed: now, summary });
+      }
+      const storage = await getStorage();
+      const entries = { ...(await withBackup(slotKey(id), json, isSave)), ...(await indexEntries(index)) };
+      try {
+        await storage.putAll(entries);
+      } catch (e) {
+        if (!(e instanceof StorageFullError)) throw e;
+        const backupKey = slotKey(id) + BACKUP_SUFFIX;
+        delete entries[backupKey];
+        await storage.putAll(entries, [backupKey]);
+        console.warn('Storage full: saved without a backup copy.');
+      }
+      return { success: true };
+    } catch (e) {
+      console.warn('Save failed', e);
+      return failure(e);
+    }
+  });
+}
+
+/** Read a slot (the active slot by default), falling back to its last good backup. Null when missing or unreadable. */
+export async function loadGame(slotId?: string | null): Promise<LoadedSave | null> {
   if (typeof window === 'undefined') return null;
   try {
-    const raw = window.localStorage.getItem(STORAGE_KEY);
-    if (!raw) return null;
-    return JSON.parse(raw);
+    const id = slotId ?? (await getActiveSlotId());
+    if (!id) return null;
+    const read = await readWithBackup(slotKey(id), isSave);
+    return read ? { state: read.value, fromBackup: read.fromBackup } : null;
   } catch {
     return null;
   }
 }
 
-export function hasSave(): boolean {
-  if (typeof window === 'undefined') return false;
-  return !!window.localStorage.getItem(STORAGE_KEY);
+export async function hasSave(): Promise<boolean> {
+  return (await listSaveSlots()).length > 0;
 }
 
-export function deleteSave(): void {
-  if (typeof window === 'undefined') return;
-  window.localStorage.removeItem(STORAGE_KEY);
+/** Delete the active slot. */
+export async function deleteSave(): Promise<void> {
+  const id = await getActiveSlotId();
+  if (id) await deleteSaveSlot(id);
 }
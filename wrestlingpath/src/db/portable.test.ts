@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { UnifiedEngine } from '@/engine/unified/UnifiedEngine';
+import { exportSaveFile, exportShareCode, importSave, importSaveFile, importShareCode } from './portable';
+
+function playedState() {
+  const engine = new UnifiedEngine(UnifiedEngine.createState('portable', { name: 'Porter', weightClass: 138 }));
+  engine.applyChoice('train_technique');
+  engine.advanceWeek();
+  return JSON.parse(JSON.stringify(engine.getState()));
+}
+
+describe('portable saves', () => {
+  it('save file round-trips the full state', () => {
+    const state = playedState();
+    const result = importSaveFile(exportSaveFile(state));
+    expect(result.success).toBe(true);
+    if (result.success) expect(result.state).toEqual(state);
+  });
+
+  it('share code round-trips and is smaller than the JSON', async () => {
+    const state = playedState();
+    const code = await exportShareCode(state);
+    expect(code.startsWith('WP1.')).toBe(true);
+    expect(code.length).toBeLessThan(JSON.stringify(state).length);
+    const result = await importShareCode(code);
+    expect(result.success).toBe(true);
+    if (result.success) expect(result.state).toEqual(state);
+  });
+
+  it('rejects an edited save file', () => {
+    const text = exportSaveFile(playedState()).replace(/"money": \d+/, '"money": 999999');
+    const result = importSaveFile(text);
+    expect(result).toEqual({ success: false, message: expect.stringMatching(/checksum/) });
+  });
+
+  it('rejects truncated files and codes with a message', async () => {
+    const state = playedState();
+    const file = exportSaveFile(state);
+    expect(importSaveFile(file.slice(0, file.length / 2)).success).toBe(false);
+    const code = await exportShareCode(state);
+    const cut = code.slice(0, code.length - 20);
+    const r1 = await importShareCode(cut);
+    expect(r1.success).toBe(false);
+    const [prefix, payload, sum] = code.split('.');
+    const r2 = await importShareCode(`${prefix}.${payload.slice(0, payload.length - 12)}.${sum}`);
+    expect(r2.success).toBe(false);
+    if (!r2.success) expect(r2.message.length).toBeGreaterThan(0);
+  });
+
+  it('rejects a share code whose payload was swapped', async () => {
+    const a = await exportShareCode(playedState());
+    const b = await exportShareCode(UnifiedEngine.createState('other', { name: 'Other' }));
+    const tampered = `WP1.${b.split('.')[1]}.${a.split('.')[2]}`;
+    const result = await importShareCode(tampered);
+    expect(result).toEqual({ success: false, message: expect.stringMatching(/checksum/) });
+  });
+
+  it('importSave detects the format and upgrades older saves', async () => {
+    const legacy = playedState();
+    delete legacy.schemaVersion;
+    delete legacy.pendingTournamentPlay;
+    const code = await exportShareCode(legacy);
+    const result = await importSave(`  ${code}\n`);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.state.schemaVersion).toBeGreaterThan(0);
+      expect(result.state.pendingTournamentPlay).toBeNull();
+    }
+    const junk = await importSave('hello');
+    expect(junk.success).toBe(false);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Portable saves: export a career as a JSON file or a compact share code, and import either back.
+ * Both carry a checksum of the state JSON so edited or truncated data is rejected with a readable message.
+ */
+
+import type { UnifiedState } from '@/engine/unified/types';
+import { migrateSave, packSave, type PackedSave } from '@/engine/unified/UnifiedEngine';
+
+const FILE_FORMAT = 'wrestlingpath-save';
+const SHARE_CODE_PREFIX = 'WP1';
+
+export type ImportResult = { success: true; state: UnifiedState } | { success: false; message: string };
+
+/** JSON save file written by exportSaveFile. */
+interface SaveFileEnvelope {
+  format: typeof FILE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  checksum: string;
+  state: PackedSave;
+}
+
+/** FNV-1a 32-bit hash as 8 hex chars. Detects edits and truncation; not meant to stop deliberate forgery. */
+export function checksum(text: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let bin = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(bin).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const b64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const bin = atob(b64 + '='.repeat((4 - (b64.length % 4)) % 4));
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return bytes;
+}
+
+async function deflate(text: string): Promise<Uint8Array> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function inflate(bytes: Uint8Array): Promise<string> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+/** Upgrade and sanity-check an imported state; turns migration errors into a message. */
+function finishImport(state: unknown): ImportResult {
+  try {
+    return { success: true, state: migrateSave(state) };
+  } catch (e) {
+    return { success: false, message: e instanceof Error ? e.message : 'Save data is not a valid career.' };
+  }
+}
+
+/** Full save as pretty JSON text (for a downloadable .json file). */
+export function exportSaveFile(state: UnifiedState): string {
+  const packed = packSave(state);
+  const envelope: SaveFileEnvelope = {
+    format: FILE_FORMAT,
+    schemaVersion: state.schemaVersion,
+    exportedAt: new Date().toISOString(),
+    checksum: checksum(JSON.stringify(packed)),
+    state: packed,
+  };
+  return JSON.stringify(envelope, null, 2);
+}
+
+export function importSaveFile(text: string): ImportResult {
+  let parsed: Partial<SaveFileEnvelope>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { success: false, message: 'That file is not valid JSON — it may be incomplete.' };
+  }
+  if (parsed == null || parsed.format !== FILE_FORMAT || parsed.state == null) {
+    return { success: false, message: 'That file is not a WrestlingPath save export.' };
+  }
+  if (parsed.checksum !== checksum(JSON.stringify(parsed.state))) {
+    return { success: false, message: 'Save file failed its checksum — it was edited or damaged.' };
+  }
+  return finishImport(parsed.state);
+}
+
+/** Compact text code: "WP1.<deflated state, base64url>.<checksum>". */
+export async function exportShareCode(state: UnifiedState): Promise<string> {
+  const stateJson = JSON.stringify(packSave(state));
+  return `${SHARE_CODE_PREFIX}.${toBase64Url(await deflate(stateJson))}.${checksum(stateJson)}`;
+}
+
+export async function importShareCode(code: string): Promise<ImportResult> {
+  const parts = code.replace(/\s+/g, '').split('.');
+  if (parts.length !== 3 || parts[0] !== SHARE_CODE_PREFIX) {
+    return { success: false, message: 'That is not a WrestlingPath share code (it should start with "WP1.").' };
+  }
+  const [, payload, sum] = parts;
+  if (!/^[0-9a-f]{8}$/.test(sum)) {
+    return { success: false, message: 'Share code is missing its checksum — it was probably cut off when copying.' };
+  }
+  let stateJson: string;
+  try {
+    stateJson = await inflate(fromBase64Url(payload));
+  } catch {
+    return { success: false, message: 'Share code is incomplete or corrupted — copy the whole code and try again.' };
+  }
+  if (checksum(stateJson) !== sum) {
+    return { success: false, message: 'Share code failed its checksum — it was changed or copied incompletely.' };
+  }
+  let state: unknown;
+  try {
+    state = JSON.parse(stateJson);
+  } catch {
+    return { success: false, message: 'Share code is incomplete or corrupted — copy the whole code and try again.' };
+  }
+  return finishImport(state);
+}
+
+/** Accepts either a save file's text or a share code. */
+export async function importSave(text: string): Promise<ImportResult> {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) return importSaveFile(trimmed);
+  return importShareCode(trimmed);
+}
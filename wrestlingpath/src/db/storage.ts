@@ -0,0 +1,184 @@
+/**
+ * Storage backends for saves. persistence.ts talks only to StorageAdapter, so slots can live in
+ * IndexedDB (large quota, used when available) or localStorage (fallback, ~5 MB per site).
+ *
+ * putAll is atomic in both backends: every entry is written or none are, so a slot and its backup
+ * (or a slot and the slot index) never end up half-updated.
+ */
+
+/** Keys owned by the game; used when moving existing localStorage saves into IndexedDB. */
+export const STORAGE_KEY_PREFIX = 'wrestlingpath_';
+
+const IDB_NAME = 'wrestlingpath';
+const IDB_STORE = 'kv';
+
+export interface StorageAdapter {
+  readonly kind: 'indexedDB' | 'localStorage';
+  get(key: string): Promise<string | null>;
+  /**
+   * Write all entries, and delete removeKeys, in one atomic step. Throws an Error with a player-readable message on
+   * failure; a full store throws StorageFullError.
+   */
+  putAll(entries: Record<string, string>, removeKeys?: string[]): Promise<void>;
+  remove(keys: string[]): Promise<void>;
+  /** All keys starting with prefix. */
+  keys(prefix: string): Promise<string[]>;
+}
+
+/** The browser refused a write because its storage quota is used up. */
+export class StorageFullError extends Error {}
+
+/** Turn a browser storage exception into a message the save screen can show. */
+function storageError(e: unknown, kind: StorageAdapter['kind']): Error {
+  const name = e instanceof DOMException || e instanceof Error ? e.name : '';
+  if (name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED') {
+    return new StorageFullError(
+      kind === 'localStorage'
+        ? 'Browser storage is full — this career is too large to save here. Delete or export old careers to free space.'
+        : 'Browser storage is full — delete or export old careers to free space.'
+    );
+  }
+  return new Error(`Could not write to browser storage (${kind}).`);
+}
+
+export function createLocalStorageAdapter(): StorageAdapter {
+  return {
+    kind: 'localStorage',
+    async get(key) {
+      return window.localStorage.getItem(key);
+    },
+    async putAll(entries, removeKeys = []) {
+      const ls = window.localStorage;
+      const previous = new Map<string, string | null>();
+      try {
+        // Removals first, so the space they free is there for the writes.
+        for (const key of removeKeys) {
+          previous.set(key, ls.getItem(key));
+          ls.removeItem(key);
+        }
+        for (const [key, value] of Object.entries(entries)) {
+          if (!previous.has(key)) previous.set(key, ls.getItem(key));
+          ls.setItem(key, value);
+        }
+      } catch (e) {
+        // Roll back what was written, newest first so restored values fit, and the slot and its backup stay consistent.
+        for (const [key, value] of [...previous].reverse()) {
+          if (value == null) ls.removeItem(key);
+          else ls.setItem(key, value);
+        }
+        throw storageError(e, 'localStorage');
+      }
+    },
+    async remove(keys) {
+      for (const key of keys) window.localStorage.removeItem(key);
+    },
+    async keys(prefix) {
+      const ls = window.localStorage;
+      const out: string[] = [];
+      for (let i = 0; i < ls.length; i++) {
+        const key = ls.key(i);
+        if (key != null && key.startsWith(prefix)) out.push(key);
+      }
+      return out;
+    },
+  };
+}
+
+function idbRequest<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function idbDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+function openIndexedDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(IDB_NAME, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(IDB_STORE);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+    req.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab.'));
+  });
+}
+
+export async function createIndexedDBAdapter(): Promise<StorageAdapter> {
+  const db = await openIndexedDB();
+  return {
+    kind: 'indexedDB',
+    async get(key) {
+      const value = await idbRequest(db.transaction(IDB_STORE, 'readonly').objectStore(IDB_STORE).get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    async putAll(entries, removeKeys = []) {
+      try {
+        const tx = db.transaction(IDB_STORE, 'readwrite');
+        const store = tx.objectStore(IDB_STORE);
+        for (const key of removeKeys) store.delete(key);
+        for (const [key, value] of Object.entries(entries)) store.put(value, key);
+        await idbDone(tx);
+      } catch (e) {
+        throw storageError(e, 'indexedDB');
+      }
+    },
+    async remove(keys) {
+      const tx = db.transaction(IDB_STORE, 'readwrite');
+      const store = tx.objectStore(IDB_STORE);
+      for (const key of keys) store.delete(key);
+      await idbDone(tx);
+    },
+    async keys(prefix) {
+      const all = await idbRequest(db.transaction(IDB_STORE, 'readonly').objectStore(IDB_STORE).getAllKeys());
+      return all.map(String).filter((k) => k.startsWith(prefix));
+    },
+  };
+}
+
+/** Copy saves written before IndexedDB existed into it, then clear them from localStorage. */
+async function moveLocalStorageSaves(target: StorageAdapter): Promise<void> {
+  const local = createLocalStorageAdapter();
+  const keys = await local.keys(STORAGE_KEY_PREFIX);
+  if (keys.length === 0) return;
+  const entries: Record<string, string> = {};
+  for (const key of keys) {
+    // Never overwrite something IndexedDB already has (e.g. another tab moved it first).
+    const value = await local.get(key);
+    if (value != null && (await target.get(key)) == null) entries[key] = value;
+  }
+  await target.putAll(entries);
+  await local.remove(keys);
+}
+
+let adapterPromise: Promise<StorageAdapter> | null = null;
+
+/** The storage backend in use: IndexedDB when the browser allows it, otherwise localStorage. */
+export function getStorage(): Promise<StorageAdapter> {
+  if (!adapterPromise) {
+    adapterPromise = (async () => {
+      if (typeof indexedDB !== 'undefined') {
+        try {
+          const idb = await createIndexedDBAdapter();
+          await moveLocalStorageSaves(idb);
+          return idb;
+        } catch (e) {
+          // Private browsing and some embedded browsers refuse IndexedDB; localStorage still works there.
+          console.warn('IndexedDB unavailable, saving to localStorage', e);
+        }
+      }
+      return createLocalStorageAdapter();
+    })();
+  }
+  return adapterPromise;
+}
+
+/** Force a backend (tests, or a future settings toggle). Pass null to go back to auto-detection. */
+export function setStorage(adapter: StorageAdapter | null): void {
+  adapterPromise = adapter ? Promise.resolve(adapter) : null;
+}
@@ -4,7 +4,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { simEliteMatch } from './EliteMatchSim';
+import { decisionMethod, OVERTIME_PERIODS, simEliteMatch } from './EliteMatchSim';
 import { SeededRNG } from './SeededRNG';
 
 const N = 10_000;
@@ -75,3 +75,19 @@ describe('EliteMatchSim validation (Monte Carlo 10k)', () => {
     expect(rate).toBeLessThanOrEqual(0.55);
   });
 });
+
+describe('EliteMatchSim overtime decisions', () => {
+  it('sends close decisions to overtime stages far more often than lopsided ones', () => {
+    const overtimeShare = (gap: number) => {
+      const methods = Array.from({ length: 2000 }, (_, i) => decisionMethod(gap, new SeededRNG(`ot-${gap}-${i}`)));
+      expect(methods.every((m) => m === 'Dec' || (OVERTIME_PERIODS as string[]).includes(m))).toBe(true);
+      return methods.filter((m) => m !== 'Dec').length / methods.length;
+    };
+    const even = overtimeShare(0);
+    expect(even).toBeGreaterThan(0.12);
+    expect(even).toBeLessThan(0.28);
+    expect(overtimeShare(30)).toBeLessThan(0.03);
+    const stages = new Set(Array.from({ length: 3000 }, (_, i) => decisionMethod(0, new SeededRNG(`ot-stage-${i}`))));
+    expect([...stages].sort()).toEqual(['Dec', ...OVERTIME_PERIODS].sort());
+  });
+});
@@ -111,6 +111,31 @@ export function eliteFloor(baseGap: number, favoriteBase: number, underdogBase:
   return null;
 }
 
+/** Folkstyle overtime stages, in order: sudden victory, 30-second tiebreaker rideouts, second sudden victory, ultimate tiebreaker. */
+export type OvertimePeriod = 'SV-1' | 'TB-1' | 'SV-2' | 'UTB';
+
+export const OVERTIME_PERIODS: readonly OvertimePeriod[] = ['SV-1', 'TB-1', 'SV-2', 'UTB'];
+
+/** Share of decisions tied after regulation between evenly matched wrestlers; falls off as the effective gap grows. */
+const OVERTIME_SHARE = 0.2;
+/** Where overtime bouts end: most in the first sudden victory, a few all the way to the ultimate tiebreaker. */
+const OVERTIME_STAGE_WEIGHTS: Record<OvertimePeriod, number> = { 'SV-1': 0.6, 'TB-1': 0.25, 'SV-2': 0.1, UTB: 0.05 };
+
+/**
+ * Method for a simulated decision: 'Dec', or the overtime stage that settled it ("SV-1", "TB-1", "SV-2", "UTB").
+ * Close matches go to overtime more often, so played and simulated bouts report the same methods.
+ */
+export function decisionMethod(effectiveGap: number, rng: SeededRNG): string {
+  const pOvertime = OVERTIME_SHARE * Math.exp(-Math.abs(effectiveGap) / 10);
+  if (rng.float() >= pOvertime) return 'Dec';
+  let roll = rng.float();
+  for (const stage of OVERTIME_PERIODS) {
+    roll -= OVERTIME_STAGE_WEIGHTS[stage];
+    if (roll < 0) return stage;
+  }
+  return 'UTB';
+}
+
 export interface EliteMatchInput {
   /** Player A (e.g. "player") base rating, energy, injury [0,1], composure 0-100 */
   baseA: number;
@@ -190,7 +215,7 @@ export function simEliteMatch(input: EliteMatchInput, rng: SeededRNG, constants
   }
 
   const won = rng.float() < pA;
-  const method = won ? (rng.float() < 0.3 ? 'Fall' : rng.float() < 0.5 ? 'Tech' : 'Dec') : 'Dec';
+  const method = won ? (rng.float() < 0.3 ? 'Fall' : rng.float() < 0.5 ? 'Tech' : decisionMethod(diff, rng)) : decisionMethod(diff, rng);
 
   let upsetLogLine: string | null = null;
   const underdogWon = (won && !aIsFavorite) || (!won && aIsFavorite);
@@ -0,0 +1,312 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createInitialMinigameState,
+  resolveExchange,
+  DEFAULT_OUT_KEY,
+  INJURY_TIMEOUT_KEY,
+  RIDING_TIME_POINT_SECONDS,
+  formatScoringEvent,
+  actionKeysFor,
+  methodForRuleSet,
+  simulatedScore,
+  generateExchangePrompt,
+  SCOUTING_EDGE,
+  type MatchMinigameState,
+  type MatchPosition,
+  type MinigameWrestler,
+  type ExchangeResolution,
+} from './MatchMinigame';
+import { SeededRNG } from './SeededRNG';
+
+function wrestler(name: string, injurySeverity = 0): MinigameWrestler {
+  return { name, overallRating: 70, technique: 70, matIQ: 70, conditioning: 70, strength: 70, speed: 70, flexibility: 70, energy: 30, injurySeverity };
+}
+
+/** First seeded exchange from `state` that matches, so the test doesn't hang on one lucky seed. */
+function findExchange(state: MatchMinigameState, actionKey: string, match: (r: ExchangeResolution) => boolean): ExchangeResolution {
+  for (let i = 0; i < 2000; i++) {
+    const res = resolveExchange(state, actionKey, new SeededRNG(`minigame-injury-${i}`));
+    if (match(res)) return res;
+  }
+  throw new Error('No seed produced the exchange');
+}
+
+describe('MatchMinigame – injury default, medical forfeit and DQ', () => {
+  it('stops for injury timeout vs default out when an exchange hurts you past the threshold', () => {
+    const start = createInitialMinigameState(wrestler('You', 0.38), wrestler('Them'));
+    const hurt = findExchange(start, 'blast_double', (r) => !!r.logEntry.injured && !r.state.illegalInjury);
+    expect(hurt.state.injuryDecision).toBe(true);
+    expect(hurt.state.finished).toBe(false);
+    expect(hurt.nextPrompt?.options.map((o) => o.key)).toEqual([INJURY_TIMEOUT_KEY, DEFAULT_OUT_KEY]);
+
+    const out = resolveExchange(hurt.state, DEFAULT_OUT_KEY, new SeededRNG('default'));
+    expect(out.state.finished).toBe(true);
+    expect(out.state.result).toMatchObject({ won: false, method: 'Inj. Default', defaultedBy: 'me' });
+    expect(out.nextPrompt).toBeNull();
+
+    // Letting the timer run out takes the timeout: wrapped, same period, and no second timeout
+    const taped = resolveExchange(hurt.state, 'hesitate', new SeededRNG('timeout'), {}, { timedOut: true });
+    expect(taped.state.finished).toBe(false);
+    expect(taped.state.injuryDecision).toBe(false);
+    expect(taped.state.myInjuryTimeoutUsed).toBe(true);
+    expect(taped.state.my.wrapped).toBe(true);
+    expect(taped.state.period).toBe(hurt.state.period);
+    const chosen = taped.state.positionChoice ? resolveExchange(taped.state, 'choose_neutral', new SeededRNG('choice')) : taped;
+    expect(chosen.nextPrompt?.prompt).toContain('Wrapped');
+
+    const wrestling = chosen.state;
+    const again = findExchange(wrestling, 'snap_go_behind', (r) => !!r.logEntry.injured && !r.state.illegalInjury);
+    expect(again.state.result).toMatchObject({ won: false, method: 'Inj. Default', defaultedBy: 'me' });
+  });
+
+  it('lets opponents get hurt and default', () => {
+    const start = { ...createInitialMinigameState(wrestler('You'), wrestler('Them', 0.5)), oppInjuryTimeoutUsed: true };
+    const res = findExchange(start, 'blast_double', (r) => !!r.logEntry.oppInjured && !r.state.illegalInjury);
+    expect(res.state.finished).toBe(true);
+    expect(res.state.result).toMatchObject({ won: true, method: 'Inj. Default', defaultedBy: 'opp' });
+
+    const first = createInitialMinigameState(wrestler('You'), wrestler('Them', 0.38));
+    const timeout = findExchange(first, 'blast_double', (r) => !!r.logEntry.oppInjured && !r.state.illegalInjury && r.state.opp.injurySeverity < 0.6);
+    expect(timeout.state.finished).toBe(false);
+    expect(timeout.state.oppInjuryTimeoutUsed).toBe(true);
+  });
+
+  it('checks for an injury default on the last exchange of the match too', () => {
+    const last = { ...createInitialMinigameState(wrestler('You'), wrestler('Them', 0.5)), period: 3, oppInjuryTimeoutUsed: true } as MatchMinigameState;
+    const res = findExchange(last, 'blast_double', (r) => !!r.logEntry.oppInjured && !r.state.illegalInjury);
+    expect(res.state.result).toMatchObject({ won: true, method: 'Inj. Default', defaultedBy: 'opp' });
+  });
+
+  it('sends a hurt wrestler\'s illegal-hold call through the referee', () => {
+    const start = createInitialMinigameState(wrestler('You', 0.38), wrestler('Them'));
+    const res = findExchange(start, 'blast_double', (r) => !!r.logEntry.injured && !!r.state.illegalInjury);
+    expect(res.state.illegalInjury).toBe('me');
+    expect(res.logEntry.referee).toContainEqual(expect.objectContaining({ kind: 'illegal_hold', on: 'opp', hurt: true }));
+    expect(res.state.referee!.opp.cautions).toBeGreaterThan(0);
+  });
+
+  it('awards the match by DQ to a wrestler hurt by an illegal move who cannot continue', () => {
+    const hurt: MatchMinigameState = { ...createInitialMinigameState(wrestler('You', 0.45), wrestler('Them')), injuryDecision: true, illegalInjury: 'me' };
+    const res = resolveExchange(hurt, DEFAULT_OUT_KEY, new SeededRNG('dq'));
+    expect(res.state.result).toMatchObject({ won: true, method: 'DQ', defaultedBy: 'me' });
+  });
+});
+
+describe('MatchMinigame – folkstyle scoring', () => {
+  const at = (position: MatchPosition, extra: Partial<MatchMinigameState> = {}): MatchMinigameState => ({
+    ...createInitialMinigameState(wrestler('You'), wrestler('Them'), position),
+    ...extra,
+  });
+
+  it('scores escapes, reversals and near-falls by back exposure', () => {
+    const escape = findExchange(at('BOTTOM'), 'explosion_standup', (r) => r.logEntry.success);
+    expect(escape.logEntry.scoring).toEqual([{ move: 'escape', by: 'me', points: 1 }]);
+    expect(escape.state.position).toBe('NEUTRAL');
+
+    const reversal = findExchange(at('BOTTOM'), 'sit_out_turn', (r) => r.logEntry.success);
+    expect(reversal.logEntry.scoring).toEqual([{ move: 'reversal', by: 'me', points: 2 }]);
+    expect(reversal.state.position).toBe('TOP');
+
+    for (const seconds of [3, 7, 11]) {
+      const turn = findExchange(at('TOP'), 'tilt_turn', (r) => r.logEntry.scoring?.[0]?.seconds === seconds);
+      const nearFall = turn.logEntry.scoring![0]!;
+      expect(nearFall).toMatchObject({ move: 'near_fall', by: 'me' });
+      expect(formatScoringEvent(nearFall)).toBe(seconds >= 10 ? 'N4' : seconds >= 5 ? 'N3' : 'N2');
+    }
+
+    const caught = findExchange(at('BOTTOM'), 'sit_out_turn', (r) => !r.logEntry.success);
+    expect(caught.logEntry.scoring![0]).toMatchObject({ move: 'near_fall', by: 'opp' });
+    expect(caught.state.oppScore).toBe(caught.logEntry.scoring![0]!.points);
+  });
+
+  it('awards a riding time point for a minute or more of net time on top', () => {
+    const ride = findExchange(at('TOP', { period: 3, ridingTime: 20 }), 'tight_waist_ride', (r) => r.logEntry.success && !r.logEntry.injured);
+    expect(ride.state.ridingTime).toBeGreaterThanOrEqual(RIDING_TIME_POINT_SECONDS);
+    expect(ride.logEntry.scoring).toContainEqual({ move: 'riding_time', by: 'me', points: 1 });
+    expect(ride.state.myScore).toBe(1);
+
+    const short = findExchange(at('NEUTRAL', { period: 3, ridingTime: 30 }), 'snap_go_behind', (r) => !r.logEntry.success && !r.logEntry.injured);
+    expect(short.logEntry.scoring).toEqual([]);
+  });
+
+  it('lets the coin-toss winner choose or defer at the start of period 2, and the other wrestler choose period 3', () => {
+    const start = findExchange(at('NEUTRAL'), 'snap_go_behind', (r) => r.state.coinToss === 'me' && !r.logEntry.injured && !r.logEntry.oppInjured);
+    expect(start.state.positionChoice).toBe(true);
+    expect(start.nextPrompt?.options.map((o) => o.key)).toEqual(['choose_top', 'choose_bottom', 'choose_neutral', 'choose_defer']);
+
+    const bottom = resolveExchange(start.state, 'choose_bottom', new SeededRNG('pick'));
+    expect(bottom.state.position).toBe('BOTTOM');
+    expect(bottom.logEntry.actionLabel).toBe('Chose bottom');
+    const p3 = findExchange(bottom.state, 'controlled_reset', (r) => !r.logEntry.injured && !r.logEntry.oppInjured);
+    expect(p3.state.period).toBe(3);
+    expect(p3.state.positionChoice).toBeFalsy();
+    expect(p3.logEntry.notes.some((n) => n.startsWith('They chose'))).toBe(true);
+
+    const deferred = resolveExchange(start.state, 'choose_defer', new SeededRNG('defer'));
+    expect(deferred.state.deferred).toBe(true);
+    expect(deferred.state.positionChoice).toBe(false);
+    const mine = findExchange(deferred.state, 'hesitate', (r) => !r.logEntry.injured && !r.logEntry.oppInjured);
+    expect(mine.state.positionChoice).toBe(true);
+    expect(mine.nextPrompt?.options.map((o) => o.key)).not.toContain('choose_defer');
+    expect(resolveExchange(mine.state, 'hesitate', new SeededRNG('late'), {}, { timedOut: true }).state.position).toBe('NEUTRAL');
+  });
+});
+
+describe('MatchMinigame – overtime', () => {
+  const quiet = (r: ExchangeResolution) => !r.logEntry.injured && !r.logEntry.oppInjured;
+  const ot = (extra: Partial<MatchMinigameState>): MatchMinigameState => ({
+    ...createInitialMinigameState(wrestler('You'), wrestler('Them')),
+    period: 3,
+    ...extra,
+  });
+
+  it('goes to sudden victory when regulation ends tied, and the first score wins it', () => {
+    const tied = findExchange(ot({ myScore: 3, oppScore: 3 }), 'snap_go_behind', (r) => quiet(r) && r.logEntry.scoring!.length === 0);
+    expect(tied.state.finished).toBe(false);
+    expect(tied.state.overtime).toBe('SV-1');
+    expect(tied.nextPrompt).toMatchObject({ overtime: 'SV-1', position: 'NEUTRAL' });
+    expect(tied.nextPrompt?.prompt).toContain('Sudden victory');
+
+    const sv = findExchange(tied.state, 'snap_go_behind', (r) => quiet(r) && r.logEntry.success);
+    expect(sv.logEntry.overtime).toBe('SV-1');
+    expect(sv.state.result).toMatchObject({ won: true, method: 'SV-1', myScore: 5, oppScore: 3 });
+    expect(sv.nextPrompt).toBeNull();
+  });
+
+  it('plays TB-1 as two rideouts chosen by the first scorer', () => {
+    const scoreless = findExchange(ot({ overtime: 'SV-1', firstScore: 'me' }), 'snap_go_behind', (r) => quiet(r) && r.logEntry.scoring!.length === 0);
+    expect(scoreless.state.overtime).toBe('TB-1');
+    expect(scoreless.nextPrompt?.options.map((o) => o.key)).toEqual(['choose_top', 'choose_bottom']);
+
+    const bottom = resolveExchange(scoreless.state, 'hesitate', new SeededRNG('tb-choice'), {}, { timedOut: true });
+    expect(bottom.state.position).toBe('BOTTOM');
+    const escaped = findExchange(bottom.state, 'explosion_standup', (r) => quiet(r) && r.logEntry.success && r.logEntry.scoring!.length === 1);
+    expect(escaped.state.tiebreak).toMatchObject({ rideouts: 1, me: 1, opp: 0 });
+    expect(escaped.state.position).toBe('TOP');
+    const rode = findExchange(escaped.state, 'tight_waist_ride', (r) => quiet(r) && r.logEntry.success && r.logEntry.scoring!.length === 0);
+    expect(rode.state.result).toMatchObject({ won: true, method: 'TB-1' });
+
+    // Both ride each other out with no points: second sudden victory
+    const even = ot({ overtime: 'TB-1', position: 'BOTTOM', tiebreak: { rideouts: 1, me: 0, opp: 0, rodeOut: { me: true, opp: false } } });
+    const sv2 = findExchange(even, 'controlled_reset', (r) => quiet(r) && r.logEntry.scoring!.length === 0);
+    expect(sv2.state.overtime).toBe('SV-2');
+    expect(sv2.state.position).toBe('NEUTRAL');
+  });
+
+  it('settles the ultimate tiebreaker on whether the bottom wrestler gets out', () => {
+    const utb = ot({ overtime: 'UTB', position: 'BOTTOM' });
+    const out = findExchange(utb, 'explosion_standup', (r) => quiet(r) && r.logEntry.success);
+    expect(out.state.result).toMatchObject({ won: true, method: 'UTB' });
+    const ridden = findExchange(utb, 'controlled_reset', (r) => quiet(r) && r.logEntry.scoring!.length === 0);
+    expect(ridden.state.result).toMatchObject({ won: false, method: 'UTB' });
+  });
+});
+
+describe('MatchMinigame – referee', () => {
+  const onBottom = (stalls: number): MatchMinigameState => {
+    const state = createInitialMinigameState(wrestler('You'), wrestler('Them'), 'BOTTOM', 1);
+    return { ...state, referee: { ...state.referee!, me: { pace: 3, stalls, cautions: 0 } } };
+  };
+
+  it('turns stalling calls into penalty points for the opponent', () => {
+    const res = findExchange(onBottom(1), 'controlled_reset', (r) => !!r.logEntry.referee?.some((c) => c.kind === 'stalling' && c.on === 'me'));
+    expect(res.state.referee!.me.stalls).toBe(2);
+    expect(res.logEntry.scoring).toContainEqual({ move: 'penalty', by: 'opp', points: 1 });
+    expect(res.logEntry.notes).toContain('Stalling — 1 point on you.');
+  });
+
+  it('disqualifies a wrestler on the fifth stalling call', () => {
+    const res = findExchange(onBottom(4), 'controlled_reset', (r) => !!r.logEntry.referee?.some((c) => c.dq) && !r.logEntry.injured && !r.logEntry.oppInjured);
+    expect(res.state.finished).toBe(true);
+    expect(res.state.result).toMatchObject({ won: false, method: 'DQ' });
+    expect(res.nextPrompt).toBeNull();
+  });
+});
+
+describe('MatchMinigame – freestyle and Greco-Roman', () => {
+  const quiet = (r: ExchangeResolution) => !r.logEntry.injured && !r.logEntry.oppInjured && !r.logEntry.referee;
+  const intl = (ruleSet: 'freestyle' | 'greco', extra: Partial<MatchMinigameState> = {}): MatchMinigameState => ({
+    ...createInitialMinigameState(wrestler('You'), wrestler('Them'), 'NEUTRAL', undefined, ruleSet),
+    ...extra,
+  });
+
+  it('has its own catalog per style, with no leg attacks in Greco', () => {
+    expect(actionKeysFor('freestyle', 'NEUTRAL')).toContain('low_single');
+    expect(actionKeysFor('freestyle', 'TOP')).toEqual(expect.arrayContaining(['gut_wrench', 'leg_lace']));
+    expect(actionKeysFor('greco', 'NEUTRAL')).toEqual(['body_lock', 'arm_drag', 'headlock_throw', 'push_out', 'hesitate']);
+    expect(actionKeysFor('greco', 'TOP')).not.toContain('leg_lace');
+    expect(actionKeysFor('folkstyle', 'NEUTRAL')).toContain('blast_double');
+  });
+
+  it('keeps par terre going within the period and ends at a 10-point lead', () => {
+    const takedown = findExchange(intl('freestyle'), 'low_single', (r) => quiet(r) && r.logEntry.success);
+    expect(takedown.state.position).toBe('TOP');
+    expect(takedown.state.period).toBe(1);
+    expect(takedown.nextPrompt?.prompt).toContain('Par terre top');
+
+    const roll = findExchange(intl('freestyle', { position: 'TOP', myScore: 8 }), 'gut_wrench', (r) => quiet(r) && r.logEntry.success);
+    expect(roll.logEntry.scoring).toEqual([{ move: 'exposure', by: 'me', points: 2 }]);
+    expect(roll.state.result).toMatchObject({ won: true, method: 'Tech', myScore: 10 });
+  });
+
+  it('wrestles two periods and breaks ties on criteria', () => {
+    const p1 = findExchange(intl('freestyle'), 'push_out', (r) => quiet(r) && !r.logEntry.success);
+    expect(p1.state.period).toBe(2);
+    expect(p1.state.positionChoice).toBeFalsy();
+    const p2 = findExchange({ ...p1.state, myScore: 3 }, 'push_out', (r) => quiet(r) && !r.logEntry.success);
+    expect(p2.state.result).toMatchObject({ won: true, method: 'Dec' });
+
+    // Your 4-point throw beats their two takedowns on criteria
+    const thrown = findExchange(intl('greco'), 'headlock_throw', (r) => quiet(r) && r.logEntry.success && !r.state.finished);
+    const tied = { ...thrown.state, period: 2 as const, position: 'NEUTRAL' as const, oppScore: 4, parTerre: 0 };
+    const end = findExchange(tied, 'arm_drag', (r) => quiet(r) && !r.logEntry.success);
+    expect(end.state.result).toMatchObject({ won: true, method: 'Criteria', myScore: 4, oppScore: 4 });
+  });
+
+  it('reports simulated overtime results as criteria outside folkstyle', () => {
+    expect(methodForRuleSet('SV-1', 'folkstyle')).toBe('SV-1');
+    expect(methodForRuleSet('TB-1', 'greco')).toBe('Criteria');
+    expect(methodForRuleSet('Major', 'freestyle')).toBe('Dec');
+    expect(methodForRuleSet('Fall', 'freestyle')).toBe('Fall');
+  });
+
+  it('gives simulated results a score inside the margins of their method', () => {
+    const rng = new SeededRNG('sim-scores');
+    for (let i = 0; i < 50; i++) {
+      const dec = simulatedScore('Dec', 'folkstyle', rng)!;
+      expect(dec.winner - dec.loser).toBeGreaterThanOrEqual(1);
+      expect(dec.winner - dec.loser).toBeLessThan(8);
+      const major = simulatedScore('Major', 'folkstyle', rng)!;
+      expect(major.winner - major.loser).toBeGreaterThanOrEqual(8);
+      expect(major.winner - major.loser).toBeLessThan(15);
+      const tech = simulatedScore('Tech', 'freestyle', rng)!;
+      expect(tech.winner - tech.loser).toBeGreaterThanOrEqual(10);
+      const criteria = simulatedScore('Criteria', 'greco', rng)!;
+      expect(criteria.winner).toBe(criteria.loser);
+    }
+    expect(simulatedScore('SV-1', 'folkstyle', rng)).toMatchObject({ winner: expect.any(Number) });
+    expect(simulatedScore('Fall', 'folkstyle', rng)).toBeUndefined();
+  });
+});
+
+describe('MatchMinigame – scouting', () => {
+  const vs = (scouted: boolean) => createInitialMinigameState(wrestler('You'), { ...wrestler('Them'), energy: 80, style: 'grinder', scouted });
+
+  it('flags the answers to a scouted opponent and gives them the edge when it matches', () => {
+    const prompt = generateExchangePrompt(vs(true));
+    expect(prompt.prompt).toContain('Scouting report: they keep chaining shots');
+    expect(prompt.options.filter((o) => o.scouted).map((o) => o.key)).toEqual(['snap_go_behind', 'counter_sprawl']);
+    expect(generateExchangePrompt(vs(false)).options.some((o) => o.scouted)).toBe(false);
+
+    const sprawl = findExchange(vs(true), 'counter_sprawl', (r) => r.logEntry.oppIntent === 'attack');
+    expect(sprawl.logEntry.notes).toContain('Just like the film — you saw it coming.');
+    expect(SCOUTING_EDGE).toBeGreaterThan(0);
+
+    const successes = (scouted: boolean) => {
+      let n = 0;
+      for (let i = 0; i < 400; i++) if (resolveExchange(vs(scouted), 'counter_sprawl', new SeededRNG(`scout-${i}`)).logEntry.success) n++;
+      return n;
+    };
+    expect(successes(true)).toBeGreaterThan(successes(false));
+  });
+});
@@ -1,5 +1,19 @@
 import { SeededRNG } from './SeededRNG';
-import { fatiguePenalty, injuryPenalty, logisticWinProb, simEliteMatch } from './EliteMatchSim';
+import { fatiguePenalty, injuryPenalty, logisticWinProb, OVERTIME_PERIODS, type OvertimePeriod } from './EliteMatchSim';
+
+import { copyRefereeState, createRefereeState, officiateExchange, type ExchangeConduct, type RefereeCall, type RefereeState } from './Referee';
+import {
+  chooseOpponentIntent,
+  DEFAULT_OPPONENT_STYLE,
+  describeOpponentRead,
+  likelyOpponentIntent,
+  OPPONENT_INTENT_EFFECTS,
+  type OpponentIntent,
+  type OpponentSituation,
+  type OpponentStyle,
+} from './OpponentAI';
+
+export type { OvertimePeriod } from './EliteMatchSim';
 
 export type MatchPosition = 'NEUTRAL' | 'TOP' | 'BOTTOM';
 
@@ -16,14 +30,52 @@ export interface MinigameWrestler {
   energy: number;
   /** 0–1 normalized severity */
   injurySeverity: number;
+  /** 0–1 severity of the weight cut to make this match; drains extra energy and health every exchange. */
+  cutSeverity?: number;
+  /** Wrestling wrapped on an injury: high-risk attacks are left out of the prompts. */
+  wrapped?: boolean;
+  /** Opponents only: how they wrestle (default grinder) and how they hold up late in close matches (0–100, default 50). */
+  style?: OpponentStyle;
+  clutch?: number;
+  /** Opponents only: you've studied film on them, so answers to their tendencies get SCOUTING_EDGE. */
+  scouted?: boolean;
 }
 
+/** Rule sets the minigame can be wrestled under: US folkstyle, or the international styles (no leg attacks in Greco). */
+export type RuleSet = 'folkstyle' | 'freestyle' | 'greco';
+
+/** Scoring moves, as written on a bout sheet. Exposures, step-outs, passivity and throws are international only. */
+export type ScoringMove =
+  | 'takedown'
+  | 'escape'
+  | 'reversal'
+  | 'near_fall'
+  | 'penalty'
+  | 'riding_time'
+  | 'exposure'
+  | 'step_out'
+  | 'passivity'
+  | 'throw';
+
+export interface ScoringEvent {
+  move: ScoringMove;
+  by: 'me' | 'opp';
+  points: number;
+  /** Back exposure in seconds, for near-falls. */
+  seconds?: number;
+}
+
+/** Who starts a period in which position: the chooser picks top, bottom or neutral, or defers (period 2 only). */
+export type PeriodChoice = 'top' | 'bottom' | 'neutral' | 'defer';
+
 export interface ExchangeOption {
   key: string;
   label: string;
   description: string;
   risk: 'low' | 'medium' | 'high';
   reward: string;
+  /** Answers what a scouted opponent is likely to do this exchange. */
+  scouted?: boolean;
 }
 
 export interface ExchangePrompt {
@@ -33,6 +85,8 @@ export interface ExchangePrompt {
   options: ExchangeOption[];
   /** UI should enforce this (in seconds). Recommended: 6. */
   timerSeconds: number;
+  /** Set once regulation ends tied. */
+  overtime?: OvertimePeriod;
 }
 
 export interface ExchangeLogEntry {
@@ -48,6 +102,10 @@ export interface ExchangeLogEntry {
   pointsFor: number;
   /** Points opponent scored this exchange (can be 0). */
   pointsAgainst: number;
+  /** Every score behind pointsFor/pointsAgainst. Missing on exchanges logged before scoring moves were tracked. */
+  scoring?: ScoringEvent[];
+  /** Net riding time after this exchange in seconds (positive = your advantage). */
+  ridingTime?: number;
   myEnergyBefore: number;
   myEnergyAfter: number;
   myInjuryBefore: number;
@@ -56,13 +114,28 @@ export interface ExchangeLogEntry {
   momentumAfter: number;
   /** True if timer expired and opponent scored (explicit hesitation penalty). */
   timerFailureScored: boolean;
+  /** True if you got hurt on this exchange (the engine turns it into a body-part injury). */
+  injured?: boolean;
+  /** True if the opponent got hurt on this exchange. */
+  oppInjured?: boolean;
+  /** Overtime stage this exchange was wrestled in. */
+  overtime?: OvertimePeriod;
+  /** Stalling calls and cautions on this exchange. */
+  referee?: RefereeCall[];
+  /** What the opponent went for on this exchange. */
+  oppIntent?: OpponentIntent;
   notes: string[];
 }
 
 export interface MatchMinigameResult {
   won: boolean;
-  /** 'Dec', 'Major', 'Tech', or 'Fall' */
+  /**
+   * 'Dec', 'Major', 'Tech' or 'Fall'; the overtime stage ('SV-1', 'TB-1', 'SV-2', 'UTB') after a folkstyle tie, 'Criteria' after
+   * an international one; 'Inj. Default' or 'DQ' when someone couldn't continue.
+   */
   method: string;
+  /** Who couldn't continue after an injury, when the match ended early. */
+  defaultedBy?: 'me' | 'opp';
   myScore: number;
   oppScore: number;
   /** From internal elite sim, for debugging/analytics. */
@@ -72,6 +145,8 @@ export interface MatchMinigameResult {
 }
 
 export interface MatchMinigameState {
+  /** Missing on matches started before rule sets: folkstyle. */
+  ruleSet?: RuleSet;
   period: 1 | 2 | 3;
   position: MatchPosition;
   my: MinigameWrestler;
@@ -83,6 +158,37 @@ export interface MatchMinigameState {
   logs: ExchangeLogEntry[];
   finished: boolean;
   result: MatchMinigameResult | null;
+  /** Hurt past INJURY_DEFAULT_THRESHOLD: the next prompt is injury timeout vs default out. */
+  injuryDecision?: boolean;
+  myInjuryTimeoutUsed?: boolean;
+  oppInjuryTimeoutUsed?: boolean;
+  /** Who was last hurt by an illegal move; if they can't continue, they win by disqualification. */
+  illegalInjury?: 'me' | 'opp';
+  /** Net riding time in seconds (positive = your advantage). Worth a point at RIDING_TIME_POINT_SECONDS. */
+  ridingTime?: number;
+  /** Waiting on your period-start choice (top/bottom/neutral/defer). */
+  positionChoice?: boolean;
+  /** Who won the coin toss for the period 2 choice (decided when period 1 ends). */
+  coinToss?: 'me' | 'opp';
+  /** Set when the coin-toss winner deferred their choice to period 3. */
+  deferred?: boolean;
+  /** Who scored first in regulation; they get the choice in the overtime rideouts. */
+  firstScore?: 'me' | 'opp';
+  /** Current overtime stage; unset in regulation. */
+  overtime?: OvertimePeriod;
+  /** TB-1 bookkeeping: points scored in the rideouts and who rode their opponent out. */
+  tiebreak?: Tiebreak;
+  /** Pace, stalling calls and cautions for both wrestlers. Missing on matches started before referees. */
+  referee?: RefereeState;
+  /** International styles: par terre exchanges wrestled so far this period. */
+  parTerre?: number;
+}
+
+interface Tiebreak {
+  rideouts: number;
+  me: number;
+  opp: number;
+  rodeOut: { me: boolean; opp: boolean };
 }
 
 export interface MatchMinigameConfig {
@@ -93,7 +199,49 @@ export interface MatchMinigameConfig {
 /** Default decision timer in seconds (used by engine and UI). */
 export const DECISION_TIMER_SECONDS = 7;
 
+/** Injury severity (0–1) that stops the match: one injury timeout, then the wrestler defaults if hurt again. */
+export const INJURY_DEFAULT_THRESHOLD = 0.4;
+export const INJURY_TIMEOUT_KEY = 'injury_timeout';
+export const DEFAULT_OUT_KEY = 'default_out';
+/** Opponents default straight away (no timeout) when hurt this badly. */
+const OPP_DEFAULT_SEVERITY = 0.6;
+/** Share of your attack's injury risk that lands on the defender instead. */
+const OPP_INJURY_SHARE = 0.5;
+
+/** Net riding time that earns a point at the end of the match. */
+export const RIDING_TIME_POINT_SECONDS = 60;
+const MOVE_CODES: Record<ScoringMove, string> = {
+  takedown: 'T', escape: 'E', reversal: 'R', near_fall: 'N', penalty: 'P', riding_time: 'RT', exposure: 'X', step_out: 'SO', passivity: 'PA', throw: 'GA',
+};
+const MOVE_NAMES: Record<ScoringMove, string> = {
+  takedown: 'Takedown', escape: 'Escape', reversal: 'Reversal', near_fall: 'Near-fall', penalty: 'Penalty point', riding_time: 'Riding time',
+  exposure: 'Exposure', step_out: 'Step-out', passivity: 'Passivity', throw: 'Grand amplitude',
+};
+const CHOICE_KEY_PREFIX = 'choose_';
+/** Overtime stage lengths in seconds: 1:00 sudden victory, 0:30 rideouts. */
+const OVERTIME_SECONDS: Record<OvertimePeriod, number> = { 'SV-1': 60, 'TB-1': 30, 'SV-2': 60, UTB: 30 };
+/** International par terre exchanges in a row before the ref stands them up. */
+const PAR_TERRE_EXCHANGES = 3;
+/** What the opponent's intent looked like when your attack came up empty (stalling gets its own call from the ref). */
+const OPPONENT_FAIL_NOTES: Record<Exclude<OpponentIntent, 'stall'>, string> = {
+  attack: 'They kept coming — right back on the attack.',
+  ride: 'They rode you hard and kept you flat.',
+  counter: 'They were waiting for it and countered in the scramble.',
+};
+/** Edge on an attack that answers what a scouted opponent actually went for. */
+export const SCOUTING_EDGE = 4;
+/** Attacks that answer each opponent intent: sprawls and snaps against shooters, get-ups against riders, control against scramblers, and forcing the action against stallers. */
+const INTENT_ANSWERS: Record<OpponentIntent, string[]> = {
+  attack: ['counter_sprawl', 'snap_go_behind', 'snap_spin_behind', 'arm_drag', 'tight_waist_ride', 'let_them_up'],
+  ride: ['explosion_standup', 'sit_out_turn', 'granby_roll'],
+  counter: ['snap_go_behind', 'arm_drag', 'push_out', 'ride_breakdown', 'gut_wrench', 'body_lock', 'flatten_out'],
+  stall: ['blast_double', 'low_single', 'headlock_throw', 'tilt_turn', 'leg_lace', 'reverse_lift'],
+};
+/** Chance a successful turn goes all the way to a fall. */
+const FALL_CHANCE = 0.08;
+
 type Period = 1 | 2 | 3;
+type MovePoints = Record<Exclude<ScoringMove, 'near_fall'>, number>;
 
 interface InternalActionDef {
   key: string;
@@ -109,17 +257,19 @@ interface InternalActionDef {
   baseInjuryRisk: number;
   /** If true, on clean success there is a small chance of a pin. */
   canPinOnSuccess?: boolean;
+  /** Passive play the referee counts toward stalling. */
+  passive?: boolean;
   offenseWeights: Partial<Record<keyof Omit<MinigameWrestler, 'name' | 'overallRating' | 'injurySeverity' | 'energy'>, number>>;
   defenseWeights: Partial<Record<keyof Omit<MinigameWrestler, 'name' | 'overallRating' | 'injurySeverity' | 'energy'>, number>>;
+  /** Your score when it works. */
   onSuccess: {
-    pointsFor: number;
-    pointsAgainst?: number;
+    score?: ScoringMove;
     newPosition: MatchPosition;
     momentumDelta: number;
   };
+  /** The opponent's score when it doesn't. */
   onFail: {
-    pointsFor?: number;
-    pointsAgainst: number;
+    score?: ScoringMove;
     newPosition: MatchPosition;
     momentumDelta: number;
   };
@@ -127,7 +277,24 @@ interface InternalActionDef {
 
 const HESITATE_KEY = 'hesitate';
 
-const ACTION_DEFS: InternalActionDef[] = [
+/** Hesitating is shared by every position and rule set; what the opponent gets out of it is up to the rule set. */
+const HESITATE_DEF: InternalActionDef = {
+  key: HESITATE_KEY,
+  label: 'Hesitate / Do nothing',
+  description: 'Freeze up and let the moment pass — they get to their attack first.',
+  risk: 'high',
+  reward: 'None — you lose momentum and may give up points.',
+  from: 'NEUTRAL',
+  staminaCost: 3,
+  baseInjuryRisk: 0.04,
+  passive: true,
+  offenseWeights: {},
+  defenseWeights: { technique: 0.3, matIQ: 0.3, strength: 0.3, conditioning: 0.2 },
+  onSuccess: { newPosition: 'NEUTRAL', momentumDelta: -3 },
+  onFail: { score: 'takedown', newPosition: 'BOTTOM', momentumDelta: -6 },
+};
+
+const FOLKSTYLE_ACTIONS: InternalActionDef[] = [
   // NEUTRAL – offensive shots / counters
   {
     key: 'blast_double',
@@ -141,22 +308,22 @@ const ACTION_DEFS: InternalActionDef[] = [
     baseInjuryRisk: 0.03,
     offenseWeights: { technique: 0.5, strength: 0.4, speed: 0.4, conditioning: 0.2 },
     defenseWeights: { technique: 0.5, matIQ: 0.3, speed: 0.3, flexibility: 0.2 },
-    onSuccess: { pointsFor: 2, newPosition: 'TOP', momentumDelta: 5 },
-    onFail: { pointsAgainst: 2, newPosition: 'BOTTOM', momentumDelta: -4 },
+    onSuccess: { score: 'takedown', newPosition: 'TOP', momentumDelta: 5 },
+    onFail: { score: 'takedown', newPosition: 'BOTTOM', momentumDelta: -4 },
   },
   {
     key: 'snap_go_behind',
     label: 'Snap & go-behind',
     description: 'Snappy front headlock to a clean go-behind.',
     risk: 'low',
-    reward: '2 points with relatively low risk.',
+    reward: '2-point takedown; a miss just resets on the feet.',
     from: 'NEUTRAL',
     staminaCost: 6,
     baseInjuryRisk: 0.02,
     offenseWeights: { technique: 0.5, matIQ: 0.4, speed: 0.3 },
     defenseWeights: { technique: 0.5, strength: 0.2, speed: 0.3 },
-    onSuccess: { pointsFor: 2, newPosition: 'TOP', momentumDelta: 3 },
-    onFail: { pointsAgainst: 1, newPosition: 'BOTTOM', momentumDelta: -2 },
+    onSuccess: { score: 'takedown', newPosition: 'TOP', momentumDelta: 3 },
+    onFail: { newPosition: 'NEUTRAL', momentumDelta: -2 },
   },
   {
     key: 'counter_sprawl',
@@ -169,8 +336,8 @@ const ACTION_DEFS: InternalActionDef[] = [
     baseInjuryRisk: 0.02,
     offenseWeights: { matIQ: 0.4, speed: 0.4, flexibility: 0.3, conditioning: 0.2 },
     defenseWeights: { technique: 0.4, strength: 0.3, speed: 0.3 },
-    onSuccess: { pointsFor: 2, newPosition: 'TOP', momentumDelta: 4 },
-    onFail: { pointsAgainst: 2, newPosition: 'BOTTOM', momentumDelta: -3 },
+    onSuccess: { score: 'takedown', newPosition: 'TOP', momentumDelta: 4 },
+    onFail: { score: 'takedown', newPosition: 'BOTTOM', momentumDelta: -3 },
   },
 
   // TOP – rides & turns
@@ -179,21 +346,21 @@ const ACTION_DEFS: InternalActionDef[] = [
     label: 'Tight waist ride',
     description: 'Solid pressure ride, wear them down and look for breakdowns.',
     risk: 'low',
-    reward: 'Ride time feel; small chance for nearfall.',
+    reward: 'Builds riding time; wears them down.',
     from: 'TOP',
     staminaCost: 6,
     baseInjuryRisk: 0.02,
     offenseWeights: { strength: 0.4, conditioning: 0.4, matIQ: 0.3, technique: 0.3 },
     defenseWeights: { conditioning: 0.4, technique: 0.3, flexibility: 0.3 },
-    onSuccess: { pointsFor: 0, newPosition: 'TOP', momentumDelta: 3 },
-    onFail: { pointsAgainst: 1, newPosition: 'NEUTRAL', momentumDelta: -2 },
+    onSuccess: { newPosition: 'TOP', momentumDelta: 3 },
+    onFail: { score: 'escape', newPosition: 'NEUTRAL', momentumDelta: -2 },
   },
   {
     key: 'tilt_turn',
     label: 'Tilt for nearfall',
     description: 'Risky turn to expose their back for nearfall.',
     risk: 'high',
-    reward: '2–4 nearfall; big momentum.',
+    reward: '2–4 near-fall by back exposure; big momentum.',
     from: 'TOP',
     staminaCost: 8,
     failStaminaBonus: 2,
@@ -201,8 +368,8 @@ const ACTION_DEFS: InternalActionDef[] = [
     canPinOnSuccess: true,
     offenseWeights: { technique: 0.6, matIQ: 0.4, flexibility: 0.3 },
     defenseWeights: { matIQ: 0.3, strength: 0.3, flexibility: 0.3 },
-    onSuccess: { pointsFor: 3, newPosition: 'TOP', momentumDelta: 6 },
-    onFail: { pointsAgainst: 2, newPosition: 'NEUTRAL', momentumDelta: -4 },
+    onSuccess: { score: 'near_fall', newPosition: 'TOP', momentumDelta: 6 },
+    onFail: { score: 'reversal', newPosition: 'BOTTOM', momentumDelta: -4 },
   },
   {
     key: 'ride_breakdown',
@@ -215,8 +382,8 @@ const ACTION_DEFS: InternalActionDef[] = [
     baseInjuryRisk: 0.025,
     offenseWeights: { technique: 0.4, strength: 0.3, matIQ: 0.3, conditioning: 0.2 },
     defenseWeights: { strength: 0.3, conditioning: 0.3, flexibility: 0.2, matIQ: 0.3 },
-    onSuccess: { pointsFor: 0, newPosition: 'TOP', momentumDelta: 4 },
-    onFail: { pointsAgainst: 1, newPosition: 'NEUTRAL', momentumDelta: -3 },
+    onSuccess: { newPosition: 'TOP', momentumDelta: 4 },
+    onFail: { score: 'escape', newPosition: 'NEUTRAL', momentumDelta: -3 },
   },
 
   // BOTTOM – escapes & reversals
@@ -225,30 +392,30 @@ const ACTION_DEFS: InternalActionDef[] = [
     label: 'Explosion stand-up',
     description: 'Quick stand-up and clear hands for the escape.',
     risk: 'medium',
-    reward: '1 escape; back to your feet.',
+    reward: '1-point escape; back to your feet.',
     from: 'BOTTOM',
     staminaCost: 9,
     failStaminaBonus: 2,
     baseInjuryRisk: 0.03,
     offenseWeights: { speed: 0.5, strength: 0.3, conditioning: 0.3, flexibility: 0.2 },
     defenseWeights: { strength: 0.3, conditioning: 0.4, matIQ: 0.3 },
-    onSuccess: { pointsFor: 1, newPosition: 'NEUTRAL', momentumDelta: 3 },
-    onFail: { pointsFor: 0, pointsAgainst: 2, newPosition: 'TOP', momentumDelta: -4 },
+    onSuccess: { score: 'escape', newPosition: 'NEUTRAL', momentumDelta: 3 },
+    onFail: { newPosition: 'BOTTOM', momentumDelta: -4 },
   },
   {
     key: 'sit_out_turn',
     label: 'Sit-out to reversal',
     description: 'Technical sit-out to a reversal; big swing but risky.',
     risk: 'high',
-    reward: '2 reversal and top; huge swing if you hit it.',
+    reward: '2-point reversal and top; get caught and they turn you.',
     from: 'BOTTOM',
     staminaCost: 10,
     failStaminaBonus: 3,
     baseInjuryRisk: 0.04,
     offenseWeights: { technique: 0.5, matIQ: 0.4, strength: 0.3, flexibility: 0.3 },
     defenseWeights: { strength: 0.3, technique: 0.4, matIQ: 0.3 },
-    onSuccess: { pointsFor: 2, newPosition: 'TOP', momentumDelta: 6 },
-    onFail: { pointsAgainst: 2, newPosition: 'TOP', momentumDelta: -5 },
+    onSuccess: { score: 'reversal', newPosition: 'TOP', momentumDelta: 6 },
+    onFail: { score: 'near_fall', newPosition: 'BOTTOM', momentumDelta: -5 },
   },
   {
     key: 'controlled_reset',
@@ -259,31 +426,330 @@ const ACTION_DEFS: InternalActionDef[] = [
     from: 'BOTTOM',
     staminaCost: 5,
     baseInjuryRisk: 0.02,
+    passive: true,
     offenseWeights: { matIQ: 0.4, conditioning: 0.3, flexibility: 0.3 },
     defenseWeights: { strength: 0.3, conditioning: 0.3, matIQ: 0.3 },
-    onSuccess: { pointsFor: 0, newPosition: 'BOTTOM', momentumDelta: 2 },
-    onFail: { pointsAgainst: 1, newPosition: 'TOP', momentumDelta: -2 },
+    onSuccess: { newPosition: 'BOTTOM', momentumDelta: 2 },
+    onFail: { newPosition: 'BOTTOM', momentumDelta: -2 },
   },
 
-  // Hesitate / do nothing (shared for all positions)
+  HESITATE_DEF,
+];
+
+// International styles: takedowns put you in par terre, where exposures score until the ref stands you up.
+const PUSH_OUT: InternalActionDef = {
+  key: 'push_out',
+  label: 'Drive to the edge',
+  description: 'Tie up and run them off the mat for the step-out.',
+  risk: 'low',
+  reward: '1-point step-out.',
+  from: 'NEUTRAL',
+  staminaCost: 7,
+  baseInjuryRisk: 0.02,
+  offenseWeights: { strength: 0.5, conditioning: 0.4 },
+  defenseWeights: { strength: 0.4, matIQ: 0.3, conditioning: 0.2 },
+  onSuccess: { score: 'step_out', newPosition: 'NEUTRAL', momentumDelta: 2 },
+  onFail: { newPosition: 'NEUTRAL', momentumDelta: -1 },
+};
+
+const GUT_WRENCH: InternalActionDef = {
+  key: 'gut_wrench',
+  label: 'Gut wrench',
+  description: 'Lock around the waist and roll them across for exposure.',
+  risk: 'medium',
+  reward: '2 per roll; keep rolling while it works.',
+  from: 'TOP',
+  staminaCost: 8,
+  baseInjuryRisk: 0.025,
+  offenseWeights: { strength: 0.5, technique: 0.4, conditioning: 0.2 },
+  defenseWeights: { flexibility: 0.4, strength: 0.3, matIQ: 0.3 },
+  onSuccess: { score: 'exposure', newPosition: 'TOP', momentumDelta: 4 },
+  onFail: { newPosition: 'NEUTRAL', momentumDelta: -2 },
+};
+
+const LET_THEM_UP: InternalActionDef = {
+  key: 'let_them_up',
+  label: 'Let them up',
+  description: 'Give up par terre and reset on the feet.',
+  risk: 'low',
+  reward: 'No risk, no points.',
+  from: 'TOP',
+  staminaCost: 3,
+  baseInjuryRisk: 0.01,
+  offenseWeights: { matIQ: 0.5 },
+  defenseWeights: { matIQ: 0.5 },
+  onSuccess: { newPosition: 'NEUTRAL', momentumDelta: 0 },
+  onFail: { newPosition: 'NEUTRAL', momentumDelta: -1 },
+};
+
+const FLATTEN_OUT: InternalActionDef = {
+  key: 'flatten_out',
+  label: 'Flatten out',
+  description: 'Go flat, block the lock and wait for the stand-up.',
+  risk: 'low',
+  reward: 'Back to your feet without giving up points.',
+  from: 'BOTTOM',
+  staminaCost: 4,
+  baseInjuryRisk: 0.02,
+  passive: true,
+  offenseWeights: { matIQ: 0.4, flexibility: 0.3, strength: 0.3 },
+  defenseWeights: { strength: 0.4, technique: 0.4 },
+  onSuccess: { newPosition: 'NEUTRAL', momentumDelta: 1 },
+  onFail: { score: 'exposure', newPosition: 'BOTTOM', momentumDelta: -3 },
+};
+
+const GRANBY_ROLL: InternalActionDef = {
+  key: 'granby_roll',
+  label: 'Granby roll',
+  description: 'Roll through their lock to come out on top.',
+  risk: 'high',
+  reward: '1-point reversal and top; get caught and you are exposed.',
+  from: 'BOTTOM',
+  staminaCost: 9,
+  failStaminaBonus: 2,
+  baseInjuryRisk: 0.035,
+  offenseWeights: { flexibility: 0.5, speed: 0.3, technique: 0.3 },
+  defenseWeights: { matIQ: 0.4, strength: 0.3 },
+  onSuccess: { score: 'reversal', newPosition: 'TOP', momentumDelta: 5 },
+  onFail: { score: 'exposure', newPosition: 'BOTTOM', momentumDelta: -4 },
+};
+
+const FREESTYLE_ACTIONS: InternalActionDef[] = [
   {
-    key: HESITATE_KEY,
-    label: 'Hesitate / Do nothing',
-    description: 'Freeze up and let the moment pass — they get to their attack first.',
-    risk: 'high',
-    reward: 'None — you lose momentum and may give up points.',
+    key: 'low_single',
+    label: 'Low single',
+    description: 'Change levels to a low single and finish to the side.',
+    risk: 'medium',
+    reward: '2-point takedown into par terre; a bad finish gets countered.',
+    from: 'NEUTRAL',
+    staminaCost: 9,
+    failStaminaBonus: 2,
+    baseInjuryRisk: 0.03,
+    offenseWeights: { technique: 0.5, speed: 0.5, flexibility: 0.2 },
+    defenseWeights: { matIQ: 0.4, speed: 0.3, flexibility: 0.3 },
+    onSuccess: { score: 'takedown', newPosition: 'TOP', momentumDelta: 5 },
+    onFail: { score: 'takedown', newPosition: 'BOTTOM', momentumDelta: -4 },
+  },
+  {
+    key: 'snap_spin_behind',
+    label: 'Snap & spin behind',
+    description: 'Snap the head down and spin behind.',
+    risk: 'low',
+    reward: '2-point takedown; a miss just resets.',
     from: 'NEUTRAL',
-    staminaCost: 3,
+    staminaCost: 6,
+    baseInjuryRisk: 0.02,
+    offenseWeights: { technique: 0.5, matIQ: 0.4, speed: 0.3 },
+    defenseWeights: { technique: 0.5, strength: 0.2, speed: 0.3 },
+    onSuccess: { score: 'takedown', newPosition: 'TOP', momentumDelta: 3 },
+    onFail: { newPosition: 'NEUTRAL', momentumDelta: -2 },
+  },
+  PUSH_OUT,
+  GUT_WRENCH,
+  {
+    key: 'leg_lace',
+    label: 'Leg laces',
+    description: 'Lace the ankles and turn them over and over.',
+    risk: 'high',
+    reward: '2 per turn; can end in a fall.',
+    from: 'TOP',
+    staminaCost: 9,
+    failStaminaBonus: 2,
     baseInjuryRisk: 0.04,
-    offenseWeights: {},
-    defenseWeights: { technique: 0.3, matIQ: 0.3, strength: 0.3, conditioning: 0.2 },
-    onSuccess: { pointsFor: 0, newPosition: 'NEUTRAL', momentumDelta: -3 },
-    onFail: { pointsAgainst: 2, newPosition: 'NEUTRAL', momentumDelta: -6 },
+    canPinOnSuccess: true,
+    offenseWeights: { technique: 0.6, flexibility: 0.3, matIQ: 0.3 },
+    defenseWeights: { flexibility: 0.4, matIQ: 0.3, strength: 0.3 },
+    onSuccess: { score: 'exposure', newPosition: 'TOP', momentumDelta: 6 },
+    onFail: { score: 'reversal', newPosition: 'BOTTOM', momentumDelta: -4 },
   },
+  LET_THEM_UP,
+  FLATTEN_OUT,
+  GRANBY_ROLL,
+  HESITATE_DEF,
 ];
 
-function getActionsForPosition(pos: MatchPosition): InternalActionDef[] {
-  return ACTION_DEFS.filter((a) => a.from === pos || a.key === HESITATE_KEY);
+/** Greco-Roman: upper body only, so no shots — body locks, drags and throws. */
+const GRECO_ACTIONS: InternalActionDef[] = [
+  {
+    key: 'body_lock',
+    label: 'Body lock',
+    description: 'Pummel under, lock the body and take them down.',
+    risk: 'medium',
+    reward: '2-point takedown into par terre.',
+    from: 'NEUTRAL',
+    staminaCost: 10,
+    failStaminaBonus: 3,
+    baseInjuryRisk: 0.03,
+    offenseWeights: { strength: 0.5, technique: 0.4, conditioning: 0.2 },
+    defenseWeights: { strength: 0.4, technique: 0.3, matIQ: 0.3 },
+    onSuccess: { score: 'takedown', newPosition: 'TOP', momentumDelta: 5 },
+    onFail: { score: 'takedown', newPosition: 'BOTTOM', momentumDelta: -4 },
+  },
+  {
+    key: 'arm_drag',
+    label: 'Arm drag',
+    description: 'Drag the arm across and circle behind.',
+    risk: 'low',
+    reward: '2-point takedown; a miss just resets.',
+    from: 'NEUTRAL',
+    staminaCost: 6,
+    baseInjuryRisk: 0.02,
+    offenseWeights: { speed: 0.5, technique: 0.4, matIQ: 0.3 },
+    defenseWeights: { matIQ: 0.4, speed: 0.3 },
+    onSuccess: { score: 'takedown', newPosition: 'TOP', momentumDelta: 3 },
+    onFail: { newPosition: 'NEUTRAL', momentumDelta: -2 },
+  },
+  {
+    key: 'headlock_throw',
+    label: 'Headlock throw',
+    description: 'Hip toss them through the air for a grand-amplitude throw.',
+    risk: 'high',
+    reward: '4-point throw that can end in a fall; miss and you land under them.',
+    from: 'NEUTRAL',
+    staminaCost: 11,
+    failStaminaBonus: 3,
+    baseInjuryRisk: 0.05,
+    canPinOnSuccess: true,
+    offenseWeights: { technique: 0.5, strength: 0.4, flexibility: 0.2 },
+    defenseWeights: { matIQ: 0.4, strength: 0.3, technique: 0.3 },
+    onSuccess: { score: 'throw', newPosition: 'TOP', momentumDelta: 7 },
+    onFail: { score: 'takedown', newPosition: 'BOTTOM', momentumDelta: -5 },
+  },
+  PUSH_OUT,
+  GUT_WRENCH,
+  {
+    key: 'reverse_lift',
+    label: 'Reverse lift',
+    description: 'Lift them off the mat and arch back for a big throw.',
+    risk: 'high',
+    reward: '4-point throw; can end in a fall.',
+    from: 'TOP',
+    staminaCost: 11,
+    failStaminaBonus: 3,
+    baseInjuryRisk: 0.05,
+    canPinOnSuccess: true,
+    offenseWeights: { strength: 0.6, technique: 0.4 },
+    defenseWeights: { strength: 0.4, flexibility: 0.3, matIQ: 0.3 },
+    onSuccess: { score: 'throw', newPosition: 'TOP', momentumDelta: 7 },
+    onFail: { score: 'reversal', newPosition: 'BOTTOM', momentumDelta: -4 },
+  },
+  LET_THEM_UP,
+  FLATTEN_OUT,
+  GRANBY_ROLL,
+  HESITATE_DEF,
+];
+
+interface RuleSetDef {
+  label: string;
+  /** Period lengths in seconds; the match ends after the last one. */
+  periods: number[];
+  /** Lead for a technical fall: ends an international match the moment it's reached, judged at the end in folkstyle. */
+  techLead: number;
+  /** Folkstyle major decision margin; international styles have none. */
+  majorLead?: number;
+  points: MovePoints;
+  actions: InternalActionDef[];
+  /** What the opponent gets when you hesitate, by position. */
+  hesitateFail: Record<MatchPosition, InternalActionDef['onFail']>;
+  positionText: Record<MatchPosition, string>;
+}
+
+const FOLKSTYLE_POINTS: MovePoints = {
+  takedown: 2, escape: 1, reversal: 2, penalty: 1, riding_time: 1, exposure: 2, step_out: 1, passivity: 1, throw: 4,
+};
+const INTERNATIONAL_POINTS: MovePoints = { ...FOLKSTYLE_POINTS, reversal: 1 };
+const PAR_TERRE_TEXT: Record<MatchPosition, string> = {
+  NEUTRAL: 'Neutral — hand fight on the feet.',
+  TOP: 'Par terre top — turn them for exposure before the stand-up.',
+  BOTTOM: 'Par terre bottom — block the turn and get back up.',
+};
+
+const RULE_SETS: Record<RuleSet, RuleSetDef> = {
+  folkstyle: {
+    label: 'Folkstyle',
+    periods: [180, 120, 120],
+    techLead: 15,
+    majorLead: 8,
+    points: FOLKSTYLE_POINTS,
+    actions: FOLKSTYLE_ACTIONS,
+    hesitateFail: {
+      NEUTRAL: { score: 'takedown', newPosition: 'BOTTOM', momentumDelta: -6 },
+      TOP: { score: 'escape', newPosition: 'NEUTRAL', momentumDelta: -6 },
+      BOTTOM: { score: 'near_fall', newPosition: 'BOTTOM', momentumDelta: -6 },
+    },
+    positionText: {
+      NEUTRAL: 'Neutral — key exchange on the feet.',
+      TOP: 'Top — ride or turn from the mat.',
+      BOTTOM: 'Bottom — get out or look for a reversal.',
+    },
+  },
+  freestyle: {
+    label: 'Freestyle',
+    periods: [180, 180],
+    techLead: 10,
+    points: INTERNATIONAL_POINTS,
+    actions: FREESTYLE_ACTIONS,
+    hesitateFail: {
+      NEUTRAL: { score: 'passivity', newPosition: 'NEUTRAL', momentumDelta: -6 },
+      TOP: { newPosition: 'NEUTRAL', momentumDelta: -6 },
+      BOTTOM: { score: 'exposure', newPosition: 'BOTTOM', momentumDelta: -6 },
+    },
+    positionText: PAR_TERRE_TEXT,
+  },
+  greco: {
+    label: 'Greco-Roman',
+    periods: [180, 180],
+    techLead: 10,
+    points: INTERNATIONAL_POINTS,
+    actions: GRECO_ACTIONS,
+    hesitateFail: {
+      // Greco passivity: a point and par terre for the active wrestler
+      NEUTRAL: { score: 'passivity', newPosition: 'BOTTOM', momentumDelta: -6 },
+      TOP: { newPosition: 'NEUTRAL', momentumDelta: -6 },
+      BOTTOM: { score: 'exposure', newPosition: 'BOTTOM', momentumDelta: -6 },
+    },
+    positionText: PAR_TERRE_TEXT,
+  },
+};
+
+/** Display name for a rule set, e.g. "Greco-Roman". */
+export function ruleSetLabel(ruleSet: RuleSet): string {
+  return RULE_SETS[ruleSet].label;
+}
+
+/** Action keys on offer from a position under a rule set (hesitate included). */
+export function actionKeysFor(ruleSet: RuleSet, position: MatchPosition): string[] {
+  return getActionsForPosition(ruleSet, position).map((a) => a.key);
+}
+
+/**
+ * Translate a simulated result's method into the rule set: international ties are settled on criteria, not overtime.
+ */
+export function methodForRuleSet(method: string, ruleSet: RuleSet): string {
+  if (ruleSet === 'folkstyle') return method;
+  if ((OVERTIME_PERIODS as string[]).includes(method)) return 'Criteria';
+  return method === 'Major' ? 'Dec' : method;
+}
+
+/**
+ * A believable final score for a simulated result, winner's points first, inside the rule set's margins for the
+ * method. Falls end on the pin, not the scoreboard, so they have none.
+ */
+export function simulatedScore(method: string, ruleSet: RuleSet, rng: SeededRNG): { winner: number; loser: number } | undefined {
+  const rules = RULE_SETS[ruleSet];
+  const loser = rng.int(0, 5);
+  if (method === 'Tech') return { winner: loser + rules.techLead + rng.int(0, 2), loser };
+  if (method === 'Major') return { winner: loser + rng.int(rules.majorLead ?? 8, rules.techLead - 1), loser };
+  if (method === 'Dec') return { winner: loser + rng.int(1, Math.min(7, (rules.majorLead ?? rules.techLead) - 1)), loser };
+  if (method === 'Criteria') return { winner: loser + 1, loser: loser + 1 };
+  // Sudden victory ends on a takedown; tiebreakers on an escape or riding time.
+  if (method === 'SV-1' || method === 'SV-2') return { winner: loser + 2, loser };
+  if (method === 'TB-1' || method === 'UTB') return { winner: loser + 1, loser };
+  return undefined;
+}
+
+function getActionsForPosition(ruleSet: RuleSet, pos: MatchPosition): InternalActionDef[] {
+  return RULE_SETS[ruleSet].actions.filter((a) => a.from === pos || a.key === HESITATE_KEY);
 }
 
 function clamp(min: number, max: number, x: number): number {
@@ -306,19 +772,41 @@ function attributeScore(w: MinigameWrestler, weights: InternalActionDef['offense
   return sum;
 }
 
-function buildPrompt(period: Period, position: MatchPosition, cfg: MatchMinigameConfig): ExchangePrompt {
-  const baseText =
-    position === 'NEUTRAL'
-      ? 'Neutral — key exchange on the feet.'
-      : position === 'TOP'
-      ? 'Top — ride or turn from the mat.'
-      : 'Bottom — get out or look for a reversal.';
-  const actions = getActionsForPosition(position).filter((a) => a.key !== HESITATE_KEY);
+/** Prompt header for an overtime exchange: what wins this stage from this position. */
+function overtimeText(overtime: OvertimePeriod, position: MatchPosition): string {
+  const clock = formatRidingTime(OVERTIME_SECONDS[overtime]);
+  if (overtime === 'SV-1' || overtime === 'SV-2') return `Sudden victory ${overtime} (${clock}) — first score wins.`;
+  const goal = position === 'BOTTOM' ? 'escape or reverse' : 'ride them out';
+  if (overtime === 'UTB') return `Ultimate tiebreaker (${clock}) — ${goal} to win the match.`;
+  return `Tiebreaker rideout (${clock}) — ${goal}.`;
+}
+
+/** The exchange from the opponent's side, for their decision policy. */
+function opponentSituation(state: MatchMinigameState): OpponentSituation {
+  return {
+    style: state.opp.style ?? DEFAULT_OPPONENT_STYLE,
+    clutch: state.opp.clutch ?? 50,
+    onTop: state.position === 'BOTTOM',
+    period: state.period,
+    overtime: !!state.overtime,
+    lead: state.oppScore - state.myScore,
+    momentum: -state.momentum,
+  };
+}
+
+function buildPrompt(state: MatchMinigameState, cfg: MatchMinigameConfig): ExchangePrompt {
+  const { period, position, overtime } = state;
+  const wrapped = !!state.my.wrapped;
+  const ruleSet = state.ruleSet ?? 'folkstyle';
+  const baseText = RULE_SETS[ruleSet].positionText[position];
+  const actions = getActionsForPosition(ruleSet, position).filter((a) => a.key !== HESITATE_KEY && !(wrapped && a.risk === 'high'));
   const timerSeconds = cfg.timerSeconds ?? DECISION_TIMER_SECONDS;
+  const likely = likelyOpponentIntent(opponentSituation(state));
+  const answers = state.opp.scouted ? INTENT_ANSWERS[likely] : [];
   return {
     period,
     position,
-    prompt: `${baseText} Period ${period}: pick your attack.`,
+    prompt: `${baseText} ${overtime ? overtimeText(overtime, position) : `Period ${period}:`} pick your attack. ${state.opp.scouted ? 'Scouting report' : 'Read'}: ${describeOpponentRead(likely)}.${wrapped ? ' (Wrapped — nothing high-risk.)' : ''}`,
     options: [
       ...actions.map<ExchangeOption>((a) => ({
         key: a.key,
@@ -326,6 +814,7 @@ function buildPrompt(period: Period, position: MatchPosition, cfg: MatchMinigame
         description: a.description,
         risk: a.risk,
         reward: a.reward,
+        ...(answers.includes(a.key) ? { scouted: true } : {}),
       })),
       {
         key: HESITATE_KEY,
@@ -336,15 +825,20 @@ function buildPrompt(period: Period, position: MatchPosition, cfg: MatchMinigame
       },
     ],
     timerSeconds,
+    ...(overtime ? { overtime } : {}),
   };
 }
 
+/** `refereeStrictness` (0–1) sets how quickly stalling and cautions get called; it and the rule set vary by event. */
 export function createInitialMinigameState(
   my: MinigameWrestler,
   opp: MinigameWrestler,
-  position: MatchPosition = 'NEUTRAL'
+  position: MatchPosition = 'NEUTRAL',
+  refereeStrictness?: number,
+  ruleSet: RuleSet = 'folkstyle'
 ): MatchMinigameState {
   return {
+    ruleSet,
     period: 1,
     position,
     my: copyWrestler(my),
@@ -355,11 +849,366 @@ export function createInitialMinigameState(
     logs: [],
     finished: false,
     result: null,
+    referee: createRefereeState(refereeStrictness, ruleSet),
+  };
+}
+
+function buildInjuryPrompt(period: Period, position: MatchPosition, cfg: MatchMinigameConfig): ExchangePrompt {
+  return {
+    period,
+    position,
+    prompt: 'You\'re hurt. The trainer is on the mat — take injury time or default out?',
+    options: [
+      {
+        key: INJURY_TIMEOUT_KEY,
+        label: 'Injury timeout',
+        description: 'Get taped up and keep wrestling wrapped. Get hurt again and you have to default.',
+        risk: 'medium',
+        reward: 'Stay in the match.',
+      },
+      {
+        key: DEFAULT_OUT_KEY,
+        label: 'Default out',
+        description: 'Stop the match. You lose by injury default and medical forfeit the rest of the event.',
+        risk: 'low',
+        reward: 'No further damage.',
+      },
+    ],
+    timerSeconds: cfg.timerSeconds ?? DECISION_TIMER_SECONDS,
+  };
+}
+
+const CHOICE_LABELS: Record<PeriodChoice, { label: string; description: string }> = {
+  top: { label: 'Top', description: 'Start on top: ride for riding time and look for turns.' },
+  bottom: { label: 'Bottom', description: 'Start on bottom: a quick escape or reversal puts points up.' },
+  neutral: { label: 'Neutral', description: 'Start on your feet and hunt a takedown.' },
+  defer: { label: 'Defer', description: 'Let them pick now and take the choice in period 3.' },
+};
+
+/** Choices on offer: overtime rideouts are top or bottom only, and only the coin-toss winner can defer. */
+function availableChoices(state: MatchMinigameState): PeriodChoice[] {
+  if (state.overtime) return ['top', 'bottom'];
+  return canDefer(state) ? ['top', 'bottom', 'neutral', 'defer'] : ['top', 'bottom', 'neutral'];
+}
+
+function buildChoicePrompt(state: MatchMinigameState, cfg: MatchMinigameConfig): ExchangePrompt {
+  const choices = availableChoices(state);
+  return {
+    period: state.period,
+    position: state.position,
+    prompt: state.overtime
+      ? `${state.overtime === 'UTB' ? 'Ultimate tiebreaker' : 'Tiebreaker rideouts'}: you scored first, so it's your choice — top or bottom.`
+      : `Period ${state.period}: your choice — top, bottom or neutral${canDefer(state) ? ', or defer to period 3' : ''}.`,
+    options: choices.map<ExchangeOption>((c) => ({
+      key: CHOICE_KEY_PREFIX + c,
+      label: CHOICE_LABELS[c].label,
+      description: CHOICE_LABELS[c].description,
+      risk: 'low',
+      reward: c === 'defer' ? 'Choice in period 3.' : 'Pick your spot.',
+    })),
+    timerSeconds: cfg.timerSeconds ?? DECISION_TIMER_SECONDS,
+    ...(state.overtime ? { overtime: state.overtime } : {}),
   };
 }
 
 export function generateExchangePrompt(state: MatchMinigameState, cfg: MatchMinigameConfig = {}): ExchangePrompt {
-  return buildPrompt(state.period, state.position, cfg);
+  if (state.injuryDecision) return buildInjuryPrompt(state.period, state.position, cfg);
+  if (state.positionChoice) return buildChoicePrompt(state, cfg);
+  return buildPrompt(state, cfg);
+}
+
+/** Riding time as m:ss. */
+export function formatRidingTime(seconds: number): string {
+  const s = Math.abs(Math.round(seconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
+
+/** Bout-sheet shorthand for a score, e.g. "T2", "N3", "RT1". */
+export function formatScoringEvent(e: ScoringEvent): string {
+  return `${MOVE_CODES[e.move]}${e.points}`;
+}
+
+/** Readable line for a score, e.g. "You: Near-fall 3 (6s)". */
+export function describeScoringEvent(e: ScoringEvent): string {
+  return `${e.by === 'me' ? 'You' : 'Them'}: ${MOVE_NAMES[e.move]} ${e.points}${e.seconds != null ? ` (${e.seconds}s)` : ''}`;
+}
+
+/** Near-falls by back exposure: 2 points for 2–4 seconds, 3 for 5–9, 4 for 10 or more. */
+function nearFallPoints(seconds: number): number {
+  return seconds >= 10 ? 4 : seconds >= 5 ? 3 : 2;
+}
+
+function scoringEvent(move: ScoringMove, by: 'me' | 'opp', rng: SeededRNG, ruleSet: RuleSet = 'folkstyle'): ScoringEvent {
+  if (move !== 'near_fall') return { move, by, points: RULE_SETS[ruleSet].points[move] };
+  const seconds = rng.int(2, 12);
+  return { move, by, points: nearFallPoints(seconds), seconds };
+}
+
+/** Only the coin-toss winner can defer, and only at the start of period 2. */
+function canDefer(state: MatchMinigameState): boolean {
+  return state.period === 2 && state.coinToss === 'me' && !state.deferred;
+}
+
+/** Who picks at the start of the current period: the coin-toss winner in period 2 (unless they deferred), the other wrestler in period 3. */
+function periodChooser(state: MatchMinigameState): 'me' | 'opp' {
+  const winner = state.coinToss ?? 'me';
+  const other = winner === 'me' ? 'opp' : 'me';
+  if (state.period === 2) return state.deferred ? other : winner;
+  return state.deferred ? winner : other;
+}
+
+/** Opponent's pick: bottom by default, top when they're the stronger rider, neutral when chasing points late. */
+function opponentChoice(state: MatchMinigameState): Exclude<PeriodChoice, 'defer'> {
+  if (state.period === 3 && state.oppScore < state.myScore - 2 && state.opp.speed >= state.my.speed) return 'neutral';
+  if (state.opp.strength - state.my.strength >= 5) return 'top';
+  return 'bottom';
+}
+
+function positionFromChoice(choice: Exclude<PeriodChoice, 'defer'>, chooser: 'me' | 'opp'): MatchPosition {
+  if (choice === 'neutral') return 'NEUTRAL';
+  const chooserOnTop = choice === 'top';
+  return chooserOnTop === (chooser === 'me') ? 'TOP' : 'BOTTOM';
+}
+
+/** Start of periods 2 and 3: the chooser sets the position. Waits on you when it's your choice. */
+function startPeriod(state: MatchMinigameState, rng: SeededRNG, notes: string[]): void {
+  if (state.period === 2 && !state.coinToss) state.coinToss = rng.chance(0.5) ? 'me' : 'opp';
+  if (periodChooser(state) === 'me') {
+    state.positionChoice = true;
+    return;
+  }
+  const choice = opponentChoice(state);
+  state.position = positionFromChoice(choice, 'opp');
+  notes.push(`They chose ${choice} to start period ${state.period}.`);
+}
+
+/** Resolve your period-start choice. Timing out on it starts neutral (bottom in an overtime rideout). */
+function resolvePositionChoice(state: MatchMinigameState, actionKey: string, cfg: MatchMinigameConfig, timedOut: boolean): ExchangeResolution {
+  const fallback: PeriodChoice = state.overtime ? 'bottom' : 'neutral';
+  const picked = actionKey.startsWith(CHOICE_KEY_PREFIX) ? (actionKey.slice(CHOICE_KEY_PREFIX.length) as PeriodChoice) : fallback;
+  const choice: PeriodChoice = timedOut || !availableChoices(state).includes(picked) ? fallback : picked;
+  const notes: string[] = [];
+  const prompt = buildChoicePrompt(state, cfg).prompt;
+  state.positionChoice = false;
+  if (choice === 'defer') {
+    state.deferred = true;
+    const theirs = opponentChoice(state);
+    state.position = positionFromChoice(theirs, 'opp');
+    notes.push(`You deferred. They chose ${theirs}; your choice comes in period 3.`);
+  } else {
+    state.position = positionFromChoice(choice, 'me');
+    notes.push(`You chose ${choice} to start ${state.overtime ? `the ${state.overtime} rideout` : `period ${state.period}`}.`);
+  }
+  const logEntry: ExchangeLogEntry = {
+    period: state.period,
+    position: state.position,
+    prompt,
+    actionKey: CHOICE_KEY_PREFIX + choice,
+    actionLabel: choice === 'defer' ? 'Deferred' : `Chose ${choice}`,
+    timedOut,
+    timerSeconds: cfg.timerSeconds ?? DECISION_TIMER_SECONDS,
+    success: true,
+    pointsFor: 0,
+    pointsAgainst: 0,
+    scoring: [],
+    ridingTime: state.ridingTime ?? 0,
+    myEnergyBefore: state.my.energy,
+    myEnergyAfter: state.my.energy,
+    myInjuryBefore: state.my.injurySeverity,
+    myInjuryAfter: state.my.injurySeverity,
+    momentumBefore: state.momentum,
+    momentumAfter: state.momentum,
+    timerFailureScored: false,
+    ...(state.overtime ? { overtime: state.overtime } : {}),
+    notes,
+  };
+  state.logs.push(logEntry);
+  return { state, logEntry, nextPrompt: generateExchangePrompt(state, cfg) };
+}
+
+/** End the match because `who` couldn't continue. They win by DQ if an illegal move hurt them, otherwise lose by injury default. */
+function endByDefault(state: MatchMinigameState, who: 'me' | 'opp'): void {
+  const byDq = state.illegalInjury === who;
+  const won = who === 'me' ? byDq : !byDq;
+  state.finished = true;
+  state.injuryDecision = false;
+  state.result = {
+    won,
+    method: byDq ? 'DQ' : 'Inj. Default',
+    defaultedBy: who,
+    myScore: state.myScore,
+    oppScore: state.oppScore,
+    eliteEffectiveGap: 0,
+    eliteBaseGap: state.my.overallRating - state.opp.overallRating,
+    eliteFavoriteProb: won ? 1 : 0,
+  };
+}
+
+/** End the match in overtime: `winner` takes it by the stage that settled it. */
+function endInOvertime(state: MatchMinigameState, winner: 'me' | 'opp', stage: OvertimePeriod): void {
+  state.finished = true;
+  state.injuryDecision = false;
+  state.positionChoice = false;
+  state.result = {
+    won: winner === 'me',
+    method: stage,
+    myScore: state.myScore,
+    oppScore: state.oppScore,
+    eliteEffectiveGap: 0,
+    eliteBaseGap: state.my.overallRating - state.opp.overallRating,
+    eliteFavoriteProb: winner === 'me' ? 1 : 0,
+  };
+}
+
+/** Start a rideout stage (TB-1 or UTB). Whoever scored first in regulation picks top or bottom; the opponent always takes bottom. */
+function startRideout(state: MatchMinigameState, stage: 'TB-1' | 'UTB', notes: string[]): void {
+  state.overtime = stage;
+  if (stage === 'TB-1') state.tiebreak = { rideouts: 0, me: 0, opp: 0, rodeOut: { me: false, opp: false } };
+  const chooser = state.firstScore ?? state.coinToss ?? 'me';
+  if (chooser === 'me') {
+    state.positionChoice = true;
+    return;
+  }
+  state.position = positionFromChoice('bottom', 'opp');
+  notes.push(`${stage === 'UTB' ? 'Ultimate tiebreaker' : 'Tiebreaker rideouts'}: they scored first and choose bottom.`);
+}
+
+/**
+ * Move overtime along after an exchange. Sudden victory ends on the first score; TB-1 is two 30-second rideouts
+ * (more points wins, then whoever rode their opponent out); UTB is one rideout the bottom wrestler wins by getting out.
+ */
+function advanceOvertime(state: MatchMinigameState, scoring: ScoringEvent[], startPosition: MatchPosition, notes: string[]): void {
+  const stage = state.overtime!;
+  if (stage === 'SV-1' || stage === 'SV-2') {
+    const first = scoring[0];
+    if (first) {
+      endInOvertime(state, first.by, stage);
+      notes.push(`${first.by === 'me' ? 'You score' : 'They score'} in sudden victory — ${stage}.`);
+    } else if (stage === 'SV-1') {
+      notes.push('No score in sudden victory. On to the tiebreaker rideouts.');
+      startRideout(state, 'TB-1', notes);
+    } else {
+      notes.push('Still tied. Ultimate tiebreaker.');
+      startRideout(state, 'UTB', notes);
+    }
+    return;
+  }
+
+  const top: 'me' | 'opp' = startPosition === 'TOP' ? 'me' : 'opp';
+  const bottom: 'me' | 'opp' = top === 'me' ? 'opp' : 'me';
+  const gotOut = scoring.some((e) => e.by === bottom && (e.move === 'escape' || e.move === 'reversal'));
+  if (stage === 'UTB') {
+    const winner = gotOut ? bottom : top;
+    endInOvertime(state, winner, 'UTB');
+    notes.push(gotOut ? `${winner === 'me' ? 'You get' : 'They get'} out from bottom — UTB.` : `${winner === 'me' ? 'You ride them' : 'They ride you'} out — UTB.`);
+    return;
+  }
+
+  const tb = state.tiebreak!;
+  for (const e of scoring) tb[e.by] += e.points;
+  if (!gotOut) tb.rodeOut[top] = true;
+  tb.rideouts++;
+  if (tb.rideouts < 2) {
+    state.position = startPosition === 'TOP' ? 'BOTTOM' : 'TOP';
+    notes.push('Switch: second rideout.');
+    return;
+  }
+  const winner = tb.me !== tb.opp ? (tb.me > tb.opp ? 'me' : 'opp') : tb.rodeOut.me !== tb.rodeOut.opp ? (tb.rodeOut.me ? 'me' : 'opp') : null;
+  if (winner) {
+    endInOvertime(state, winner, 'TB-1');
+    notes.push(`${winner === 'me' ? 'You take' : 'They take'} the tiebreaker ${tb.me}-${tb.opp}${tb.me === tb.opp ? ' on the ride-out' : ''} — TB-1.`);
+    return;
+  }
+  state.overtime = 'SV-2';
+  state.position = 'NEUTRAL';
+  notes.push('Tiebreakers even. Second sudden victory.');
+}
+
+/** End the match on the scoreboard: `winner` takes it by `method`. */
+function finishOnScore(state: MatchMinigameState, winner: 'me' | 'opp', method: string): void {
+  state.finished = true;
+  state.injuryDecision = false;
+  state.result = {
+    won: winner === 'me',
+    method,
+    myScore: state.myScore,
+    oppScore: state.oppScore,
+    eliteEffectiveGap: (state.myScore - state.oppScore) * 2,
+    eliteBaseGap: state.my.overallRating - state.opp.overallRating,
+    eliteFavoriteProb: winner === 'me' ? 1 : 0,
+  };
+}
+
+/** International criteria for a tied match: the bigger single score, then fewer cautions, then whoever scored last. */
+function criteriaWinner(state: MatchMinigameState): 'me' | 'opp' {
+  const events = state.logs.flatMap((l) => l.scoring ?? []);
+  const biggest = (who: 'me' | 'opp') => Math.max(0, ...events.filter((e) => e.by === who).map((e) => e.points));
+  if (biggest('me') !== biggest('opp')) return biggest('me') > biggest('opp') ? 'me' : 'opp';
+  const ref = state.referee;
+  if (ref && ref.me.cautions !== ref.opp.cautions) return ref.me.cautions < ref.opp.cautions ? 'me' : 'opp';
+  const last = events[events.length - 1];
+  if (last) return last.by;
+  return state.momentum >= 0 ? 'me' : 'opp';
+}
+
+/** End the match on a call that reaches the stalling or caution limit: `who` is disqualified. */
+function endByRefereeDq(state: MatchMinigameState, who: 'me' | 'opp'): void {
+  state.finished = true;
+  state.injuryDecision = false;
+  state.positionChoice = false;
+  state.result = {
+    won: who === 'opp',
+    method: 'DQ',
+    myScore: state.myScore,
+    oppScore: state.oppScore,
+    eliteEffectiveGap: 0,
+    eliteBaseGap: state.my.overallRating - state.opp.overallRating,
+    eliteFavoriteProb: who === 'opp' ? 1 : 0,
+  };
+}
+
+/** Resolve the injury timeout vs default out decision. Timing out on the decision takes the timeout. */
+function resolveInjuryDecision(state: MatchMinigameState, actionKey: string, cfg: MatchMinigameConfig, timedOut: boolean): ExchangeResolution {
+  const defaultOut = !timedOut && actionKey === DEFAULT_OUT_KEY;
+  const notes: string[] = [];
+  const energyBefore = state.my.energy;
+  const injuryBefore = state.my.injurySeverity;
+  if (defaultOut) {
+    endByDefault(state, 'me');
+    notes.push(state.result!.won ? 'You can\'t continue — the ref disqualifies them for the illegal move.' : 'You can\'t continue. Injury default.');
+  } else {
+    state.injuryDecision = false;
+    state.myInjuryTimeoutUsed = true;
+    state.my.wrapped = true;
+    state.my.injurySeverity = clamp(0, 1, state.my.injurySeverity - 0.05);
+    state.my.energy = clamp(0, 100, state.my.energy + 5);
+    notes.push('Injury time: the trainer tapes you up. Wrestling wrapped from here — one more and you\'re done.');
+  }
+  const logEntry: ExchangeLogEntry = {
+    period: state.period,
+    position: state.position,
+    prompt: buildInjuryPrompt(state.period, state.position, cfg).prompt,
+    actionKey: defaultOut ? DEFAULT_OUT_KEY : INJURY_TIMEOUT_KEY,
+    actionLabel: defaultOut ? 'Default out' : 'Injury timeout',
+    timedOut,
+    timerSeconds: cfg.timerSeconds ?? DECISION_TIMER_SECONDS,
+    success: !defaultOut,
+    pointsFor: 0,
+    pointsAgainst: 0,
+    scoring: [],
+    ridingTime: state.ridingTime ?? 0,
+    myEnergyBefore: energyBefore,
+    myEnergyAfter: state.my.energy,
+    myInjuryBefore: injuryBefore,
+    myInjuryAfter: state.my.injurySeverity,
+    momentumBefore: state.momentum,
+    momentumAfter: state.momentum,
+    timerFailureScored: false,
+    notes,
+  };
+  state.logs.push(logEntry);
+  const nextPrompt = state.finished ? null : generateExchangePrompt(state, cfg);
+  return { state, logEntry, nextPrompt };
 }
 
 interface ResolveOptions {
@@ -390,74 +1239,115 @@ export function resolveExchange(
     my: copyWrestler(prevState.my),
     opp: copyWrestler(prevState.opp),
     logs: [...prevState.logs],
+    referee: prevState.referee ? copyRefereeState(prevState.referee) : createRefereeState(undefined, prevState.ruleSet),
+    ...(prevState.tiebreak ? { tiebreak: { ...prevState.tiebreak, rodeOut: { ...prevState.tiebreak.rodeOut } } } : {}),
   };
+  if (state.injuryDecision) return resolveInjuryDecision(state, actionKey, cfg, options.timedOut === true);
+  if (state.positionChoice) return resolvePositionChoice(state, actionKey, cfg, options.timedOut === true);
 
   const period = state.period;
   const position = state.position;
+  const overtime = state.overtime;
+  const ruleSet = state.ruleSet ?? 'folkstyle';
+  const rules = RULE_SETS[ruleSet];
+  const promptText = generateExchangePrompt(state, cfg).prompt;
   const forcedHesitate = options.timedOut === true;
   const key = forcedHesitate ? HESITATE_KEY : actionKey;
-  const defs = getActionsForPosition(position);
+  const defs = getActionsForPosition(ruleSet, position);
   const def = defs.find((d) => d.key === key) ?? defs.find((d) => d.key === HESITATE_KEY)!;
 
   const myBefore = state.my.energy;
   const myInjuryBefore = state.my.injurySeverity;
   const momBefore = state.momentum;
   const notes: string[] = [];
+  const oppIntent = chooseOpponentIntent(opponentSituation(state), rng);
+  const intent = OPPONENT_INTENT_EFFECTS[oppIntent];
 
-  // Effective offense vs defense + momentum – fatigue/injury – hesitation penalty
+  // Effective offense vs defense + momentum – fatigue/injury – hesitation penalty, shifted by what the opponent went for
   const offAttr = attributeScore(state.my, def.offenseWeights);
   const defAttr = attributeScore(state.opp, def.defenseWeights);
   const ratingGapTerm = (state.my.overallRating - state.opp.overallRating) * 0.6;
   const momentumBonus = state.momentum * 0.8;
   const fatigue = fatiguePenalty(state.my.energy);
-  const inj = injuryPenalty(state.my.injurySeverity);
+  const inj = injuryPenalty(state.my.injurySeverity) - injuryPenalty(state.opp.injurySeverity);
   const hesitationPenalty = forcedHesitate || def.key === HESITATE_KEY ? 8 : 0;
+  const scoutingEdge = state.opp.scouted && INTENT_ANSWERS[oppIntent].includes(def.key) ? SCOUTING_EDGE : 0;
+  if (scoutingEdge > 0) notes.push('Just like the film — you saw it coming.');
 
-  const effective = offAttr - defAttr + ratingGapTerm + momentumBonus - fatigue - inj - hesitationPenalty;
+  const effective = offAttr - defAttr + ratingGapTerm + momentumBonus - fatigue - inj - hesitationPenalty + intent.edge + scoutingEdge;
   const pSuccess = logisticWinProb(effective, 12);
   const success = rng.chance(pSuccess);
 
-  let pointsFor = 0;
-  let pointsAgainst = 0;
-  let newPos: MatchPosition;
-  let momentumAfter: number;
-
-  if (success) {
-    pointsFor = def.onSuccess.pointsFor;
-    pointsAgainst = def.onSuccess.pointsAgainst ?? 0;
-    newPos = def.onSuccess.newPosition;
-    momentumAfter = state.momentum + def.onSuccess.momentumDelta;
-    // Very small chance of pin on high-risk top actions
-    if (def.canPinOnSuccess && rng.chance(0.08)) {
-      pointsFor = Math.max(pointsFor, 6);
-      notes.push('You flat-out decked him off the action.');
-    }
-  } else {
-    pointsFor = def.onFail.pointsFor ?? 0;
-    pointsAgainst = def.onFail.pointsAgainst;
-    newPos = def.onFail.newPosition;
-    momentumAfter = state.momentum + def.onFail.momentumDelta;
+  const scoring: ScoringEvent[] = [];
+  const isHesitate = def.key === HESITATE_KEY;
+  const outcome = success
+    ? (isHesitate ? { ...def.onSuccess, newPosition: position } : def.onSuccess)
+    : (isHesitate ? rules.hesitateFail[position] : def.onFail);
+  if (outcome.score) scoring.push(scoringEvent(outcome.score, success ? 'me' : 'opp', rng, ruleSet));
+  const newPos = outcome.newPosition;
+  const momentumAfter = state.momentum + outcome.momentumDelta * intent.swing;
+  if (!success && oppIntent !== 'stall') notes.push(OPPONENT_FAIL_NOTES[oppIntent]);
+  // Very small chance a turn goes all the way to a fall
+  const fall = success && !!def.canPinOnSuccess && rng.chance(FALL_CHANCE);
+  if (fall) notes.push('You flat-out decked him off the action.');
+
+  // Riding time: the wrestler on top banks seconds until the bottom man gets out (folkstyle regulation only)
+  if (!overtime && ruleSet === 'folkstyle') {
+    const periodSeconds = rules.periods[period - 1]!;
+    let rideMe = 0;
+    let rideOpp = 0;
+    if (position === 'TOP') rideMe += newPos === 'TOP' ? rng.int(periodSeconds / 2, periodSeconds) : rng.int(5, 40);
+    if (position === 'BOTTOM') rideOpp += newPos === 'BOTTOM' ? rng.int(periodSeconds / 2, periodSeconds) : rng.int(5, 40);
+    if (newPos === 'TOP' && position !== 'TOP') rideMe += rng.int(10, 40);
+    if (newPos === 'BOTTOM' && position !== 'BOTTOM') rideOpp += rng.int(10, 40);
+    state.ridingTime = (state.ridingTime ?? 0) + rideMe - rideOpp;
   }
 
-  // Stamina costs
-  const staminaCost = def.staminaCost + (success ? 0 : def.failStaminaBonus ?? 0);
+  // Stamina costs (a hard weight cut leaves less in the tank)
+  const cut = clamp(0, 1, state.my.cutSeverity ?? 0);
+  const staminaCost = def.staminaCost + (success ? 0 : def.failStaminaBonus ?? 0) + intent.stamina + cut * 4;
   const energyAfter = clamp(0, 100, state.my.energy - staminaCost);
 
-  // Injury risk scaled by low energy + hesitation awkwardness
+  // Injury risk scaled by low energy + hesitation awkwardness + dehydration
   const lowEnergyFactor = 1 + (1 - energyAfter / 100) * 1.2;
   const hesitationFactor = forcedHesitate || def.key === HESITATE_KEY ? 1.4 : 1.0;
-  const injuryChance = def.baseInjuryRisk * lowEnergyFactor * hesitationFactor;
-  let injuryAfter = state.my.injurySeverity;
-  if (rng.chance(injuryChance)) {
+  const injuryChance = def.baseInjuryRisk * lowEnergyFactor * hesitationFactor * (1 + cut);
+  let injuryAfter = clamp(0, 1, state.my.injurySeverity + cut * 0.02);
+  const injured = rng.chance(injuryChance);
+  if (injured) {
     const deltaSev = 0.05 + rng.float() * 0.08;
     injuryAfter = clamp(0, 1, injuryAfter + deltaSev);
     notes.push('You tweaked something in the scramble — carrying a small injury now.');
   }
+  if (cut >= 0.5 && period === 1) notes.push('The weight cut is catching up with you — legs feel heavy.');
+
+  // The defender can get hurt on your attack too
+  const oppInjured = rng.chance(def.baseInjuryRisk * OPP_INJURY_SHARE);
+  if (oppInjured) {
+    state.opp.injurySeverity = clamp(0, 1, state.opp.injurySeverity + 0.05 + rng.float() * 0.1);
+    notes.push('Your opponent came up slow from that one.');
+  }
+  // The ref watches the pace: passive play draws stalling, mat starts and high-risk attacks draw cautions.
+  const myConduct: ExchangeConduct = def.passive ? 'passive' : def.risk === 'high' ? 'high_risk' : 'active';
+  const oppHighRisk = oppIntent === 'counter' || scoring.some((e) => e.by === 'opp' && (e.move === 'near_fall' || e.move === 'reversal'));
+  const oppConduct: ExchangeConduct = oppIntent === 'stall' ? 'passive' : oppHighRisk ? 'high_risk' : 'active';
+  // Injuries go to the ref too: the move that caused one may be ruled illegal.
+  const calls = officiateExchange(state.referee!, { me: myConduct, opp: oppConduct }, position !== 'NEUTRAL', rng, { me: injured, opp: oppInjured });
+  for (const call of calls) {
+    const other = call.on === 'me' ? 'opp' : 'me';
+    if (call.points > 0) scoring.push({ move: 'penalty', by: other, points: call.points });
+    if (call.hurt) state.illegalInjury = other;
+    notes.push(`${call.text} on ${call.on === 'me' ? 'you' : 'them'}.`);
+  }
+  const refereeDq = calls.find((c) => c.dq);
+  const pointsFor = scoring.filter((e) => e.by === 'me').reduce((sum, e) => sum + e.points, 0);
+  const pointsAgainst = scoring.filter((e) => e.by === 'opp').reduce((sum, e) => sum + e.points, 0);
 
   state.my.energy = energyAfter;
   state.my.injurySeverity = injuryAfter;
   state.myScore += pointsFor;
   state.oppScore += pointsAgainst;
+  if (!state.firstScore && !overtime && scoring.length > 0) state.firstScore = scoring[0]!.by;
   state.position = newPos;
   state.momentum = clamp(-15, 15, momentumAfter);
 
@@ -465,7 +1355,7 @@ export function resolveExchange(
   const logEntry: ExchangeLogEntry = {
     period,
     position,
-    prompt: buildPrompt(period, position, cfg).prompt,
+    prompt: promptText,
     actionKey: def.key,
     actionLabel: def.label,
     timedOut: !!forcedHesitate,
@@ -473,6 +1363,8 @@ export function resolveExchange(
     success,
     pointsFor,
     pointsAgainst,
+    scoring,
+    ridingTime: state.ridingTime,
     myEnergyBefore: myBefore,
     myEnergyAfter: energyAfter,
     myInjuryBefore,
@@ -480,76 +1372,114 @@ export function resolveExchange(
     momentumBefore: momBefore,
     momentumAfter: state.momentum,
     timerFailureScored: !!forcedHesitate && pointsAgainst > 0,
+    ...(injured ? { injured } : {}),
+    ...(oppInjured ? { oppInjured } : {}),
+    ...(overtime ? { overtime } : {}),
+    ...(calls.length > 0 ? { referee: calls } : {}),
+    oppIntent,
     notes,
   };
 
   state.logs.push(logEntry);
 
-  if (period < 3) {
-    state.period = ((period + 1) as Period);
-    const nextPrompt = buildPrompt(state.period, state.position, cfg);
-    return { state, logEntry, nextPrompt };
+  if (fall) {
+    state.finished = true;
+    state.result = {
+      won: true,
+      method: 'Fall',
+      myScore: state.myScore,
+      oppScore: state.oppScore,
+      eliteEffectiveGap: 0,
+      eliteBaseGap: state.my.overallRating - state.opp.overallRating,
+      eliteFavoriteProb: 1,
+    };
+    return { state, logEntry, nextPrompt: null };
   }
 
-  // After 3 periods: minigame score decides the winner when there's a clear margin.
-  // Only use elite sim for tiebreaker (0-0 or equal score).
-  state.finished = true;
+  if (refereeDq) {
+    endByRefereeDq(state, refereeDq.on);
+    return { state, logEntry, nextPrompt: null };
+  }
+
+  // Hurt past the threshold, on any exchange: the opponent's trainer decides for them; you get the choice (once).
+  if (oppInjured && state.opp.injurySeverity >= INJURY_DEFAULT_THRESHOLD) {
+    if (state.oppInjuryTimeoutUsed || state.opp.injurySeverity >= OPP_DEFAULT_SEVERITY) {
+      endByDefault(state, 'opp');
+      notes.push(state.result!.won ? 'They can\'t continue. You win by injury default.' : 'They can\'t continue — you\'re disqualified for the illegal hold.');
+      return { state, logEntry, nextPrompt: null };
+    }
+    state.oppInjuryTimeoutUsed = true;
+    notes.push('They take injury time and come back taped up.');
+  }
+  if (injured && injuryAfter >= INJURY_DEFAULT_THRESHOLD) {
+    if (state.myInjuryTimeoutUsed) {
+      endByDefault(state, 'me');
+      notes.push('Hurt again after your injury time — you have to default.');
+      return { state, logEntry, nextPrompt: null };
+    }
+    state.injuryDecision = true;
+  }
 
+  // International styles stop the match at a 10-point lead.
+  const lead = state.myScore - state.oppScore;
+  if (ruleSet !== 'folkstyle' && Math.abs(lead) >= rules.techLead) {
+    finishOnScore(state, lead > 0 ? 'me' : 'opp', 'Tech');
+    notes.push(`Technical superiority at ${state.myScore}-${state.oppScore}.`);
+    return { state, logEntry, nextPrompt: null };
+  }
+
+  // International par terre carries on within the period until someone gets up or the ref stands them up.
+  const parTerre = ruleSet !== 'folkstyle' && newPos !== 'NEUTRAL' && (state.parTerre ?? 0) < PAR_TERRE_EXCHANGES;
+  state.parTerre = parTerre ? (state.parTerre ?? 0) + 1 : 0;
+  const lastPeriod = rules.periods.length;
+  if (period < lastPeriod || overtime || parTerre) {
+    if (overtime) {
+      advanceOvertime(state, scoring, position, notes);
+    } else if (!parTerre) {
+      state.period = ((period + 1) as Period);
+      if (ruleSet === 'folkstyle') {
+        startPeriod(state, rng, notes);
+      } else {
+        state.position = 'NEUTRAL';
+        notes.push(`Period ${state.period}: back to the feet.`);
+      }
+    }
+    return { state, logEntry, nextPrompt: state.finished ? null : generateExchangePrompt(state, cfg) };
+  }
+
+  // After 3 folkstyle periods: a minute or more of net riding time is worth a point.
+  const ridingTime = state.ridingTime ?? 0;
+  if (ruleSet === 'folkstyle' && Math.abs(ridingTime) >= RIDING_TIME_POINT_SECONDS) {
+    const rt = scoringEvent('riding_time', ridingTime > 0 ? 'me' : 'opp', rng);
+    logEntry.scoring!.push(rt);
+    if (rt.by === 'me') {
+      logEntry.pointsFor += rt.points;
+      state.myScore += rt.points;
+    } else {
+      logEntry.pointsAgainst += rt.points;
+      state.oppScore += rt.points;
+    }
+    notes.push(`Riding time: ${rt.by === 'me' ? 'your' : 'their'} point (${formatRidingTime(Math.abs(ridingTime))}).`);
+  }
+
+  // Tied after regulation: sudden victory from neutral in folkstyle, criteria in the international styles.
   const scoreDiff = state.myScore - state.oppScore;
-  let finalWon: boolean;
-  let method: string;
-  let effectiveGap: number;
-  let baseGap: number;
-  let pFavorite: number;
-
-  if (scoreDiff > 0) {
-    // You led in the minigame — you win. Method from margin.
-    finalWon = true;
-    method = scoreDiff >= 15 ? 'Tech' : scoreDiff >= 8 ? 'Major' : 'Dec';
-    effectiveGap = scoreDiff * 2;
-    baseGap = state.my.overallRating - state.opp.overallRating;
-    pFavorite = 1;
-  } else if (scoreDiff < 0) {
-    // Opponent led in the minigame — you lose.
-    finalWon = false;
-    method = Math.abs(scoreDiff) >= 15 ? 'Tech' : Math.abs(scoreDiff) >= 8 ? 'Major' : 'Dec';
-    effectiveGap = scoreDiff * 2;
-    baseGap = state.my.overallRating - state.opp.overallRating;
-    pFavorite = 0;
-  } else {
-    // Tie: use elite sim as tiebreaker with minigame momentum as form.
-    const formModA = state.momentum * 0.8;
-    const eliteResult = simEliteMatch(
-      {
-        baseA: state.my.overallRating,
-        energyA: clamp(0, 100, state.my.energy),
-        injuryA: clamp(0, 1, state.my.injurySeverity),
-        composureA: 80,
-        baseB: state.opp.overallRating,
-        energyB: 80,
-        injuryB: 0,
-        composureB: 80,
-        formModA,
-        formModB: 0,
-      },
-      rng
-    );
-    finalWon = eliteResult.won;
-    method = eliteResult.method;
-    effectiveGap = eliteResult.effectiveGap;
-    baseGap = eliteResult.baseGap;
-    pFavorite = eliteResult.pFavorite;
+  if (scoreDiff === 0 && ruleSet !== 'folkstyle') {
+    const winner = criteriaWinner(state);
+    finishOnScore(state, winner, 'Criteria');
+    notes.push(`Tied ${state.myScore}-${state.oppScore}: ${winner === 'me' ? 'you win' : 'they win'} on criteria.`);
+    return { state, logEntry, nextPrompt: null };
+  }
+  if (scoreDiff === 0) {
+    state.overtime = 'SV-1';
+    state.position = 'NEUTRAL';
+    notes.push(`Tied ${state.myScore}-${state.oppScore} after regulation. Sudden victory.`);
+    return { state, logEntry, nextPrompt: generateExchangePrompt(state, cfg) };
   }
 
-  state.result = {
-    won: finalWon,
-    method,
-    myScore: state.myScore,
-    oppScore: state.oppScore,
-    eliteEffectiveGap: effectiveGap,
-    eliteBaseGap: baseGap,
-    eliteFavoriteProb: pFavorite,
-  };
+  // The minigame score decides it; the margin sets the method.
+  const margin = Math.abs(scoreDiff);
+  finishOnScore(state, scoreDiff > 0 ? 'me' : 'opp', margin >= rules.techLead ? 'Tech' : rules.majorLead != null && margin >= rules.majorLead ? 'Major' : 'Dec');
 
   return { state, logEntry, nextPrompt: null };
 }
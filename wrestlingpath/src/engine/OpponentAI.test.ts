@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { chooseOpponentIntent, likelyOpponentIntent, OPPONENT_INTENTS, type OpponentIntent, type OpponentSituation, type OpponentStyle } from './OpponentAI';
+import { createInitialMinigameState, generateExchangePrompt, resolveExchange, type MinigameWrestler } from './MatchMinigame';
+import { SeededRNG } from './SeededRNG';
+
+const SAMPLES = 2000;
+
+function situation(style: OpponentStyle, extra: Partial<OpponentSituation> = {}): OpponentSituation {
+  return { style, clutch: 50, onTop: false, period: 1, overtime: false, lead: 0, momentum: 0, ...extra };
+}
+
+/** Share of each intent over many seeded draws. */
+function distribution(s: OpponentSituation, seed: string): Record<OpponentIntent, number> {
+  const rng = new SeededRNG(seed);
+  const counts: Record<OpponentIntent, number> = { attack: 0, ride: 0, counter: 0, stall: 0 };
+  for (let i = 0; i < SAMPLES; i++) counts[chooseOpponentIntent(s, rng)]++;
+  for (const k of OPPONENT_INTENTS) counts[k] /= SAMPLES;
+  return counts;
+}
+
+function wrestler(name: string, style?: OpponentStyle): MinigameWrestler {
+  return { name, overallRating: 70, technique: 70, matIQ: 70, conditioning: 70, strength: 70, speed: 70, flexibility: 70, energy: 80, injurySeverity: 0, style };
+}
+
+describe('OpponentAI', () => {
+  it('gives each style a measurably different mix on the feet', () => {
+    const grinder = distribution(situation('grinder'), 'ai-grinder');
+    const scrambler = distribution(situation('scrambler'), 'ai-scrambler');
+    const defensive = distribution(situation('defensive'), 'ai-defensive');
+    expect(grinder.attack).toBeGreaterThan(0.6);
+    expect(scrambler.counter).toBeGreaterThan(0.55);
+    expect(defensive.stall).toBeGreaterThan(0.45);
+    expect(grinder.attack - scrambler.attack).toBeGreaterThan(0.3);
+    expect(scrambler.counter - grinder.counter).toBeGreaterThan(0.4);
+    expect(defensive.stall - grinder.stall).toBeGreaterThan(0.3);
+    expect(grinder.ride + scrambler.ride + defensive.ride).toBe(0);
+  });
+
+  it('has grinders ride from top', () => {
+    const grinder = distribution(situation('grinder', { onTop: true }), 'ai-ride');
+    const scrambler = distribution(situation('scrambler', { onTop: true }), 'ai-ride');
+    expect(likelyOpponentIntent(situation('grinder', { onTop: true }))).toBe('ride');
+    expect(grinder.ride - scrambler.ride).toBeGreaterThan(0.25);
+  });
+
+  it('adapts to the score, the period, momentum and clutch', () => {
+    const even = distribution(situation('defensive'), 'ai-lead');
+    const protecting = distribution(situation('defensive', { lead: 3, period: 3 }), 'ai-lead');
+    expect(protecting.stall - even.stall).toBeGreaterThan(0.2);
+
+    const trailingEarly = distribution(situation('grinder', { lead: -2, period: 1 }), 'ai-trail');
+    const trailingLate = distribution(situation('grinder', { lead: -2, period: 3 }), 'ai-trail');
+    const clutchLate = distribution(situation('grinder', { lead: -2, period: 3, clutch: 90 }), 'ai-trail');
+    expect(trailingLate.attack).toBeGreaterThan(trailingEarly.attack);
+    expect(clutchLate.attack).toBeGreaterThan(trailingLate.attack);
+
+    const rolling = distribution(situation('scrambler', { momentum: 10 }), 'ai-momentum');
+    const scrambler = distribution(situation('scrambler'), 'ai-momentum');
+    expect(rolling.counter).toBeGreaterThan(scrambler.counter);
+  });
+
+  it('shows the likely intent on the prompt and wrestles to it in the minigame', () => {
+    const vs = (style: OpponentStyle) => createInitialMinigameState(wrestler('You'), wrestler('Them', style));
+    expect(generateExchangePrompt(vs('scrambler')).prompt).toContain("they're waiting to counter");
+    expect(generateExchangePrompt(vs('defensive')).prompt).toContain('backing off');
+
+    const play = (style: OpponentStyle) => {
+      const intents: Record<OpponentIntent, number> = { attack: 0, ride: 0, counter: 0, stall: 0 };
+      let scored = 0;
+      for (let i = 0; i < 500; i++) {
+        const r = resolveExchange(vs(style), 'blast_double', new SeededRNG(`ai-bout-${i}`));
+        intents[r.logEntry.oppIntent!]++;
+        if (r.logEntry.success) scored++;
+      }
+      return { intents, scored };
+    };
+    const scrambler = play('scrambler');
+    const defensive = play('defensive');
+    expect(scrambler.intents.counter).toBeGreaterThan(defensive.intents.counter * 2);
+    expect(defensive.intents.stall).toBeGreaterThan(scrambler.intents.stall * 2);
+    // Scramblers leave openings; defensive wrestlers are hard to score on
+    expect(scrambler.scored).toBeGreaterThan(defensive.scored);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Opponent decision policy for the match minigame: what the other wrestler goes for on each exchange, by style.
+ * Grinders ride and chain shots, scramblers wait to counter, defensive wrestlers stall once they have a lead.
+ * Everyone adapts to the score, the period and momentum; clutch wrestlers press harder when it's late and close.
+ */
+
+import type { SeededRNG } from './SeededRNG';
+
+export type OpponentStyle = 'grinder' | 'scrambler' | 'defensive';
+
+/** 'ride' is only on the table when the opponent is on top. */
+export type OpponentIntent = 'attack' | 'ride' | 'counter' | 'stall';
+
+export const OPPONENT_INTENTS: OpponentIntent[] = ['attack', 'ride', 'counter', 'stall'];
+
+/** The exchange as the opponent sees it: their lead and momentum, and where they are. */
+export interface OpponentSituation {
+  style: OpponentStyle;
+  /** 0–100; 50 is average. */
+  clutch: number;
+  onTop: boolean;
+  period: 1 | 2 | 3;
+  overtime: boolean;
+  /** Opponent's score minus yours. */
+  lead: number;
+  /** Positive = opponent rolling. */
+  momentum: number;
+}
+
+export interface OpponentIntentEffect {
+  /** Added to your attack's effective edge: committed opponents leave openings, stalling ones don't. */
+  edge: number;
+  /** Multiplies the momentum swing of the exchange. */
+  swing: number;
+  /** Extra stamina you burn fighting it. */
+  stamina: number;
+}
+
+export const OPPONENT_INTENT_EFFECTS: Record<OpponentIntent, OpponentIntentEffect> = {
+  attack: { edge: -2, swing: 1, stamina: 1 },
+  ride: { edge: -6, swing: 1, stamina: 2 },
+  counter: { edge: 3, swing: 1.5, stamina: 0 },
+  stall: { edge: -4, swing: 0.5, stamina: 0 },
+};
+
+export const DEFAULT_OPPONENT_STYLE: OpponentStyle = 'grinder';
+
+const STYLE_WEIGHTS: Record<OpponentStyle, Record<OpponentIntent, number>> = {
+  grinder: { attack: 5, ride: 6, counter: 1, stall: 1 },
+  scrambler: { attack: 2, ride: 1.5, counter: 5, stall: 0.5 },
+  defensive: { attack: 1.5, ride: 3, counter: 1.5, stall: 4 },
+};
+
+/** Scouting report lines, by intent. */
+export const OPPONENT_INTENT_LABELS: Record<OpponentIntent, string> = {
+  attack: 'Chains shots and keeps coming',
+  ride: 'Rides hard from top',
+  counter: 'Waits to counter in scrambles',
+  stall: 'Backs off to protect a lead',
+};
+
+/** What the prompt tells you to expect. */
+const INTENT_READS: Record<OpponentIntent, string> = {
+  attack: 'they keep chaining shots',
+  ride: "they're settling in to ride",
+  counter: "they're waiting to counter",
+  stall: "they're backing off to protect the score",
+};
+
+/**
+ * Relative weights of each intent this exchange. Being ahead late pushes everyone (defensive wrestlers most) toward
+ * stalling; being behind late pushes toward attacking, more so for clutch wrestlers. Scramblers counter more on a roll.
+ */
+export function opponentIntentWeights(s: OpponentSituation): Record<OpponentIntent, number> {
+  const w = { ...STYLE_WEIGHTS[s.style] };
+  if (!s.onTop) w.ride = 0;
+  const urgency = s.overtime ? 1.2 : s.period / 3;
+  const clutch = s.clutch / 50;
+  if (s.lead > 0) {
+    w.stall *= 1 + s.lead * urgency * (s.style === 'defensive' ? 0.8 : 0.3);
+    w.attack /= 1 + s.lead * urgency * 0.2;
+  } else if (s.lead < 0) {
+    w.attack *= 1 - s.lead * urgency * 0.4 * (urgency >= 1 ? clutch : 1);
+    w.stall /= 1 - s.lead * urgency;
+  }
+  if (s.momentum > 0) {
+    w.counter *= 1 + s.momentum * (s.style === 'scrambler' ? 0.1 : 0.03);
+    w.attack *= 1 + s.momentum * (s.style === 'grinder' ? 0.06 : 0.02);
+  } else if (s.momentum < 0) {
+    w.stall *= 1 - s.momentum * (s.style === 'defensive' ? 0.08 : 0.02);
+  }
+  return w;
+}
+
+/** The intent with the most weight: what the opponent is likeliest to do (shown on the prompt). */
+export function likelyOpponentIntent(s: OpponentSituation): OpponentIntent {
+  const w = opponentIntentWeights(s);
+  return OPPONENT_INTENTS.reduce((best, k) => (w[k] > w[best] ? k : best));
+}
+
+export function chooseOpponentIntent(s: OpponentSituation, rng: SeededRNG): OpponentIntent {
+  const w = opponentIntentWeights(s);
+  const total = OPPONENT_INTENTS.reduce((sum, k) => sum + w[k], 0);
+  let roll = rng.float() * total;
+  for (const k of OPPONENT_INTENTS) {
+    roll -= w[k];
+    if (roll < 0) return k;
+  }
+  return 'attack';
+}
+
+export function describeOpponentRead(intent: OpponentIntent): string {
+  return INTENT_READS[intent];
+}
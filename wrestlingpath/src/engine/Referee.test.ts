@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { createRefereeState, officiateExchange, STALLING_DQ_CALL, type ExchangeConduct, type RefereeCall } from './Referee';
+import { SeededRNG } from './SeededRNG';
+
+describe('Referee', () => {
+  it('calls stalling warning, 1, 1, 2, then DQ on the fifth call', () => {
+    const ref = createRefereeState(1);
+    const rng = new SeededRNG('ref-stall');
+    const calls: RefereeCall[] = [];
+    for (let i = 0; i < 200 && ref.me.stalls < STALLING_DQ_CALL; i++) {
+      calls.push(...officiateExchange(ref, { me: 'passive', opp: 'active' }, false, rng).filter((c) => c.kind === 'stalling'));
+    }
+    expect(calls.map((c) => c.points)).toEqual([0, 1, 1, 2, 0]);
+    expect(calls.map((c) => c.dq)).toEqual([false, false, false, false, true]);
+    expect(calls.every((c) => c.on === 'me')).toBe(true);
+    expect(ref.opp.stalls).toBe(0);
+  });
+
+  it('never calls stalling on a single passive exchange', () => {
+    const ref = createRefereeState(1);
+    const rng = new SeededRNG('ref-pace');
+    for (let i = 0; i < 50; i++) {
+      officiateExchange(ref, { me: 'passive', opp: 'passive' }, false, rng);
+      officiateExchange(ref, { me: 'active', opp: 'active' }, false, rng);
+    }
+    expect(ref.me.stalls + ref.opp.stalls).toBe(0);
+  });
+
+  it('lets two cautions go, then gives the opponent a point for each, and disqualifies on the sixth', () => {
+    const ref = createRefereeState(1);
+    const rng = new SeededRNG('ref-caution');
+    const cautions: RefereeCall[] = [];
+    for (let i = 0; i < 2000 && cautions.length < 6; i++) {
+      cautions.push(...officiateExchange(ref, { me: 'high_risk', opp: 'active' }, true, rng).filter((c) => c.on === 'me'));
+    }
+    expect(cautions.map((c) => c.points)).toEqual([0, 0, 1, 1, 1, 0]);
+    expect(cautions.map((c) => c.dq)).toEqual([false, false, false, false, false, true]);
+    expect(cautions.some((c) => c.kind === 'illegal_hold')).toBe(true);
+  });
+
+  it('calls passivity and cautions by the international penalty tables', () => {
+    const calls = (ruleSet: 'freestyle' | 'greco', conduct: ExchangeConduct, kind: 'stalling' | 'caution', n: number) => {
+      const ref = createRefereeState(1, ruleSet);
+      const rng = new SeededRNG(`ref-${ruleSet}-${kind}`);
+      const out: RefereeCall[] = [];
+      for (let i = 0; i < 2000 && out.length < n && !out.some((c) => c.dq); i++) {
+        out.push(...officiateExchange(ref, { me: conduct, opp: 'active' }, kind === 'caution', rng).filter((c) => c.on === 'me' && (c.kind === 'stalling') === (kind === 'stalling')));
+      }
+      return out;
+    };
+    const freestylePassivity = calls('freestyle', 'passive', 'stalling', 6);
+    expect(freestylePassivity.map((c) => c.points)).toEqual([0, 1, 1, 1, 1, 1]);
+    expect(freestylePassivity[0]!.text).toBe('Passivity warning');
+    expect(freestylePassivity.some((c) => c.dq)).toBe(false);
+    expect(calls('greco', 'passive', 'stalling', 3).map((c) => c.points)).toEqual([1, 1, 1]);
+    for (const ruleSet of ['freestyle', 'greco'] as const) {
+      const cautions = calls(ruleSet, 'high_risk', 'caution', 5);
+      expect(cautions.map((c) => c.points)).toEqual([1, 1, 0]);
+      expect(cautions.map((c) => c.dq)).toEqual([false, false, true]);
+    }
+  });
+
+  it('may rule the move that hurt a wrestler illegal, always for a point', () => {
+    const ref = createRefereeState(0);
+    const calls: RefereeCall[] = [];
+    for (let i = 0; i < 200 && calls.length === 0; i++) {
+      calls.push(...officiateExchange(ref, { me: 'active', opp: 'active' }, false, new SeededRNG(`ref-hurt-${i}`), { me: true }));
+    }
+    expect(calls).toEqual([expect.objectContaining({ kind: 'illegal_hold', on: 'opp', points: 1, hurt: true })]);
+    expect(ref.opp.cautions).toBe(1);
+  });
+
+  it('calls more the stricter the referee', () => {
+    const calls = (strictness: number) => {
+      const ref = createRefereeState(strictness);
+      const rng = new SeededRNG(`ref-strict-${strictness}`);
+      let n = 0;
+      for (let i = 0; i < 400; i++) {
+        n += officiateExchange(ref, { me: i % 3 === 0 ? 'active' : 'passive', opp: 'high_risk' }, true, rng).length;
+        ref.me.stalls = 0;
+        ref.opp.cautions = 0;
+      }
+      return n;
+    };
+    expect(calls(1)).toBeGreaterThan(calls(0) * 1.5);
+  });
+});
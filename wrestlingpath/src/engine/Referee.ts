@@ -0,0 +1,144 @@
+/**
+ * Referee for the match minigame: tracks each wrestler's pace and calls stalling and cautions, by the rule set's
+ * penalty table. Folkstyle stalling goes warning, 1 point, 1 point, 2 points, then disqualification on the fifth
+ * call; cautions (false starts, illegal holds) are free twice, then a point each, and the sixth disqualifies.
+ * Freestyle passivity is a warning, then a point each time; Greco passivity is a point from the first call. In both,
+ * every caution is a point and the third disqualifies. An illegal move that hurts the other wrestler is always a
+ * point, and decides the match if they can't continue.
+ */
+
+import type { RuleSet } from './MatchMinigame';
+import type { SeededRNG } from './SeededRNG';
+
+export interface FoulCount {
+  /** Passive exchanges in a row; resets when the wrestler attacks or gets called. */
+  pace: number;
+  stalls: number;
+  cautions: number;
+}
+
+export interface RefereeState {
+  /** 0–1: how quickly this ref calls stalling and cautions. */
+  strictness: number;
+  /** Whose penalty table applies. Missing on matches started before per-style penalties (folkstyle). */
+  ruleSet?: RuleSet;
+  me: FoulCount;
+  opp: FoulCount;
+}
+
+/** What a wrestler did on an exchange, as the ref sees it. */
+export type ExchangeConduct = 'passive' | 'active' | 'high_risk';
+
+export type RefereeCallKind = 'stalling' | 'false_start' | 'illegal_hold';
+
+export interface RefereeCall {
+  kind: RefereeCallKind;
+  on: 'me' | 'opp';
+  /** Penalty points to the other wrestler (0 for warnings and free cautions). */
+  points: number;
+  /** The call that reaches the stalling or caution limit: the wrestler is disqualified. */
+  dq: boolean;
+  /** An illegal move that hurt the other wrestler: if they can't continue, they win by disqualification. */
+  hurt?: boolean;
+  /** e.g. "Stalling warning", "Caution (false start) — 1 point". */
+  text: string;
+}
+
+export const DEFAULT_REFEREE_STRICTNESS = 0.5;
+/** The folkstyle stalling call that disqualifies. */
+export const STALLING_DQ_CALL = 5;
+
+interface PenaltyTable {
+  /** Penalty points by stalling (passivity) call number; the last entry repeats. */
+  stalling: number[];
+  /** The stalling call that disqualifies, or null if stalling alone never does. */
+  stallingDq: number | null;
+  /** Penalty points by caution number; the last entry repeats. */
+  cautions: number[];
+  /** The caution that disqualifies. */
+  cautionDq: number;
+}
+
+const PENALTY_TABLES: Record<RuleSet, PenaltyTable> = {
+  folkstyle: { stalling: [0, 1, 1, 2], stallingDq: STALLING_DQ_CALL, cautions: [0, 0, 1], cautionDq: 6 },
+  freestyle: { stalling: [0, 1], stallingDq: null, cautions: [1], cautionDq: 3 },
+  greco: { stalling: [1], stallingDq: null, cautions: [1], cautionDq: 3 },
+};
+/** Per exchange from the referee's position, at average strictness. */
+const FALSE_START_CHANCE = 0.04;
+/** Per high-risk attack, at average strictness. */
+const ILLEGAL_HOLD_CHANCE = 0.05;
+/** Chance a move that hurt the other wrestler was illegal (slam, potentially dangerous hold); always a point. */
+const ILLEGAL_INJURY_CHANCE = 0.1;
+
+function clamp(min: number, max: number, x: number): number {
+  return Math.max(min, Math.min(max, x));
+}
+
+function foulCount(): FoulCount {
+  return { pace: 0, stalls: 0, cautions: 0 };
+}
+
+export function createRefereeState(strictness = DEFAULT_REFEREE_STRICTNESS, ruleSet: RuleSet = 'folkstyle'): RefereeState {
+  return { strictness: clamp(0, 1, strictness), ruleSet, me: foulCount(), opp: foulCount() };
+}
+
+export function copyRefereeState(ref: RefereeState): RefereeState {
+  return { ...ref, me: { ...ref.me }, opp: { ...ref.opp } };
+}
+
+/** Points for the nth call (1-based) from a table whose last entry repeats. */
+function tablePoints(table: number[], n: number): number {
+  return table[Math.min(n, table.length) - 1]!;
+}
+
+function pointsText(points: number): string {
+  return `${points} point${points === 1 ? '' : 's'}`;
+}
+
+function stallingCall(table: PenaltyTable, fouls: FoulCount, on: 'me' | 'opp', label: string): RefereeCall {
+  fouls.stalls++;
+  fouls.pace = 0;
+  const dq = table.stallingDq !== null && fouls.stalls >= table.stallingDq;
+  const points = dq ? 0 : tablePoints(table.stalling, fouls.stalls);
+  const text = dq ? `${label} — disqualified` : points === 0 ? `${label} warning` : `${label} — ${pointsText(points)}`;
+  return { kind: 'stalling', on, points, dq, text };
+}
+
+/** A caution; an illegal move that hurt the other wrestler (`hurt`) is a point even when cautions are still free. */
+function caution(table: PenaltyTable, fouls: FoulCount, on: 'me' | 'opp', kind: Exclude<RefereeCallKind, 'stalling'>, hurt = false): RefereeCall {
+  fouls.cautions++;
+  const what = kind === 'false_start' ? 'false start' : 'illegal hold';
+  const dq = fouls.cautions >= table.cautionDq;
+  const points = dq ? 0 : Math.max(hurt ? 1 : 0, tablePoints(table.cautions, fouls.cautions));
+  const text = dq ? `Caution (${what}) — disqualified` : `Caution (${what})${points > 0 ? ` — ${pointsText(points)}` : ''}`;
+  return { kind, on, points, dq, ...(hurt ? { hurt } : {}), text };
+}
+
+/**
+ * Officiate one exchange (mutates `ref`). Two passive exchanges in a row can draw stalling, likelier the longer
+ * it goes on; exchanges from the referee's position can draw a false start; high-risk attacks an illegal hold.
+ * `hurt` is who got hurt on the exchange: the move that did it may be ruled illegal.
+ */
+export function officiateExchange(
+  ref: RefereeState,
+  conduct: Record<'me' | 'opp', ExchangeConduct>,
+  fromReferee: boolean,
+  rng: SeededRNG,
+  hurt: Partial<Record<'me' | 'opp', boolean>> = {}
+): RefereeCall[] {
+  const calls: RefereeCall[] = [];
+  const strict = 0.5 + ref.strictness;
+  const ruleSet = ref.ruleSet ?? 'folkstyle';
+  const table = PENALTY_TABLES[ruleSet];
+  const stalling = ruleSet === 'folkstyle' ? 'Stalling' : 'Passivity';
+  for (const who of ['me', 'opp'] as const) {
+    const fouls = ref[who];
+    fouls.pace = conduct[who] === 'passive' ? fouls.pace + 1 : 0;
+    if (fouls.pace >= 2 && rng.chance(clamp(0, 1, (fouls.pace - 1) * (0.2 + 0.5 * ref.strictness)))) calls.push(stallingCall(table, fouls, who, stalling));
+    if (fromReferee && rng.chance(FALSE_START_CHANCE * strict)) calls.push(caution(table, fouls, who, 'false_start'));
+    if (conduct[who] === 'high_risk' && rng.chance(ILLEGAL_HOLD_CHANCE * strict)) calls.push(caution(table, fouls, who, 'illegal_hold'));
+    if (hurt[who === 'me' ? 'opp' : 'me'] && rng.chance(ILLEGAL_INJURY_CHANCE)) calls.push(caution(table, fouls, who, 'illegal_hold', true));
+  }
+  return calls;
+}
@@ -24,7 +24,9 @@ export class SeededRNG {
 
   /** Advance state and return next uint32 [0, 2^32-1] */
   next(): number {
-    let t = (this.state += 0x6d2b79f5);
+    // Keep state in uint32 so serialize() round-trips exactly (same outputs either way; imul/>>> work mod 2^32).
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
     t = Math.imul(t ^ (t >>> 15), t | 1);
     t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
     return (t ^ (t >>> 14)) >>> 0;
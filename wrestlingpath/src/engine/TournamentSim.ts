@@ -185,143 +185,11 @@ export interface BracketMatchEntry {
   method: string;
 }
 
-/** Result of running the full double-elim bracket for the player. */
-export interface DoubleElimResult {
-  placement: number;
-  matches: BracketMatchEntry[];
-}
-
-/** Bracket size: 8-man (QF, SF, Final) or 16-man (R16, QF, SF, Final). */
-export type BracketSize = 8 | 16;
-
 /** Round label for 3rd/4th place match; after this round the wrestler has no further matches. */
 export const ROUND_3RD_4TH = '3rd/4th';
 
-/**
- * True double-elimination: everyone starts in Winners Bracket (WB), first loss → Losers Bracket (LB),
- * second loss → eliminated. Finals = WB champ vs LB champ (optional bracket reset).
- * Consolation final = 3rd/4th match only; winner places 3rd, loser 4th, then both are done (no 2nd/3rd match).
- * Placement: 3rd/4th from that match; 1st/2nd from Final (+ bracket reset); 5–8 from LB elimination order.
- */
-export function runDoubleElimBracket(
-  player: TournamentPlayerState,
-  getOpponent: (roundLabel: string) => TournamentOpponent,
-  rng: SeededRNG,
-  bracketSize: BracketSize = 8
-): DoubleElimResult {
-  const matches: BracketMatchEntry[] = [];
-  const push = (roundLabel: string, opp: TournamentOpponent, won: boolean, method: string) => {
-    matches.push({
-      roundLabel,
-      opponentName: opp.name,
-      opponentOverall: opp.overallRating,
-      stateRank: opp.stateRank,
-      nationalRank: opp.nationalRank,
-      won,
-      method,
-    });
-  };
-
-  const playMatch = (roundLabel: string): { won: boolean; method: string; intensity: number; injuryOccurred: boolean; injurySeverity: number } => {
-    const opp = getOpponent(roundLabel);
-    const result = simTournamentMatch(player, opp, rng);
-    push(roundLabel, opp, result.won, result.method);
-    applyPostMatchEnergy(player, result.intensity);
-    if (result.injuryOccurred) player.injurySeverity = (player.injurySeverity ?? 0) + result.injurySeverity;
-    return result;
-  };
-
-  const is8 = bracketSize === 8;
-
-  if (is8) {
-    // ——— 8-man: WB = Quarterfinal, Semifinal, Winner's Final ———
-    const wbR1 = playMatch('Quarterfinal');
-    if (!wbR1.won) {
-      const lbR1 = playMatch('Consolation R1');
-      if (!lbR1.won) return { placement: rng.chance(0.5) ? 7 : 8, matches };
-      const lbR2 = playMatch('Consolation R2');
-      if (!lbR2.won) return { placement: rng.chance(0.5) ? 5 : 6, matches };
-      const thirdFourth = playMatch(ROUND_3RD_4TH);
-      if (thirdFourth.won) return { placement: 3, matches };
-      return { placement: 4, matches };
-    }
-
-    const wbR2 = playMatch('Semifinal');
-    if (!wbR2.won) {
-      const lbR2 = playMatch('Consolation R2');
-      if (!lbR2.won) return { placement: rng.chance(0.5) ? 5 : 6, matches };
-      const thirdFourth = playMatch(ROUND_3RD_4TH);
-      if (thirdFourth.won) return { placement: 3, matches };
-      return { placement: 4, matches };
-    }
-
-    const wbR3 = playMatch("Winner's Final");
-    if (!wbR3.won) {
-      // WB final loser: wrestle LB champ in LB Final; loser gets 2nd, winner goes to bracket reset
-      const lbFinal = playMatch('LB Final');
-      if (!lbFinal.won) return { placement: 2, matches };
-      const reset = playMatch('Bracket reset');
-      return { placement: reset.won ? 1 : 2, matches };
-    }
-
-    // WB champ: wrestle LB champ in Final; win = 1st, lose = bracket reset
-    const final = playMatch('Final');
-    if (final.won) return { placement: 1, matches };
-    const reset = playMatch('Bracket reset');
-    return { placement: reset.won ? 1 : 2, matches };
-  }
-
-  // ——— 16-man: WB = R16, Quarterfinal, Semifinal, Winner's Final. LB: Cons R1–R4, then 3rd/4th. ———
-  const wbR16 = playMatch('R16');
-  if (!wbR16.won) {
-    const lbR1 = playMatch('Consolation R1');
-    if (!lbR1.won) return { placement: rng.chance(0.5) ? 15 : 16, matches };
-    const lbR2 = playMatch('Consolation R2');
-    if (!lbR2.won) return { placement: rng.chance(0.5) ? 13 : 14, matches };
-    const lbR3 = playMatch('Consolation R3');
-    if (!lbR3.won) return { placement: rng.chance(0.5) ? 11 : 12, matches };
-    const lbR4 = playMatch('Consolation R4');
-    if (!lbR4.won) return { placement: rng.chance(0.5) ? 9 : 10, matches };
-    const thirdFourth = playMatch(ROUND_3RD_4TH);
-    if (thirdFourth.won) return { placement: 3, matches };
-    return { placement: 4, matches };
-  }
-
-  const wbQF = playMatch('Quarterfinal');
-  if (!wbQF.won) {
-    const lbR2 = playMatch('Consolation R2');
-    if (!lbR2.won) return { placement: rng.chance(0.5) ? 13 : 14, matches };
-    const lbR3 = playMatch('Consolation R3');
-    if (!lbR3.won) return { placement: rng.chance(0.5) ? 11 : 12, matches };
-    const lbR4 = playMatch('Consolation R4');
-    if (!lbR4.won) return { placement: rng.chance(0.5) ? 9 : 10, matches };
-    const thirdFourth = playMatch(ROUND_3RD_4TH);
-    if (thirdFourth.won) return { placement: 3, matches };
-    return { placement: 4, matches };
-  }
-
-  const wbSF = playMatch('Semifinal');
-  if (!wbSF.won) {
-    const lbR4 = playMatch('Consolation R4');
-    if (!lbR4.won) return { placement: rng.chance(0.5) ? 5 : 6, matches };
-    const thirdFourth = playMatch(ROUND_3RD_4TH);
-    if (thirdFourth.won) return { placement: 3, matches };
-    return { placement: 4, matches };
-  }
-
-  const wbFinal = playMatch("Winner's Final");
-  if (!wbFinal.won) {
-    const lbFinal = playMatch('LB Final');
-    if (!lbFinal.won) return { placement: 2, matches };
-    const reset = playMatch('Bracket reset');
-    return { placement: reset.won ? 1 : 2, matches };
-  }
-
-  const final = playMatch('Final');
-  if (final.won) return { placement: 1, matches };
-  const reset = playMatch('Bracket reset');
-  return { placement: reset.won ? 1 : 2, matches };
-}
+/** Bouts for 5th and 7th are wrestled by two wrestlers who have each lost twice. */
+const PLACEMENT_ROUNDS = ['5th/6th', '7th/8th'];
 
 /**
  * Validates that a bracket match sequence is possible under true double-elimination.
@@ -341,12 +209,13 @@ export function validateBracketMatchSequence(matches: BracketMatchEntry[]): { va
 /** Minimal match shape for placement validation. */
 export interface TournamentMatchForValidation {
   won: boolean;
+  roundLabel?: string;
 }
 
 /**
  * Validates that placement is consistent with match results (double-elimination rules).
  * Champion must have 0 or 1 loss; no "Placed 1st" with 2+ losses.
- * No matches may occur after a wrestler's 2nd loss (elimination).
+ * No matches may occur after a wrestler's 2nd loss (elimination), except a 5th or 7th place bout.
  */
 export function validateTournamentResult(
   placement: number,
@@ -356,7 +225,7 @@ export function validateTournamentResult(
   let runningLosses = 0;
   for (let i = 0; i < matches.length; i++) {
     if (!matches[i].won) runningLosses++;
-    if (runningLosses >= 2 && i < matches.length - 1) {
+    if (runningLosses >= 2 && i < matches.length - 1 && !PLACEMENT_ROUNDS.includes(matches[i + 1].roundLabel ?? '')) {
       return {
         valid: false,
         message: `Wrestler eliminated (2nd loss) at match ${i + 1} but has ${matches.length - i - 1} more match(es) logged.`,
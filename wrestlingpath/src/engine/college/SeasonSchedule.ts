@@ -70,6 +70,14 @@ export function shouldStarterParticipateInOpen(
   return roll < 0.35;
 }
 
+/**
+ * Whether the player travels to a tournament week: starters go unless the coach sat them (see
+ * shouldStarterParticipateInOpen); backups wrestle opens only.
+ */
+export function entersTournament(entry: CollegeScheduleEntry, starter: boolean): boolean {
+  return starter ? entry.starterParticipates !== false : entry.eventFormat === 'open';
+}
+
 /** Get all non-conference opponent school ids (same division preferred). */
 function getNonConferenceOpponents(
   schoolId: string,
@@ -143,6 +143,8 @@ export interface School {
   coachAggressiveness: number;  // 0–1
   facilitiesLevel: number;     // 0–100
   coachQuality: number;        // 0–100
+  /** D1 wrestling conference; schools in other divisions qualify for their nationals as one region. */
+  conference?: string;
 }
 
 // ─── Scholarship offer ────────────────────────────────────────────────────
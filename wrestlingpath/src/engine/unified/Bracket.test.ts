@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { bloodRound, bracketPlayerSeed, bracketRoundLabel, createBracket, decideBracketBout, entrantBouts, nextBracketBout, seedEntrants, seedOrder } from './Bracket';
+import type { BracketSize, TournamentBracket } from './types';
+
+/** A seeded field of `size`, you rated in the middle of it. */
+function field(size: BracketSize): TournamentBracket {
+  const entrants = seedEntrants([
+    { id: 'player', name: 'You', overallRating: 70.5 },
+    ...Array.from({ length: size - 1 }, (_, i) => ({ id: `npc_${i + 1}`, name: `Wrestler ${i + 1}`, overallRating: 90 - i })),
+  ]);
+  return createBracket(entrants);
+}
+
+/** Wrestle every bout, the better seed winning unless `upset` says otherwise. */
+function wrestleOut(b: TournamentBracket, upset: (top: number, bottom: number) => boolean = () => false): void {
+  for (let bout = nextBracketBout(b); bout; bout = nextBracketBout(b)) {
+    const [better, worse] = bout.top! < bout.bottom! ? [bout.top!, bout.bottom!] : [bout.bottom!, bout.top!];
+    decideBracketBout(b, bout, upset(bout.top!, bout.bottom!) ? worse : better, 'Dec');
+  }
+}
+
+describe('Bracket', () => {
+  it('seeds lines so the top two can only meet in the final', () => {
+    expect(seedOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+    expect(seedOrder(16)).toEqual([1, 16, 8, 9, 4, 13, 5, 12, 2, 15, 7, 10, 3, 14, 6, 11]);
+    const b = field(16);
+    expect(b.entrants.map((e) => e.seed)).toEqual(Array.from({ length: 16 }, (_, i) => i + 1));
+    expect(b.entrants[bracketPlayerSeed(b) - 1]!.overallRating).toBe(70.5);
+  });
+
+  for (const size of [8, 16, 32, 33] as const) {
+    it(`wrestles every bout of a ${size}-man bracket and places the whole field`, () => {
+      const b = field(size);
+      wrestleOut(b);
+      // Every bout on the championship side knocks one wrestler out of the title race.
+      expect(b.bouts.filter((x) => x.side === 'championship')).toHaveLength(size - 1);
+      expect(b.bouts.every((x) => x.winner != null)).toBe(true);
+      const places = b.entrants.map((e) => e.place);
+      expect([...places].sort((x, y) => x! - y!)).toEqual(Array.from({ length: size }, (_, i) => i + 1));
+      // Chalk: every seed finishes where it was seeded, except that the pigtail win puts 32 first among the R32 losers.
+      for (const e of b.entrants) expect(e.place).toBe(size === 33 && e.seed >= 25 && e.seed <= 32 ? (e.seed === 32 ? 25 : e.seed + 1) : e.seed);
+      // Nobody wrestles after a second loss except for 5th or 7th.
+      for (const e of b.entrants) {
+        const bouts = entrantBouts(b, e.seed);
+        let losses = 0;
+        for (const [i, bout] of bouts.entries()) {
+          if (losses >= 2) expect(['FIFTH_SIXTH', 'SEVENTH_EIGHTH']).toContain(bout.round);
+          if (bout.winner !== e.seed) losses++;
+          if (i < bouts.length - 1) expect(bout.round).not.toBe('THIRD_FOURTH');
+        }
+      }
+    });
+  }
+
+  it('sends first-round losers through the wrestlebacks to third', () => {
+    const b = field(16);
+    // Seed 2 loses the opening round, then wins out.
+    wrestleOut(b, (top, bottom) => (top === 2 || bottom === 2) && b.bouts.filter((x) => x.winner != null && (x.top === 2 || x.bottom === 2)).length === 0);
+    const rounds = entrantBouts(b, 2).map((x) => x.round);
+    expect(rounds).toEqual(['R16', 'CONS_R1', 'CONS_R2', 'CONS_R3', 'CONS_R4', 'THIRD_FOURTH']);
+    expect(b.entrants[1]!.place).toBe(3);
+    expect(b.entrants[14]!.place).toBeLessThan(16);
+  });
+
+  it('sends the pigtail winner to the top seed and the loser home in 33rd', () => {
+    const b = field(33);
+    // The 33 seed wins the pigtail, then chalk.
+    wrestleOut(b, (top, bottom) => top === 32 && bottom === 33);
+    expect(b.bouts[0]).toMatchObject({ id: 'PIGTAIL-1', winner: 33 });
+    expect(entrantBouts(b, 33)[1]).toMatchObject({ round: 'R32', top: 1, bottom: 33 });
+    expect(entrantBouts(b, 32)).toHaveLength(1);
+    expect(b.entrants[31]!.place).toBe(33);
+  });
+
+  it('names the blood round: the consolation round that decides the last All-Americans', () => {
+    expect(bloodRound(field(8))).toBeUndefined();
+    expect(bloodRound(field(16))).toBe('CONS_R2');
+    const ncaa = field(33);
+    expect(bloodRound(ncaa)).toBe('CONS_R4');
+    expect(bracketRoundLabel(ncaa, 'CONS_R4')).toBe('Consolation R4 (blood round)');
+    wrestleOut(ncaa);
+    const blood = ncaa.bouts.filter((x) => x.round === 'CONS_R4');
+    expect(blood).toHaveLength(4);
+    for (const x of blood) expect(ncaa.entrants[x.winner! - 1]!.place).toBeLessThanOrEqual(8);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Tournament brackets with full wrestlebacks: a championship side, a consolation side that every championship loser
+ * drops into, and bouts for 3rd, 5th and 7th. Every bout is kept, so the whole field ends the event with a record and
+ * a place. The NCAA's 33-man field adds a pigtail bout for the last line. Pure functions over TournamentBracket; the
+ * engine decides who wins each bout.
+ */
+
+import type { BracketBout, BracketEntrant, BracketFeed, BracketRoundKey, BracketSize, Opponent, TournamentBracket } from './types';
+
+export const BRACKET_ROUND_LABELS: Record<BracketRoundKey, string> = {
+  PIGTAIL: 'Pigtail',
+  R32: 'R32',
+  R16: 'R16',
+  QF: 'Quarterfinal',
+  SF: 'Semifinal',
+  FINAL: 'Final',
+  CONS_R1: 'Consolation R1',
+  CONS_R2: 'Consolation R2',
+  CONS_R3: 'Consolation R3',
+  CONS_R4: 'Consolation R4',
+  CONS_R5: 'Consolation R5',
+  CONS_R6: 'Consolation R6',
+  THIRD_FOURTH: '3rd/4th',
+  FIFTH_SIXTH: '5th/6th',
+  SEVENTH_EIGHTH: '7th/8th',
+};
+
+/** Championship rounds by bracket size, first round first. */
+const CHAMPIONSHIP_ROUNDS: Record<BracketSize, BracketRoundKey[]> = {
+  8: ['QF', 'SF', 'FINAL'],
+  16: ['R16', 'QF', 'SF', 'FINAL'],
+  32: ['R32', 'R16', 'QF', 'SF', 'FINAL'],
+  33: ['R32', 'R16', 'QF', 'SF', 'FINAL'],
+};
+
+const CONSOLATION_ROUNDS: BracketRoundKey[] = ['CONS_R1', 'CONS_R2', 'CONS_R3', 'CONS_R4', 'CONS_R5', 'CONS_R6'];
+
+/** Your entrant id in every bracket. */
+export const PLAYER_ENTRANT_ID = 'player';
+
+export function isBracketSize(n: number): n is BracketSize {
+  return n === 8 || n === 16 || n === 32 || n === 33;
+}
+
+/** First-round lines, top to bottom, so the top two seeds can only meet in the final (1v8, 4v5, 2v7, 3v6 for 8). */
+export function seedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const n = order.length * 2;
+    order = order.flatMap((seed) => [seed, n + 1 - seed]);
+  }
+  return order;
+}
+
+/** Seed a field highest `score` first (rating unless given); ties keep the order given. */
+export function seedEntrants<T extends Omit<BracketEntrant, 'seed'>>(field: T[], score: (e: T) => number = (e) => e.overallRating): (T & { seed: number })[] {
+  return field
+    .map((e, i) => ({ e, i, score: score(e) }))
+    .sort((a, b) => b.score - a.score || a.i - b.i)
+    .map(({ e }, i) => ({ ...e, seed: i + 1 }));
+}
+
+/**
+ * Lay out every bout of a bracket for a seeded field of 8, 16, 32 or 33. After each championship round, the consolation
+ * survivors wrestle each other and then the wrestlers who just lost in the championship side. The last two of those
+ * rounds send their losers to the 7th and 5th place bouts; losers of earlier ones are out. In a 33-man field the 32 and
+ * 33 seeds wrestle a pigtail first for the line against the top seed; its loser is out in 33rd.
+ */
+export function createBracket(entrants: BracketEntrant[]): TournamentBracket {
+  const size = entrants.length;
+  if (!isBracketSize(size)) throw new Error(`Brackets hold 8, 16, 32 or 33 wrestlers, not ${size}.`);
+  const bouts: BracketBout[] = [];
+  const add = (round: BracketRoundKey, side: BracketBout['side'], pairs: [BracketFeed, BracketFeed][]): BracketBout[] =>
+    pairs.map(([topFrom, bottomFrom], i) => {
+      const bout: BracketBout = { id: `${round}-${i + 1}`, round, side, top: null, bottom: null, topFrom, bottomFrom };
+      bouts.push(bout);
+      return bout;
+    });
+  const feeds = (list: BracketBout[], take: BracketFeed['take']): BracketFeed[] => list.map((b) => ({ bout: b.id, take }));
+  const pairUp = (list: BracketFeed[]): [BracketFeed, BracketFeed][] => {
+    const pairs: [BracketFeed, BracketFeed][] = [];
+    for (let i = 0; i < list.length; i += 2) pairs.push([list[i]!, list[i + 1]!]);
+    return pairs;
+  };
+
+  const rounds = CHAMPIONSHIP_ROUNDS[size];
+  const lines = size === 33 ? 32 : size;
+  const pigtail: BracketBout | undefined =
+    size === 33 ? { id: 'PIGTAIL-1', round: 'PIGTAIL', side: 'championship', top: 32, bottom: 33, eliminatedPlace: 33 } : undefined;
+  if (pigtail) bouts.push(pigtail);
+  const order = seedOrder(lines);
+  let championship: BracketBout[] = [];
+  for (let i = 0; i < lines; i += 2) {
+    const bout: BracketBout = { id: `${rounds[0]}-${i / 2 + 1}`, round: rounds[0]!, side: 'championship', top: order[i]!, bottom: order[i + 1]! };
+    if (pigtail && bout.bottom === 32) {
+      bout.bottom = null;
+      bout.bottomFrom = { bout: pigtail.id, take: 'winner' };
+    }
+    bouts.push(bout);
+    championship.push(bout);
+  }
+
+  let survivors = feeds(championship, 'loser');
+  let consolation = 0;
+  const placementFeeders: BracketBout[][] = [];
+  for (const round of rounds.slice(1, -1)) {
+    const dropping = championship;
+    championship = add(round, 'championship', pairUp(feeds(dropping, 'winner')));
+    // Survivors pair off, then meet this round's championship losers, mirrored so early rematches are rare.
+    const paired = add(CONSOLATION_ROUNDS[consolation++]!, 'consolation', pairUp(survivors));
+    const losers = feeds(championship, 'loser').reverse();
+    const crossed = add(CONSOLATION_ROUNDS[consolation++]!, 'consolation', feeds(paired, 'winner').map((f, i) => [f, losers[i]!]));
+    placementFeeders.push(paired, crossed);
+    survivors = feeds(crossed, 'winner');
+  }
+  // Losers of all but the last two consolation rounds are out; count back from the bottom of the field.
+  let stillIn = lines;
+  for (const round of placementFeeders.slice(0, -2)) {
+    stillIn -= round.length;
+    for (const b of round) b.eliminatedPlace = stillIn + 1;
+  }
+
+  add('FINAL', 'championship', pairUp(feeds(championship, 'winner')))[0]!.places = 1;
+  add('THIRD_FOURTH', 'consolation', pairUp(survivors))[0]!.places = 3;
+  const [seventh, fifth] = placementFeeders.slice(-2);
+  add('FIFTH_SIXTH', 'consolation', pairUp(feeds(fifth!, 'loser')))[0]!.places = 5;
+  add('SEVENTH_EIGHTH', 'consolation', pairUp(feeds(seventh!, 'loser')))[0]!.places = 7;
+
+  return { size, entrants: entrants.map((e) => ({ ...e })), bouts };
+}
+
+function fedSeed(b: TournamentBracket, feed: BracketFeed | undefined): number | null {
+  if (!feed) return null;
+  const from = b.bouts.find((x) => x.id === feed.bout);
+  if (!from?.winner) return null;
+  return feed.take === 'winner' ? from.winner : from.winner === from.top ? from.bottom : from.top;
+}
+
+/** The next bout to wrestle, with both slots filled in; undefined once every bout is decided. */
+export function nextBracketBout(b: TournamentBracket): BracketBout | undefined {
+  const bout = b.bouts.find((x) => x.winner == null);
+  if (!bout) return undefined;
+  bout.top = bout.top ?? fedSeed(b, bout.topFrom);
+  bout.bottom = bout.bottom ?? fedSeed(b, bout.bottomFrom);
+  return bout;
+}
+
+export function boutLoser(bout: BracketBout): number | null {
+  if (bout.winner == null) return null;
+  return bout.winner === bout.top ? bout.bottom : bout.top;
+}
+
+/** Record a bout; once it's the last one, every entrant gets their place. */
+export function decideBracketBout(b: TournamentBracket, bout: BracketBout, winner: number, method: string, score?: BracketBout['score']): void {
+  if (winner !== bout.top && winner !== bout.bottom) throw new Error(`Seed ${winner} isn't in bout ${bout.id}.`);
+  bout.winner = winner;
+  bout.method = method;
+  if (score) bout.score = score;
+  if (b.bouts.every((x) => x.winner != null)) placeEntrants(b);
+}
+
+/**
+ * Places from the finals and placement bouts; wrestlers knocked out earlier share their round's places, ordered by
+ * bouts won and then seed.
+ */
+function placeEntrants(b: TournamentBracket): void {
+  for (const bout of b.bouts) {
+    if (bout.places != null) {
+      b.entrants[bout.winner! - 1]!.place = bout.places;
+      b.entrants[boutLoser(bout)! - 1]!.place = bout.places + 1;
+    }
+  }
+  const groups = new Map<number, number[]>();
+  for (const bout of b.bouts) {
+    if (bout.eliminatedPlace != null) groups.set(bout.eliminatedPlace, [...(groups.get(bout.eliminatedPlace) ?? []), boutLoser(bout)!]);
+  }
+  for (const [first, seeds] of groups) {
+    const wins = (seed: number) => b.bouts.filter((x) => x.winner === seed).length;
+    seeds.sort((x, y) => wins(y) - wins(x) || x - y).forEach((seed, i) => {
+      b.entrants[seed - 1]!.place = first + i;
+    });
+  }
+}
+
+/** The consolation round whose losers finish just outside the top 8: win it and you place. None in an 8-man bracket. */
+export function bloodRound(b: TournamentBracket): BracketRoundKey | undefined {
+  return b.bouts.find((x) => x.eliminatedPlace === 9)?.round;
+}
+
+/** A round's display label, with the blood round called out. */
+export function bracketRoundLabel(b: TournamentBracket, round: BracketRoundKey): string {
+  return round === bloodRound(b) ? `${BRACKET_ROUND_LABELS[round]} (blood round)` : BRACKET_ROUND_LABELS[round];
+}
+
+export function isBracketComplete(b: TournamentBracket): boolean {
+  return b.bouts.every((x) => x.winner != null);
+}
+
+/** Your seed; every bracket the engine builds has you in it. */
+export function bracketPlayerSeed(b: TournamentBracket): number {
+  const you = b.entrants.find((e) => e.id === PLAYER_ENTRANT_ID);
+  if (!you) throw new Error('Bracket has no player entrant.');
+  return you.seed;
+}
+
+/** Bouts one entrant wrestled, in order. */
+export function entrantBouts(b: TournamentBracket, seed: number): BracketBout[] {
+  return b.bouts.filter((x) => x.winner != null && (x.top === seed || x.bottom === seed));
+}
+
+/** An entrant as an opponent for your bout; stand-ins wrestle like an average grinder. */
+export function entrantOpponent(e: BracketEntrant): Opponent {
+  return {
+    id: e.id,
+    name: e.name,
+    overallRating: e.overallRating,
+    style: e.style ?? 'grinder',
+    clutch: e.clutch ?? 50,
+    ...(e.stateRank != null ? { stateRank: e.stateRank } : {}),
+    ...(e.nationalRank != null ? { nationalRank: e.nationalRank } : {}),
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from 'vitest';
+import { UnifiedEngine } from './UnifiedEngine';
+import { simulateCareer, summarizeCareers, bestOffer, BALANCED_POLICY } from './CareerSimulator';
+import type { CollegeOffer } from './types';
+
+describe('CareerSimulator', () => {
+  it('plays a whole career to retirement and reports it', () => {
+    const report = simulateCareer('career-sim-1', { weightClass: 145 });
+    expect(report.endReason).toBe('retired');
+    expect(report.acceptedOffer).toBe(report.college);
+    expect(report.offers.length).toBeGreaterThan(0);
+    expect(report.weeksPlayed).toBe(report.moneyByWeek.length);
+    expect(report.byYear.map((y) => y.year)).toEqual(report.byYear.map((_, i) => i + 1));
+    const { hs, college, total } = report.record;
+    expect(hs.won + college.won).toBe(total.won);
+    expect(hs.lost + college.lost).toBe(total.lost);
+    expect(report.peakRating).toBeGreaterThanOrEqual(Math.max(...report.byYear.map((y) => y.overallRating)));
+  });
+
+  it('counts simulated tournament bouts in the record', () => {
+    const simulate = UnifiedEngine.prototype.simulateTournamentBracket;
+    let bouts = 0;
+    const spy = vi.spyOn(UnifiedEngine.prototype, 'simulateTournamentBracket').mockImplementation(function (this: UnifiedEngine) {
+      const done = simulate.call(this);
+      bouts += this.getState().lastWeekSummary?.matches?.length ?? 0;
+      return done;
+    });
+    const report = simulateCareer('career-sim-4', { maxWeeks: 52 * 2 });
+    spy.mockRestore();
+    expect(bouts).toBeGreaterThan(0);
+    expect(report.record.total.won + report.record.total.lost).toBeGreaterThanOrEqual(bouts);
+  });
+
+  it('is deterministic per seed and policy', () => {
+    expect(simulateCareer('career-sim-2')).toEqual(simulateCareer('career-sim-2'));
+    expect(simulateCareer('career-sim-2', { policy: BALANCED_POLICY }).policy).toBe('balanced');
+  });
+
+  it('stops at maxWeeks', () => {
+    const report = simulateCareer('career-sim-3', { maxWeeks: 10 });
+    expect(report.endReason).toBe('week_limit');
+    expect(report.weeksPlayed).toBe(10);
+  });
+
+  it('bestOffer prefers division, then money', () => {
+    const offer = (schoolId: string, division: CollegeOffer['division'], nilAnnual: number): CollegeOffer => ({
+      id: schoolId, schoolId, schoolName: schoolId, division, tuitionCoveredPct: 50, nilAnnual, housingStipend: 0, mealPlanPct: 0, guaranteedStarter: false, deadlineWeek: 52, offeredAtWeek: 1,
+    });
+    expect(bestOffer([offer('a', 'D2', 90_000), offer('b', 'D1', 1_000), offer('c', 'D1', 5_000)])?.schoolId).toBe('c');
+    expect(bestOffer([])).toBeNull();
+  });
+
+  it('summarizes a batch as shares of careers', () => {
+    const reports = ['s-1', 's-2', 's-3'].map((seed) => simulateCareer(seed));
+    const summary = summarizeCareers(reports);
+    expect(summary.careers).toBe(3);
+    expect(summary.endReasons.retired).toBe(3);
+    expect(summary.shareD1).toBe(reports.filter((r) => r.division === 'D1').length / 3);
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Headless career simulator: plays a whole UnifiedEngine career from a seed with a pluggable policy
+ * and returns a structured report. No UI or browser APIs — used by scripts/simulate-careers.ts for balance runs.
+ */
+
+import { UnifiedEngine } from './UnifiedEngine';
+import type { UnifiedState, LeagueKey, CollegeOffer, LifePopup, PendingRandomChoice } from './types';
+
+/** Decisions the simulator delegates; everything else (tournaments, transfer portal) has one fixed headless answer. */
+export interface CareerPolicy {
+  name: string;
+  /** Spend hours before advancing. Whatever is left is auto-trained by advanceWeek. */
+  planWeek(engine: UnifiedEngine, state: Readonly<UnifiedState>): void;
+  /** schoolId to commit to, or null to skip college (ends the career). */
+  chooseOffer(offers: CollegeOffer[], state: Readonly<UnifiedState>): string | null;
+  chooseLifePopupOption(popup: LifePopup, state: Readonly<UnifiedState>): number;
+  chooseRandomOption(choice: PendingRandomChoice, state: Readonly<UnifiedState>): number;
+  afterCollege(state: Readonly<UnifiedState>): 'olympics' | 'retire';
+}
+
+export type CareerEndReason = 'retired' | 'olympics' | 'no_college' | 'stuck' | 'week_limit';
+
+export interface CareerYearRow {
+  year: number;
+  age: number;
+  league: LeagueKey;
+  overallRating: number;
+  seasonWins: number;
+  seasonLosses: number;
+  money: number;
+}
+
+export interface CareerReport {
+  seed: string;
+  policy: string;
+  endReason: CareerEndReason;
+  weeksPlayed: number;
+  finalAge: number;
+  college: string | null;
+  division: LeagueKey | null;
+  record: {
+    hs: { won: number; lost: number };
+    college: { won: number; lost: number };
+    total: { won: number; lost: number; pins: number; techs: number; majors: number };
+  };
+  titles: {
+    tournamentsWon: number;
+    stateAppearances: number;
+    stateTitles: number;
+    ncaaAppearances: number;
+    ncaaAllAmerican: number;
+    ncaaTitles: number;
+  };
+  /** Offers on the table at HS graduation, and the one accepted. */
+  offers: Pick<CollegeOffer, 'schoolId' | 'schoolName' | 'division' | 'offerType' | 'tuitionCoveredPct' | 'nilAnnual'>[];
+  acceptedOffer: string | null;
+  /** Money at the end of every week played, in order. */
+  moneyByWeek: number[];
+  /** One row per calendar year, taken on its last week (so season record is the full season). */
+  byYear: CareerYearRow[];
+  peakRating: number;
+  weightMisses: number;
+}
+
+export interface SimulateCareerOptions {
+  name?: string;
+  weightClass?: number;
+  policy?: CareerPolicy;
+  /** Safety stop; a normal HS + college career is about 8 × 52 weeks. */
+  maxWeeks?: number;
+}
+
+const DIVISION_RANK: Partial<Record<LeagueKey, number>> = { D1: 0, D2: 1, NAIA: 2, D3: 3, JUCO: 4 };
+
+/** Best offer: highest division first, then the most money (tuition share valued at $500 per percent, plus NIL and housing). */
+export function bestOffer(offers: CollegeOffer[]): CollegeOffer | null {
+  const value = (o: CollegeOffer) => o.tuitionCoveredPct * 500 + o.nilAnnual + o.housingStipend;
+  return [...offers].sort((a, b) => (DIVISION_RANK[a.division] ?? 9) - (DIVISION_RANK[b.division] ?? 9) || value(b) - value(a))[0] ?? null;
+}
+
+/** Auto-train every week, move up a weight once outgrown, simulate every bracket, accept the best offer, first option on every popup. */
+export const DEFAULT_POLICY: CareerPolicy = {
+  name: 'default',
+  planWeek: (engine, state) => {
+    const makeable = engine.getMakeableWeightClass();
+    if (makeable > state.weightClass) engine.setWeightClass(makeable);
+  },
+  chooseOffer: (offers) => bestOffer(offers)?.schoolId ?? null,
+  chooseLifePopupOption: () => 0,
+  chooseRandomOption: (choice, state) => {
+    // Pay when we can afford it; otherwise take the free option.
+    const pay = choice.options.findIndex((o) => (o.effects.money ?? 0) < 0 && state.money + (o.effects.money ?? 0) >= 0);
+    return pay >= 0 ? pay : choice.options.findIndex((o) => (o.effects.money ?? 0) >= 0);
+  },
+  afterCollege: () => 'retire',
+};
+
+/** Like default, but studies when grades near the eligibility line, rests when worn down and rehabs injuries. */
+export const BALANCED_POLICY: CareerPolicy = {
+  ...DEFAULT_POLICY,
+  name: 'balanced',
+  planWeek: (engine, state) => {
+    DEFAULT_POLICY.planWeek(engine, state);
+    if (state.grades < UnifiedEngine.getMinGradesToWrestle() + 15) engine.applyChoice('study');
+    if (state.energy < 35 || state.health < 60) engine.applyChoice('rest');
+    if (state.injuries.length > 0) engine.applyChoice('rehab');
+  },
+};
+
+export const CAREER_POLICIES: Record<string, CareerPolicy> = {
+  [DEFAULT_POLICY.name]: DEFAULT_POLICY,
+  [BALANCED_POLICY.name]: BALANCED_POLICY,
+};
+
+function yearRow(s: Readonly<UnifiedState>): CareerYearRow {
+  return {
+    year: s.year,
+    age: s.age,
+    league: s.league,
+    overallRating: s.overallRating,
+    seasonWins: s.stats.seasonWins,
+    seasonLosses: s.stats.seasonLosses,
+    money: s.money,
+  };
+}
+
+/** Play one career to its end (or maxWeeks) and report on it. Same seed + policy => same report. */
+export function simulateCareer(seed: string, options: SimulateCareerOptions = {}): CareerReport {
+  const policy = options.policy ?? DEFAULT_POLICY;
+  const maxWeeks = options.maxWeeks ?? 52 * 12;
+  const engine = new UnifiedEngine(UnifiedEngine.createState(seed, { name: options.name ?? 'Sim', weightClass: options.weightClass }));
+  const moneyByWeek: number[] = [];
+  const byYear: CareerYearRow[] = [];
+  let offers: CareerReport['offers'] = [];
+  let acceptedOffer: string | null = null;
+  let endReason: CareerEndReason = 'week_limit';
+  let peakRating = engine.getState().overallRating;
+
+  while (moneyByWeek.length < maxWeeks) {
+    const s = engine.getState();
+    if (s.careerEnded) {
+      endReason = s.careerEndChoice === 'olympics' ? 'olympics' : 'retired';
+      break;
+    }
+    if (s.pendingCollegeGraduation) {
+      engine.choosePostCollegeOption(policy.afterCollege(s));
+      continue;
+    }
+    if (s.pendingRandomChoice) {
+      engine.resolveRandomChoice(Math.max(0, policy.chooseRandomOption(s.pendingRandomChoice, s)));
+      continue;
+    }
+    if (s.pendingLifePopups.length > 0) {
+      const popup = s.pendingLifePopups[0];
+      engine.resolveLifePopup(popup.id, policy.chooseLifePopupOption(popup, s));
+      continue;
+    }
+    if (s.pendingTournamentPlay) {
+      engine.simulateTournamentBracket();
+      continue;
+    }
+    if (s.pendingCompetition) {
+      if (!engine.simulatePendingCompetitionMatch()) {
+        endReason = 'stuck';
+        break;
+      }
+      continue;
+    }
+    if (s.transferPortalActive) {
+      engine.withdrawFromTransferPortal();
+      continue;
+    }
+    if (s.pendingCollegeChoice) {
+      const available = engine.getCollegeOffers();
+      offers = available.map((o) => ({ schoolId: o.schoolId, schoolName: o.schoolName, division: o.division, offerType: o.offerType, tuitionCoveredPct: o.tuitionCoveredPct, nilAnnual: o.nilAnnual }));
+      const pick = available.length > 0 ? policy.chooseOffer(available, s) : null;
+      if (!pick || !engine.acceptOffer(pick)) {
+        endReason = 'no_college';
+        break;
+      }
+      acceptedOffer = engine.getState().collegeName;
+      continue;
+    }
+
+    policy.planWeek(engine, engine.getState());
+    const before = yearRow(engine.getState());
+    const weekBefore = engine.getState().week;
+    engine.advanceWeek();
+    const after = engine.getState();
+    if (after.week === weekBefore && after.year === before.year) {
+      endReason = 'stuck';
+      break;
+    }
+    if (after.year !== before.year) byYear.push(before);
+    moneyByWeek.push(after.money);
+    peakRating = Math.max(peakRating, after.overallRating);
+  }
+
+  const s = engine.getState();
+  if (byYear.length === 0 || byYear[byYear.length - 1].year !== s.year) byYear.push(yearRow(s));
+  const st = s.stats;
+  return {
+    seed,
+    policy: policy.name,
+    endReason,
+    weeksPlayed: moneyByWeek.length,
+    finalAge: s.age,
+    college: s.collegeName,
+    division: s.collegeName ? s.league : null,
+    record: {
+      hs: { won: st.hsRecord.matchesWon ?? 0, lost: st.hsRecord.matchesLost ?? 0 },
+      college: { won: st.collegeRecord.matchesWon ?? 0, lost: st.collegeRecord.matchesLost ?? 0 },
+      total: { won: st.matchesWon, lost: st.matchesLost, pins: st.pins, techs: st.techs, majors: st.majors },
+    },
+    titles: {
+      tournamentsWon: st.tournamentsWon,
+      stateAppearances: st.stateAppearances,
+      stateTitles: st.stateTitles,
+      ncaaAppearances: st.ncaaAppearances,
+      ncaaAllAmerican: st.ncaaAllAmerican,
+      ncaaTitles: st.ncaaTitles,
+    },
+    offers,
+    acceptedOffer,
+    moneyByWeek,
+    byYear,
+    peakRating,
+    weightMisses: st.weightMisses,
+  };
+}
+
+export interface CareerBatchSummary {
+  careers: number;
+  endReasons: Partial<Record<CareerEndReason, number>>;
+  /** Shares are 0–1 of all careers simulated. */
+  shareStateChampion: number;
+  shareD1: number;
+  shareAllAmerican: number;
+  shareNcaaChampion: number;
+  avgPeakRating: number;
+  avgFinalMoney: number;
+  avgWinPct: number;
+  avgWeightMisses: number;
+}
+
+export function summarizeCareers(reports: CareerReport[]): CareerBatchSummary {
+  const n = reports.length || 1;
+  const share = (pred: (r: CareerReport) => boolean) => reports.filter(pred).length / n;
+  const avg = (f: (r: CareerReport) => number) => reports.reduce((sum, r) => sum + f(r), 0) / n;
+  const endReasons: CareerBatchSummary['endReasons'] = {};
+  for (const r of reports) endReasons[r.endReason] = (endReasons[r.endReason] ?? 0) + 1;
+  return {
+    careers: reports.length,
+    endReasons,
+    shareStateChampion: share((r) => r.titles.stateTitles > 0),
+    shareD1: share((r) => r.division === 'D1'),
+    shareAllAmerican: share((r) => r.titles.ncaaAllAmerican > 0),
+    shareNcaaChampion: share((r) => r.titles.ncaaTitles > 0),
+    avgPeakRating: avg((r) => r.peakRating),
+    avgFinalMoney: avg((r) => r.moneyByWeek[r.moneyByWeek.length - 1] ?? 0),
+    avgWinPct: avg((r) => {
+      const games = r.record.total.won + r.record.total.lost;
+      return games > 0 ? r.record.total.won / games : 0;
+    }),
+    avgWeightMisses: avg((r) => r.weightMisses),
+  };
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { SeededRNG } from '../SeededRNG';
+import { AT_LARGE_MIN, NCAA_FIELD_SIZE, conferenceAllocations, nationalsFieldSize, rateNcaaCandidates, schoolConference, seedNcaaField, selectNcaaField, type NcaaCandidateInput } from './NcaaChampionships';
+import type { NcaaCandidate } from './types';
+
+/** `count` wrestlers in one conference, best first, winning fewer bouts the further down they are. */
+function conference(name: string, count: number, topRating: number, topWins = 20): NcaaCandidateInput[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `${name}_${i + 1}`,
+    name: `${name} ${i + 1}`,
+    overallRating: topRating - i * 2,
+    conference: name,
+    wins: Math.max(0, topWins - i * 2),
+    losses: 4 + i,
+  }));
+}
+
+/** A rated candidate with fixed ranks, for selection and seeding. */
+function rated(id: string, conf: string, rank: number, extra: Partial<NcaaCandidate> = {}): NcaaCandidate {
+  return { id, name: id, overallRating: 90 - rank, conference: conf, wins: 20 - rank, losses: rank, coachesRank: rank, rpi: 0.6, rpiRank: rank, ...extra };
+}
+
+describe('NcaaChampionships', () => {
+  it('sizes nationals by division and puts schools in their conference', () => {
+    expect(nationalsFieldSize('D1')).toBe(NCAA_FIELD_SIZE);
+    expect(nationalsFieldSize('D2')).toBe(16);
+    expect(schoolConference('Iowa', 'D1')).toBe('Big Ten');
+    expect(schoolConference('Cornell', 'D1')).toBe('EIWA');
+    expect(schoolConference(null, 'D3')).toBe('D3');
+  });
+
+  it('ranks the field by coaches and RPI, better records first', () => {
+    const field = rateNcaaCandidates([...conference('A', 10, 90), ...conference('B', 10, 80)], new SeededRNG('ncaa-rate'));
+    expect(field.find((c) => c.id === 'A_1')!.coachesRank).toBeLessThanOrEqual(2);
+    expect(field.find((c) => c.id === 'B_10')!.coachesRank).toBeGreaterThan(15);
+    expect(field.map((c) => c.rpiRank).sort((a, b) => a - b)).toEqual(Array.from({ length: 20 }, (_, i) => i + 1));
+    expect(field.find((c) => c.id === 'A_1')!.rpi).toBeGreaterThan(field.find((c) => c.id === 'A_10')!.rpi);
+  });
+
+  it('allocates bids to the conferences that earn them and leaves room for at-larges', () => {
+    const field = rateNcaaCandidates([...conference('Big', 12, 92, 24), ...conference('Small', 6, 70, 8)], new SeededRNG('ncaa-alloc'));
+    const allocations = conferenceAllocations(field, 16);
+    expect(allocations.Big).toBeGreaterThan(0);
+    expect(allocations.Small).toBe(0);
+    expect(allocations.Big! + allocations.Small!).toBeLessThanOrEqual(16 - AT_LARGE_MIN);
+
+    // Everyone earns one on record: cut back in proportion.
+    const strong = rateNcaaCandidates([...conference('Big', 20, 92, 100), ...conference('Small', 6, 80, 100)], new SeededRNG('ncaa-alloc'));
+    const cut = conferenceAllocations(strong, 16);
+    expect(cut.Big! + cut.Small!).toBeLessThanOrEqual(16 - AT_LARGE_MIN);
+    expect(cut.Big).toBeGreaterThan(cut.Small!);
+    expect(cut.Small).toBeGreaterThan(0);
+  });
+
+  it('takes automatic bids by conference finish, then at-larges by ranking', () => {
+    const field = [
+      rated('a1', 'A', 5, { conferencePlace: 2 }),
+      rated('a2', 'A', 1, { conferencePlace: 3 }),
+      rated('a3', 'A', 9, { conferencePlace: 1 }),
+      rated('b1', 'B', 2, { conferencePlace: 1 }),
+      rated('b2', 'B', 3, { conferencePlace: 2 }),
+      rated('b3', 'B', 8),
+    ];
+    const selected = selectNcaaField(field, { A: 2, B: 1 }, 5);
+    expect(selected.filter((q) => q.bid === 'automatic').map((q) => q.id)).toEqual(['a3', 'a1', 'b1']);
+    // Ranked first by the coaches, but third at the conference tournament: in on an at-large.
+    expect(selected.filter((q) => q.bid === 'at-large').map((q) => q.id)).toEqual(['a2', 'b2']);
+  });
+
+  it('seeds on coaches, RPI, record and conference finish', () => {
+    const seeded = seedNcaaField([
+      { ...rated('third', 'A', 3, { conferencePlace: 1 }), bid: 'automatic' },
+      { ...rated('first', 'A', 1, { conferencePlace: 2 }), bid: 'at-large' },
+      { ...rated('second', 'B', 2, { conferencePlace: 1 }), bid: 'automatic' },
+    ]);
+    expect(seeded.sort((a, b) => a.seed - b.seed).map((q) => q.id)).toEqual(['first', 'second', 'third']);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * NCAA Championships selection: automatic bids allocated to conferences per weight, at-large bids from the coaches'
+ * panel and RPI, and seeding on the committee's criteria. Other divisions' nationals run the same way with a 16-man
+ * field, their schools qualifying as one region. Pure functions; the engine gathers the candidates and wrestles the
+ * bracket.
+ */
+
+import type { SeededRNG } from '../SeededRNG';
+import type { BracketSize, LeagueKey, NcaaCandidate, NcaaQualifier } from './types';
+import { SCHOOLS } from '@/data/schools';
+import { seedEntrants } from './Bracket';
+
+/** D1: 32 lines and a pigtail. */
+export const NCAA_FIELD_SIZE = 33;
+/** D2, D3, NAIA and JUCO nationals. */
+export const DIVISION_FIELD_SIZE = 16;
+/** Bids held back from the conference allocations for at-large selection. */
+export const AT_LARGE_MIN = 4;
+/** Top 8 are All-Americans. */
+export const ALL_AMERICAN_PLACES = 8;
+/** A wrestler winning this share of their bouts earns their conference an allocation on record alone. */
+const ALLOCATION_WIN_PCT = 0.7;
+/** The real rankings go 33 deep at a weight of ~330 D1 wrestlers; the same share of a smaller pool counts as ranked. */
+const RANKED_SHARE = 0.1;
+const COACHES_PANEL = 5;
+/** Sorts after every real conference place. */
+const UNPLACED = 99;
+
+export type NcaaCandidateInput = Omit<NcaaCandidate, 'coachesRank' | 'rpi' | 'rpiRank'>;
+
+export function nationalsFieldSize(league: LeagueKey): BracketSize {
+  return league === 'D1' ? NCAA_FIELD_SIZE : DIVISION_FIELD_SIZE;
+}
+
+/** A school's conference; schools without one (other divisions, unknown schools) qualify with their division. */
+export function schoolConference(school: string | null | undefined, league: LeagueKey): string {
+  return SCHOOLS.find((sc) => sc.name === school)?.conference ?? league;
+}
+
+export function winPct(c: { wins: number; losses: number }): number {
+  const bouts = c.wins + c.losses;
+  return bouts > 0 ? c.wins / bouts : 0;
+}
+
+function average(xs: number[]): number {
+  return xs.length > 0 ? xs.reduce((a, b) => a + b, 0) / xs.length : 0;
+}
+
+/** 1-based ranks, highest score first; ties keep field order. */
+function ranksBy(scores: number[]): number[] {
+  const ranks: number[] = new Array(scores.length);
+  scores
+    .map((_, i) => i)
+    .sort((a, b) => scores[b]! - scores[a]! || a - b)
+    .forEach((i, r) => {
+      ranks[i] = r + 1;
+    });
+  return ranks;
+}
+
+/**
+ * Rank a weight the way the committee sees it. RPI is a quarter your win percentage, half your opponents' and a
+ * quarter theirs; NPCs' schedules aren't kept, so a wrestler's opponents are the rest of their conference and their
+ * opponents' opponents the whole field. Each coach on the panel ranks on rating and record with a bias of their own.
+ */
+export function rateNcaaCandidates(field: NcaaCandidateInput[], rng: SeededRNG): NcaaCandidate[] {
+  const fieldPct = average(field.map(winPct));
+  const rpi = field.map((c) => {
+    const opponents = field.filter((o) => o !== c && o.conference === c.conference);
+    const owp = opponents.length > 0 ? average(opponents.map(winPct)) : fieldPct;
+    return 0.25 * winPct(c) + 0.5 * owp + 0.25 * fieldPct;
+  });
+  const panel = field.map(() => 0);
+  for (let coach = 0; coach < COACHES_PANEL; coach++) {
+    field.forEach((c, i) => {
+      panel[i]! += c.overallRating + 20 * winPct(c) + rng.normal() * 2.5;
+    });
+  }
+  const coachesRank = ranksBy(panel);
+  const rpiRank = ranksBy(rpi);
+  return field.map((c, i) => ({ ...c, coachesRank: coachesRank[i]!, rpi: Math.round(rpi[i]! * 1000) / 1000, rpiRank: rpiRank[i]! }));
+}
+
+/**
+ * Automatic bids per conference: one for each member ranked by the coaches or RPI, or winning 70% of their bouts.
+ * If that would leave fewer than AT_LARGE_MIN bids for at-large selection, every allocation is scaled down in
+ * proportion, rounding down.
+ */
+export function conferenceAllocations(field: NcaaCandidate[], fieldSize: number): Record<string, number> {
+  const ranked = Math.min(fieldSize, Math.ceil(field.length * RANKED_SHARE));
+  const allocations: Record<string, number> = {};
+  for (const c of field) {
+    const earns = c.coachesRank <= ranked || c.rpiRank <= ranked || winPct(c) >= ALLOCATION_WIN_PCT;
+    allocations[c.conference] = (allocations[c.conference] ?? 0) + (earns ? 1 : 0);
+  }
+  const earned = Object.values(allocations).reduce((a, b) => a + b, 0);
+  const room = fieldSize - AT_LARGE_MIN;
+  if (earned > room) {
+    for (const k of Object.keys(allocations)) allocations[k] = Math.floor((allocations[k]! * room) / earned);
+  }
+  return allocations;
+}
+
+/** The field: each conference's top finishers up to its allocation, then the best of the rest on coaches' rank and RPI. */
+export function selectNcaaField(field: NcaaCandidate[], allocations: Record<string, number>, fieldSize: number): NcaaQualifier[] {
+  const byFinish = (a: NcaaCandidate, b: NcaaCandidate) => (a.conferencePlace ?? UNPLACED) - (b.conferencePlace ?? UNPLACED) || a.coachesRank - b.coachesRank;
+  const automatic = Object.entries(allocations).flatMap(([conference, bids]) =>
+    field.filter((c) => c.conference === conference).sort(byFinish).slice(0, bids)
+  );
+  const picked = new Set(automatic.map((c) => c.id));
+  const atLarge = field
+    .filter((c) => !picked.has(c.id))
+    .sort((a, b) => a.coachesRank + a.rpiRank - (b.coachesRank + b.rpiRank) || winPct(b) - winPct(a) || b.overallRating - a.overallRating)
+    .slice(0, Math.max(0, fieldSize - automatic.length));
+  return [...automatic.map((c) => ({ ...c, bid: 'automatic' as const })), ...atLarge.map((c) => ({ ...c, bid: 'at-large' as const }))];
+}
+
+/**
+ * Seed the field on the committee's criteria, ranked within the field and weighted: coaches' ranking, RPI, win
+ * percentage and conference finish. Head-to-head and common opponents aren't kept for NPCs, so they don't count.
+ */
+export function seedNcaaField(qualifiers: NcaaQualifier[]): (NcaaQualifier & { seed: number })[] {
+  const coaches = ranksBy(qualifiers.map((q) => -q.coachesRank));
+  const rpi = ranksBy(qualifiers.map((q) => -q.rpiRank));
+  const record = ranksBy(qualifiers.map(winPct));
+  const finish = ranksBy(qualifiers.map((q) => -(q.conferencePlace ?? UNPLACED)));
+  const criteria = new Map(qualifiers.map((q, i) => [q, 0.4 * coaches[i]! + 0.25 * rpi[i]! + 0.2 * record[i]! + 0.15 * finish[i]!]));
+  return seedEntrants(qualifiers, (q) => -criteria.get(q)!);
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { createNpcUniverse, HS_NPCS_PER_WEIGHT, isCollegeNpc, npcUniverseRng, packNpcUniverse, progressNpcUniverse, schoolNpcsAtWeight, signCollegeWalkOn, unpackNpcUniverse } from './NpcUniverse';
+import { SeededRNG } from '../SeededRNG';
+import { SCHOOLS } from '@/data/schools';
+import { WEIGHT_CLASSES_COLLEGE, WEIGHT_CLASSES_HS } from '@/data/tournaments';
+import type { NpcUniverse } from './types';
+
+/** A universe run through `years` offseasons. */
+function worldAfter(seed: string, years: number): NpcUniverse {
+  const u = createNpcUniverse(new SeededRNG(`${seed}:npcs`));
+  for (let y = 1; y <= years; y++) progressNpcUniverse(u, new SeededRNG(`${seed}:npcs:${y}`), y);
+  return u;
+}
+
+describe('NpcUniverse', () => {
+  it('builds the same world from the same seed, four HS grades deep and every roster filled', () => {
+    const u = createNpcUniverse(new SeededRNG('world-1'));
+    expect(createNpcUniverse(new SeededRNG('world-1'))).toEqual(u);
+    expect(new Set(u.wrestlers.map((n) => n.id)).size).toBe(u.wrestlers.length);
+    for (const wc of WEIGHT_CLASSES_HS) {
+      const hs = u.wrestlers.filter((n) => !isCollegeNpc(n) && n.weightClass === wc);
+      expect(hs).toHaveLength(HS_NPCS_PER_WEIGHT);
+      expect(new Set(hs.map((n) => n.age))).toEqual(new Set([14, 15, 16, 17]));
+    }
+    for (const school of SCHOOLS) {
+      for (const wc of WEIGHT_CLASSES_COLLEGE) {
+        const roster = schoolNpcsAtWeight(u, school.name, wc);
+        expect(roster).toHaveLength(school.rosterDepth[wc] ?? 2);
+        for (const n of roster) expect(n.league).toBe(school.division);
+      }
+    }
+  });
+
+  it('ages everyone, banks records and sends HS seniors to college or retirement', () => {
+    const u = createNpcUniverse(new SeededRNG('world-2'));
+    const before = new Map(u.wrestlers.map((n) => [n.id, { ...n }]));
+    progressNpcUniverse(u, new SeededRNG('world-2:1'), 1);
+    const stayed = u.wrestlers.filter((n) => before.has(n.id));
+    for (const n of stayed) expect(n.age).toBe(before.get(n.id)!.age + 1);
+    const seniors = [...before.values()].filter((n) => !isCollegeNpc(n) && n.age === 17);
+    const signed = seniors.map((n) => u.wrestlers.find((m) => m.id === n.id)).filter((n) => n != null);
+    expect(signed.length).toBeGreaterThan(seniors.length / 2);
+    for (const n of signed) {
+      expect(isCollegeNpc(n)).toBe(true);
+      expect(WEIGHT_CLASSES_COLLEGE).toContain(n.weightClass);
+      expect(n.wins + n.losses).toBeGreaterThan(0);
+    }
+    const d1 = signed.filter((n) => n.league === 'D1');
+    const juco = signed.filter((n) => n.league === 'JUCO');
+    expect(Math.min(...d1.map((n) => n.overallRating))).toBeGreaterThanOrEqual(Math.max(...juco.map((n) => n.overallRating)) - 10);
+    for (const wc of WEIGHT_CLASSES_HS) {
+      expect(u.wrestlers.filter((n) => !isCollegeNpc(n) && n.weightClass === wc)).toHaveLength(HS_NPCS_PER_WEIGHT);
+    }
+  });
+
+  it('retires college wrestlers after their eligibility and moves some between schools', () => {
+    const u = worldAfter('world-3', 5);
+    const college = u.wrestlers.filter(isCollegeNpc);
+    expect(Math.max(...college.map((n) => n.collegeYears))).toBeLessThan(4);
+    expect(college.some((n) => n.transfers > 0)).toBe(true);
+    // Nobody generated at the start is still around after five offseasons except as a college underclassman.
+    const originals = u.wrestlers.filter((n) => Number(n.id.slice(4)) <= 14 * HS_NPCS_PER_WEIGHT);
+    for (const n of originals) expect(isCollegeNpc(n)).toBe(true);
+    for (const school of SCHOOLS) {
+      for (const wc of WEIGHT_CLASSES_COLLEGE) expect(schoolNpcsAtWeight(u, school.name, wc).length).toBeGreaterThanOrEqual(school.rosterDepth[wc] ?? 2);
+    }
+  });
+
+  it('packs down to its log and rebuilds the same world from the seed', () => {
+    const u = createNpcUniverse(npcUniverseRng('world-4'));
+    const rng = new SeededRNG('world-4:play');
+    for (let season = 1; season <= 3; season++) {
+      signCollegeWalkOn(u, rng, 'Unknown State', 'D2', 149, 60);
+      for (const n of u.wrestlers.filter((_, i) => i % 7 === season)) {
+        n.seasonWins += season;
+        n.seasonLosses += 1;
+      }
+      if (season < 3) progressNpcUniverse(u, npcUniverseRng('world-4', season), season);
+    }
+    const packed = JSON.parse(JSON.stringify(packNpcUniverse(u)));
+    expect(JSON.stringify(packed).length).toBeLessThan(JSON.stringify(u.wrestlers).length / 10);
+    expect(unpackNpcUniverse('world-4', packed)).toEqual(u);
+  });
+
+  it('keeps a universe from before the log in full', () => {
+    const legacy = createNpcUniverse(new SeededRNG('world-5'));
+    delete legacy.log;
+    expect(packNpcUniverse(legacy)).toBe(legacy);
+  });
+});
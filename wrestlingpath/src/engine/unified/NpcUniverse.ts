@@ -0,0 +1,402 @@
+/**
+ * NPC universe: one persistent population of HS and college wrestlers. Opponent pools, brackets, rankings and
+ * college rosters are all drawn from it, so rivals stick around, age, sign with colleges, transfer and retire.
+ * Pure functions over state.npcs; the engine passes a SeededRNG derived from the save seed (npcUniverseRng).
+ *
+ * A fresh universe follows from the seed alone, so saves keep only what happened since: walk-ons signed mid-season and
+ * each season's bracket results (NpcUniverse.log). packNpcUniverse drops the wrestlers and unpackNpcUniverse replays
+ * the log onto a freshly generated universe to get them back.
+ */
+
+import { SeededRNG } from '../SeededRNG';
+import type { OpponentStyle } from '../OpponentAI';
+import type { Division, School } from '../types';
+import type { LeagueKey, NpcSeasonResult, NpcUniverse, NpcWrestler, Opponent, PackedNpcUniverse } from './types';
+import { SCHOOLS } from '@/data/schools';
+import { WEIGHT_CLASSES_COLLEGE, WEIGHT_CLASSES_HS } from '@/data/tournaments';
+import { isPowerhouse } from '../college/SeasonSchedule';
+
+/** HS wrestlers per weight, spread over four grades. */
+export const HS_NPCS_PER_WEIGHT = 40;
+const COLLEGE_SEASONS = 4;
+const JUCO_SEASONS = 2;
+/** No one wrestles college past this age. */
+const RETIREMENT_AGE = 24;
+/** Yearly chance a college wrestler moves to another school at their level. */
+const LATERAL_TRANSFER_CHANCE = 0.03;
+/** Yearly chance a wrestler who has outgrown their division transfers up. */
+const TRANSFER_UP_CHANCE = 0.3;
+
+const FIRST_NAMES = [
+  'Jake', 'Kyle', 'David', 'Ryan', 'Cole', 'Blake', 'Mason', 'Hunter', 'Chase', 'Tyler', 'Brody', 'Cade', 'Nick', 'Evan',
+  'James', 'Marcus', 'Jordan', 'Alex', 'Carter', 'Parker', 'Brooks', 'Devin', 'Luke', 'Logan', 'Eric', 'Jason', 'Bryce',
+  'Gavin', 'Wyatt', 'Owen', 'Isaiah', 'Caleb', 'Dominic', 'Trent', 'Aaron', 'Noah', 'Seth', 'Zane', 'Micah', 'Tanner',
+];
+const LAST_NAMES = [
+  'Smith', 'Johnson', 'Brown', 'Davis', 'Wilson', 'Moore', 'Taylor', 'Anderson', 'Thomas', 'Jackson', 'Martinez', 'Lee',
+  'Miller', 'Clark', 'Williams', 'White', 'Harris', 'Lewis', 'Young', 'King', 'Wright', 'Hall', 'Allen', 'Nelson', 'Baker',
+  'Carter', 'Ramirez', 'Schultz', 'Olson', 'Kowalski', 'Brandt', 'Fischer', 'Keller', 'Dixon', 'Reyes', 'Burke', 'Hayes',
+  'Garrett', 'Sullivan', 'Novak',
+];
+const HS_SCHOOLS = [
+  'Blair Academy', 'St. Edward', 'Lake Highland Prep', 'Christian Brothers', 'Bergen Catholic', 'Montini Catholic',
+  'Southeast Polk', 'Broken Arrow', 'Apple Valley', 'Simley', 'Wyoming Seminary', 'Central Dauphin', 'Poway', 'Buchanan',
+  'Cedar Falls', 'Waverly-Shell Rock', 'Collins Hill', 'Cathedral Prep', 'Brandon', 'Stillwater', 'Lowell', 'Parkersburg South',
+];
+const STYLES: OpponentStyle[] = ['grinder', 'scrambler', 'defensive'];
+
+/** Lowest rating each division signs, best first. Below JUCO's bar a senior stops wrestling. */
+const DIVISION_BARS: { division: Division; minRating: number }[] = [
+  { division: 'D1', minRating: 64 },
+  { division: 'D2', minRating: 59 },
+  { division: 'NAIA', minRating: 56 },
+  { division: 'D3', minRating: 53 },
+  { division: 'JUCO', minRating: 48 },
+];
+
+/** Same weights as the player's starting true skill. */
+const ATTRIBUTE_WEIGHTS = { technique: 0.28, matIQ: 0.24, conditioning: 0.22, strength: 0.12, speed: 0.08, flexibility: 0.06 };
+type Attribute = keyof typeof ATTRIBUTE_WEIGHTS;
+const ATTRIBUTES = Object.keys(ATTRIBUTE_WEIGHTS) as Attribute[];
+
+function clamp(min: number, max: number, value: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/** The universe's RNG: generation with no season, each offseason's progression with the season it closes. */
+export function npcUniverseRng(seed: string, season?: number): SeededRNG {
+  return new SeededRNG(season == null ? `${seed}:npcs` : `${seed}:npcs:${season}`);
+}
+
+/** Typical college wrestler's rating in a division (JUCO for anything that isn't a college division). */
+export function npcDivisionBaseRating(league: LeagueKey): number {
+  return league === 'D1' ? 62 : league === 'D2' ? 58 : league === 'D3' ? 56 : league === 'NAIA' ? 55 : 54;
+}
+
+export function isCollegeNpc(n: NpcWrestler): boolean {
+  return !n.league.startsWith('HS_');
+}
+
+export function nearestWeight(weights: number[], weightClass: number): number {
+  return weights.reduce((best, w) => (Math.abs(w - weightClass) < Math.abs(best - weightClass) ? w : best));
+}
+
+/** HS level, promoted on the same age and rating marks as the player. */
+function hsLeague(age: number, rating: number): LeagueKey {
+  if (age >= 17 || rating >= 75) return 'HS_ELITE';
+  if (age >= 15 || rating >= 68) return 'HS_VARSITY';
+  return 'HS_JV';
+}
+
+function rate(n: NpcWrestler): void {
+  n.overallRating = Math.round(ATTRIBUTES.reduce((sum, k) => sum + n[k] * ATTRIBUTE_WEIGHTS[k], 0));
+}
+
+function createNpc(
+  u: NpcUniverse,
+  rng: SeededRNG,
+  o: { age: number; weightClass: number; league: LeagueKey; school: string; rating: number; potential: number; collegeYears: number }
+): NpcWrestler {
+  const n: NpcWrestler = {
+    id: `npc_${u.nextId++}`,
+    name: FIRST_NAMES[rng.next() % FIRST_NAMES.length] + ' ' + LAST_NAMES[rng.next() % LAST_NAMES.length],
+    age: o.age,
+    weightClass: o.weightClass,
+    league: o.league,
+    school: o.school,
+    style: STYLES[rng.next() % STYLES.length],
+    clutch: rng.int(25, 90),
+    technique: 0,
+    matIQ: 0,
+    conditioning: 0,
+    strength: 0,
+    speed: 0,
+    flexibility: 0,
+    overallRating: 0,
+    potential: o.potential,
+    collegeYears: o.collegeYears,
+    transfers: 0,
+    wins: 0,
+    losses: 0,
+    seasonWins: 0,
+    seasonLosses: 0,
+  };
+  for (const k of ATTRIBUTES) n[k] = clamp(20, 99, o.rating + rng.int(-6, 6));
+  rate(n);
+  u.wrestlers.push(n);
+  return n;
+}
+
+/** A new HS wrestler; age above 14 starts them a few years into their development. */
+function createHSNpc(u: NpcUniverse, rng: SeededRNG, weightClass: number, age = 14): NpcWrestler {
+  const potential = clamp(50, 99, Math.round(68 + rng.normal() * 10));
+  const rating = clamp(30, 95, potential - rng.int(18, 28) + (age - 14) * 4);
+  const n = createNpc(u, rng, {
+    age, weightClass, league: 'HS_JV', school: HS_SCHOOLS[rng.next() % HS_SCHOOLS.length], rating, potential, collegeYears: 0,
+  });
+  n.league = hsLeague(n.age, n.overallRating);
+  return n;
+}
+
+/** Sign a college wrestler straight onto an empty roster spot or an unknown school's roster, mid-season. */
+export function signCollegeWalkOn(
+  u: NpcUniverse,
+  rng: SeededRNG,
+  school: string,
+  division: LeagueKey,
+  weightClass: number,
+  rating: number
+): NpcWrestler {
+  const n = createWalkOn(u, rng, school, division, weightClass, rating, 0);
+  u.log?.push({ walkOn: { ...n } });
+  return n;
+}
+
+function createWalkOn(
+  u: NpcUniverse,
+  rng: SeededRNG,
+  school: string,
+  division: LeagueKey,
+  weightClass: number,
+  rating: number,
+  collegeYears: number
+): NpcWrestler {
+  return createNpc(u, rng, {
+    age: 18 + collegeYears + (rng.chance(0.2) ? 1 : 0),
+    weightClass,
+    league: division,
+    school,
+    rating,
+    potential: clamp(rating, 99, rating + rng.int(0, 10)),
+    collegeYears,
+  });
+}
+
+function rosterTarget(school: School, weightClass: number): number {
+  return school.rosterDepth[weightClass] ?? 2;
+}
+
+function schoolWalkOn(u: NpcUniverse, rng: SeededRNG, school: School, weightClass: number, collegeYears: number): NpcWrestler {
+  const bump = isPowerhouse(school.id) ? 4 : 0;
+  const rating = clamp(45, 90, npcDivisionBaseRating(school.division) + bump + rng.int(-8, 12) + (collegeYears - 1) * 2);
+  return createWalkOn(u, rng, school.name, school.division, weightClass, rating, collegeYears);
+}
+
+/** A full world: every HS weight four grades deep, and every school's roster at its listed depth. */
+export function createNpcUniverse(rng: SeededRNG): NpcUniverse {
+  const u: NpcUniverse = { nextId: 1, wrestlers: [], log: [] };
+  for (const wc of WEIGHT_CLASSES_HS) {
+    for (let i = 0; i < HS_NPCS_PER_WEIGHT; i++) createHSNpc(u, rng, wc, 14 + (i % 4));
+  }
+  for (const school of SCHOOLS) {
+    for (const wc of WEIGHT_CLASSES_COLLEGE) {
+      for (let i = 0; i < rosterTarget(school, wc); i++) {
+        schoolWalkOn(u, rng, school, wc, rng.int(0, school.division === 'JUCO' ? JUCO_SEASONS - 1 : COLLEGE_SEASONS - 1));
+      }
+    }
+  }
+  return u;
+}
+
+/** A wrestler's record for one season, stable per id and season. */
+export function npcSeasonRecord(id: string, overallRating: number, season: number): { wins: number; losses: number } {
+  const key = `${id}:${season}`;
+  let h = 0;
+  for (let i = 0; i < key.length; i++) h = (h * 31 + key.charCodeAt(i)) | 0;
+  const spread = Math.abs(h % 7) - 3; // -3 to +3
+  const wins = clamp(0, 15, 5 + Math.floor((overallRating - 65) / 5) + spread);
+  const losses = clamp(0, 12, 10 - wins + (Math.abs(h >> 4) % 3));
+  return { wins, losses };
+}
+
+/** This season's record so far: the scheduled season plus every bracket bout they've wrestled. */
+export function npcCurrentRecord(n: NpcWrestler, season: number): { wins: number; losses: number } {
+  const rec = npcSeasonRecord(n.id, n.overallRating, season);
+  return { wins: rec.wins + n.seasonWins, losses: rec.losses + n.seasonLosses };
+}
+
+/** One offseason of growth: fast while young and far from their potential, flat in their early 20s, then decline. */
+function develop(n: NpcWrestler, rng: SeededRNG): void {
+  const headroom = n.potential - n.overallRating;
+  const gain = n.age <= 21
+    ? (headroom > 0 ? Math.min(headroom, rng.int(1, 3) + Math.round(headroom / 8)) : rng.int(-1, 1))
+    : n.age < RETIREMENT_AGE ? rng.int(-1, 2) : rng.int(-3, 0);
+  for (const k of ATTRIBUTES) n[k] = clamp(20, 99, n[k] + gain + rng.int(-1, 1));
+  rate(n);
+}
+
+const rosterKey = (school: string, weightClass: number) => `${school}|${weightClass}`;
+
+/**
+ * Find a college with an open spot at the wrestler's college weight: the best division their rating earns, falling
+ * back a division at a time. Schools with the most open spots recruit hardest. Returns false if nobody has room.
+ */
+function placeInCollege(
+  n: NpcWrestler,
+  rng: SeededRNG,
+  counts: Map<string, number>,
+  options: { skipDivisions?: Division[]; leaving?: string }
+): boolean {
+  const wc = nearestWeight(WEIGHT_CLASSES_COLLEGE, n.weightClass);
+  const first = DIVISION_BARS.findIndex((b) => n.overallRating >= b.minRating);
+  if (first < 0) return false;
+  for (const { division } of DIVISION_BARS.slice(first)) {
+    if (options.skipDivisions?.includes(division)) continue;
+    const open = SCHOOLS
+      .filter((sc) => sc.division === division && sc.name !== options.leaving)
+      .map((sc) => ({ sc, spots: rosterTarget(sc, wc) - (counts.get(rosterKey(sc.name, wc)) ?? 0) }))
+      .filter((o) => o.spots > 0);
+    if (open.length === 0) continue;
+    const most = Math.max(...open.map((o) => o.spots));
+    const choices = open.filter((o) => o.spots === most);
+    const school = choices[rng.next() % choices.length]!.sc;
+    if (isCollegeNpc(n)) {
+      counts.set(rosterKey(n.school, n.weightClass), (counts.get(rosterKey(n.school, n.weightClass)) ?? 1) - 1);
+      n.transfers++;
+    }
+    counts.set(rosterKey(school.name, wc), (counts.get(rosterKey(school.name, wc)) ?? 0) + 1);
+    n.school = school.name;
+    n.league = division;
+    n.weightClass = wc;
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Run one offseason over the whole population, at the end of `season`. Everyone banks their season record, ages and
+ * develops. College wrestlers out of eligibility retire, JUCO wrestlers move on to four-year schools and a few others
+ * transfer; HS seniors sign with the best division that has room or stop wrestling. New freshmen and walk-ons refill
+ * every HS weight and every roster.
+ */
+export function progressNpcUniverse(u: NpcUniverse, rng: SeededRNG, season: number): void {
+  u.log?.push({ season, results: seasonResults(u) });
+  for (const n of u.wrestlers) {
+    if (n.league !== 'HS_JV') {
+      const rec = npcCurrentRecord(n, season);
+      n.wins += rec.wins;
+      n.losses += rec.losses;
+    }
+    n.seasonWins = 0;
+    n.seasonLosses = 0;
+    n.age++;
+    if (isCollegeNpc(n)) n.collegeYears++;
+    develop(n, rng);
+    if (!isCollegeNpc(n)) n.league = hsLeague(n.age, n.overallRating);
+  }
+
+  const counts = new Map<string, number>();
+  for (const n of u.wrestlers) {
+    if (isCollegeNpc(n)) counts.set(rosterKey(n.school, n.weightClass), (counts.get(rosterKey(n.school, n.weightClass)) ?? 0) + 1);
+  }
+  const leaving = new Set<NpcWrestler>();
+  const retire = (n: NpcWrestler) => {
+    leaving.add(n);
+    if (isCollegeNpc(n)) counts.set(rosterKey(n.school, n.weightClass), (counts.get(rosterKey(n.school, n.weightClass)) ?? 1) - 1);
+  };
+
+  for (const n of u.wrestlers.filter(isCollegeNpc)) {
+    if (n.collegeYears >= COLLEGE_SEASONS || n.age >= RETIREMENT_AGE) {
+      retire(n);
+    } else if (n.league === 'JUCO' && n.collegeYears >= JUCO_SEASONS) {
+      if (!placeInCollege(n, rng, counts, { skipDivisions: ['JUCO'], leaving: n.school })) retire(n);
+    } else {
+      const earned = DIVISION_BARS.findIndex((b) => n.overallRating >= b.minRating + 2);
+      const current = DIVISION_BARS.findIndex((b) => b.division === n.league);
+      const outgrown = earned >= 0 && earned < current;
+      if ((outgrown && rng.chance(TRANSFER_UP_CHANCE)) || rng.chance(LATERAL_TRANSFER_CHANCE)) {
+        placeInCollege(n, rng, counts, { leaving: n.school });
+      }
+    }
+  }
+
+  const seniors = u.wrestlers.filter((n) => !isCollegeNpc(n) && n.age >= 18).sort((a, b) => b.overallRating - a.overallRating);
+  for (const n of seniors) {
+    if (!placeInCollege(n, rng, counts, {})) retire(n);
+  }
+  u.wrestlers = u.wrestlers.filter((n) => !leaving.has(n));
+
+  for (const wc of WEIGHT_CLASSES_HS) {
+    const have = u.wrestlers.filter((n) => !isCollegeNpc(n) && n.weightClass === wc).length;
+    for (let i = have; i < HS_NPCS_PER_WEIGHT; i++) createHSNpc(u, rng, wc);
+  }
+  for (const school of SCHOOLS) {
+    for (const wc of WEIGHT_CLASSES_COLLEGE) {
+      for (let i = counts.get(rosterKey(school.name, wc)) ?? 0; i < rosterTarget(school, wc); i++) schoolWalkOn(u, rng, school, wc, 0);
+    }
+  }
+}
+
+/** Everyone with bracket bouts this season, as [id, wins, losses]. */
+function seasonResults(u: NpcUniverse): NpcSeasonResult[] {
+  return u.wrestlers.filter((n) => n.seasonWins > 0 || n.seasonLosses > 0).map((n) => [n.id, n.seasonWins, n.seasonLosses]);
+}
+
+/** The universe as it's saved: just its log and this season's results. One from before the log was kept stays whole. */
+export function packNpcUniverse(u: NpcUniverse): NpcUniverse | PackedNpcUniverse {
+  return u.log ? { log: u.log, results: seasonResults(u) } : u;
+}
+
+/** Rebuild a packed universe: generate it from the seed again, then replay its log and this season's results. */
+export function unpackNpcUniverse(seed: string, packed: PackedNpcUniverse): NpcUniverse {
+  const u = createNpcUniverse(npcUniverseRng(seed));
+  const applyResults = (results: NpcSeasonResult[]) => {
+    for (const [id, wins, losses] of results) {
+      const n = findNpc(u, id);
+      if (n) Object.assign(n, { seasonWins: wins, seasonLosses: losses });
+    }
+  };
+  for (const event of packed.log) {
+    if ('walkOn' in event) {
+      u.wrestlers.push({ ...event.walkOn });
+      u.nextId++;
+      u.log!.push({ walkOn: { ...event.walkOn } });
+    } else {
+      applyResults(event.results);
+      progressNpcUniverse(u, npcUniverseRng(seed, event.season), event.season);
+    }
+  }
+  applyResults(packed.results);
+  return u;
+}
+
+export function isPackedNpcUniverse(u: NpcUniverse | PackedNpcUniverse): u is PackedNpcUniverse {
+  return !('wrestlers' in u);
+}
+
+export function findNpc(u: NpcUniverse, id: string): NpcWrestler | undefined {
+  return u.wrestlers.find((n) => n.id === id);
+}
+
+const byRating = (a: NpcWrestler, b: NpcWrestler) => b.overallRating - a.overallRating;
+
+/** Varsity and elite HS wrestlers at the nearest HS weight, best first. */
+export function hsNpcsAtWeight(u: NpcUniverse, weightClass: number): NpcWrestler[] {
+  const wc = nearestWeight(WEIGHT_CLASSES_HS, weightClass);
+  return u.wrestlers.filter((n) => !isCollegeNpc(n) && n.league !== 'HS_JV' && n.weightClass === wc).sort(byRating);
+}
+
+/** College wrestlers at the nearest college weight, optionally one division only, best first. */
+export function collegeNpcsAtWeight(u: NpcUniverse, weightClass: number, division?: LeagueKey): NpcWrestler[] {
+  const wc = nearestWeight(WEIGHT_CLASSES_COLLEGE, weightClass);
+  return u.wrestlers.filter((n) => isCollegeNpc(n) && n.weightClass === wc && (!division || n.league === division)).sort(byRating);
+}
+
+/** Each school's starter at one weight (the top of its depth chart), best first. */
+export function collegeStartersAtWeight(u: NpcUniverse, weightClass: number, division?: LeagueKey): NpcWrestler[] {
+  const schools = new Set<string>();
+  return collegeNpcsAtWeight(u, weightClass, division).filter((n) => {
+    if (schools.has(n.school)) return false;
+    schools.add(n.school);
+    return true;
+  });
+}
+
+/** A school's wrestlers at one weight, best first: the depth chart. */
+export function schoolNpcsAtWeight(u: NpcUniverse, school: string, weightClass: number): NpcWrestler[] {
+  return u.wrestlers.filter((n) => isCollegeNpc(n) && n.school === school && n.weightClass === weightClass).sort(byRating);
+}
+
+export function npcToOpponent(n: NpcWrestler): Opponent {
+  return { id: n.id, name: n.name, overallRating: n.overallRating, style: n.style, clutch: n.clutch };
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { createBracket, decideBracketBout, nextBracketBout, seedEntrants } from './Bracket';
+import { PLACEMENT_POINTS, boutTeamPoints, teamStandings, tournamentBonusPoints } from './TeamScoring';
+import type { BracketBout, BracketSize, TournamentBracket } from './types';
+
+/** A field of `size`, teams taking turns down the seed lines; the stand-in at the bottom has no team. */
+function field(size: BracketSize, teams: string[]): TournamentBracket {
+  return createBracket(seedEntrants(Array.from({ length: size }, (_, i) => ({
+    id: `npc_${i + 1}`,
+    name: `Wrestler ${i + 1}`,
+    overallRating: 90 - i,
+    ...(i < size - 1 ? { team: teams[i % teams.length] } : {}),
+  }))));
+}
+
+/** The better seed wins every bout, by `method`. */
+function wrestleOut(b: TournamentBracket, method = 'Dec', until = Infinity): void {
+  let n = 0;
+  for (let bout = nextBracketBout(b); bout && n < until; bout = nextBracketBout(b), n++) {
+    decideBracketBout(b, bout, Math.min(bout.top!, bout.bottom!), method);
+  }
+}
+
+const bout = (over: Partial<BracketBout>): BracketBout => ({ id: 'x', round: 'QF', side: 'championship', top: 1, bottom: 2, winner: 1, method: 'Dec', ...over });
+
+describe('TeamScoring', () => {
+  it('scores bonus points by win method', () => {
+    expect(tournamentBonusPoints('Fall')).toBe(2);
+    expect(tournamentBonusPoints('Med. Forfeit')).toBe(2);
+    expect(tournamentBonusPoints('Tech')).toBe(1.5);
+    expect(tournamentBonusPoints('Major')).toBe(1);
+    expect(tournamentBonusPoints('SV-1')).toBe(0);
+  });
+
+  it('scores advancement on each side and places in placement bouts', () => {
+    expect(boutTeamPoints(bout({}))).toEqual({ winner: 1, loser: 0 });
+    expect(boutTeamPoints(bout({ side: 'consolation', round: 'CONS_R1', method: 'Major' }))).toEqual({ winner: 1.5, loser: 0 });
+    expect(boutTeamPoints(bout({ round: 'PIGTAIL', method: 'Fall' }))).toEqual({ winner: 2.5, loser: 0 });
+    expect(boutTeamPoints(bout({ round: 'FINAL', places: 1, method: 'Tech' }))).toEqual({ winner: 17.5, loser: 12 });
+    expect(boutTeamPoints(bout({ side: 'consolation', round: 'SEVENTH_EIGHTH', places: 7 }))).toEqual({ winner: 4, loser: 3 });
+  });
+
+  it('totals every team across weights, counting only the stand-ins out', () => {
+    const weights = [field(8, ['Iowa', 'Penn State']), field(16, ['Iowa', 'Penn State', 'Cornell'])];
+    for (const b of weights) wrestleOut(b);
+    const standings = teamStandings(weights);
+    expect(standings.map((t) => t.team).sort()).toEqual(['Cornell', 'Iowa', 'Penn State']);
+    expect(standings[0]!.team).toBe('Iowa');
+    // The stand-in places 8th at 8 but scores for nobody.
+    expect(standings.reduce((sum, t) => sum + t.placers, 0)).toBe(7 + 8);
+    // Seed 1 at 8 wins the QF, SF (1 each) and the final: 18, all Iowa.
+    const iowaEightChamp = 1 + 1 + PLACEMENT_POINTS[0]!;
+    expect(standings[0]!.points).toBeGreaterThan(iowaEightChamp);
+  });
+
+  it('runs live, placement points only once placement bouts are decided', () => {
+    const b = field(8, ['Iowa', 'Penn State']);
+    wrestleOut(b, 'Fall', 4);
+    const live = teamStandings([b]);
+    // Four quarterfinals by fall: seeds 1-4 take 1 + 2 each, odd seeds for Iowa.
+    expect(live.find((t) => t.team === 'Iowa')!.points).toBe(6);
+    expect(live.find((t) => t.team === 'Penn State')!.points).toBe(6);
+    expect(live.every((t) => t.placers === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Tournament team scoring on NCAA rules: advancement points for wins (one on the championship side, a half in the
+ * consolations and the pigtail), bonus points for falls, techs and majors, and placement points for the top 8.
+ * Placement points go out as each placement bout is decided, so standings can be followed live. Stand-ins without a
+ * team don't score. Pure functions over TournamentBracket.
+ */
+
+import type { BracketBout, TeamScore, TournamentBracket } from './types';
+import { boutLoser } from './Bracket';
+
+/** 1st through 8th. */
+export const PLACEMENT_POINTS = [16, 12, 10, 9, 7, 6, 4, 3];
+const CHAMPIONSHIP_ADVANCEMENT = 1;
+const CONSOLATION_ADVANCEMENT = 0.5;
+
+/** Bonus points for a win by this method. Defaults, forfeits and DQs score like a fall. */
+export function tournamentBonusPoints(method: string): number {
+  if (/fall|pin|forfeit|default|dq/i.test(method)) return 2;
+  if (/tech/i.test(method)) return 1.5;
+  if (/major/i.test(method)) return 1;
+  return 0;
+}
+
+/** Team points a decided bout earns its winner and loser. Finals and placement bouts score places, not advancement. */
+export function boutTeamPoints(bout: BracketBout): { winner: number; loser: number } {
+  const bonus = tournamentBonusPoints(bout.method ?? '');
+  if (bout.places != null) {
+    return { winner: PLACEMENT_POINTS[bout.places - 1]! + bonus, loser: PLACEMENT_POINTS[bout.places] ?? 0 };
+  }
+  const advancement = bout.side === 'championship' && bout.round !== 'PIGTAIL' ? CHAMPIONSHIP_ADVANCEMENT : CONSOLATION_ADVANCEMENT;
+  return { winner: advancement + bonus, loser: 0 };
+}
+
+/** Every team entered across an event's brackets (one per weight), most points first; placers, then name, break ties. */
+export function teamStandings(brackets: TournamentBracket[]): TeamScore[] {
+  const scores = new Map<string, TeamScore>();
+  for (const b of brackets) {
+    for (const e of b.entrants) if (e.team && !scores.has(e.team)) scores.set(e.team, { team: e.team, points: 0, placers: 0 });
+  }
+  const credit = (b: TournamentBracket, seed: number | null, points: number, placed: boolean) => {
+    const score = seed != null ? scores.get(b.entrants[seed - 1]?.team ?? '') : undefined;
+    if (!score) return;
+    score.points += points;
+    if (placed) score.placers++;
+  };
+  for (const b of brackets) {
+    for (const bout of b.bouts) {
+      if (bout.winner == null) continue;
+      const points = boutTeamPoints(bout);
+      credit(b, bout.winner, points.winner, bout.places != null);
+      credit(b, boutLoser(bout), points.loser, bout.places != null);
+    }
+  }
+  return [...scores.values()].sort((a, b) => b.points - a.points || b.placers - a.placers || a.team.localeCompare(b.team));
+}
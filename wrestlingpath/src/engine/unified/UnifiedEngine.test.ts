@@ -1,5 +1,14 @@
 import { describe, it, expect } from 'vitest';
-import { UnifiedEngine } from './UnifiedEngine';
+import { UnifiedEngine, CURRENT_SCHEMA_VERSION, migrateSave, packSave } from './UnifiedEngine';
+import type { UnifiedState, PlayerInjury } from './types';
+import { resolveExchange, generateExchangePrompt } from '../MatchMinigame';
+import { SeededRNG } from '../SeededRNG';
+import { schoolConference } from './NcaaChampionships';
+import { schoolNpcsAtWeight } from './NpcUniverse';
+import v0Monthly from './fixtures/save-v0-monthly.json';
+import v1Weekly from './fixtures/save-v1-weekly.json';
+import v2PreLifestyle from './fixtures/save-v2-pre-lifestyle.json';
+import v3PreCompetition from './fixtures/save-v3-pre-competition.json';
 
 describe('UnifiedEngine – weekly modifiers', () => {
   it('Life/Relationship actions reduce availableHours correctly', () => {
@@ -141,3 +150,1047 @@ describe('UnifiedEngine – HS scheduling and sim', () => {
     expect(evs.some((e) => e.key === 'fargo')).toBe(true);
   });
 });
+
+describe('UnifiedEngine – save schema migrations', () => {
+  const fixtures: Record<string, unknown> = {
+    'v0 monthly': v0Monthly,
+    'v1 weekly': v1Weekly,
+    'v2 pre-lifestyle': v2PreLifestyle,
+    'v3 pre-competition': v3PreCompetition,
+  };
+
+  for (const [label, save] of Object.entries(fixtures)) {
+    it(`${label} save loads at the current schema and advances a week`, () => {
+      const engine = new UnifiedEngine(save as UnifiedState);
+      const s = engine.getState();
+      expect(s.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+      expect(s.lifestyle.housing).toBe('none');
+      expect(s.pendingCompetition).toBeNull();
+      expect(s.pendingTournamentPlay).toBeNull();
+      expect(s.weekModifiers.reasons).toEqual([]);
+      expect(typeof s.eligibilityYearsRemaining).toBe('number');
+      expect(engine.getTransferOffers()).toEqual([]);
+      expect(Array.isArray(s.stats.usOpenPlacements)).toBe(true);
+      expect(s.styleRatings).toEqual({ freestyle: 30, greco: 20 });
+      expect(s.opponentHistory).toEqual({});
+      expect(s.npcs.wrestlers.length).toBeGreaterThan(0);
+      expect('rankingsByWeight' in s).toBe(false);
+      const before = { week: s.week, year: s.year };
+      engine.advanceWeek();
+      const after = engine.getState();
+      if (before.week === 52) expect(after.year).toBe(before.year + 1);
+      else expect(after.week).toBe(before.week + 1);
+      expect(Number.isFinite(after.money)).toBe(true);
+      expect(Number.isFinite(after.overallRating)).toBe(true);
+    });
+  }
+
+  it('converts the month-based calendar to weeks', () => {
+    const s = migrateSave(v0Monthly);
+    const legacy = v0Monthly as { month: number; hoursLeftThisMonth: number };
+    expect(s.week).toBe(legacy.month);
+    expect(s.hoursLeftThisWeek).toBe(legacy.hoursLeftThisMonth);
+    expect('month' in s).toBe(false);
+    expect('lastMonthEconomy' in s).toBe(false);
+  });
+
+  it('keeps existing values and skips steps already applied', () => {
+    const state = UnifiedEngine.createState('migrate-keep', { name: 'Keep', weightClass: 145 });
+    state.coachTrust = 12;
+    state.lifestyle.housing = 'apartment';
+    const migrated = migrateSave(state);
+    expect(migrated).toEqual(state);
+  });
+
+  it('keeps only the latest story lines and life-log entries', () => {
+    const state = UnifiedEngine.createState('long-career', { name: 'Long' });
+    state.history = Array.from({ length: 500 }, (_, i) => ({ year: 1, week: 1, age: 14, text: `old ${i}` }));
+    state.lifeLog = Array.from({ length: 500 }, (_, i) => ({ year: 1, week: 1, text: `old ${i}` }));
+    state.pendingLifePopups = [{ id: 'p1', category: 'school_academics', text: 'Test popup', choices: [{ label: 'Ok', effects: {} }] }];
+    const engine = new UnifiedEngine(state);
+    engine.resolveLifePopup('p1', 0);
+    engine.advanceWeek();
+    const s = engine.getState();
+    expect(s.history).toHaveLength(200);
+    expect(s.history[s.history.length - 1]!.text).not.toMatch(/^old /);
+    expect(s.lifeLog).toHaveLength(200);
+    expect(s.lifeLog[s.lifeLog.length - 1]!.text).toMatch(/^Popup: Test popup/);
+  });
+
+  it('rejects non-saves and saves from a newer schema', () => {
+    expect(() => migrateSave(null)).toThrow(/Not a WrestlingPath save/);
+    expect(() => migrateSave({ name: 'x' })).toThrow(/Not a WrestlingPath save/);
+    const future = { ...UnifiedEngine.createState('future', { name: 'F' }), schemaVersion: CURRENT_SCHEMA_VERSION + 1 };
+    expect(() => new UnifiedEngine(future)).toThrow(/newer version/);
+  });
+
+  it('reseeds a waiting bracket and closes out one wrestled under the old format', () => {
+    const opponents = Array.from({ length: 7 }, (_, i) => ({ id: `o${i}`, name: `Opp ${i}`, overallRating: 80 - i * 3, style: 'grinder' as const, clutch: 50 }));
+    const waiting = { ...UnifiedEngine.createState('old-bracket', { name: 'Old' }), schemaVersion: 14 } as Record<string, unknown>;
+    waiting.pendingTournamentPlay = { kind: 'tournament', phaseLabel: 'Open', week: 40, year: 1, opponents, bracketParticipants: [{ seed: 1, name: 'Old', overallRating: 60 }] };
+    const reseeded = migrateSave(waiting);
+    const field = reseeded.pendingTournamentPlay!.bracketParticipants;
+    expect(field.map((p) => p.seed)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(field.map((p) => p.id).sort()).toEqual(['o0', 'o1', 'o2', 'o3', 'o4', 'o5', 'o6', 'player']);
+    expect(field.find((p) => p.id === 'player')!.overallRating).toBe(reseeded.overallRating);
+
+    const playing = { ...UnifiedEngine.createState('old-bracket', { name: 'Old' }), schemaVersion: 14 } as Record<string, unknown>;
+    playing.pendingCompetition = { kind: 'tournament', bracket: { size: 8, phase: 'SF', opponents, opponentIndex: 2 } };
+    for (const n of (playing.npcs as UnifiedState['npcs']).wrestlers) delete (n as Partial<typeof n>).seasonWins;
+    const s = migrateSave(playing);
+    expect(s.pendingCompetition).toBeNull();
+    expect(s.npcs.wrestlers.every((n) => n.seasonWins === 0 && n.seasonLosses === 0)).toBe(true);
+  });
+
+  it('keeps an NCAA bid won before selection was modeled', () => {
+    const old = { ...UnifiedEngine.createState('old-bid', { name: 'Old', customStart: { league: 'D1', age: 20, week: 13 } }), schemaVersion: 15 } as Record<string, unknown>;
+    delete old.conferenceResult;
+    old.collegeName = 'Iowa';
+    old.ncaaQualified = true;
+    const s = migrateSave(old);
+    expect(s.conferenceResult).toEqual({ year: s.year, weightClass: s.weightClass, conference: 'Big Ten', allocations: { 'Big Ten': 1 }, places: { player: 1 } });
+    expect(migrateSave({ ...old, ncaaQualified: false }).conferenceResult).toBeNull();
+  });
+
+  it('forgets bracket-mates never wrestled or scouted', () => {
+    const old = { ...UnifiedEngine.createState('old-history', { name: 'Old' }), schemaVersion: 18 } as Record<string, unknown>;
+    const entry = (id: string, bouts: number, scouted: boolean) => ({
+      id, name: id, style: 'grinder', overallRating: 60, bracketsSeen: 2, scouted,
+      bouts: Array.from({ length: bouts }, () => ({ year: 1, week: 40, event: 'Open', won: true, method: 'Dec' })),
+    });
+    old.opponentHistory = { met: entry('met', 1, false), scouted: entry('scouted', 0, true), stranger: entry('stranger', 0, false) };
+    expect(Object.keys(migrateSave(old).opponentHistory).sort()).toEqual(['met', 'scouted']);
+  });
+});
+
+describe('UnifiedEngine – random-event choices', () => {
+  /** Advance weeks (resolving anything else that blocks) until a random-event choice is pending. */
+  function engineWithPendingChoice(): UnifiedEngine {
+    for (let seed = 0; seed < 200; seed++) {
+      const engine = new UnifiedEngine(UnifiedEngine.createState(`random-choice-${seed}`, { name: 'Chooser', weightClass: 145 }));
+      for (let w = 0; w < 30; w++) {
+        if (engine.getState().pendingCompetition || engine.getState().pendingTournamentPlay) break;
+        engine.advanceWeek();
+        if (engine.getPendingRandomChoice()) return engine;
+      }
+    }
+    throw new Error('no random-event choice found');
+  }
+
+  it('pending choice survives save/load and resolves the same as without reloading', () => {
+    const engine = engineWithPendingChoice();
+    expect(engine.getCanAdvanceWeek()).toBe(false);
+    const saved = JSON.parse(JSON.stringify(engine.getState())) as UnifiedState;
+    expect(saved.pendingRandomChoice?.options.every((o) => o.effects != null)).toBe(true);
+
+    const reloaded = new UnifiedEngine(saved);
+    expect(reloaded.resolveRandomChoice(1)).toBe(true);
+    expect(engine.resolveRandomChoice(1)).toBe(true);
+    expect(reloaded.getState()).toEqual(engine.getState());
+    expect(engine.getState().pendingRandomChoice).toBeNull();
+
+    engine.advanceWeek();
+    reloaded.advanceWeek();
+    expect(reloaded.getState()).toEqual(engine.getState());
+  });
+
+  it('applies the chosen option effects', () => {
+    const engine = engineWithPendingChoice();
+    const before = engine.getState().money;
+    const pay = engine.getPendingRandomChoice()!.options[0];
+    engine.resolveRandomChoice(0);
+    expect(engine.getState().money).toBe(Math.max(0, before + (pay.effects.money ?? 0)));
+    expect(engine.resolveRandomChoice(0)).toBe(false);
+  });
+
+  it('drops a pre-serializable pending choice from an old save', () => {
+    const old = UnifiedEngine.createState('old-choice', { name: 'Old' }) as unknown as Record<string, unknown>;
+    old.schemaVersion = 4;
+    old.pendingRandomChoice = { prompt: 'Car trouble', options: [{ label: 'Pay', resultText: 'Paid' }] };
+    const engine = new UnifiedEngine(old as unknown as UnifiedState);
+    expect(engine.getState().pendingRandomChoice).toBeNull();
+    expect(engine.getCanAdvanceWeek()).toBe(true);
+  });
+});
+
+describe('UnifiedEngine – action journal and replay', () => {
+  /** Play a mixed stretch of career: choices, popups, random events, competitions and a rankings view. */
+  function playCareer(engine: UnifiedEngine, weeks: number): void {
+    engine.getRankingsBoard();
+    for (let w = 0; w < weeks; w++) {
+      const s = engine.getState();
+      if (s.pendingRandomChoice) engine.resolveRandomChoice(w % 2);
+      else if (s.pendingLifePopups.length > 0) engine.resolveLifePopup(s.pendingLifePopups[0].id, 0);
+      else if (s.pendingTournamentPlay) engine.simulateTournamentBracket();
+      else if (s.pendingCompetition) engine.simulatePendingCompetitionMatch();
+      else {
+        engine.applyChoice(w % 3 === 0 ? 'train_technique' : w % 3 === 1 ? 'study' : 'rest');
+        engine.advanceWeek();
+      }
+    }
+  }
+
+  it('replay rebuilds the exact same state from seed and journal', () => {
+    const engine = new UnifiedEngine(UnifiedEngine.createState('journal-1', { name: 'Replay', weightClass: 138 }));
+    playCareer(engine, 80);
+    const state = JSON.parse(JSON.stringify(engine.getState())) as UnifiedState;
+    expect(state.journal.length).toBeGreaterThan(80);
+    expect(UnifiedEngine.replay(state.seed, state.journal)).toEqual(state);
+  });
+
+  it('keeps recording across save/load', () => {
+    const engine = new UnifiedEngine(UnifiedEngine.createState('journal-2', { name: 'Reload' }));
+    playCareer(engine, 20);
+    const reloaded = new UnifiedEngine(JSON.parse(JSON.stringify(engine.getState())));
+    playCareer(reloaded, 20);
+    const state = reloaded.getState();
+    expect(UnifiedEngine.replay(state.seed, state.journal)).toEqual(JSON.parse(JSON.stringify(state)));
+  });
+
+  it('records only top-level calls, and lazy getters only when they draw from the RNG', () => {
+    const engine = new UnifiedEngine(UnifiedEngine.createState('journal-3', { name: 'Top' }));
+    engine.setAutoTrainOnAdvance(true);
+    engine.advanceWeek();
+    engine.getRankingsBoard();
+    engine.getRankingsBoard();
+    const methods = engine.getState().journal.map((e) => e.method);
+    expect(methods).toEqual(['createState', 'setAutoTrainOnAdvance', 'advanceWeek']);
+    expect(engine.getState().journal[1].args).toEqual([true]);
+  });
+
+  it('folds calls from before the oldest rewind point into a snapshot, so the journal stays bounded', () => {
+    const engine = new UnifiedEngine(UnifiedEngine.createState('journal-4', { name: 'Long' }));
+    playCareer(engine, 150);
+    const reloaded = new UnifiedEngine(JSON.parse(JSON.stringify(engine.getState())));
+    playCareer(reloaded, 150);
+    const state = JSON.parse(JSON.stringify(reloaded.getState())) as UnifiedState;
+    expect(state.journal[0].method).toBe('restoreState');
+    expect(state.journal.length).toBeLessThan(200);
+    expect(UnifiedEngine.replay(state.seed, state.journal)).toEqual(state);
+    // The oldest kept week is still reachable.
+    const oldest = reloaded.getWeekCheckpoints()[0];
+    expect(reloaded.rewindToWeek(oldest.journalLength).success).toBe(true);
+    expect(reloaded.getState()).toMatchObject({ year: oldest.year, week: oldest.week, overallRating: oldest.overallRating });
+
+    const ironman = new UnifiedEngine(UnifiedEngine.createState('journal-5', { name: 'Iron', ironman: true }));
+    playCareer(ironman, 300);
+    expect(ironman.getState().journal.length).toBeLessThan(200);
+    expect(UnifiedEngine.replay(ironman.getState().seed, ironman.getState().journal)).toEqual(JSON.parse(JSON.stringify(ironman.getState())));
+  });
+
+  it('refuses to replay a journal that predates journaling', () => {
+    const engine = new UnifiedEngine(v1Weekly as unknown as UnifiedState);
+    engine.advanceWeek();
+    expect(engine.getState().journal).toEqual([{ method: 'advanceWeek', args: [] }]);
+    expect(() => UnifiedEngine.replay(engine.getState().seed, engine.getState().journal)).toThrow(/createState/);
+  });
+});
+
+describe('UnifiedEngine – rewind and ironman', () => {
+  it('rewinds to the start of an earlier week exactly as it was', () => {
+    const engine = new UnifiedEngine(UnifiedEngine.createState('rewind-1', { name: 'Rewind', weightClass: 145 }));
+    engine.advanceWeeks(3);
+    const atWeek4 = JSON.parse(JSON.stringify(engine.getState())) as UnifiedState;
+    const checkpoint = engine.getWeekCheckpoints().at(-1)!;
+    expect(checkpoint.week).toBe(atWeek4.week);
+    engine.applyChoice('party');
+    engine.advanceWeeks(4);
+    expect(engine.rewindToWeek(checkpoint.journalLength).success).toBe(true);
+    expect(engine.getState()).toEqual(atWeek4);
+    // The rewound career keeps playing deterministically
+    engine.advanceWeek();
+    const again = new UnifiedEngine(atWeek4);
+    again.advanceWeek();
+    expect(engine.getState()).toEqual(again.getState());
+  });
+
+  it('keeps only the most recent weeks, one per week even when advancing several at once', () => {
+    const engine = new UnifiedEngine(UnifiedEngine.createState('rewind-2', { name: 'Window' }));
+    engine.advanceWeeks(5);
+    expect(engine.getWeekCheckpoints().map((c) => c.week)).toEqual([1, 2, 3, 4, 5, 6]);
+    // advanceWeeks stops at anything that needs an answer; answer it and carry on.
+    const target = engine.getState().week + 20;
+    while (engine.getState().week < target) {
+      const s = engine.getState();
+      if (s.pendingRandomChoice) engine.resolveRandomChoice(0);
+      else if (s.pendingTournamentPlay) engine.simulateTournamentBracket();
+      else if (s.pendingCompetition) engine.simulatePendingCompetitionMatch();
+      else engine.advanceWeeks(target - s.week);
+    }
+    const checkpoints = engine.getWeekCheckpoints();
+    expect(checkpoints.length).toBe(12);
+    expect(checkpoints.at(-1)!.week).toBe(engine.getState().week);
+    expect(engine.rewindToWeek(1).success).toBe(false);
+  });
+
+  it('ironman careers record the setting and cannot rewind', () => {
+    const engine = new UnifiedEngine(UnifiedEngine.createState('rewind-3', { name: 'Iron', ironman: true }));
+    engine.advanceWeeks(3);
+    const state = engine.getState();
+    expect(state.ironman).toBe(true);
+    expect(state.weekCheckpoints).toEqual([]);
+    expect(engine.rewindToWeek(1)).toEqual({ success: false, message: expect.stringMatching(/Ironman/) });
+  });
+});
+
+describe('UnifiedEngine – college duals', () => {
+  const POINTS: Record<string, number> = { Dec: 3, 'SV-1': 3, 'TB-1': 3, 'SV-2': 3, UTB: 3, Major: 4, Tech: 5, Fall: 6, Forfeit: 6 };
+
+  function collegeFreshman(seed: string): UnifiedState {
+    const state = UnifiedEngine.createState(seed, { name: 'Freshman', customStart: { league: 'D1', age: 19, week: 1 } });
+    state.weightClass = 149;
+    return state;
+  }
+
+  /** Advance until a dual week has been scored, simulating the player's bouts; keepHealthy heals any injury before each week. */
+  function playToDual(engine: UnifiedEngine, keepHealthy = false): NonNullable<UnifiedState['lastWeekSummary']> {
+    for (let i = 0; i < 12; i++) {
+      if (keepHealthy) (engine.getState() as UnifiedState).injuries = [];
+      engine.advanceWeek();
+      while (engine.getState().pendingCompetition) engine.simulatePendingCompetitionMatch();
+      const summary = engine.getState().lastWeekSummary;
+      if (summary?.duals?.length) return summary;
+    }
+    throw new Error('no dual in the first 12 weeks');
+  }
+
+  it('wrestles all ten weights and scores them with NCAA team points', () => {
+    const engine = new UnifiedEngine(collegeFreshman('college-dual-1'));
+    const summary = playToDual(engine);
+    const s = engine.getState();
+    for (const dual of summary.duals!) {
+      expect(dual.bouts.map((b) => b.weightClass)).toEqual(UnifiedEngine.getWeightClasses('D1'));
+      for (const b of dual.bouts) {
+        expect(b.won ? b.teamPoints : b.opponentPoints).toBe(POINTS[b.method]);
+        expect(b.won ? b.opponentPoints : b.teamPoints).toBe(0);
+      }
+      expect(dual.teamScore).toBe(dual.bouts.reduce((sum, b) => sum + b.teamPoints, 0));
+      expect(dual.opponentScore).toBe(dual.bouts.reduce((sum, b) => sum + b.opponentPoints, 0));
+      expect(dual.result).toBe(dual.teamScore > dual.opponentScore ? 'W' : dual.teamScore < dual.opponentScore ? 'L' : 'T');
+    }
+    const { wins, losses, ties } = s.teamDualRecord;
+    expect(wins + losses + ties).toBeGreaterThanOrEqual(summary.duals!.length);
+  });
+
+  it("puts the player's own bout in the scorecard when they start", () => {
+    const first = new UnifiedEngine(collegeFreshman('college-dual-2'));
+    first.advanceWeek();
+    const s = first.getState() as UnifiedState;
+    // Put the player first on the depth chart.
+    s.collegeRoster!.sort((a, b) => Number(b.isPlayer) - Number(a.isPlayer));
+    const engine = new UnifiedEngine(s);
+    const summary = playToDual(engine, true);
+    for (const [i, dual] of summary.duals!.entries()) {
+      const mine = dual.bouts.filter((b) => b.isPlayer);
+      expect(mine).toHaveLength(1);
+      expect(mine[0].weightClass).toBe(engine.getState().weightClass);
+      expect(mine[0].won).toBe(summary.matches![i].won);
+    }
+  });
+
+  it('still scores the dual when the player is a backup', () => {
+    const engine = new UnifiedEngine(collegeFreshman('college-dual-3'));
+    engine.advanceWeek();
+    const s = engine.getState() as UnifiedState;
+    // Drop the player to the bottom of the depth chart.
+    s.collegeRoster!.sort((a, b) => Number(a.isPlayer) - Number(b.isPlayer));
+    const backup = new UnifiedEngine(s);
+    const summary = playToDual(backup);
+    expect(summary.matches ?? []).toHaveLength(0);
+    for (const dual of summary.duals!) {
+      expect(dual.bouts).toHaveLength(10);
+      expect(dual.bouts.some((b) => b.isPlayer)).toBe(false);
+    }
+  });
+});
+
+describe('UnifiedEngine – college wrestle-offs', () => {
+  /** A low-rated D1 wrestler in the last week of the year, so the next advance starts the season as a backup. */
+  function preseasonBackup(seed: string): UnifiedEngine {
+    const low = { technique: 40, matIQ: 40, conditioning: 40, strength: 40, speed: 40, flexibility: 40 };
+    const state = UnifiedEngine.createState(seed, { name: 'Walk-on', customStart: { league: 'D1', age: 19, week: 52, ...low } });
+    state.weightClass = 149;
+    state.eligibilityYearsRemaining = 4;
+    // A coach with no trust in them never redshirts them instead.
+    state.coachTrust = 0;
+    // Stale on purpose: the rollover week refreshes it before the wrestle-off starts.
+    state.recruitingScore = -1;
+    const engine = new UnifiedEngine(state);
+    engine.advanceWeek();
+    return engine;
+  }
+
+  const depthAt149 = (s: Readonly<UnifiedState>) => s.collegeRoster!.filter((r) => r.weightClass === 149);
+
+  it('starts a best-of-three against the teammate ahead and keeps a loser on the bench', () => {
+    const engine = preseasonBackup('wrestle-off-1');
+    const s = engine.getState();
+    const depth = depthAt149(s);
+    const me = depth.findIndex((r) => r.isPlayer);
+    expect(me).toBeGreaterThan(0);
+    expect(s.pendingCompetition?.kind).toBe('wrestleoff');
+    expect(s.pendingCompetition?.current.opponent.name).toBe(depth[me - 1].name);
+    expect(s.recruitingScore).toBeGreaterThanOrEqual(0);
+    const recordBefore = { ...s.stats };
+    while (engine.getState().pendingCompetition) engine.simulatePendingCompetitionMatch();
+    const after = engine.getState();
+    const summary = after.lastWeekSummary!;
+    expect(summary.eventType).toBe('wrestleoff');
+    expect(summary.matches!.length).toBeGreaterThanOrEqual(2);
+    expect(summary.matches!.length).toBeLessThanOrEqual(3);
+    expect(summary.message[0]).toMatch(/^Lost the wrestle-off/);
+    expect(depthAt149(after).findIndex((r) => r.isPlayer)).toBe(me);
+    expect(engine.isCollegeStarter()).toBe(false);
+    // Wrestle-offs are in the room; they don't go on the record.
+    expect(after.stats.matchesWon).toBe(recordBefore.matchesWon);
+    expect(after.stats.matchesLost).toBe(recordBefore.matchesLost);
+  });
+
+  it('moves the winner up the depth chart', () => {
+    const start = preseasonBackup('wrestle-off-2');
+    const state = JSON.parse(JSON.stringify(start.getState())) as UnifiedState;
+    const depth = depthAt149(state);
+    const me = depth.findIndex((r) => r.isPlayer);
+    const ahead = depth[me - 1];
+    Object.assign(state, { overallRating: 99, technique: 99, matIQ: 99, conditioning: 99, strength: 99, speed: 99, flexibility: 99, energy: 100, health: 100, stress: 0 });
+    const engine = new UnifiedEngine(state);
+    while (engine.getState().pendingCompetition) engine.simulatePendingCompetitionMatch();
+    const after = engine.getState();
+    expect(after.lastWeekSummary!.matches).toHaveLength(2);
+    expect(after.lastWeekSummary!.message[0]).toMatch(/^Won the wrestle-off 2-0/);
+    const newDepth = depthAt149(after);
+    expect(newDepth[me - 1].isPlayer).toBe(true);
+    expect(newDepth[me].id).toBe(ahead.id);
+    expect(engine.isCollegeStarter()).toBe(me === 1);
+  });
+});
+
+describe('UnifiedEngine – redshirt and medical hardship', () => {
+  function collegeState(seed: string, week: number): UnifiedState {
+    const state = UnifiedEngine.createState(seed, { name: 'Eligible', customStart: { league: 'D1', age: 19, week } });
+    state.weightClass = 149;
+    state.eligibilityYearsRemaining = 4;
+    return state;
+  }
+
+  it('a redshirt season sits out duals and keeps the year of eligibility', () => {
+    const engine = new UnifiedEngine(collegeState('redshirt-1', 1));
+    expect(engine.setRedshirt(true).success).toBe(true);
+    expect(engine.getState().stats.redshirtYears).toEqual([engine.getState().year]);
+    for (let i = 0; i < 8; i++) {
+      engine.advanceWeek();
+      while (engine.getState().pendingCompetition) engine.simulatePendingCompetitionMatch();
+      for (const dual of engine.getState().lastWeekSummary?.duals ?? []) expect(dual.bouts.some((b) => b.isPlayer)).toBe(false);
+    }
+
+    const yearEnd = collegeState('redshirt-2', 52);
+    yearEnd.collegeSeasonStatus = 'redshirt';
+    const rollover = new UnifiedEngine(yearEnd);
+    rollover.advanceWeek();
+    expect(rollover.getState().eligibilityYearsRemaining).toBe(4);
+    expect(rollover.getState().collegeSeasonStatus).toBe('active');
+
+    const normalYear = new UnifiedEngine(collegeState('redshirt-2', 52));
+    normalYear.advanceWeek();
+    expect(normalYear.getState().eligibilityYearsRemaining).toBe(3);
+  });
+
+  it('allows one redshirt per career and only before wrestling that season', () => {
+    const used = collegeState('redshirt-3', 2);
+    used.stats.redshirtYears = [used.year - 1];
+    expect(new UnifiedEngine(used).setRedshirt(true)).toEqual({ success: false, message: expect.stringMatching(/already used/) });
+
+    const competed = collegeState('redshirt-4', 2);
+    competed.stats.seasonWins = 1;
+    expect(new UnifiedEngine(competed).setRedshirt(true).success).toBe(false);
+
+    const engine = new UnifiedEngine(collegeState('redshirt-5', 2));
+    engine.setRedshirt(true);
+    expect(engine.setRedshirt(false).success).toBe(true);
+    expect(engine.getState().stats.redshirtYears).toEqual([]);
+  });
+
+  it('grants a medical hardship for an early injury with few matches, and denies it otherwise', () => {
+    const hurt = collegeState('hardship-1', 1);
+    hurt.health = 20;
+    const engine = new UnifiedEngine(hurt);
+    engine.advanceWeek();
+    while (engine.getState().pendingCompetition) engine.simulatePendingCompetitionMatch();
+    expect(engine.getState().seasonInjuredWeek).toBe(2);
+    expect(engine.petitionMedicalHardship().success).toBe(true);
+    const s = engine.getState();
+    expect(s.collegeSeasonStatus).toBe('medical');
+    expect(s.stats.medicalHardshipYears).toEqual([s.year]);
+
+    const tooMany = collegeState('hardship-2', 3);
+    tooMany.seasonInjuredWeek = 3;
+    tooMany.stats.seasonWins = 7;
+    expect(new UnifiedEngine(tooMany).petitionMedicalHardship().message).toMatch(/7 matches/);
+
+    const late = collegeState('hardship-3', 10);
+    late.seasonInjuredWeek = 10;
+    expect(new UnifiedEngine(late).petitionMedicalHardship().message).toMatch(/first half/);
+    expect(new UnifiedEngine(collegeState('hardship-4', 3)).petitionMedicalHardship().success).toBe(false);
+  });
+});
+
+describe('UnifiedEngine – body weight and weigh-ins', () => {
+  /** A varsity wrestler at 145 the week before the HS season opens. */
+  function preseasonVarsity(seed: string, naturalWeight: number, currentWeight = naturalWeight): UnifiedState {
+    const state = UnifiedEngine.createState(seed, { name: 'Cutter', weightClass: 145, customStart: { league: 'HS_VARSITY', age: 16, week: 38 } });
+    state.bodyWeight = { naturalWeight, currentWeight, lastWeighIn: null };
+    return state;
+  }
+
+  /** Advance until the first weigh-in of the season, starting the tournament bracket if one is waiting. */
+  function toFirstWeighIn(engine: UnifiedEngine): void {
+    for (let i = 0; i < 12 && !engine.getState().bodyWeight.lastWeighIn; i++) engine.advanceWeek({ skipAutoTrain: true });
+    if (engine.getState().pendingTournamentPlay) engine.startTournamentPlay();
+  }
+
+  it('grows natural weight with age, lifting and meal plan, and diets toward the class before competitions', () => {
+    const offseason = (seed: string) => {
+      const state = UnifiedEngine.createState(seed, { name: 'Grower', weightClass: 145 });
+      state.week = 10;
+      state.bodyWeight = { naturalWeight: 150, currentWeight: 150, lastWeighIn: null };
+      return state;
+    };
+    const idle = new UnifiedEngine(offseason('bw-1'));
+    idle.advanceWeek({ skipAutoTrain: true });
+    expect(idle.getState().bodyWeight.naturalWeight).toBeCloseTo(150.06);
+    expect(idle.getState().bodyWeight.currentWeight).toBeCloseTo(150.06);
+
+    const lifter = new UnifiedEngine(offseason('bw-1'));
+    lifter.applyChoice('train_strength');
+    lifter.advanceWeek({ skipAutoTrain: true });
+    expect(lifter.getState().bodyWeight.naturalWeight).toBeCloseTo(150.11);
+
+    const wellFed = offseason('bw-1');
+    wellFed.lifestyle.mealPlan = 'premium';
+    const fed = new UnifiedEngine(wellFed);
+    fed.advanceWeek({ skipAutoTrain: true });
+    expect(fed.getState().bodyWeight.naturalWeight).toBeCloseTo(150.09);
+
+    const dieting = new UnifiedEngine(preseasonVarsity('bw-2', 150));
+    dieting.advanceWeek({ skipAutoTrain: true });
+    const bw = dieting.getState().bodyWeight;
+    expect(bw.naturalWeight).toBeCloseTo(150.04);
+    expect(bw.currentWeight).toBeCloseTo(150 * 0.985);
+  });
+
+  it('misses weight with a forfeit loss and never steps on the mat', () => {
+    const engine = new UnifiedEngine(preseasonVarsity('bw-3', 165));
+    toFirstWeighIn(engine);
+    const s = engine.getState();
+    expect(s.bodyWeight.lastWeighIn).toMatchObject({ made: false, weightClass: 145, cutSeverity: 0 });
+    expect(s.bodyWeight.lastWeighIn!.scaleWeight).toBeGreaterThan(145);
+    expect(s.stats.weightMisses).toBe(1);
+    expect(s.pendingCompetition).toBeNull();
+    expect(s.pendingTournamentPlay).toBeNull();
+    expect(s.stats.seasonLosses).toBe(1);
+    expect(s.lastWeekSummary?.matches).toEqual([expect.objectContaining({ won: false, method: 'Forfeit' })]);
+  });
+
+  it('makes weight on a dangerous cut and carries it into the minigame', () => {
+    const cut = new UnifiedEngine(preseasonVarsity('bw-4', 154, 149));
+    toFirstWeighIn(cut);
+    const weighIn = cut.getState().bodyWeight.lastWeighIn!;
+    expect(weighIn.made).toBe(true);
+    expect(weighIn.cutSeverity).toBeGreaterThanOrEqual(0.5);
+    const match = cut.getState().pendingCompetition!.current!.matchState;
+    expect(match.my.cutSeverity).toBe(weighIn.cutSeverity);
+
+    const rested = { ...match, my: { ...match.my, cutSeverity: 0 } };
+    const drained = resolveExchange(match, 'snap_go_behind', new SeededRNG('bw-cut'));
+    const fresh = resolveExchange(rested, 'snap_go_behind', new SeededRNG('bw-cut'));
+    expect(drained.state.my.energy).toBeLessThan(fresh.state.my.energy);
+    expect(drained.state.my.injurySeverity).toBeGreaterThan(fresh.state.my.injurySeverity);
+  });
+});
+
+describe('UnifiedEngine – injuries', () => {
+  function injury(severity: number, weeksOut: number): PlayerInjury {
+    return { id: 'inj-test', bodyPart: 'knee', name: 'MCL sprain', severity, source: 'training', week: 1, year: 1, weeksOut, totalWeeks: weeksOut, reinjuryRisk: severity * 0.03 };
+  }
+
+  /** A varsity junior (or JV freshman) at 145 the week before the HS season opens, already on weight. */
+  function hurtPreseason(seed: string, inj: PlayerInjury, league: 'HS_VARSITY' | 'HS_JV' = 'HS_VARSITY'): UnifiedState {
+    const state = UnifiedEngine.createState(seed, { name: 'Hurt', weightClass: 145, customStart: { league, age: league === 'HS_JV' ? 14 : 16, week: 38 } });
+    state.bodyWeight = { naturalWeight: 144, currentWeight: 144, lastWeighIn: null };
+    state.injuries = [inj];
+    return state;
+  }
+
+  it('heals a week at a time, faster with rehab or physical therapy', () => {
+    const offseason = (choice?: string) => {
+      const state = UnifiedEngine.createState('inj-1', { name: 'Healer', weightClass: 145 });
+      state.week = 10;
+      state.money = 1000;
+      state.injuries = [injury(5, 6)];
+      const engine = new UnifiedEngine(state);
+      if (choice) engine.applyChoice(choice);
+      engine.advanceWeek({ skipAutoTrain: true });
+      return engine.getState().injuries.find((i) => i.id === 'inj-test');
+    };
+    expect(offseason()?.weeksOut).toBe(5);
+    expect(offseason('rehab')?.weeksOut).toBe(4);
+    const pt = offseason('physical_therapy');
+    expect(pt?.weeksOut).toBe(3);
+    expect(pt?.reinjuryRisk).toBeCloseTo(0.08);
+
+    // Repeat sessions hold the risk at half the base instead of halving it again.
+    const twice = UnifiedEngine.createState('inj-1', { name: 'Healer', weightClass: 145 });
+    twice.week = 10;
+    twice.money = 1000;
+    twice.injuries = [injury(5, 12)];
+    const therapist = new UnifiedEngine(twice);
+    for (let i = 0; i < 3; i++) {
+      therapist.applyChoice('physical_therapy');
+      therapist.advanceWeek({ skipAutoTrain: true });
+    }
+    expect(therapist.getState().injuries[0]?.reinjuryRisk).toBeCloseTo(0.08);
+
+    const almost = UnifiedEngine.createState('inj-2', { name: 'Healer', weightClass: 145 });
+    almost.week = 10;
+    almost.injuries = [injury(2, 1)];
+    const engine = new UnifiedEngine(almost);
+    engine.advanceWeek({ skipAutoTrain: true });
+    expect(engine.getState().injuries.find((i) => i.id === 'inj-test')).toBeUndefined();
+  });
+
+  it('keeps a serious injury out of competition and wraps a minor one', () => {
+    const out = new UnifiedEngine(hurtPreseason('inj-3', injury(6, 9)));
+    expect(out.getInjuryStatus()).toBe('out');
+    for (let i = 0; i < 6; i++) out.advanceWeek({ skipAutoTrain: true });
+    const s = out.getState();
+    expect(s.bodyWeight.lastWeighIn).toBeNull();
+    expect(s.pendingCompetition).toBeNull();
+    expect(s.pendingTournamentPlay).toBeNull();
+    expect(s.stats.seasonLosses).toBe(0);
+
+    const jv = new UnifiedEngine(hurtPreseason('inj-3', injury(6, 9), 'HS_JV'));
+    for (let i = 0; i < 6; i++) jv.advanceWeek({ skipAutoTrain: true });
+    expect(jv.getState().league).toBe('HS_JV');
+    expect(jv.getState().lastWeekSummary).toMatchObject({ eventType: 'tournament', message: [expect.stringMatching(/^Injured/)] });
+    expect(jv.getState().bodyWeight.lastWeighIn).toBeNull();
+    expect(jv.getState().pendingTournamentPlay).toBeNull();
+
+    const wrapped = new UnifiedEngine(hurtPreseason('inj-4', injury(2, 12)));
+    expect(wrapped.getInjuryStatus()).toBe('limited');
+    for (let i = 0; i < 12 && !wrapped.getState().bodyWeight.lastWeighIn; i++) wrapped.advanceWeek({ skipAutoTrain: true });
+    if (wrapped.getState().pendingTournamentPlay) wrapped.startTournamentPlay();
+    const match = wrapped.getState().pendingCompetition!.current!.matchState;
+    expect(match.my.wrapped).toBe(true);
+    const highRisk = (m: typeof match) => generateExchangePrompt(m).options.filter((o) => o.risk === 'high' && o.key !== 'hesitate');
+    const onTop = { ...match, position: 'TOP' as const };
+    expect(highRisk(onTop)).toEqual([]);
+    expect(highRisk({ ...onTop, my: { ...onTop.my, wrapped: false } }).map((o) => o.key)).toEqual(['tilt_turn']);
+  });
+
+  it('lowers reinjury risk with recovery equipment', () => {
+    const state = UnifiedEngine.createState('inj-5', { name: 'Gear', weightClass: 145 });
+    const inj = injury(4, 5);
+    const none = new UnifiedEngine(state).getReinjuryRisk(inj);
+    state.lifestyle.recoveryEquipment = 'pro';
+    const pro = new UnifiedEngine(state).getReinjuryRisk(inj);
+    expect(none).toBeCloseTo(0.12);
+    expect(pro).toBeCloseTo(0.06);
+  });
+});
+
+describe('UnifiedEngine – injury defaults and medical forfeits', () => {
+  /** A varsity wrestler at 145 in season, holding the bracket of the first HS tournament. */
+  function inFirstTournament(seed: string): UnifiedEngine {
+    const state = UnifiedEngine.createState(seed, { name: 'Tough', weightClass: 145, customStart: { league: 'HS_VARSITY', age: 16, week: 38 } });
+    state.bodyWeight = { naturalWeight: 144, currentWeight: 144, lastWeighIn: null };
+    const engine = new UnifiedEngine(state);
+    for (let i = 0; i < 20 && !engine.getState().pendingTournamentPlay; i++) {
+      if (engine.getState().pendingCompetition) engine.simulatePendingCompetitionMatch();
+      else engine.advanceWeek({ skipAutoTrain: true });
+    }
+    engine.startTournamentPlay();
+    return engine;
+  }
+
+  it('defaulting out of a bracket bout medical forfeits the rest of the tournament', () => {
+    const engine = inFirstTournament('mff-1');
+    const lossesBefore = engine.getState().stats.seasonLosses;
+    const pc = engine.getState().pendingCompetition!;
+    pc.current.matchState = { ...pc.current.matchState, injuryDecision: true };
+    expect(engine.playPendingCompetitionAction('default_out')).toBe(true);
+
+    const s = engine.getState();
+    expect(s.pendingCompetition).toBeNull();
+    const methods = s.lastWeekSummary!.matches!.map((m) => m.method);
+    expect(methods[0]).toBe('Inj. Default');
+    expect(methods.slice(1).length).toBeGreaterThan(0);
+    expect(methods.slice(1).every((m) => m === 'Med. Forfeit')).toBe(true);
+    expect(s.lastWeekSummary!.placement).toBeGreaterThanOrEqual(7);
+    expect(s.stats.seasonLosses - lossesBefore).toBe(methods.length);
+  });
+
+  it('counts a DQ as a win but not a bonus win, and still forfeits out the injured winner', () => {
+    const engine = inFirstTournament('mff-2');
+    const { pins, techs, majors, seasonWins } = engine.getState().stats;
+    const pc = engine.getState().pendingCompetition!;
+    pc.current.matchState = { ...pc.current.matchState, injuryDecision: true, illegalInjury: 'me' };
+    engine.playPendingCompetitionAction('default_out');
+    const s = engine.getState();
+    expect(s.lastWeekSummary!.matches![0]).toMatchObject({ won: true, method: 'DQ' });
+    expect(s.lastWeekSummary!.matches![1]).toMatchObject({ won: false, method: 'Med. Forfeit' });
+    expect(s.stats.seasonWins).toBe(seasonWins + 1);
+    expect([s.stats.pins, s.stats.techs, s.stats.majors]).toEqual([pins, techs, majors]);
+  });
+});
+
+describe('UnifiedEngine – freestyle and Greco events', () => {
+  /** A D1 wrestler on US Open week with money for the entry fee. */
+  function atUsOpen(seed: string): UnifiedEngine {
+    const state = UnifiedEngine.createState(seed, { name: 'Intl', weightClass: 145, customStart: { league: 'D1', age: 19, week: 18 } });
+    state.bodyWeight = { naturalWeight: 144, currentWeight: 144, lastWeighIn: null };
+    state.money = 5000;
+    const engine = new UnifiedEngine(state);
+    expect(engine.runOffseasonEvent('us_open').success).toBe(true);
+    return engine;
+  }
+
+  it('plays the US Open under freestyle rules', () => {
+    const engine = atUsOpen('intl-1');
+    expect(engine.getState().pendingTournamentPlay?.offseasonEventKey).toBe('us_open');
+    engine.startTournamentPlay();
+    const current = engine.getState().pendingCompetition!.current;
+    expect(current.matchState.ruleSet).toBe('freestyle');
+    expect(current.prompt.options.map((o) => o.key)).toContain('low_single');
+  });
+
+  it('builds the freestyle rating with every simulated bout and reports international methods', () => {
+    const engine = atUsOpen('intl-2');
+    engine.simulateTournamentBracket();
+    const s = engine.getState();
+    const methods = s.lastWeekSummary!.matches!.map((m) => m.method);
+    expect(s.styleRatings.freestyle).toBe(30 + methods.length);
+    expect(s.styleRatings.greco).toBe(20);
+    expect(methods.filter((m) => ['SV-1', 'TB-1', 'SV-2', 'UTB', 'Major'].includes(m ?? ''))).toEqual([]);
+  });
+});
+
+describe('UnifiedEngine – opponent history and scouting', () => {
+  /** HS varsity wrestler on the week of their first tournament, duals before it simulated. */
+  function atFirstTournament(seed: string): UnifiedEngine {
+    const state = UnifiedEngine.createState(seed, { name: 'Scout', weightClass: 145, customStart: { league: 'HS_VARSITY', age: 16, week: 38 } });
+    state.bodyWeight = { naturalWeight: 144, currentWeight: 144, lastWeighIn: null };
+    const engine = new UnifiedEngine(state);
+    for (let i = 0; i < 20 && !engine.getState().pendingTournamentPlay; i++) {
+      if (engine.getState().pendingCompetition) engine.simulatePendingCompetitionMatch();
+      else engine.advanceWeek({ skipAutoTrain: true });
+    }
+    return engine;
+  }
+
+  it('remembers every bout against an opponent, played or simulated, and brackets shared after meeting them', () => {
+    const engine = atFirstTournament('scout-1');
+    const pt = engine.getState().pendingTournamentPlay!;
+    const history = () => Object.values(engine.getState().opponentHistory);
+    const dualBouts = history().flatMap((h) => h.bouts);
+    expect(dualBouts.length).toBeGreaterThan(0);
+    // Only opponents already wrestled count the bracket; the rest of the field isn't remembered.
+    for (const o of pt.opponents) {
+      const report = engine.getScoutingReport(o);
+      expect(report.bracketsSeen).toBe(report.bouts.length > 0 ? 1 : 0);
+    }
+    expect(history().every((h) => h.bouts.length > 0)).toBe(true);
+
+    engine.simulateTournamentBracket();
+    const matches = engine.getState().lastWeekSummary!.matches!;
+    const bracketBouts = history().flatMap((h) => h.bouts).filter((b) => b.year === pt.year && b.week === pt.week);
+    expect(bracketBouts.map((b) => [b.won, b.method])).toEqual(expect.arrayContaining(matches.map((m) => [m.won, m.method])));
+    expect(bracketBouts).toHaveLength(matches.length);
+    const faced = pt.opponents.find((o) => engine.getScoutingReport(o).bouts.length > 0)!;
+    const report = engine.getScoutingReport(faced);
+    expect(report.wins + report.losses).toBe(report.bouts.length);
+    expect(report.tendencies).toBeUndefined();
+  });
+
+  it('scouts the pending opponent with a film session before the match starts', () => {
+    const engine = atFirstTournament('scout-2');
+    engine.startTournamentPlay();
+    const before = engine.getState();
+    const opponent = before.pendingCompetition!.current.opponent;
+    const hours = before.hoursLeftThisWeek;
+    expect(engine.getPendingScoutingReport()).toMatchObject({ name: opponent.name, scouted: false });
+
+    expect(engine.scoutPendingOpponent().success).toBe(true);
+    const s = engine.getState();
+    expect(s.hoursLeftThisWeek).toBe(hours - 4);
+    const report = engine.getPendingScoutingReport()!;
+    expect(report).toMatchObject({ scouted: true, style: opponent.style });
+    expect(report.tendencies!.map((t) => t.intent)).toEqual(['attack', 'ride', 'counter', 'stall']);
+    expect(s.pendingCompetition!.current.matchState.opp.scouted).toBe(true);
+    expect(s.pendingCompetition!.current.prompt.prompt).toContain('Scouting report');
+    expect(s.pendingCompetition!.current.prompt.options.some((o) => o.scouted)).toBe(true);
+    expect(engine.scoutPendingOpponent().success).toBe(false);
+  });
+
+  it('refuses to scout once the match is under way', () => {
+    const engine = atFirstTournament('scout-2');
+    engine.startTournamentPlay();
+    engine.playPendingCompetitionAction('snap_go_behind');
+    expect(engine.getState().pendingCompetition!.current.matchState.logs).toHaveLength(1);
+    expect(engine.scoutPendingOpponent()).toEqual({ success: false, message: 'The match has already started.' });
+  });
+});
+
+describe('UnifiedEngine – NPC universe', () => {
+  /** HS varsity wrestler on the last week of the year, so the next advance rolls the world over. */
+  function atYearEnd(seed: string): UnifiedEngine {
+    const state = UnifiedEngine.createState(seed, { name: 'Local', weightClass: 145, customStart: { league: 'HS_VARSITY', age: 15, week: 52 } });
+    return new UnifiedEngine(state);
+  }
+
+  it('draws HS pools, brackets and rankings from the same population', () => {
+    const engine = atYearEnd('npc-1');
+    engine.advanceWeek({ skipAutoTrain: true });
+    const s = engine.getState();
+    const ids = new Set(s.npcs.wrestlers.map((n) => n.id));
+    const pools = s.opponentPools!;
+    const pooled = [...pools.nationalRanked, ...pools.stateRanked, ...pools.unranked];
+    expect(pooled.length).toBeGreaterThan(20);
+    for (const o of pooled) expect(ids.has(o.id)).toBe(true);
+    for (const e of s.hsSchedule!) if (e.opponentId) expect(ids.has(e.opponentId)).toBe(true);
+    const board = engine.getRankingsBoard()[145];
+    const names = new Set(pooled.map((o) => o.name));
+    for (const row of board.filter((r) => r.name !== 'Local')) expect(names.has(row.name)).toBe(true);
+  });
+
+  it('keeps rivals from year to year, a year older', () => {
+    const engine = atYearEnd('npc-2');
+    engine.advanceWeek({ skipAutoTrain: true });
+    const first = JSON.parse(JSON.stringify(engine.getState())) as UnifiedState;
+    const ages = new Map(first.npcs.wrestlers.map((n) => [n.id, n.age]));
+    first.week = 52;
+    const next = new UnifiedEngine(first);
+    next.advanceWeek({ skipAutoTrain: true });
+    const s = next.getState();
+    const pooled = [...s.opponentPools!.nationalRanked, ...s.opponentPools!.stateRanked, ...s.opponentPools!.unranked];
+    const returning = pooled.filter((o) => ages.has(o.id));
+    expect(returning.length).toBeGreaterThan(pooled.length / 2);
+    for (const o of returning) expect(s.npcs.wrestlers.find((n) => n.id === o.id)!.age).toBe(ages.get(o.id)! + 1);
+  });
+
+  it('fills college rosters and dual lineups with school NPCs', () => {
+    const state = UnifiedEngine.createState('npc-3', { name: 'Freshman', customStart: { league: 'D1', age: 19, week: 1 } });
+    state.collegeName = 'Iowa';
+    state.weightClass = 149;
+    const engine = new UnifiedEngine(state);
+    engine.advanceWeek({ skipAutoTrain: true });
+    const s = engine.getState();
+    const byId = new Map(s.npcs.wrestlers.map((n) => [n.id, n]));
+    const teammates = s.collegeRoster!.filter((r) => !r.isPlayer);
+    expect(teammates.length).toBeGreaterThanOrEqual(20);
+    for (const r of teammates) expect(byId.get(r.id)?.school).toBe('Iowa');
+    for (const dual of s.pendingCompetition?.collegeDuals ?? []) {
+      for (const l of dual.lineup) expect(byId.get(l.id!)?.school).toBe(dual.opponentTeam);
+    }
+  });
+});
+
+describe('UnifiedEngine – full brackets', () => {
+  /** HS varsity wrestler holding the bracket of their first tournament. */
+  function atFirstTournament(seed: string): UnifiedEngine {
+    const state = UnifiedEngine.createState(seed, { name: 'Bracket', weightClass: 145, customStart: { league: 'HS_VARSITY', age: 16, week: 38 } });
+    state.bodyWeight = { naturalWeight: 144, currentWeight: 144, lastWeighIn: null };
+    const engine = new UnifiedEngine(state);
+    for (let i = 0; i < 20 && !engine.getState().pendingTournamentPlay; i++) {
+      if (engine.getState().pendingCompetition) engine.simulatePendingCompetitionMatch();
+      else engine.advanceWeek({ skipAutoTrain: true });
+    }
+    return engine;
+  }
+
+  it('wrestles every bout of a simulated bracket and places every entrant', () => {
+    const engine = atFirstTournament('full-1');
+    const before = new Map(engine.getState().npcs.wrestlers.map((n) => [n.id, n.seasonWins + n.seasonLosses]));
+    engine.simulateTournamentBracket();
+    const s = engine.getState();
+    const bracket = s.lastWeekSummary!.bracket!;
+    expect(bracket.bouts.every((b) => b.winner != null && b.method)).toBe(true);
+    for (const b of bracket.bouts) if (b.method !== 'Fall') expect(b.score!.winner).toBeGreaterThanOrEqual(b.score!.loser);
+    expect(bracket.entrants.map((e) => e.place).sort((a, b) => a! - b!)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    const you = bracket.entrants.find((e) => e.id === 'player')!;
+    expect(s.lastWeekSummary!.placement).toBe(you.place);
+    const yours = bracket.bouts.filter((b) => b.top === you.seed || b.bottom === you.seed);
+    expect(s.lastWeekSummary!.matches!.map((m) => m.won)).toEqual(yours.map((b) => b.winner === you.seed));
+    for (const e of bracket.entrants.filter((x) => x.id.startsWith('npc_'))) {
+      const bouts = bracket.bouts.filter((b) => b.top === e.seed || b.bottom === e.seed).length;
+      const npc = s.npcs.wrestlers.find((n) => n.id === e.id)!;
+      expect(npc.seasonWins + npc.seasonLosses - before.get(e.id)!).toBe(bouts);
+    }
+  });
+
+  it('simulates the rest of the field between your bouts when you play the bracket', () => {
+    const engine = atFirstTournament('full-2');
+    engine.startTournamentPlay();
+    const pc = engine.getState().pendingCompetition!;
+    expect(pc.bracket!.phase).toBe('QF');
+    expect(pc.current.roundLabel).toBe('Quarterfinal');
+    const you = pc.bracket!.entrants.find((e) => e.id === 'player')!;
+    const waiting = pc.bracket!.bouts.find((b) => b.winner == null)!;
+    expect([waiting.top, waiting.bottom]).toContain(you.seed);
+    expect(pc.bracket!.entrants[(waiting.top === you.seed ? waiting.bottom! : waiting.top!) - 1]!.name).toBe(pc.current.opponent.name);
+
+    for (let i = 0; i < 10 && engine.getState().pendingCompetition; i++) engine.simulatePendingCompetitionMatch();
+    const s = engine.getState();
+    expect(s.pendingCompetition).toBeNull();
+    const bracket = s.lastWeekSummary!.bracket!;
+    expect(bracket.bouts.every((b) => b.winner != null)).toBe(true);
+    expect(s.lastWeekSummary!.placement).toBe(bracket.entrants.find((e) => e.id === 'player')!.place);
+  });
+});
+
+describe('UnifiedEngine – NCAA Championships', () => {
+  /** An Iowa starter at 149 heading into conference week, strong enough to be in the NCAA field either way. */
+  function iowaStarter(seed: string): UnifiedEngine {
+    const state = UnifiedEngine.createState(seed, { name: 'Hawkeye', customStart: { league: 'D1', age: 20, week: 10 } });
+    state.collegeName = 'Iowa';
+    state.weightClass = 149;
+    state.bodyWeight = { naturalWeight: 148, currentWeight: 148, lastWeighIn: null };
+    for (const k of ['technique', 'matIQ', 'conditioning', 'strength', 'speed', 'flexibility'] as const) state[k] = 95;
+    const first = new UnifiedEngine(state);
+    first.advanceWeek({ skipAutoTrain: true });
+    while (first.getState().pendingCompetition) first.simulatePendingCompetitionMatch();
+    const s = first.getState() as UnifiedState;
+    s.collegeRoster!.sort((a, b) => Number(b.isPlayer) - Number(a.isPlayer));
+    return new UnifiedEngine(s);
+  }
+
+  /** Advance to the next bracket waiting to be wrestled, healing any injury along the way so you make it there. */
+  function toNextBracket(engine: UnifiedEngine): NonNullable<UnifiedState['pendingTournamentPlay']> {
+    for (let i = 0; i < 8; i++) {
+      (engine.getState() as UnifiedState).injuries = [];
+      if (engine.getState().pendingCompetition) engine.simulatePendingCompetitionMatch();
+      else engine.advanceWeek({ skipAutoTrain: true });
+      const pt = engine.getState().pendingTournamentPlay;
+      if (pt) return pt;
+    }
+    throw new Error('no bracket in the next 8 weeks');
+  }
+
+  it('wrestles the conference for its allocation, then a seeded 33-man NCAA bracket', () => {
+    const engine = iowaStarter('ncaa-1');
+    const conference = toNextBracket(engine);
+    const result = engine.getState().conferenceResult!;
+    expect(result.conference).toBe('Big Ten');
+    expect(conference.conferenceQualifyTop).toBe(result.allocations['Big Ten']);
+    const npcs = engine.getState().npcs;
+    const bigTenSchools = new Set(npcs.wrestlers
+      .filter((n) => n.league === 'D1' && n.weightClass === 149 && n.school !== 'Iowa' && schoolConference(n.school, 'D1') === 'Big Ten')
+      .map((n) => n.school));
+    const starters = [...bigTenSchools].map((school) => schoolNpcsAtWeight(npcs, school, 149)[0]!.id);
+    // Every member school enters its starter, backups stay home, and stand-ins for no team fill out the bracket.
+    const teamed = conference.bracketParticipants.filter((p) => p.id !== 'player' && p.team);
+    expect(teamed.map((p) => p.id).sort()).toEqual(starters.sort());
+    expect(conference.bracketParticipants).toHaveLength(conference.bracketSize!);
+    expect(conference.bracketSize).toBeGreaterThan(starters.length);
+    expect(conference.bracketParticipants.filter((p) => p.id !== 'player' && !p.team).every((p) => p.id.startsWith('bracket_pad'))).toBe(true);
+    expect(new Set(conference.bracketParticipants.map((p) => p.id)).size).toBe(conference.bracketSize);
+    engine.simulateTournamentBracket();
+    const places = engine.getState().conferenceResult!.places;
+    // Members are ranked among themselves; a stand-in that places takes nobody's spot.
+    const ranks = Object.values(places).sort((a, b) => a - b);
+    expect(ranks.length).toBeGreaterThan(0);
+    expect(ranks).toEqual(Array.from({ length: ranks.length }, (_, i) => i + 1));
+    expect(engine.getState().ncaaQualified).toBe(places.player != null && places.player <= conference.conferenceQualifyTop!);
+
+    const ncaa = toNextBracket(engine);
+    expect(ncaa.kind).toBe('ncaa');
+    expect(ncaa.bracketSize).toBe(33);
+    expect(ncaa.bracketParticipants.map((p) => p.seed)).toEqual(Array.from({ length: 33 }, (_, i) => i + 1));
+    expect(new Set(ncaa.bracketParticipants.map((p) => p.id)).size).toBe(33);
+    // One wrestler per school at the weight.
+    const schools = ncaa.bracketParticipants.map((p) => p.team).filter((t) => t != null);
+    expect(new Set(schools).size).toBe(schools.length);
+    engine.simulateTournamentBracket();
+    const s = engine.getState();
+    const bracket = s.lastWeekSummary!.bracket!;
+    expect(bracket.bouts.some((b) => b.round === 'PIGTAIL')).toBe(true);
+    const place = bracket.entrants.find((e) => e.id === 'player')!.place!;
+    expect(s.stats.ncaaPlacements).toEqual([place]);
+    expect(s.stats.ncaaAllAmerican).toBe(place <= 8 ? 1 : 0);
+    expect(s.stats.ncaaTitles).toBe(place === 1 ? 1 : 0);
+    expect(s.ncaaQualified).toBe(false);
+  });
+
+  it('scores the team race live across every weight and awards the team title', () => {
+    const engine = iowaStarter('ncaa-team-1');
+    toNextBracket(engine);
+    engine.startTournamentPlay();
+    const pc = engine.getState().pendingCompetition!;
+    expect(pc.teamBrackets).toHaveLength(9);
+    // Each team enters its starter at every other weight, and nobody from outside the Big Ten scores.
+    expect(pc.teamBrackets!.every((b) => b.entrants.filter((e) => e.team === 'Iowa').length === 1)).toBe(true);
+    expect(pc.teamBrackets!.every((b) => b.entrants.every((e) => e.team == null || schoolConference(e.team, 'D1') === 'Big Ten'))).toBe(true);
+    const live = engine.getTeamRace()!;
+    expect(live.map((t) => t.team)).toContain('Iowa');
+    expect(live.every((t) => t.placers === 0)).toBe(true);
+
+    for (let i = 0; i < 10 && engine.getState().pendingCompetition; i++) engine.simulatePendingCompetitionMatch();
+    const s = engine.getState();
+    expect(engine.getTeamRace()).toBeNull();
+    const standings = s.lastWeekSummary!.teamScores!;
+    for (const team of ['Iowa', 'Penn State', 'Ohio State', 'Michigan', 'Nebraska', 'Wisconsin', 'Rutgers', 'Minnesota']) {
+      expect(standings.map((t) => t.team)).toContain(team);
+    }
+    expect(standings.map((t) => t.points)).toEqual([...standings.map((t) => t.points)].sort((a, b) => b - a));
+    expect(s.accolades.some((a) => /Team Title/.test(a))).toBe(standings[0]!.team === 'Iowa');
+
+    const ncaa = toNextBracket(engine);
+    // Every other weight selects and seeds its own 33-man field.
+    expect(ncaa.teamFields).toHaveLength(9);
+    expect(ncaa.teamFields!.every((f) => f.length === 33 && new Set(f.map((e) => e.id)).size === 33)).toBe(true);
+    expect(ncaa.teamFields!.every((f) => f.filter((e) => e.team === 'Iowa').length <= 1)).toBe(true);
+    engine.simulateTournamentBracket();
+    const final = engine.getState().lastWeekSummary!.teamScores!;
+    expect(final.length).toBeGreaterThanOrEqual(10);
+    expect(final.reduce((sum, t) => sum + t.placers, 0)).toBeLessThanOrEqual(80);
+  });
+
+  it('saves the NPC universe as its log and rebuilds it on load', () => {
+    const engine = iowaStarter('ncaa-save-1');
+    toNextBracket(engine);
+    engine.simulateTournamentBracket();
+    // Skip ahead to the offseason, which banks this season's bracket results.
+    const atYearEnd = JSON.parse(JSON.stringify(engine.getState())) as UnifiedState;
+    atYearEnd.week = 52;
+    const next = new UnifiedEngine(atYearEnd);
+    next.advanceWeek({ skipAutoTrain: true });
+    const state = JSON.parse(JSON.stringify(next.getState())) as UnifiedState;
+    expect(state.npcs.log!.some((e) => 'season' in e && e.results.length > 0)).toBe(true);
+    const saved = JSON.parse(JSON.stringify(packSave(next.getState())));
+    expect(saved.npcs.wrestlers).toBeUndefined();
+    expect(JSON.stringify(saved).length).toBeLessThan(JSON.stringify(state).length / 3);
+    expect(migrateSave(saved)).toEqual(state);
+  });
+
+  it('leaves a wrestler out of the field without a bid', () => {
+    const engine = iowaStarter('ncaa-2');
+    toNextBracket(engine);
+    const s = engine.getState() as UnifiedState;
+    s.pendingTournamentPlay = null;
+    // Skipped the conference tournament and lost every bout: no automatic bid, and nobody ranks them for an at-large.
+    for (const k of ['technique', 'matIQ', 'conditioning', 'strength', 'speed', 'flexibility'] as const) s[k] = 20;
+    s.overallRating = 20;
+    s.trueSkill = 20;
+    s.stats.seasonWins = 0;
+    s.stats.seasonLosses = 20;
+    // Deepen the weight with more schools' starters so the field can't take everyone.
+    const top = s.npcs.wrestlers.find((n) => n.league === 'D1' && n.weightClass === 149)!;
+    for (let i = 0; i < 40; i++) s.npcs.wrestlers.push({ ...top, id: `npc_extra_${i}`, school: `Extra ${i}` });
+    const skipped = new UnifiedEngine(s);
+    for (let i = 0; i < 3; i++) skipped.advanceWeek({ skipAutoTrain: true });
+    const after = skipped.getState();
+    expect(after.week).toBe(15);
+    expect(after.pendingTournamentPlay).toBeNull();
+    expect(after.lastWeekSummary!.message[0]).toMatch(/passed over for an at-large/);
+    expect(after.stats.ncaaAppearances).toBe(0);
+  });
+});
@@ -4,21 +4,26 @@
  */
 
 import { SeededRNG } from '../SeededRNG';
-import type { UnifiedState, LeagueKey, ChoiceItem, OffseasonEventItem, CustomStartOptions, WeekModifiers, ChoicePreview, HSScheduleEntry, CollegeScheduleEntry, CollegeTeammate, Opponent, OpponentPools, WeekSummary, BracketParticipant, RelationshipEntry, RelationshipActionItem, NextEventInfo, CollegeOffer, LifestyleState, HousingTier, CarTier, MealPlanTier, RecoveryTier, ProgramTier, OfferType, NoOfferReason, LifePopup, LifeLogEntry, CustomLifestyleItemDef, PendingCompetitionState, PendingBracketState, PendingBracketPhase, CompetitionKind, PendingCompetitionMatch, CompletedCompetitionMatch, PendingTournamentPlay } from './types';
+import type { UnifiedState, LeagueKey, ChoiceItem, OffseasonEventItem, CustomStartOptions, WeekModifiers, ChoicePreview, HSScheduleEntry, CollegeScheduleEntry, CollegeTeammate, Opponent, OpponentPools, WeekSummary, BracketParticipant, RelationshipEntry, RelationshipActionItem, NextEventInfo, CollegeOffer, LifestyleState, HousingTier, CarTier, MealPlanTier, RecoveryTier, ProgramTier, OfferType, NoOfferReason, LifePopup, LifePopupChoiceEffects, LifeLogEntry, PendingRandomChoice, JournalEntry, WeekCheckpoint, CustomLifestyleItemDef, PendingCompetitionState, PendingBracketState, CompetitionKind, PendingCompetitionMatch, CompletedCompetitionMatch, PendingTournamentPlay, CollegeDualSetup, DualLineupEntry, DualBoutResult, DualMeetResult, WeighInResult, BodyPart, InjuryStatus, PlayerInjury, InternationalStyle, OpponentHistory, ScoutingReport, NpcWrestler, BracketEntrant, BracketBout, BracketSize, TournamentBracket, TeamScore, NcaaQualifier, NpcUniverse, PackedNpcUniverse } from './types';
 import { generateLifePopups } from '@/data/lifePopups';
 import type { School } from '../types';
 import { SCHOOLS } from '@/data/schools';
-import { generateSeasonSchedule, NCAA_WEEK, SEASON_WEEKS, isPowerhouse } from '../college/SeasonSchedule';
+import { entersTournament, generateSeasonSchedule, NCAA_WEEK, SEASON_WEEKS, isPowerhouse } from '../college/SeasonSchedule';
 import {
-  runDoubleElimBracket,
+  applyPostMatchEnergy,
+  simTournamentMatch,
   validateBracketMatchSequence,
-  validateTournamentResult,
   type TournamentPlayerState,
   type TournamentOpponent,
   type BracketMatchEntry,
 } from '../TournamentSim';
-import { simEliteMatch } from '../EliteMatchSim';
-import { createInitialMinigameState, generateExchangePrompt, resolveExchange, DECISION_TIMER_SECONDS, type MinigameWrestler, type MatchPosition } from '../MatchMinigame';
+import { decisionMethod, simEliteMatch } from '../EliteMatchSim';
+import { OPPONENT_INTENTS, opponentIntentWeights } from '../OpponentAI';
+import { PLAYER_ENTRANT_ID, bracketPlayerSeed, bracketRoundLabel, createBracket, decideBracketBout, entrantBouts, entrantOpponent, nextBracketBout, seedEntrants } from './Bracket';
+import { collegeNpcsAtWeight, collegeStartersAtWeight, createNpcUniverse, findNpc, hsNpcsAtWeight, isPackedNpcUniverse, npcCurrentRecord, npcDivisionBaseRating, npcToOpponent, npcUniverseRng, packNpcUniverse, progressNpcUniverse, schoolNpcsAtWeight, signCollegeWalkOn, unpackNpcUniverse } from './NpcUniverse';
+import { ALL_AMERICAN_PLACES, conferenceAllocations, nationalsFieldSize, rateNcaaCandidates, schoolConference, seedNcaaField, selectNcaaField, type NcaaCandidateInput } from './NcaaChampionships';
+import { teamStandings } from './TeamScoring';
+import { createInitialMinigameState, generateExchangePrompt, resolveExchange, formatScoringEvent, formatRidingTime, methodForRuleSet, simulatedScore, DECISION_TIMER_SECONDS, INJURY_DEFAULT_THRESHOLD, type MinigameWrestler, type MatchPosition, type RuleSet } from '../MatchMinigame';
 
 const WEIGHT_CLASSES = [106, 113, 120, 126, 132, 138, 145, 152, 160, 170, 182, 195, 220, 285];
 
@@ -79,20 +84,77 @@ const WNO_WEEK = 37;
 const WNO_RECRUITING_MIN = 68;
 const WEEK_CONFERENCE_COLLEGE = 8;
 const DISTRICTS_QUALIFY_TOP = 4;
-const CONFERENCE_QUALIFY_TOP = 3;
 const US_OPEN_WEEK = 18;
 const WORLD_CHAMPIONSHIP_WEEK = 22;
-const OFFSEASON_EVENTS: Record<string, { name: string; week: number; cost: number; prestige: number; recScoreMin: number; inviteOnly: boolean; collegeOnly?: boolean }> = {
-  fargo: { name: 'Fargo', week: 27, cost: 450, prestige: 1.4, recScoreMin: 0, inviteOnly: false },
-  super32: { name: 'Super 32', week: SUPER32_WEEK, cost: 320, prestige: 1.25, recScoreMin: 0, inviteOnly: false },
-  wno: { name: "Who's Number One", week: WNO_WEEK, cost: 280, prestige: 1.5, recScoreMin: WNO_RECRUITING_MIN, inviteOnly: true },
-  us_open: { name: 'US Open', week: US_OPEN_WEEK, cost: 380, prestige: 1.6, recScoreMin: 0, inviteOnly: false, collegeOnly: true },
-  world_championship: { name: 'World Championship', week: WORLD_CHAMPIONSHIP_WEEK, cost: 1200, prestige: 1.9, recScoreMin: 0, inviteOnly: false, collegeOnly: true },
+const OFFSEASON_EVENTS: Record<string, { name: string; week: number; cost: number; prestige: number; recScoreMin: number; inviteOnly: boolean; collegeOnly?: boolean; ruleSet: RuleSet }> = {
+  fargo: { name: 'Fargo', week: 27, cost: 450, prestige: 1.4, recScoreMin: 0, inviteOnly: false, ruleSet: 'folkstyle' },
+  super32: { name: 'Super 32', week: SUPER32_WEEK, cost: 320, prestige: 1.25, recScoreMin: 0, inviteOnly: false, ruleSet: 'folkstyle' },
+  wno: { name: "Who's Number One", week: WNO_WEEK, cost: 280, prestige: 1.5, recScoreMin: WNO_RECRUITING_MIN, inviteOnly: true, ruleSet: 'folkstyle' },
+  us_open: { name: 'US Open', week: US_OPEN_WEEK, cost: 380, prestige: 1.6, recScoreMin: 0, inviteOnly: false, collegeOnly: true, ruleSet: 'freestyle' },
+  world_championship: { name: 'World Championship', week: WORLD_CHAMPIONSHIP_WEEK, cost: 1200, prestige: 1.9, recScoreMin: 0, inviteOnly: false, collegeOnly: true, ruleSet: 'freestyle' },
 };
+/** Freestyle and Greco ratings for a new career: most American wrestlers grow up on folkstyle. */
+const DEFAULT_STYLE_RATINGS: Record<InternationalStyle, number> = { freestyle: 30, greco: 20 };
+/** Style rating gained per bout wrestled in that style. */
+const STYLE_RATING_PER_MATCH = 1;
+/** Bouts listed on a scouting report. */
+const SCOUTING_REPORT_BOUTS = 5;
+/** Stand-ins used to fill brackets, numbered within a bracket (bracket_pad_3); nobody to scout. */
+const PLACEHOLDER_OPPONENT_IDS = ['pad', 'bracket_pad', 'fallback'];
 const HOURS_PER_WEEK = 40;
 const BASE_HOURS_AUTO = 0;
 /** Minimum grades (0–100) to be eligible to wrestle. Below this = academic ineligibility. */
 const MIN_GRADES_TO_WRESTLE = 50;
+/** College wrestle-offs are best of three: first to this many wins takes the spot. */
+const WRESTLE_OFF_WINS = 2;
+/** Below this health the player sits out college competition, and the week can support a medical hardship petition. */
+const INJURED_HEALTH = 40;
+/** Medical hardship: hurt no later than this season week, with at most HARDSHIP_MAX_MATCHES wrestled. */
+const HARDSHIP_LAST_INJURY_WEEK = Math.floor(SEASON_WEEKS / 2);
+const HARDSHIP_MAX_MATCHES = 6;
+/** Body weight (lbs): natural gain per lifting session and per week on each meal plan tier. */
+const LIFT_WEIGHT_GAIN = 0.05;
+const MEAL_PLAN_WEIGHT_GAIN: Record<MealPlanTier, number> = { none: 0, basic: 0.01, good: 0.02, premium: 0.03 };
+/** Dieting starts this many weeks before a competition; each week sheds at most DIET_WEEKLY_PCT of body weight, never below DIET_FLOOR_PCT of natural. */
+const DIET_LEAD_WEEKS = 3;
+const DIET_WEEKLY_PCT = 0.015;
+const DIET_FLOOR_PCT = 0.93;
+/** Out of a diet, current weight comes back toward natural by up to this much a week. */
+const REGAIN_WEEKLY_LBS = 2;
+/** The day-before water cut at a weigh-in sheds up to this share of scale weight. */
+const WATER_CUT_PCT = 0.04;
+/** Cutting less than SAFE_CUT_PCT below natural weight is free; cut severity reaches 1 at SAFE_CUT_PCT + SEVERE_CUT_SPAN_PCT. */
+const SAFE_CUT_PCT = 0.03;
+const SEVERE_CUT_SPAN_PCT = 0.05;
+/** Weigh-ins at or above this cut severity are dangerous cuts. */
+const DANGEROUS_CUT = 0.5;
+/** Injuries of this severity or worse keep you out of competition until the last WRAPPED_WEEKS, which you wrestle wrapped. */
+const INJURY_OUT_SEVERITY = 4;
+const WRAPPED_WEEKS = 2;
+/** Chance of a new injury per training session and per simulated match, before weekModifiers.injuryRiskMult. */
+const TRAINING_INJURY_CHANCE = 0.01;
+const MATCH_INJURY_CHANCE = 0.02;
+/** Reinjury risk per point of severity, scaled by recovery equipment. */
+const REINJURY_RISK_PER_SEVERITY = 0.03;
+/** Physical therapy caps an injury's reinjury risk at this share of its base risk; more sessions don't lower it further. */
+const PHYSICAL_THERAPY_REINJURY_SHARE = 0.5;
+const RECOVERY_REINJURY_MULT: Record<RecoveryTier, number> = { none: 1, basic: 0.75, pro: 0.5 };
+const INJURY_TYPES: { bodyPart: BodyPart; name: string; severity: [number, number] }[] = [
+  { bodyPart: 'head', name: 'Concussion', severity: [4, 7] },
+  { bodyPart: 'neck', name: 'Neck stinger', severity: [1, 4] },
+  { bodyPart: 'shoulder', name: 'Shoulder subluxation', severity: [3, 8] },
+  { bodyPart: 'elbow', name: 'Hyperextended elbow', severity: [2, 6] },
+  { bodyPart: 'hand', name: 'Jammed fingers', severity: [1, 3] },
+  { bodyPart: 'ribs', name: 'Separated rib cartilage', severity: [3, 6] },
+  { bodyPart: 'back', name: 'Lower back strain', severity: [2, 5] },
+  { bodyPart: 'knee', name: 'MCL sprain', severity: [3, 9] },
+  { bodyPart: 'ankle', name: 'Ankle sprain', severity: [1, 5] },
+];
+
+/** An injury's reinjury risk from its severity (times share), to the hundredth. */
+function baseReinjuryRisk(severity: number, share = 1): number {
+  return Math.round(severity * REINJURY_RISK_PER_SEVERITY * share * 100) / 100;
+}
 
 function defaultWeekModifiers(): WeekModifiers {
   return {
@@ -133,6 +195,18 @@ function clamp(min: number, max: number, value: number): number {
   return Math.max(min, Math.min(max, value));
 }
 
+/**
+ * NPC universe ids last a whole career, so those wrestlers are keyed by id alone (dual opponents carry their team in
+ * the name). Other ids are only unique within a pool or bracket, so they're keyed by id and name together.
+ */
+function isPlaceholderOpponent(id: string): boolean {
+  return PLACEHOLDER_OPPONENT_IDS.some((p) => id === p || id.startsWith(`${p}_`));
+}
+
+function opponentHistoryKey(o: Opponent): string {
+  return o.id.startsWith('npc_') ? o.id : `${o.id}:${o.name}`;
+}
+
 function defaultStats(): UnifiedState['stats'] {
   return {
     matchesWon: 0,
@@ -161,11 +235,373 @@ function defaultStats(): UnifiedState['stats'] {
     wnoWins: 0,
     usOpenPlacements: [],
     worldChampionshipPlacements: [],
+    redshirtYears: [],
+    medicalHardshipYears: [],
     hsRecord: { matchesWon: 0, matchesLost: 0, pins: 0, techs: 0, majors: 0, stateAppearances: 0, stateTitles: 0 },
     collegeRecord: { matchesWon: 0, matchesLost: 0, pins: 0, techs: 0, majors: 0, ncaaAppearances: 0, ncaaAllAmerican: 0, ncaaTitles: 0 },
   };
 }
 
+function defaultLifestyle(): LifestyleState {
+  return { housing: 'none', car: 'none', mealPlan: 'none', recoveryEquipment: 'none', purchasedCustomIds: [] };
+}
+
+/** Save schema version written by this build. Bump it and add a SAVE_MIGRATIONS step whenever UnifiedState changes shape. */
+export const CURRENT_SCHEMA_VERSION = 19;
+
+/** A save part-way through migration: any subset of UnifiedState plus fields from older shapes. */
+type SaveDraft = Partial<UnifiedState> & Record<string, unknown>;
+
+/**
+ * Ordered save upgrades. Step N turns a version N-1 save into version N; saves written before
+ * schemaVersion existed are version 0. Steps only fill what is missing so partially-upgraded saves are safe.
+ */
+const SAVE_MIGRATIONS: { version: number; description: string; migrate: (s: SaveDraft) => void }[] = [
+  {
+    version: 1,
+    description: 'Month-based calendar to weeks',
+    migrate: (s) => {
+      const old = s as { month?: number; hoursLeftThisMonth?: number; monthsInCollege?: number; didPartTimeThisMonth?: boolean };
+      if (s.week == null) s.week = old.month ?? 1;
+      if (s.hoursLeftThisWeek == null) s.hoursLeftThisWeek = old.hoursLeftThisMonth ?? HOURS_PER_WEEK;
+      if (s.weeksInCollege == null) s.weeksInCollege = old.monthsInCollege != null ? old.monthsInCollege * 4 : 0;
+      if (s.didPartTimeThisWeek == null) s.didPartTimeThisWeek = old.didPartTimeThisMonth ?? false;
+      if (s.lastWeekEconomy === undefined) s.lastWeekEconomy = null;
+      delete s.month;
+      delete s.hoursLeftThisMonth;
+      delete s.monthsInCollege;
+      delete s.didPartTimeThisMonth;
+      delete s.lastMonthEconomy;
+    },
+  },
+  {
+    version: 2,
+    description: 'Weekly modifiers, relationships, schedules and college flow',
+    migrate: (s) => {
+      if (s.weekModifiers == null) s.weekModifiers = defaultWeekModifiers();
+      if (s.relationship === undefined) s.relationship = null;
+      if (!Array.isArray(s.relationships)) s.relationships = [];
+      if (s.offseasonEventsUsedThisYear == null) s.offseasonEventsUsedThisYear = {};
+      if (s.hsSchedule === undefined) s.hsSchedule = null;
+      if (s.opponentPools === undefined) s.opponentPools = null;
+      if (s.collegeSchedule === undefined) s.collegeSchedule = null;
+      if (s.collegeRoster === undefined) s.collegeRoster = null;
+      if (s.lastWeekSummary === undefined) s.lastWeekSummary = null;
+      if (s.studiedThisWeek == null) s.studiedThisWeek = false;
+      if (s.trainedThisWeek == null) s.trainedThisWeek = false;
+      if (s.weeksWithoutTraining == null) s.weeksWithoutTraining = 0;
+      if (s.didRestOrRehabThisWeek == null) s.didRestOrRehabThisWeek = false;
+      if (s.autoTrainOnAdvance == null) s.autoTrainOnAdvance = true;
+      if (!Array.isArray(s.offers)) s.offers = [];
+      if (s.pendingCollegeChoice == null) s.pendingCollegeChoice = false;
+      if (s.pendingCollegeGraduation == null) s.pendingCollegeGraduation = false;
+      if (s.careerEnded == null) s.careerEnded = false;
+      if (s.eligibilityYearsRemaining == null) s.eligibilityYearsRemaining = 4;
+      if (s.transferPortalActive == null) s.transferPortalActive = false;
+      if (!Array.isArray(s.transferOffers)) s.transferOffers = [];
+      if (s.negotiationAttempts == null) s.negotiationAttempts = {};
+    },
+  },
+  {
+    version: 3,
+    description: 'Lifestyle, life popups and relationship path',
+    migrate: (s) => {
+      if (s.lifestyle == null) s.lifestyle = defaultLifestyle();
+      if (!Array.isArray(s.lifestyle.purchasedCustomIds)) s.lifestyle.purchasedCustomIds = [];
+      if (s.stats) {
+        if (!Array.isArray(s.stats.usOpenPlacements)) s.stats.usOpenPlacements = [];
+        if (!Array.isArray(s.stats.worldChampionshipPlacements)) s.stats.worldChampionshipPlacements = [];
+      }
+      if (s.popularity == null) s.popularity = 50;
+      if (s.coachTrust == null) s.coachTrust = 50;
+      if (!Array.isArray(s.pendingLifePopups)) s.pendingLifePopups = [];
+      if (!Array.isArray(s.lifeLog)) s.lifeLog = [];
+      if (!Array.isArray(s.recentLifePopupDefIds)) s.recentLifePopupDefIds = [];
+      if (s.allowRelationshipEvents == null) s.allowRelationshipEvents = true;
+      if (s.relationshipStatus == null) s.relationshipStatus = 'NONE';
+      if (s.relationshipMeter == null) s.relationshipMeter = 0;
+    },
+  },
+  {
+    version: 4,
+    description: 'Interactive competitions',
+    migrate: (s) => {
+      if (s.pendingCompetition === undefined) s.pendingCompetition = null;
+      if (s.pendingTournamentPlay === undefined) s.pendingTournamentPlay = null;
+    },
+  },
+  {
+    version: 5,
+    description: 'Data-driven random-event choices',
+    migrate: (s) => {
+      // Older choices held effect functions, which JSON dropped; they can't be resolved, so clear them.
+      const pending = s.pendingRandomChoice as { options?: { effects?: unknown }[] } | null | undefined;
+      if (pending === undefined || (pending && !(pending.options ?? []).every((o) => o.effects != null))) s.pendingRandomChoice = null;
+    },
+  },
+  {
+    version: 6,
+    description: 'Action journal',
+    migrate: (s) => {
+      // Calls made before journaling are lost, so these careers record from here on but can't be replayed.
+      if (!Array.isArray(s.journal)) s.journal = [];
+    },
+  },
+  {
+    version: 7,
+    description: 'Week rewind and ironman',
+    migrate: (s) => {
+      if (!Array.isArray(s.weekCheckpoints)) s.weekCheckpoints = [];
+      if (typeof s.ironman !== 'boolean') s.ironman = false;
+    },
+  },
+  {
+    version: 8,
+    description: 'Full college dual meets',
+    migrate: (s) => {
+      if (s.teamDualRecord == null) s.teamDualRecord = { wins: 0, losses: 0, ties: 0 };
+    },
+  },
+  {
+    version: 9,
+    description: 'Redshirt and medical hardship',
+    migrate: (s) => {
+      if (s.collegeSeasonStatus == null) s.collegeSeasonStatus = 'active';
+      if (s.seasonInjuredWeek === undefined) s.seasonInjuredWeek = null;
+      if (s.stats) {
+        if (!Array.isArray(s.stats.redshirtYears)) s.stats.redshirtYears = [];
+        if (!Array.isArray(s.stats.medicalHardshipYears)) s.stats.medicalHardshipYears = [];
+      }
+    },
+  },
+  {
+    version: 10,
+    description: 'Body weight and weigh-ins',
+    migrate: (s) => {
+      if (s.bodyWeight == null) {
+        const wc = s.weightClass ?? 145;
+        s.bodyWeight = { naturalWeight: wc + 1, currentWeight: wc + 1, lastWeighIn: null };
+      }
+    },
+  },
+  {
+    version: 11,
+    description: 'Body-part injuries',
+    migrate: (s) => {
+      if (!Array.isArray(s.injuries)) s.injuries = [];
+      if (s.rehabBonusWeeks == null) s.rehabBonusWeeks = 0;
+    },
+  },
+  {
+    version: 12,
+    description: 'Freestyle and Greco-Roman ratings',
+    migrate: (s) => {
+      if (s.styleRatings == null) s.styleRatings = { ...DEFAULT_STYLE_RATINGS };
+    },
+  },
+  {
+    version: 13,
+    description: 'Opponent history and scouting',
+    migrate: (s) => {
+      if (s.opponentHistory == null) s.opponentHistory = {};
+    },
+  },
+  {
+    version: 14,
+    description: 'Persistent NPC universe',
+    migrate: (s) => {
+      if (s.npcs == null) s.npcs = createNpcUniverse(npcUniverseRng(s.seed!));
+      delete s.rankingsByWeight;
+    },
+  },
+  {
+    version: 15,
+    description: 'Fully simulated brackets',
+    migrate: (s) => {
+      for (const n of s.npcs?.wrestlers ?? []) {
+        n.seasonWins = n.seasonWins ?? 0;
+        n.seasonLosses = n.seasonLosses ?? 0;
+      }
+      const pt = s.pendingTournamentPlay;
+      if (pt && !pt.bracketParticipants?.every((p) => typeof p.id === 'string')) {
+        const size = pt.bracketSize ?? 8;
+        const field = [...pt.opponents];
+        while (field.length < size - 1) field.push({ id: `bracket_pad_${field.length}`, name: 'Opponent', overallRating: 70, style: 'grinder', clutch: 50 });
+        pt.bracketParticipants = seedEntrants([
+          { id: PLAYER_ENTRANT_ID, name: s.name ?? 'You', overallRating: s.overallRating ?? 50 },
+          ...field.slice(0, size - 1),
+        ]);
+      }
+      // A bracket part-way through under the old format can't be carried over; bouts already wrestled stay on the record.
+      if (s.pendingCompetition?.bracket && !Array.isArray(s.pendingCompetition.bracket.bouts)) {
+        s.pendingCompetition = null;
+        s.story = 'Your tournament in progress was closed out when this save was upgraded.';
+      }
+    },
+  },
+  {
+    version: 16,
+    description: 'NCAA selection',
+    migrate: (s) => {
+      const league = s.league ?? 'D1';
+      const conference = schoolConference(s.collegeName, league);
+      // A bid already won under the old top-3 rule stands as one of the conference's automatic bids.
+      s.conferenceResult = s.conferenceResult ?? (s.ncaaQualified
+        ? { year: s.year ?? 1, weightClass: s.weightClass ?? 145, conference, allocations: { [conference]: 1 }, places: { [PLAYER_ENTRANT_ID]: 1 } }
+        : null);
+      const pc = s.pendingCompetition;
+      if (pc && pc.kind === 'tournament' && /conference/i.test(pc.phaseLabel) && pc.conferenceQualifyTop == null) {
+        pc.conferenceQualifyTop = 3;
+        s.conferenceResult = { year: pc.year, weightClass: s.weightClass ?? 145, conference, allocations: { [conference]: 3 }, places: {} };
+      }
+      const pt = s.pendingTournamentPlay;
+      if (pt?.conferenceQualifyTop != null && s.conferenceResult == null) {
+        s.conferenceResult = { year: pt.year, weightClass: s.weightClass ?? 145, conference, allocations: { [conference]: pt.conferenceQualifyTop }, places: {} };
+      }
+    },
+  },
+  {
+    version: 17,
+    description: 'Team race fields per weight',
+    migrate: (s) => {
+      // A waiting bracket flagged for the team race under the old format has no other weights drawn; it runs without one.
+      const pt = s.pendingTournamentPlay as (PendingTournamentPlay & { teamScored?: boolean }) | null | undefined;
+      if (pt) delete pt.teamScored;
+    },
+  },
+  {
+    version: 18,
+    description: 'NPC universe saved as its change log',
+    // Universes from older saves have no log to rebuild them from; packSave keeps writing those in full.
+    migrate: () => {},
+  },
+  {
+    version: 19,
+    description: 'Opponent history limited to opponents met',
+    migrate: (s) => {
+      for (const [key, entry] of Object.entries(s.opponentHistory ?? {})) {
+        if (entry.bouts.length === 0 && !entry.scouted) delete s.opponentHistory![key];
+      }
+    },
+  },
+];
+
+/** Public methods that change state; each top-level call is appended to state.journal so replay() can repeat it. */
+const JOURNALED_METHODS = [
+  'applyChoice', 'applyRelationshipAction', 'advanceWeek', 'setAutoTrainOnAdvance', 'setWeightClass',
+  'purchaseCustomItem', 'purchaseLifestyle', 'upgradeLifestyleWeekly',
+  'startTournamentPlay', 'simulateTournamentBracket', 'simulatePendingCompetitionMatch', 'playPendingCompetitionAction', 'runOffseasonEvent',
+  'requestCollegeOffer', 'acceptOffer', 'negotiateOffer', 'setRedshirt', 'petitionMedicalHardship',
+  'scoutPendingOpponent',
+  'enterTransferPortal', 'requestTransferOffer', 'negotiateTransferOffer', 'acceptTransfer', 'withdrawFromTransferPortal',
+  'choosePostCollegeOption', 'resolveRandomChoice', 'resolveLifePopup',
+] as const;
+/** Getters that once filled state in lazily from the RNG (older journals still have them); journaled only when a call draws from it. */
+const LAZY_JOURNALED_METHODS = ['getRankingsBoard'] as const;
+/** How many recent week starts are kept in weekCheckpoints for rewinding. */
+const REWIND_WEEKS = 12;
+/** Journal entries kept before the oldest rewind point; past this many they're folded into a snapshot of that week's start. */
+const JOURNAL_COMPACT_AT = 100;
+/** Story lines and life-log entries kept on the save; older ones are dropped so long careers stay within storage quota. */
+const HISTORY_LIMIT = 200;
+const LIFE_LOG_LIMIT = 200;
+
+/**
+ * Upgrade a save of any earlier schema version to the current UnifiedState shape (returns a copy).
+ * Throws if the data is not a save or was written by a newer build.
+ */
+export function migrateSave(raw: unknown): UnifiedState {
+  if (raw == null || typeof raw !== 'object' || typeof (raw as SaveDraft).seed !== 'string' || typeof (raw as SaveDraft).rngState !== 'string') {
+    throw new Error('Not a WrestlingPath save: missing seed or RNG state.');
+  }
+  const s = JSON.parse(JSON.stringify(raw)) as PackedSave & SaveDraft;
+  const from = typeof s.schemaVersion === 'number' ? s.schemaVersion : 0;
+  if (from > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Save is from a newer version of the game (schema ${from}, this build reads up to ${CURRENT_SCHEMA_VERSION}).`);
+  }
+  if (s.npcs && isPackedNpcUniverse(s.npcs)) s.npcs = unpackNpcUniverse(s.seed, s.npcs);
+  for (const step of SAVE_MIGRATIONS) {
+    if (step.version > from) {
+      step.migrate(s);
+      s.schemaVersion = step.version;
+    }
+  }
+  return s as UnifiedState;
+}
+
+/** A save as it's stored: the NPC universe is packed down to its log. */
+export type PackedSave = Omit<UnifiedState, 'npcs'> & { npcs: NpcUniverse | PackedNpcUniverse };
+
+/** What to write for a save (migrateSave unpacks it again): the NPC universe makes up most of a save otherwise. */
+export function packSave(state: UnifiedState): PackedSave {
+  return { ...state, npcs: packNpcUniverse(state.npcs) };
+}
+
+/** A journal replay() can rebuild: it starts from createState, or from the snapshot older entries were folded into. */
+function isReplayable(journal: readonly JournalEntry[]): boolean {
+  return journal[0]?.method === 'createState' || journal[0]?.method === 'restoreState';
+}
+
+function weekCheckpoint(s: UnifiedState): WeekCheckpoint {
+  return {
+    year: s.year,
+    week: s.week,
+    age: s.age,
+    overallRating: s.overallRating ?? 50,
+    seasonWins: s.stats.seasonWins ?? 0,
+    seasonLosses: s.stats.seasonLosses ?? 0,
+    journalLength: s.journal.length,
+  };
+}
+
+/** Referee strictness (0–1) by event: championship refs call stalling and cautions quickest, practice-room wrestle-offs hardly at all. */
+const REFEREE_STRICTNESS: Record<CompetitionKind, number> = {
+  dual: 0.45,
+  tournament: 0.5,
+  district: 0.55,
+  state: 0.65,
+  ncaa: 0.75,
+  offseason: 0.5,
+  wrestleoff: 0.2,
+};
+
+/** NCAA dual-meet team points for the bout winner. Defaults, forfeits and DQs score like a fall. */
+function dualTeamPoints(method: string): number {
+  if (/fall|pin|forfeit|default|dq/i.test(method)) return 6;
+  if (/tech/i.test(method)) return 5;
+  if (/major/i.test(method)) return 4;
+  return 3;
+}
+
+/** Win method for a simulated dual bout; the bigger the winner's rating edge, the likelier bonus points. */
+function dualWinMethod(rng: SeededRNG, ratingEdge: number): string {
+  const edge = clamp(0, 20, ratingEdge) / 20;
+  const r = rng.float();
+  if (r < 0.1 + 0.15 * edge) return 'Fall';
+  if (r < 0.18 + 0.27 * edge) return 'Tech';
+  if (r < 0.35 + 0.3 * edge) return 'Major';
+  return decisionMethod(ratingEdge, rng);
+}
+
+function dualBout(opp: DualLineupEntry, teamWrestler: string, isPlayer: boolean, won: boolean, method: string): DualBoutResult {
+  const points = dualTeamPoints(method);
+  return {
+    weightClass: opp.weightClass,
+    teamWrestler,
+    opponentWrestler: opp.name,
+    isPlayer,
+    won,
+    method,
+    teamPoints: won ? points : 0,
+    opponentPoints: won ? 0 : points,
+  };
+}
+
+/** Smallest bracket (8, 16 or 32) that fits `entrants` without dropping any. */
+function bracketSizeFor(entrants: number): BracketSize {
+  return entrants > 16 ? 32 : entrants > 8 ? 16 : 8;
+}
+
 function computeTrueSkill(s: UnifiedState): number {
   const w = (s.technique ?? 50) * 0.28 + (s.matIQ ?? 50) * 0.24 + (s.conditioning ?? 50) * 0.22 +
     (s.strength ?? 50) * 0.12 + (s.speed ?? 50) * 0.08 + (s.flexibility ?? 50) * 0.06;
@@ -182,11 +618,22 @@ function updateRating(s: UnifiedState): void {
   s.overallRating = overallFromTrueSkill(s.trueSkill, s.league);
 }
 
+/** Drop the oldest entries beyond limit, in place. */
+function keepLatest<T>(list: T[], limit: number): void {
+  if (list.length > limit) list.splice(0, list.length - limit);
+}
+
 function addStory(s: UnifiedState, text: string): void {
   s.history.push({ year: s.year, week: s.week, age: s.age, text });
+  keepLatest(s.history, HISTORY_LIMIT);
   s.story = text;
 }
 
+function addLifeLog(s: UnifiedState, text: string): void {
+  s.lifeLog.push({ week: s.week, year: s.year, text });
+  keepLatest(s.lifeLog, LIFE_LOG_LIMIT);
+}
+
 function isInCollege(s: UnifiedState): boolean {
   return HS_LEAGUES.indexOf(s.league) === -1;
 }
@@ -214,6 +661,17 @@ function getHSPhase(week: number): string {
   return 'Offseason';
 }
 
+/** Weekly natural weight gain (lbs) from growing: fastest at 14, slowing through the teens, none from 22. */
+function growthWeightGain(age: number): number {
+  if (age >= 22) return 0;
+  if (age >= 18) return 0.015;
+  return 0.06 - clamp(0, 3, age - 14) * 0.01;
+}
+
+function roundTenth(x: number): number {
+  return Math.round(x * 10) / 10;
+}
+
 function isHSRegularSeason(week: number): boolean {
   return week >= HS_REGULAR_START && week <= HS_REGULAR_END;
 }
@@ -221,48 +679,136 @@ function isHSRegularSeason(week: number): boolean {
 export class UnifiedEngine {
   private state: UnifiedState;
   private rng: SeededRNG;
+  /** Nesting depth of journaled calls; only depth-0 calls are recorded (advanceWeek's own applyChoice calls are not). */
+  private journalDepth = 0;
+  /** Week-start snapshots (JSON) by journalLength, taken for checkpoints the journal may be folded into; not saved. */
+  private checkpointSnapshots = new Map<number, string>();
 
   constructor(initial: UnifiedState) {
-    this.state = JSON.parse(JSON.stringify(initial));
-    const old = this.state as unknown as { month?: number; hoursLeftThisMonth?: number; monthsInCollege?: number; didPartTimeThisMonth?: boolean; lastMonthEconomy?: unknown };
-    if (this.state.week == null) this.state.week = old.month ?? 1;
-    if (this.state.hoursLeftThisWeek == null) this.state.hoursLeftThisWeek = old.hoursLeftThisMonth ?? HOURS_PER_WEEK;
-    if (this.state.weeksInCollege == null) this.state.weeksInCollege = old.monthsInCollege != null ? old.monthsInCollege * 4 : 0;
-    if (this.state.didPartTimeThisWeek == null) this.state.didPartTimeThisWeek = old.didPartTimeThisMonth ?? false;
-    if (this.state.lastWeekEconomy == null) this.state.lastWeekEconomy = null;
-    if (this.state.relationship == null) this.state.relationship = null;
-    if (this.state.weekModifiers == null) this.state.weekModifiers = defaultWeekModifiers();
-    if (this.state.relationships == null) this.state.relationships = [];
-    if (this.state.offseasonEventsUsedThisYear == null) this.state.offseasonEventsUsedThisYear = {};
-    if (this.state.hsSchedule == null) this.state.hsSchedule = null;
-    if (this.state.opponentPools == null) this.state.opponentPools = null;
-    if (this.state.collegeSchedule == null) this.state.collegeSchedule = null;
-    if (this.state.collegeRoster == null) this.state.collegeRoster = null;
-    if (this.state.lastWeekSummary == null) this.state.lastWeekSummary = null;
-    if (this.state.studiedThisWeek == null) this.state.studiedThisWeek = false;
-    if (this.state.trainedThisWeek == null) this.state.trainedThisWeek = false;
-    if (this.state.didRestOrRehabThisWeek == null) this.state.didRestOrRehabThisWeek = false;
-    if (!Array.isArray(this.state.offers)) this.state.offers = [];
-    if (this.state.pendingCollegeChoice == null) this.state.pendingCollegeChoice = false;
-    if (this.state.pendingCollegeGraduation == null) this.state.pendingCollegeGraduation = false;
-    if (this.state.careerEnded == null) this.state.careerEnded = false;
-    if (isInCollege(this.state) && (this.state.eligibilityYearsRemaining ?? 0) <= 0 && !this.state.careerEnded && !this.state.pendingCollegeGraduation) this.state.pendingCollegeGraduation = true;
-    if (this.state.eligibilityYearsRemaining == null && !HS_LEAGUES.includes(this.state.league)) this.state.eligibilityYearsRemaining = 4;
-    if (!this.state.lifestyle) this.state.lifestyle = UnifiedEngine.DEFAULT_LIFESTYLE;
-    if (!Array.isArray(this.state.stats.usOpenPlacements)) this.state.stats.usOpenPlacements = [];
-    if (!Array.isArray(this.state.stats.worldChampionshipPlacements)) this.state.stats.worldChampionshipPlacements = [];
-    if (this.state.popularity == null) this.state.popularity = 50;
-    if (this.state.coachTrust == null) this.state.coachTrust = 50;
-    if (!Array.isArray(this.state.pendingLifePopups)) this.state.pendingLifePopups = [];
-    if (!Array.isArray(this.state.lifeLog)) this.state.lifeLog = [];
-    if (this.state.allowRelationshipEvents == null) this.state.allowRelationshipEvents = true;
-    if (this.state.relationshipStatus == null) this.state.relationshipStatus = 'NONE';
-    if (this.state.relationshipMeter == null) this.state.relationshipMeter = 0;
-    if (this.state.pendingCompetition == null) this.state.pendingCompetition = null;
-    if (this.state.pendingTournamentPlay == null) this.state.pendingTournamentPlay = null;
+    this.state = migrateSave(initial);
+    if (isInCollege(this.state) && this.state.eligibilityYearsRemaining <= 0 && !this.state.careerEnded && !this.state.pendingCollegeGraduation) this.state.pendingCollegeGraduation = true;
     this.rng = SeededRNG.deserialize(this.state.seed, this.state.rngState);
     // Recompute overall from current attributes so it always matches (fixes loaded saves with stale overall)
     updateRating(this.state);
+    this.installJournal();
+  }
+
+  /** Wrap each journaled method on this instance so player calls are appended to state.journal. */
+  private installJournal(): void {
+    const self = this as unknown as Record<string, (...args: unknown[]) => unknown>;
+    const wrap = (method: string, lazy: boolean) => {
+      const original = self[method].bind(this);
+      self[method] = (...args: unknown[]) => {
+        if (this.journalDepth > 0) return original(...args);
+        const rngBefore = this.rng.serialize();
+        const weekBefore = this.state.week;
+        const yearBefore = this.state.year;
+        let result: unknown;
+        this.journalDepth++;
+        try {
+          result = original(...args);
+        } finally {
+          this.journalDepth--;
+        }
+        if (!lazy || this.rng.serialize() !== rngBefore) {
+          while (args.length > 0 && args[args.length - 1] === undefined) args.pop();
+          this.state.journal.push({ method, args: JSON.parse(JSON.stringify(args)) });
+          if (lazy) this.saveRng();
+        }
+        if (this.state.week !== weekBefore || this.state.year !== yearBefore) this.addWeekCheckpoint();
+        return result;
+      };
+    };
+    for (const m of JOURNALED_METHODS) wrap(m, false);
+    for (const m of LAZY_JOURNALED_METHODS) wrap(m, true);
+  }
+
+  /**
+   * Remember the current week start for rewinding (not for ironman careers or journals that can't be replayed), and keep
+   * the journal bounded: once JOURNAL_COMPACT_AT entries come before the oldest rewind point, they're folded into a
+   * snapshot of that week. Without rewinding there's nothing to keep, so the journal is folded into this week's start.
+   */
+  private addWeekCheckpoint(): void {
+    const s = this.state;
+    const head = (journalLength: number) => journalLength - 1 >= JOURNAL_COMPACT_AT;
+    if (s.ironman || !isReplayable(s.journal)) {
+      if (head(s.journal.length)) this.compactJournal(s.journal.length, this.weekStartSnapshot(null));
+      return;
+    }
+    const checkpoint = weekCheckpoint(s);
+    s.weekCheckpoints.push(checkpoint);
+    keepLatest(s.weekCheckpoints, REWIND_WEEKS);
+    if (head(checkpoint.journalLength)) this.checkpointSnapshots.set(checkpoint.journalLength, this.weekStartSnapshot(checkpoint));
+    const oldest = s.weekCheckpoints[0]!;
+    if (!head(oldest.journalLength)) return;
+    // A checkpoint from before this engine was loaded has no snapshot; rebuild its week start from the journal.
+    const snapshot = this.checkpointSnapshots.get(oldest.journalLength) ?? UnifiedEngine.replayEngine(s.seed, s.journal.slice(0, oldest.journalLength)).weekStartSnapshot(oldest);
+    this.compactJournal(oldest.journalLength, snapshot);
+  }
+
+  /** This week's start as the base of a folded journal (JSON): no journal of its own, and `checkpoint` as its only rewind point. */
+  private weekStartSnapshot(checkpoint: WeekCheckpoint | null): string {
+    return JSON.stringify({
+      ...packSave(this.state),
+      rngState: this.rng.serialize(),
+      journal: [],
+      weekCheckpoints: checkpoint ? [{ ...checkpoint, journalLength: 1 }] : [],
+    });
+  }
+
+  /** Replace the first journalLength entries with one restoreState entry holding the week-start snapshot. */
+  private compactJournal(journalLength: number, snapshot: string): void {
+    const s = this.state;
+    const dropped = journalLength - 1;
+    s.journal = [{ method: 'restoreState', args: [JSON.parse(snapshot)] }, ...s.journal.slice(journalLength)];
+    s.weekCheckpoints = s.weekCheckpoints
+      .filter((c) => c.journalLength >= journalLength)
+      .map((c) => ({ ...c, journalLength: c.journalLength - dropped }));
+    this.checkpointSnapshots.clear();
+  }
+
+  getWeekCheckpoints(): WeekCheckpoint[] {
+    return this.state.weekCheckpoints;
+  }
+
+  /** Rewind to the start of a recent week by replaying the journal up to that checkpoint. Later calls are dropped. */
+  rewindToWeek(journalLength: number): { success: boolean; message: string } {
+    const s = this.state;
+    if (s.ironman) return { success: false, message: 'Ironman career — rewinding is off.' };
+    const checkpoint = s.weekCheckpoints.find((c) => c.journalLength === journalLength);
+    if (!checkpoint) return { success: false, message: 'That week is no longer in the rewind history.' };
+    if (checkpoint.journalLength >= s.journal.length) return { success: false, message: 'Already at the start of that week.' };
+    const replayed = UnifiedEngine.replay(s.seed, s.journal.slice(0, checkpoint.journalLength));
+    this.state = replayed;
+    this.rng = SeededRNG.deserialize(replayed.seed, replayed.rngState);
+    this.checkpointSnapshots.clear();
+    return { success: true, message: `Rewound to Year ${checkpoint.year}, Week ${checkpoint.week}.` };
+  }
+
+  /**
+   * Rebuild a career from its seed and journal (state.journal of any save). Same engine build => identical UnifiedState,
+   * so journals double as bug reports and as determinism checks. Throws if the journal doesn't start with createState
+   * or a restoreState snapshot.
+   */
+  static replay(seed: string, journal: readonly JournalEntry[]): UnifiedState {
+    return UnifiedEngine.replayEngine(seed, journal).state;
+  }
+
+  private static replayEngine(seed: string, journal: readonly JournalEntry[]): UnifiedEngine {
+    const [first, ...rest] = journal;
+    if (!first || !isReplayable(journal)) {
+      throw new Error('Journal does not start with createState; this career was saved before journaling and cannot be replayed.');
+    }
+    const engine = new UnifiedEngine(first.method === 'createState'
+      ? UnifiedEngine.createState(seed, first.args[0] as Parameters<typeof UnifiedEngine.createState>[1])
+      : { ...(JSON.parse(JSON.stringify(first.args[0])) as UnifiedState), journal: [JSON.parse(JSON.stringify(first)) as JournalEntry] });
+    const self = engine as unknown as Record<string, (...args: unknown[]) => unknown>;
+    const known = new Set<string>([...JOURNALED_METHODS, ...LAZY_JOURNALED_METHODS]);
+    for (const entry of rest) {
+      if (!known.has(entry.method)) throw new Error(`Journal has an unknown call: ${entry.method}`);
+      self[entry.method](...entry.args);
+    }
+    return engine;
   }
 
   getState(): Readonly<UnifiedState> {
@@ -278,7 +824,7 @@ export class UnifiedEngine {
   }
 
   /** Create initial state for new game. Pass customStart to override age, year, week, league. */
-  static createState(seed: string, options: { name: string; weightClass?: number; stateId?: string; customStart?: CustomStartOptions }): UnifiedState {
+  static createState(seed: string, options: { name: string; weightClass?: number; stateId?: string; customStart?: CustomStartOptions; ironman?: boolean }): UnifiedState {
     const s = options as { name: string; weightClass: number; customStart?: CustomStartOptions };
     const custom = s.customStart;
     const weightClass = WEIGHT_CLASSES.includes(s.weightClass) ? s.weightClass : 145;
@@ -298,8 +844,12 @@ export class UnifiedEngine {
     const week = custom?.week != null ? clamp(1, 52, custom.week) : 1;
     const inCollege = HS_LEAGUES.indexOf(league) === -1;
     const state: UnifiedState = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       seed,
       rngState: rng.serialize(),
+      journal: [{ method: 'createState', args: [JSON.parse(JSON.stringify(options))] }],
+      weekCheckpoints: [],
+      ironman: options.ironman === true,
       name: options.name || 'Wrestler',
       age,
       year,
@@ -308,7 +858,9 @@ export class UnifiedEngine {
       collegeName: inCollege ? 'College' : null,
       fromHS: HS_LEAGUES.includes(league),
       weeksInCollege: 0,
+      eligibilityYearsRemaining: 4,
       weightClass,
+      bodyWeight: { naturalWeight: weightClass + 1, currentWeight: weightClass + 1, lastWeighIn: null },
       ...attrs,
       energy: 100,
       health: 100,
@@ -327,22 +879,31 @@ export class UnifiedEngine {
       techniqueTranslationWeeks: 0,
       stateQualified: false,
       ncaaQualified: false,
+      conferenceResult: null,
       didPartTimeThisWeek: false,
       broke: false,
       story: custom ? `Week ${week}, Year ${year}. ${options.name || 'Wrestler'} continues.` : options.name + ' starts high school. Make your first choice.',
       history: [],
       accolades: [],
       stats: defaultStats(),
-      rankingsByWeight: {},
       lastWeekEconomy: null,
       pendingRandomChoice: null,
       offers: [],
       pendingNILDeal: null,
+      pendingCollegeChoice: false,
+      pendingCollegeGraduation: false,
+      careerEnded: false,
+      transferPortalActive: false,
+      transferOffers: [],
+      negotiationAttempts: {},
       hoursLeftThisWeek: HOURS_PER_WEEK,
       studiedThisWeek: false,
       trainedThisWeek: false,
       weeksWithoutTraining: 0,
       didRestOrRehabThisWeek: false,
+      injuries: [],
+      rehabBonusWeeks: 0,
+      styleRatings: { ...DEFAULT_STYLE_RATINGS },
       weekModifiers: defaultWeekModifiers(),
       autoTrainOnAdvance: true,
       relationship: null,
@@ -350,17 +911,25 @@ export class UnifiedEngine {
       offseasonEventsUsedThisYear: {},
       hsSchedule: null,
       opponentPools: null,
+      opponentHistory: {},
+      npcs: createNpcUniverse(npcUniverseRng(seed)),
       collegeSchedule: null,
       collegeRoster: null,
+      collegeSeasonStatus: 'active',
+      seasonInjuredWeek: null,
+      teamDualRecord: { wins: 0, losses: 0, ties: 0 },
       lastWeekSummary: null,
-      lifestyle: UnifiedEngine.DEFAULT_LIFESTYLE,
+      lifestyle: defaultLifestyle(),
       pendingLifePopups: [],
       lifeLog: [],
+      recentLifePopupDefIds: [],
       popularity: 50,
       coachTrust: 50,
       allowRelationshipEvents: true,
       relationshipStatus: 'NONE',
       relationshipMeter: 0,
+      pendingCompetition: null,
+      pendingTournamentPlay: null,
     };
     if (custom) {
       if (custom.technique != null) state.technique = clamp(0, 100, custom.technique);
@@ -383,6 +952,7 @@ export class UnifiedEngine {
     if (state.league === 'HS_JV' && (state.age >= 15 || (state.overallRating ?? 0) >= 68)) {
       state.league = 'HS_VARSITY';
     }
+    if (!state.ironman) state.weekCheckpoints.push(weekCheckpoint(state));
     return state;
   }
 
@@ -409,6 +979,7 @@ export class UnifiedEngine {
     party: 20,
     interview: 0,
     rehab: 0,
+    physical_therapy: 75,
     argument: 0,
   };
 
@@ -420,17 +991,10 @@ export class UnifiedEngine {
     party: { trainingMult: -0.1, performanceMult: -0.05, reason: 'Party' },
     interview: { performanceMult: 0.05, reason: 'Interview' },
     rehab: { injuryRiskMult: -0.2, trainingMult: -0.05, reason: 'Rehab' },
+    physical_therapy: { injuryRiskMult: -0.25, trainingMult: -0.05, reason: 'Physical therapy' },
     rest: { injuryRiskMult: -0.15, reason: 'Rest' },
   };
 
-  private static readonly DEFAULT_LIFESTYLE: LifestyleState = {
-    housing: 'none',
-    car: 'none',
-    mealPlan: 'none',
-    recoveryEquipment: 'none',
-    purchasedCustomIds: [],
-  };
-
   /** Weekly cost per housing tier (rent). */
   private static readonly HOUSING_WEEKLY: Record<HousingTier, number> = {
     none: 0,
@@ -492,7 +1056,7 @@ export class UnifiedEngine {
   ];
 
   getLifestyle(): LifestyleState {
-    return this.state.lifestyle ?? UnifiedEngine.DEFAULT_LIFESTYLE;
+    return this.state.lifestyle;
   }
 
   /** Weekly cost from housing + car upkeep + meal plan + any custom item weekly costs. */
@@ -558,21 +1122,20 @@ export class UnifiedEngine {
   /** Purchase a custom lifestyle item (one-time cost). Returns success and message. */
   purchaseCustomItem(itemId: string): { success: boolean; message: string } {
     const s = this.state;
-    const L = s.lifestyle ?? UnifiedEngine.DEFAULT_LIFESTYLE;
+    const L = s.lifestyle;
     const purchased = L.purchasedCustomIds ?? [];
     if (purchased.includes(itemId)) return { success: false, message: 'Already owned.' };
     const item = UnifiedEngine.CUSTOM_LIFESTYLE_ITEMS.find((i) => i.id === itemId);
     if (!item) return { success: false, message: 'Unknown item.' };
     const money = s.money ?? 0;
     if (money < item.cost) return { success: false, message: `Need $${item.cost}; you have $${money}.` };
-    if (!s.lifestyle) s.lifestyle = { ...UnifiedEngine.DEFAULT_LIFESTYLE };
     if (!s.lifestyle.purchasedCustomIds) s.lifestyle.purchasedCustomIds = [];
     s.lifestyle.purchasedCustomIds = [...s.lifestyle.purchasedCustomIds, itemId];
     s.money = Math.max(0, money - item.cost);
     if (item.effects?.health != null) s.health = Math.min(100, (s.health ?? 100) + item.effects.health);
     if (item.effects?.happiness != null) s.happiness = Math.min(100, (s.happiness ?? 75) + item.effects.happiness);
     if (item.effects?.stress != null) s.stress = Math.max(0, (s.stress ?? 50) + item.effects.stress);
-    if (item.effects?.popularity != null) s.popularity = Math.min(100, (s.popularity ?? 50) + item.effects.popularity);
+    if (item.effects?.popularity != null) s.popularity = Math.min(100, s.popularity + item.effects.popularity);
     addStory(s, `Bought ${item.name}.`);
     this.saveRng();
     return { success: true, message: `Purchased ${item.name}.` };
@@ -601,7 +1164,7 @@ export class UnifiedEngine {
   /** Purchase or upgrade lifestyle. Returns true if successful. */
   purchaseLifestyle(category: 'housing' | 'car' | 'mealPlan' | 'recoveryEquipment', tier: HousingTier | CarTier | MealPlanTier | RecoveryTier): { success: boolean; message: string } {
     const s = this.state;
-    const L = s.lifestyle ?? UnifiedEngine.DEFAULT_LIFESTYLE;
+    const L = s.lifestyle;
     const orders = { housing: UnifiedEngine.HOUSING_ORDER, car: UnifiedEngine.CAR_ORDER, mealPlan: UnifiedEngine.MEAL_PLAN_ORDER, recoveryEquipment: UnifiedEngine.RECOVERY_ORDER };
     const order = orders[category] as readonly (HousingTier | CarTier | MealPlanTier | RecoveryTier)[];
     const current = L[category] as HousingTier | CarTier | MealPlanTier | RecoveryTier;
@@ -611,7 +1174,6 @@ export class UnifiedEngine {
     const oneTime = category === 'car' ? UnifiedEngine.CAR_COST[tier as CarTier] : category === 'recoveryEquipment' ? UnifiedEngine.RECOVERY_COST[tier as RecoveryTier] : 0;
     const money = s.money ?? 0;
     if (oneTime > money) return { success: false, message: `Need $${oneTime}; you have $${money}.` };
-    if (!s.lifestyle) s.lifestyle = { ...UnifiedEngine.DEFAULT_LIFESTYLE };
     (s.lifestyle as unknown as Record<string, HousingTier | CarTier | MealPlanTier | RecoveryTier>)[category] = tier;
     if (oneTime > 0) s.money = Math.max(0, money - oneTime);
     addStory(s, `Upgraded ${category}: now ${tier}.`);
@@ -622,7 +1184,7 @@ export class UnifiedEngine {
   /** Upgrade housing or meal plan (weekly cost; rent/food deducted each week). Requires one week's cost in bank to upgrade. */
   upgradeLifestyleWeekly(category: 'housing' | 'mealPlan', tier: HousingTier | MealPlanTier): { success: boolean; message: string } {
     const s = this.state;
-    const L = s.lifestyle ?? UnifiedEngine.DEFAULT_LIFESTYLE;
+    const L = s.lifestyle;
     const order = (category === 'housing' ? UnifiedEngine.HOUSING_ORDER : UnifiedEngine.MEAL_PLAN_ORDER) as readonly (HousingTier | MealPlanTier)[];
     const current = L[category] as HousingTier | MealPlanTier;
     const currentIdx = order.indexOf(current);
@@ -631,7 +1193,6 @@ export class UnifiedEngine {
     const weekly = category === 'housing' ? UnifiedEngine.HOUSING_WEEKLY[tier as HousingTier] : UnifiedEngine.MEAL_PLAN_WEEKLY[tier as MealPlanTier];
     const money = s.money ?? 0;
     if (weekly > money) return { success: false, message: `You need $${weekly} (one week) in the bank to switch; you have $${money}.` };
-    if (!s.lifestyle) s.lifestyle = { ...UnifiedEngine.DEFAULT_LIFESTYLE };
     (s.lifestyle as unknown as Record<string, HousingTier | MealPlanTier>)[category] = tier;
     addStory(s, `Upgraded ${category}: now ${tier} ($${weekly}/wk).`);
     this.saveRng();
@@ -643,8 +1204,8 @@ export class UnifiedEngine {
     const w = this.state.weekModifiers ?? defaultWeekModifiers();
     if (L.housing === 'nice_apartment') { w.performanceMult += 0.02; w.reasons.push('Nice apartment'); }
     if (L.housing === 'luxury') { w.performanceMult += 0.04; w.reasons.push('Luxury place'); }
-    if (L.mealPlan === 'good') { w.trainingMult += 0.03; w.reasons.push('Good meals'); }
-    if (L.mealPlan === 'premium') { w.trainingMult += 0.06; w.reasons.push('Premium meals'); }
+    if (L.mealPlan === 'good') { w.trainingMult += 0.03; w.weightCutSeverityMult -= 0.1; w.reasons.push('Good meals'); }
+    if (L.mealPlan === 'premium') { w.trainingMult += 0.06; w.weightCutSeverityMult -= 0.2; w.reasons.push('Premium meals'); }
     if (L.recoveryEquipment === 'basic') { w.injuryRiskMult -= 0.05; w.reasons.push('Recovery gear'); }
     if (L.recoveryEquipment === 'pro') { w.injuryRiskMult -= 0.12; w.reasons.push('Pro recovery'); }
     const purchased = L.purchasedCustomIds ?? [];
@@ -709,6 +1270,8 @@ export class UnifiedEngine {
         return { ...base, happiness: 3 };
       case 'rehab':
         return { ...base, health: 5 };
+      case 'physical_therapy':
+        return { ...base, health: 6 };
       default:
         return base;
     }
@@ -731,6 +1294,7 @@ export class UnifiedEngine {
       { key: 'interview', label: 'Media interview', tab: 'life' },
       { key: 'rehab', label: 'Rehab / recovery', tab: 'life' },
     ];
+    if (s.injuries.length > 0) list.push({ key: 'physical_therapy', label: 'Physical therapy', tab: 'life' });
     if (isInCollege(s)) list.push({ key: 'part_time_job', label: 'Part-time job', tab: 'life' });
     if (s.relationship) {
       list.push({ key: 'relationship_time', label: 'Spend time with ' + s.relationship.partnerName, tab: 'relationship' });
@@ -788,6 +1352,7 @@ export class UnifiedEngine {
         if (s.techniqueTranslationWeeks) s.techniqueTranslationWeeks--;
         s.conditioning = Math.min(100, (s.conditioning ?? 50) + (canTrainHard ? 1 : 0));
         addStory(s, canTrainHard ? 'You drilled hard. Technique improved.' : 'You were tired; light technique work.');
+        this.rollForInjury('training', canTrainHard ? TRAINING_INJURY_CHANCE : TRAINING_INJURY_CHANCE * 2);
         break;
       case 'train_conditioning':
         s.trainedThisWeek = true;
@@ -795,6 +1360,7 @@ export class UnifiedEngine {
         s.energy = Math.max(0, (s.energy ?? 100) - energyCost);
         addGrowth('conditioning', canTrainHard ? this.rng.int(3, 6) : this.rng.int(1, 3), false);
         addStory(s, 'You pushed your cardio. Gas tank improved.');
+        this.rollForInjury('training', canTrainHard ? TRAINING_INJURY_CHANCE : TRAINING_INJURY_CHANCE * 2);
         break;
       case 'train_strength':
         s.trainedThisWeek = true;
@@ -802,7 +1368,9 @@ export class UnifiedEngine {
         s.energy = Math.max(0, (s.energy ?? 100) - energyCost);
         addGrowth('strength', canTrainHard ? this.rng.int(0, 2) : this.rng.int(0, 1), false);
         s.conditioning = Math.min(100, (s.conditioning ?? 50) + (canTrainHard ? 1 : 0));
+        s.bodyWeight.naturalWeight += LIFT_WEIGHT_GAIN;
         addStory(s, 'You hit the weight room. Stronger.');
+        this.rollForInjury('training', canTrainHard ? TRAINING_INJURY_CHANCE : TRAINING_INJURY_CHANCE * 2);
         break;
       case 'study_film':
         s.consecutiveRestWeeks = 0;
@@ -869,7 +1437,17 @@ export class UnifiedEngine {
       case 'rehab':
         s.didRestOrRehabThisWeek = true;
         s.health = Math.min(100, (s.health ?? 100) + this.rng.int(4, 8));
-        addStory(s, 'Rehab session. Injury risk down, body recovering.');
+        if (s.injuries.length > 0) s.rehabBonusWeeks = Math.max(s.rehabBonusWeeks, 1);
+        addStory(s, s.injuries.length > 0 ? 'Rehab session. Your injury heals a week faster.' : 'Rehab session. Injury risk down, body recovering.');
+        break;
+      case 'physical_therapy':
+        s.didRestOrRehabThisWeek = true;
+        s.health = Math.min(100, (s.health ?? 100) + this.rng.int(5, 9));
+        s.rehabBonusWeeks = Math.max(s.rehabBonusWeeks, 2);
+        for (const injury of s.injuries) {
+          injury.reinjuryRisk = Math.min(injury.reinjuryRisk, baseReinjuryRisk(injury.severity, PHYSICAL_THERAPY_REINJURY_SHARE));
+        }
+        addStory(s, 'Physical therapy. Healing two weeks faster, and less likely to tweak it again.');
         break;
       default:
         addStory(s, 'Week ' + s.week + ', Year ' + s.year + '.');
@@ -1148,23 +1726,34 @@ export class UnifiedEngine {
   }
 
   getCanAdvanceWeek(): boolean {
-    return !this.state.pendingCollegeChoice && !this.state.transferPortalActive && !this.state.pendingCollegeGraduation && !this.state.careerEnded && !this.state.pendingCompetition && !this.state.pendingTournamentPlay;
+    return !this.state.pendingCollegeChoice && !this.state.transferPortalActive && !this.state.pendingCollegeGraduation && !this.state.careerEnded && !this.state.pendingCompetition && !this.state.pendingTournamentPlay && !this.state.pendingRandomChoice;
   }
 
   getPendingCompetition(): PendingCompetitionState | null {
-    return (this.state.pendingCompetition ?? null) as PendingCompetitionState | null;
+    return this.state.pendingCompetition;
   }
 
   getPendingTournamentPlay(): PendingTournamentPlay | null {
-    return this.state.pendingTournamentPlay ?? null;
+    return this.state.pendingTournamentPlay;
+  }
+
+  /** Team standings so far while you're wrestling a team-scored event; null otherwise. */
+  getTeamRace(): TeamScore[] | null {
+    const pc = this.state.pendingCompetition;
+    return pc?.bracket && pc.teamBrackets ? teamStandings([pc.bracket, ...pc.teamBrackets]) : null;
   }
 
   /** Start playing the bracket (minigame) after user clicked "Go to tournament" → "Play bracket". */
   startTournamentPlay(): boolean {
     const pt = this.state.pendingTournamentPlay;
     if (!pt) return false;
-    const bracketSize = pt.bracketSize ?? 8;
-    this.startPendingBracketCompetition(pt.kind, pt.phaseLabel, pt.eventType ?? 'tournament', pt.opponents, pt.offseasonEventKey, bracketSize);
+    this.startPendingBracketCompetition(pt.kind, pt.phaseLabel, pt.eventType ?? 'tournament', pt.bracketParticipants, pt.offseasonEventKey);
+    const pc = this.state.pendingCompetition;
+    if (pc && pt.conferenceQualifyTop != null) pc.conferenceQualifyTop = pt.conferenceQualifyTop;
+    if (pc?.bracket && pt.teamFields) {
+      pc.teamBrackets = pt.teamFields.map((field) => createBracket(field));
+      this.wrestleTeamBrackets(pc.teamBrackets, pc.bracket, this.ruleSetFor(pt.offseasonEventKey));
+    }
     this.state.pendingTournamentPlay = null;
     this.saveRng();
     return true;
@@ -1174,13 +1763,19 @@ export class UnifiedEngine {
   simulateTournamentBracket(): boolean {
     const pt = this.state.pendingTournamentPlay;
     if (!pt) return false;
-    let roundIndex = 0;
-    const getOpponent = (_round: string): Opponent => {
-      const o = pt.opponents[roundIndex++ % pt.opponents.length] ?? { id: 'pad', name: 'Opponent', overallRating: 70, style: 'grinder', clutch: 50 };
-      return { ...o, overallRating: o.overallRating ?? 50 };
-    };
-    const bracketSize = pt.bracketSize ?? 8;
-    const { placement, matches } = this.runDoubleElimTournament(getOpponent, bracketSize);
+    const ruleSet = this.ruleSetFor(pt.offseasonEventKey);
+    const bracket = createBracket(pt.bracketParticipants);
+    const { placement, matches, faced } = this.simulateBracket(bracket, ruleSet);
+    this.recordBracketForNpcs(bracket);
+    const teamBrackets = (pt.teamFields ?? []).map((field) => createBracket(field));
+    this.wrestleTeamBrackets(teamBrackets, bracket, ruleSet);
+    teamBrackets.forEach((b) => this.recordBracketForNpcs(b));
+    matches.forEach((m, i) => {
+      this.countMatchResult(m.won, m.method);
+      this.recordOpponentBout(faced[i]!, pt.phaseLabel, m.won, m.method ?? 'Dec');
+    });
+    for (let i = 0; i < matches.length; i++) this.rollForInjury('match', MATCH_INJURY_CHANCE);
+    this.gainStyleExperience(ruleSet, matches.length);
     const wins = matches.filter((m) => m.won).length;
     const losses = matches.length - wins;
     const summary: WeekSummary = {
@@ -1198,6 +1793,7 @@ export class UnifiedEngine {
       recordChange: { wins, losses },
       placement,
       bracketParticipants: pt.bracketParticipants,
+      bracket,
     };
     const s = this.state;
     if (pt.kind === 'district') {
@@ -1215,12 +1811,10 @@ export class UnifiedEngine {
         summary.message.push('STATE CHAMPION!');
       }
       s.stateQualified = false;
+    } else if (pt.kind === 'ncaa') {
+      this.recordNcaaFinish(summary, placement);
     }
-    if (pt.kind === 'tournament' && pt.conferenceQualifyTop != null) {
-      const dnp = wins <= 1;
-      s.ncaaQualified = !dnp && placement <= pt.conferenceQualifyTop;
-      if (s.ncaaQualified) summary.message.push('Qualified for NCAA Championships!');
-    }
+    if (pt.kind === 'tournament' && pt.conferenceQualifyTop != null) this.recordConferenceFinish(summary, bracket, pt.conferenceQualifyTop);
     if (pt.kind === 'offseason' && pt.offseasonEventKey) {
       const key = pt.offseasonEventKey;
       const isDnp = wins <= 1;
@@ -1249,6 +1843,7 @@ export class UnifiedEngine {
       }
     }
     summary.message.push(`${pt.phaseLabel}: ${wins}-${losses}.${placement != null ? ` Placed ${placement}.` : ''}`);
+    if (pt.teamFields) this.recordTeamRace(summary, pt.phaseLabel, [bracket, ...teamBrackets]);
     s.lastWeekSummary = summary;
     addStory(s, summary.message[0] ?? pt.phaseLabel);
     if (HS_LEAGUES.includes(s.league)) this.computeRecruitingScore();
@@ -1260,12 +1855,12 @@ export class UnifiedEngine {
   /** Simulate the current match (no minigame); advances to next match or finalizes. */
   simulatePendingCompetitionMatch(): boolean {
     const s = this.state;
-    const pc = s.pendingCompetition ?? null;
+    const pc = s.pendingCompetition;
     if (!pc || !pc.current) return false;
     if (pc.finished) return false;
     const opponent = pc.current.opponent;
     const isRival = pc.current.roundLabel.toLowerCase().includes('rival');
-    const { won, method } = this.simOneMatch(opponent, isRival);
+    const { won, method } = this.simOneMatch(opponent, isRival, this.ruleSetFor(pc.offseasonEventKey));
     const completed: CompletedCompetitionMatch = {
       roundLabel: pc.current.roundLabel,
       opponentName: opponent.name,
@@ -1278,39 +1873,152 @@ export class UnifiedEngine {
     };
     pc.completed = pc.completed ?? [];
     pc.completed.push(completed);
-    if (won) {
-      s.stats.matchesWon++;
-      s.stats.seasonWins++;
-      if (HS_LEAGUES.includes(s.league)) s.stats.hsRecord.matchesWon++;
-      else s.stats.collegeRecord.matchesWon++;
-    } else {
-      s.stats.matchesLost++;
-      s.stats.seasonLosses++;
-      if (HS_LEAGUES.includes(s.league)) s.stats.hsRecord.matchesLost++;
-      else s.stats.collegeRecord.matchesLost++;
-    }
+    this.countCompetitionMatch(pc, won, method);
+    this.rollForInjury('match', MATCH_INJURY_CHANCE);
     if (pc.bracket) {
       this.advancePendingBracket(pc, won);
+      if (this.injuryStatus() === 'out') this.medicalForfeitRest(pc);
     } else if (pc.queue) {
       this.advancePendingQueue(pc);
+      if (this.injuryStatus() === 'out') this.medicalForfeitRest(pc);
     } else {
       pc.finished = true;
       pc.finalResult = { won, method, myScore: 0, oppScore: 0, eliteEffectiveGap: 0, eliteBaseGap: 0, eliteFavoriteProb: won ? 1 : 0 };
       this.finalizePendingCompetition(pc);
       s.pendingCompetition = null;
     }
-    s.pendingCompetition = pc;
+    // Only keep pending competition if it wasn't just cleared (match/bracket finished)
+    if (s.pendingCompetition != null) s.pendingCompetition = pc;
     this.saveRng();
     return true;
   }
 
+  /** Add a finished match to the career record. Wrestle-offs are inside the room and don't count. */
+  private countCompetitionMatch(pc: PendingCompetitionState, won: boolean, method: string): void {
+    if (pc.kind === 'wrestleoff') return;
+    this.countMatchResult(won, method);
+    if (method === 'Med. Forfeit') return;
+    this.gainStyleExperience(this.ruleSetFor(pc.offseasonEventKey), 1);
+    this.recordOpponentBout(pc.current.opponent, pc.phaseLabel, won, method);
+  }
+
+  /** The history entry for an NPC, created on first meeting; name, style and rating stay current. */
+  private opponentHistoryEntry(o: Opponent): OpponentHistory | null {
+    if (isPlaceholderOpponent(o.id)) return null;
+    const s = this.state;
+    s.opponentHistory = s.opponentHistory ?? {};
+    const key = opponentHistoryKey(o);
+    const entry = s.opponentHistory[key] ?? { id: o.id, name: o.name, style: o.style, overallRating: o.overallRating, bouts: [], bracketsSeen: 0, scouted: false };
+    entry.style = o.style;
+    entry.overallRating = o.overallRating;
+    s.opponentHistory[key] = entry;
+    return entry;
+  }
+
+  /** Count a shared bracket for opponents already in the history; entrants you never wrestle or scout stay out of it. */
+  private countBracketSeen(opponents: Opponent[]): void {
+    for (const o of opponents) {
+      const entry = this.state.opponentHistory?.[opponentHistoryKey(o)];
+      if (entry) entry.bracketsSeen++;
+    }
+  }
+
+  private recordOpponentBout(o: Opponent, event: string, won: boolean, method: string): void {
+    const entry = this.opponentHistoryEntry(o);
+    if (entry) entry.bouts.push({ year: this.state.year, week: this.state.week, event, won, method });
+  }
+
+  /** What you know about an opponent: your record against them, and their tendencies once scouted. */
+  getScoutingReport(o: Opponent): ScoutingReport {
+    const entry = this.state.opponentHistory?.[opponentHistoryKey(o)];
+    const bouts = entry?.bouts ?? [];
+    const report: ScoutingReport = {
+      name: o.name,
+      overallRating: o.overallRating,
+      wins: bouts.filter((b) => b.won).length,
+      losses: bouts.filter((b) => !b.won).length,
+      bouts: bouts.slice(-SCOUTING_REPORT_BOUTS).reverse(),
+      bracketsSeen: entry?.bracketsSeen ?? 0,
+      scouted: !!entry?.scouted,
+    };
+    if (!entry?.scouted) return report;
+    const even = { style: o.style, clutch: o.clutch ?? 50, period: 1 as const, overtime: false, lead: 0, momentum: 0 };
+    const feet = opponentIntentWeights({ ...even, onTop: false });
+    const top = opponentIntentWeights({ ...even, onTop: true });
+    const share = (w: Record<string, number>, k: string) => w[k]! / Object.values(w).reduce((sum, x) => sum + x, 0);
+    return {
+      ...report,
+      style: o.style,
+      tendencies: OPPONENT_INTENTS.map((intent) => ({ intent, share: share(intent === 'ride' ? top : feet, intent) })),
+    };
+  }
+
+  /** Scouting report on the opponent of the match waiting to be wrestled, if any. */
+  getPendingScoutingReport(): ScoutingReport | null {
+    const pc = this.state.pendingCompetition;
+    return pc?.current && !pc.finished ? this.getScoutingReport(pc.current.opponent) : null;
+  }
+
+  /**
+   * Study film on the next opponent before the match starts: a film session (study_film's hours and effects) that
+   * reveals their tendencies for good and gives the minigame's answers to them a small edge.
+   */
+  scoutPendingOpponent(): { success: boolean; message: string } {
+    const s = this.state;
+    const pc = s.pendingCompetition;
+    if (!pc?.current || pc.finished) return { success: false, message: 'No match waiting to be scouted.' };
+    if (pc.current.matchState.logs.length > 0) return { success: false, message: 'The match has already started.' };
+    const entry = this.opponentHistoryEntry(pc.current.opponent);
+    if (!entry) return { success: false, message: 'No film on this opponent.' };
+    if (entry.scouted) return { success: false, message: `You've already scouted ${entry.name}.` };
+    const hours = UnifiedEngine.HOURS_COST.study_film;
+    if ((s.hoursLeftThisWeek ?? HOURS_PER_WEEK) < hours) return { success: false, message: `Scouting takes ${hours} hours of film; you don't have them this week.` };
+    this.applyChoice('study_film');
+    entry.scouted = true;
+    pc.current.matchState.opp.scouted = true;
+    pc.current.prompt = generateExchangePrompt(pc.current.matchState, { timerSeconds: pc.current.timerSeconds });
+    addStory(s, `You broke down film on ${entry.name}: a ${entry.style}.`);
+    this.saveRng();
+    return { success: true, message: `Scouted ${entry.name} — ${entry.style}.` };
+  }
+
+  /** Record a win or loss. Falls, techs and majors count as bonus wins; defaults, forfeits and DQs don't. */
+  private countMatchResult(won: boolean, method = ''): void {
+    const s = this.state;
+    if (won) {
+      s.stats.matchesWon++;
+      s.stats.seasonWins++;
+      const record = HS_LEAGUES.includes(s.league) ? s.stats.hsRecord : s.stats.collegeRecord;
+      record.matchesWon++;
+      if (/^fall$/i.test(method)) {
+        s.stats.pins++;
+        s.stats.seasonPins++;
+        record.pins = (record.pins ?? 0) + 1;
+      } else if (/^tech$/i.test(method)) {
+        s.stats.techs++;
+        s.stats.seasonTechs++;
+        record.techs = (record.techs ?? 0) + 1;
+      } else if (/^major$/i.test(method)) {
+        s.stats.majors++;
+        s.stats.seasonMajors++;
+        record.majors = (record.majors ?? 0) + 1;
+      }
+    } else {
+      s.stats.matchesLost++;
+      s.stats.seasonLosses++;
+      if (HS_LEAGUES.includes(s.league)) s.stats.hsRecord.matchesLost++;
+      else s.stats.collegeRecord.matchesLost++;
+    }
+  }
+
   playPendingCompetitionAction(actionKey: string, opts?: { timedOut?: boolean }): boolean {
     const s = this.state;
-    const pc = s.pendingCompetition ?? null;
+    const pc = s.pendingCompetition;
     if (!pc || !pc.current) return false;
     if (pc.finished) return false;
 
     const timedOut = !!opts?.timedOut;
+    const severityBefore = pc.current.matchState.my.injurySeverity;
     const res = resolveExchange(
       pc.current.matchState,
       actionKey,
@@ -1320,6 +2028,8 @@ export class UnifiedEngine {
     );
     pc.current.matchState = res.state;
     if (res.nextPrompt) pc.current.prompt = res.nextPrompt;
+    // Tweaks in the scramble only wear on health; hurt badly enough to need injury time is a real injury.
+    if (res.logEntry.injured && severityBefore < INJURY_DEFAULT_THRESHOLD && res.state.my.injurySeverity >= INJURY_DEFAULT_THRESHOLD) this.sustainInjury('match');
 
     // If match finished, commit the match and either advance bracket or finish competition.
     if (res.state.finished && res.state.result) {
@@ -1340,25 +2050,19 @@ export class UnifiedEngine {
       // Persist energy/health from the minigame match state
       s.energy = clamp(0, 100, Math.round(res.state.my.energy));
       s.health = clamp(0, 100, Math.round(100 - clamp(0, 1, res.state.my.injurySeverity) * 100));
+      // Same chance of getting hurt as a simulated bout.
+      this.rollForInjury('match', MATCH_INJURY_CHANCE);
 
-      // Update record per match (applies to all competition kinds)
-      if (completed.won) {
-        s.stats.matchesWon++;
-        s.stats.seasonWins++;
-        if (HS_LEAGUES.includes(s.league)) s.stats.hsRecord.matchesWon++;
-        else s.stats.collegeRecord.matchesWon++;
-      } else {
-        s.stats.matchesLost++;
-        s.stats.seasonLosses++;
-        if (HS_LEAGUES.includes(s.league)) s.stats.hsRecord.matchesLost++;
-        else s.stats.collegeRecord.matchesLost++;
-      }
+      this.countCompetitionMatch(pc, completed.won, completed.method);
 
-      // Decide next step based on competition type
+      // Decide next step based on competition type; defaulting out of a bout forfeits the rest of the event
+      const forfeitRest = r.defaultedBy === 'me' || this.injuryStatus() === 'out';
       if (pc.bracket) {
         this.advancePendingBracket(pc, completed.won);
+        if (forfeitRest) this.medicalForfeitRest(pc);
       } else if (pc.queue) {
         this.advancePendingQueue(pc);
+        if (forfeitRest) this.medicalForfeitRest(pc);
       } else {
         pc.finalResult = r;
         pc.finished = true;
@@ -1375,13 +2079,63 @@ export class UnifiedEngine {
     return true;
   }
 
-  private toMinigameWrestlerFromPlayer(): MinigameWrestler {
+  /** Medical forfeit: every remaining bout of the event is a forfeit loss once you've defaulted out or been ruled out. */
+  private medicalForfeitRest(pc: PendingCompetitionState): void {
+    const s = this.state;
+    if (s.pendingCompetition !== pc || pc.finished) return;
+    addStory(s, `Medical forfeit — you're out of the rest of ${pc.phaseLabel}.`);
+    while (s.pendingCompetition === pc && !pc.finished) {
+      const current = pc.current;
+      pc.completed.push({
+        roundLabel: current.roundLabel,
+        opponentName: current.opponent.name,
+        opponentOverall: current.opponent.overallRating,
+        won: false,
+        method: 'Med. Forfeit',
+        myScore: 0,
+        oppScore: 0,
+        exchangeLog: [],
+      });
+      this.countCompetitionMatch(pc, false, 'Med. Forfeit');
+      if (pc.bracket) this.advancePendingBracket(pc, false);
+      else if (pc.queue) this.advancePendingQueue(pc);
+      else break;
+    }
+  }
+
+  /** Rule set of an event: offseason events pick their own, everything in season is folkstyle. */
+  private ruleSetFor(offseasonEventKey?: string): RuleSet {
+    return (offseasonEventKey ? OFFSEASON_EVENTS[offseasonEventKey]?.ruleSet : undefined) ?? 'folkstyle';
+  }
+
+  /** Technique under a rule set: folkstyle is the base stat; freestyle and Greco average it with that style's rating. */
+  private styleTechnique(ruleSet: RuleSet): number {
+    const technique = this.state.technique ?? 50;
+    if (ruleSet === 'folkstyle') return technique;
+    return Math.round((technique + (this.state.styleRatings?.[ruleSet] ?? technique)) / 2);
+  }
+
+  /** Overall rating under a rule set: shifted by how far the style's technique sits from folkstyle technique. */
+  private styleOverall(ruleSet: RuleSet): number {
+    const overall = this.state.overallRating ?? 50;
+    return clamp(0, 100, Math.round(overall + (this.styleTechnique(ruleSet) - (this.state.technique ?? 50)) * 0.3));
+  }
+
+  /** Bouts wrestled in freestyle or Greco build that style's rating. */
+  private gainStyleExperience(ruleSet: RuleSet, matches: number): void {
+    if (ruleSet === 'folkstyle' || matches <= 0) return;
+    const s = this.state;
+    s.styleRatings = s.styleRatings ?? { ...DEFAULT_STYLE_RATINGS };
+    s.styleRatings[ruleSet] = Math.min(99, s.styleRatings[ruleSet] + matches * STYLE_RATING_PER_MATCH);
+  }
+
+  private toMinigameWrestlerFromPlayer(ruleSet: RuleSet = 'folkstyle'): MinigameWrestler {
     const s = this.state;
     const injurySeverity = clamp(0, 1, (100 - (s.health ?? 100)) / 100);
     return {
       name: s.name ?? 'You',
-      overallRating: s.overallRating ?? 50,
-      technique: s.technique ?? 50,
+      overallRating: this.styleOverall(ruleSet),
+      technique: this.styleTechnique(ruleSet),
       matIQ: s.matIQ ?? 50,
       conditioning: s.conditioning ?? 50,
       strength: s.strength ?? 50,
@@ -1389,9 +2143,18 @@ export class UnifiedEngine {
       flexibility: s.flexibility ?? 50,
       energy: s.energy ?? 100,
       injurySeverity,
+      cutSeverity: this.currentCutSeverity(),
+      wrapped: this.injuryStatus() !== 'healthy',
     };
   }
 
+  /** Cut severity from this week's weigh-in, carried into every match of the event. */
+  private currentCutSeverity(): number {
+    const s = this.state;
+    const w = s.bodyWeight.lastWeighIn;
+    return w && w.made && w.week === s.week && w.year === s.year ? w.cutSeverity : 0;
+  }
+
   private toMinigameWrestlerFromOpponent(o: Opponent): MinigameWrestler {
     const base = o.overallRating ?? 60;
     const style = o.style ?? 'grinder';
@@ -1414,15 +2177,19 @@ export class UnifiedEngine {
       flexibility,
       energy: 80,
       injurySeverity: 0,
+      style,
+      clutch: o.clutch ?? 50,
+      ...(this.state.opponentHistory?.[opponentHistoryKey(o)]?.scouted ? { scouted: true } : {}),
     };
   }
 
   private startPendingSingleMatch(kind: CompetitionKind, phaseLabel: string, eventType: WeekSummary['eventType'], opponent: Opponent, roundLabel: string, offseasonEventKey?: string): void {
     const s = this.state;
     const id = `comp_${kind}_${s.year}_${s.week}_${this.rng.next()}`;
-    const my = this.toMinigameWrestlerFromPlayer();
+    const ruleSet = this.ruleSetFor(offseasonEventKey);
+    const my = this.toMinigameWrestlerFromPlayer(ruleSet);
     const opp = this.toMinigameWrestlerFromOpponent(opponent);
-    const matchState = createInitialMinigameState(my, opp, 'NEUTRAL');
+    const matchState = createInitialMinigameState(my, opp, 'NEUTRAL', REFEREE_STRICTNESS[kind], ruleSet);
     const prompt = generateExchangePrompt(matchState, { timerSeconds: DECISION_TIMER_SECONDS });
     const current: PendingCompetitionMatch = {
       id,
@@ -1450,22 +2217,20 @@ export class UnifiedEngine {
     addStory(s, `${phaseLabel}: Match vs ${opponent.name} (${opponent.overallRating}). Play the 3-period minigame.`);
   }
 
-  private startPendingBracketCompetition(kind: CompetitionKind, phaseLabel: string, eventType: WeekSummary['eventType'], opponents: Opponent[], offseasonEventKey?: string, bracketSize: 8 | 16 = 8): void {
+  private startPendingBracketCompetition(kind: CompetitionKind, phaseLabel: string, eventType: WeekSummary['eventType'], entrants: BracketEntrant[], offseasonEventKey?: string): void {
     const s = this.state;
-    const needOpponents = bracketSize === 16 ? 15 : 7;
-    const list = [...opponents];
-    while (list.length < needOpponents) list.push({ id: 'pad', name: 'Opponent', overallRating: 70, style: 'grinder', clutch: 50 });
-    const bracketOpponents = list.slice(0, needOpponents);
-    const phase: PendingBracketPhase = bracketSize === 16 ? 'R16' : 'QF';
-    const bracket: PendingBracketState = { size: bracketSize, phase, opponents: bracketOpponents, opponentIndex: 0 };
-    const opp = bracket.opponents[bracket.opponentIndex++]!;
-    const my = this.toMinigameWrestlerFromPlayer();
+    const ruleSet = this.ruleSetFor(offseasonEventKey);
+    const bracket: PendingBracketState = { ...createBracket(entrants), phase: 'DONE' };
+    const bout = this.wrestleBracket(bracket, ruleSet)!;
+    bracket.phase = bout.round;
+    const opp = this.bracketOpponent(bracket, bout);
+    const my = this.toMinigameWrestlerFromPlayer(ruleSet);
     const oppW = this.toMinigameWrestlerFromOpponent(opp);
-    const matchState = createInitialMinigameState(my, oppW, 'NEUTRAL');
+    const matchState = createInitialMinigameState(my, oppW, 'NEUTRAL', REFEREE_STRICTNESS[kind], ruleSet);
     const prompt = generateExchangePrompt(matchState, { timerSeconds: DECISION_TIMER_SECONDS });
     const current: PendingCompetitionMatch = {
       id: `comp_${kind}_${s.year}_${s.week}_${this.rng.next()}`,
-      roundLabel: this.bracketRoundLabel(bracket.phase),
+      roundLabel: bracketRoundLabel(bracket, bout.round),
       opponent: opp,
       position: 'NEUTRAL',
       matchState,
@@ -1495,7 +2260,7 @@ export class UnifiedEngine {
     const id = `comp_${kind}_${s.year}_${s.week}_${this.rng.next()}`;
     const my = this.toMinigameWrestlerFromPlayer();
     const oppW = this.toMinigameWrestlerFromOpponent(first.opponent);
-    const matchState = createInitialMinigameState(my, oppW, 'NEUTRAL');
+    const matchState = createInitialMinigameState(my, oppW, 'NEUTRAL', REFEREE_STRICTNESS[kind]);
     const prompt = generateExchangePrompt(matchState, { timerSeconds: DECISION_TIMER_SECONDS });
     const current: PendingCompetitionMatch = {
       id,
@@ -1521,118 +2286,29 @@ export class UnifiedEngine {
     addStory(s, `${phaseLabel}: Multiple matches this week. Play them one by one.`);
   }
 
-  private bracketRoundLabel(phase: PendingBracketPhase): string {
-    switch (phase) {
-      case 'R16':
-        return 'R16';
-      case 'QF':
-        return 'Quarterfinal';
-      case 'SF':
-        return 'Semifinal';
-      case 'WB_FINAL':
-        return "Winner's Final";
-      case 'FINAL':
-        return 'Final';
-      case 'RESET':
-        return 'Bracket reset';
-      case 'LB_FINAL':
-        return 'LB Final';
-      case 'CONS_R1':
-        return 'Consolation R1';
-      case 'CONS_R2':
-        return 'Consolation R2';
-      case 'CONS_R3':
-        return 'Consolation R3';
-      case 'CONS_R4':
-        return 'Consolation R4';
-      case 'THIRD_FOURTH':
-        return '3rd/4th';
-      default:
-        return 'Match';
-    }
-  }
-
+  /** Record your bout in the bracket, wrestle everyone else's up to your next one, and set it up (or finish the event). */
   private advancePendingBracket(pc: PendingCompetitionState, won: boolean): void {
     const b = pc.bracket;
     if (!b) return;
     if (b.phase === 'DONE') return;
 
     const s = this.state;
-    const is16 = b.size === 16;
-    const consWins = (pc.completed ?? []).filter((m) => m.roundLabel.includes('Consolation')).length;
-
-    switch (b.phase) {
-      case 'R16':
-        b.phase = won ? 'QF' : 'CONS_R1';
-        break;
-      case 'QF':
-        b.phase = won ? 'SF' : 'CONS_R1';
-        break;
-      case 'CONS_R1':
-        if (!won) {
-          b.phase = 'DONE';
-          b.placement = this.rng.chance(0.5) ? (is16 ? 15 : 7) : (is16 ? 16 : 8);
-        } else {
-          b.phase = 'CONS_R2';
-        }
-        break;
-      case 'CONS_R2':
-        if (!won) {
-          b.phase = 'DONE';
-          b.placement = is16
-            ? (consWins === 1 ? (this.rng.chance(0.5) ? 13 : 14) : (this.rng.chance(0.5) ? 5 : 6))
-            : (this.rng.chance(0.5) ? 5 : 6);
-        } else {
-          b.phase = is16 ? 'CONS_R3' : 'THIRD_FOURTH';
-        }
-        break;
-      case 'CONS_R3':
-        if (!won) {
-          b.phase = 'DONE';
-          b.placement = this.rng.chance(0.5) ? 11 : 12;
-        } else {
-          b.phase = 'CONS_R4';
-        }
-        break;
-      case 'CONS_R4':
-        if (!won) {
-          b.phase = 'DONE';
-          b.placement = this.rng.chance(0.5) ? 9 : 10;
-        } else {
-          b.phase = 'THIRD_FOURTH';
-        }
-        break;
-      case 'THIRD_FOURTH':
-        b.phase = 'DONE';
-        b.placement = won ? 3 : 4;
-        break;
-      case 'SF':
-        b.phase = won ? 'WB_FINAL' : (is16 ? 'CONS_R2' : 'CONS_R2');
-        break;
-      case 'WB_FINAL':
-        b.phase = won ? 'FINAL' : 'LB_FINAL';
-        break;
-      case 'LB_FINAL':
-        if (!won) {
-          b.phase = 'DONE';
-          b.placement = 2;
-        } else {
-          b.phase = 'RESET';
-        }
-        break;
-      case 'FINAL':
-        b.phase = won ? 'DONE' : 'RESET';
-        if (won) b.placement = 1;
-        break;
-      case 'RESET':
-        b.phase = 'DONE';
-        b.placement = won ? 1 : 2;
-        break;
-      default:
-        break;
-    }
-
-    if (b.phase === 'DONE') {
+    const bout = nextBracketBout(b)!;
+    const seed = bracketPlayerSeed(b);
+    const ruleSet = this.ruleSetFor(pc.offseasonEventKey);
+    const last = pc.completed[pc.completed.length - 1];
+    const method = last?.method ?? 'Dec';
+    const played = last != null && last.exchangeLog.length > 0;
+    const score = played
+      ? (won ? { winner: last.myScore, loser: last.oppScore } : { winner: last.oppScore, loser: last.myScore })
+      : simulatedScore(method, ruleSet, this.rng);
+    decideBracketBout(b, bout, won ? seed : (bout.top === seed ? bout.bottom! : bout.top!), method, score);
+
+    const next = this.wrestleBracket(b, ruleSet);
+    if (pc.teamBrackets) this.wrestleTeamBrackets(pc.teamBrackets, b, ruleSet);
+    if (!next) {
+      b.phase = 'DONE';
+      b.placement = b.entrants[seed - 1]!.place;
       pc.finished = true;
       pc.placement = b.placement;
       this.finalizePendingCompetition(pc);
@@ -1641,14 +2317,15 @@ export class UnifiedEngine {
     }
 
     // Set up next match in bracket
-    const nextOpp = b.opponents[b.opponentIndex++] ?? { id: 'pad', name: 'Opponent', overallRating: 70, style: 'grinder', clutch: 50 };
-    const my = this.toMinigameWrestlerFromPlayer();
+    b.phase = next.round;
+    const nextOpp = this.bracketOpponent(b, next);
+    const my = this.toMinigameWrestlerFromPlayer(ruleSet);
     const oppW = this.toMinigameWrestlerFromOpponent(nextOpp);
-    const matchState = createInitialMinigameState(my, oppW, 'NEUTRAL');
+    const matchState = createInitialMinigameState(my, oppW, 'NEUTRAL', REFEREE_STRICTNESS[pc.kind], ruleSet);
     const prompt = generateExchangePrompt(matchState, { timerSeconds: DECISION_TIMER_SECONDS });
     pc.current = {
       id: `comp_${pc.kind}_${pc.year}_${pc.week}_${this.rng.next()}`,
-      roundLabel: this.bracketRoundLabel(b.phase),
+      roundLabel: bracketRoundLabel(b, next.round),
       opponent: nextOpp,
       position: 'NEUTRAL',
       matchState,
@@ -1662,16 +2339,19 @@ export class UnifiedEngine {
     const q = pc.queue;
     if (!q) return;
     q.index++;
-    if (q.index >= q.matches.length) {
+    const wins = pc.completed.filter((m) => m.won).length;
+    const seriesDecided = pc.kind === 'wrestleoff' && Math.max(wins, pc.completed.length - wins) >= WRESTLE_OFF_WINS;
+    if (q.index >= q.matches.length || seriesDecided) {
       pc.finished = true;
       this.finalizePendingCompetition(pc);
       this.state.pendingCompetition = null;
       return;
     }
     const next = q.matches[q.index]!;
-    const my = this.toMinigameWrestlerFromPlayer();
+    const ruleSet = this.ruleSetFor(pc.offseasonEventKey);
+    const my = this.toMinigameWrestlerFromPlayer(ruleSet);
     const oppW = this.toMinigameWrestlerFromOpponent(next.opponent);
-    const matchState = createInitialMinigameState(my, oppW, 'NEUTRAL');
+    const matchState = createInitialMinigameState(my, oppW, 'NEUTRAL', REFEREE_STRICTNESS[pc.kind], ruleSet);
     const prompt = generateExchangePrompt(matchState, { timerSeconds: DECISION_TIMER_SECONDS });
     pc.current = {
       id: `comp_${pc.kind}_${pc.year}_${pc.week}_${this.rng.next()}`,
@@ -1723,25 +2403,7 @@ export class UnifiedEngine {
       }
       s.stateQualified = false;
     } else if (pc.kind === 'ncaa') {
-      const m = pc.completed[pc.completed.length - 1]!;
-      const place = m.won ? 1 : 2;
-      s.stats.ncaaAppearances++;
-      s.stats.collegeRecord.ncaaAppearances++;
-      s.stats.ncaaPlacements.push(place);
-      summary.eventType = 'state';
-      summary.placement = place;
-      if (place === 1) {
-        s.stats.ncaaTitles++;
-        s.stats.collegeRecord.ncaaTitles++;
-        s.accolades.push('NCAA Champion (Year ' + s.year + ')');
-        s.money = (s.money ?? 0) + 150_000;
-        summary.message.push('NCAA CHAMPION! $150,000 bonus.');
-      } else {
-        s.stats.ncaaAllAmerican++;
-        s.stats.collegeRecord.ncaaAllAmerican++;
-        summary.message.push('NCAA finals: 2nd, All-American.');
-      }
-      s.ncaaQualified = false;
+      this.recordNcaaFinish(summary, pc.placement ?? (pc.completed[pc.completed.length - 1]?.won ? 1 : 2));
     }
 
     // Offseason event rewards/placement logging
@@ -1786,7 +2448,18 @@ export class UnifiedEngine {
       }
     }
 
-    if (pc.kind === 'dual') {
+    if (pc.kind === 'wrestleoff') {
+      summary.eventType = 'wrestleoff';
+      const opponent = pc.completed[0]?.opponentName ?? 'your teammate';
+      const wc = s.weightClass ?? 145;
+      summary.matches = pc.completed.map((m) => ({ opponentName: `${m.opponentName} (${m.roundLabel})`, opponentOverall: m.opponentOverall, won: m.won, method: m.method }));
+      if (wins >= WRESTLE_OFF_WINS) {
+        this.promotePlayerInDepthChart();
+        summary.message.push(`Won the wrestle-off ${wins}-${losses} over ${opponent}. ${this.isStarterAtWeight() ? `You're the starter at ${wc}.` : `You moved up the depth chart at ${wc}.`}`);
+      } else {
+        summary.message.push(`Lost the wrestle-off ${wins}-${losses} to ${opponent}. You're the backup at ${wc} — you'll wrestle opens until the next wrestle-off.`);
+      }
+    } else if (pc.kind === 'dual') {
       summary.eventType = 'dual';
       summary.matches = (pc.completed ?? []).map((m) => ({
         opponentName: pc.completed.length > 1 ? `${m.opponentName} (${m.roundLabel})` : m.opponentName,
@@ -1801,6 +2474,7 @@ export class UnifiedEngine {
       } else {
         summary.message.push(`${pc.phaseLabel}: ${wins}-${losses} in duals this week.`);
       }
+      if (pc.collegeDuals) this.recordCollegeDuals(summary, pc.collegeDuals, pc.completed);
     } else {
       // Tournament-style (including offseason brackets)
       summary.eventType = pc.eventType ?? 'tournament';
@@ -1812,9 +2486,17 @@ export class UnifiedEngine {
       }));
       summary.recordChange = { wins, losses };
       if (pc.placement != null) summary.placement = pc.placement;
+      if (pc.bracket) {
+        summary.bracket = { size: pc.bracket.size, entrants: pc.bracket.entrants, bouts: pc.bracket.bouts };
+        this.recordBracketForNpcs(pc.bracket);
+      }
       if (pc.kind !== 'district' && pc.kind !== 'state' && pc.kind !== 'ncaa') {
         summary.message.push(`${pc.phaseLabel}: ${wins}-${losses}.${pc.placement != null ? ` Placed ${pc.placement}.` : ''}`);
       }
+      if (pc.bracket && pc.teamBrackets) {
+        pc.teamBrackets.forEach((b) => this.recordBracketForNpcs(b));
+        this.recordTeamRace(summary, pc.phaseLabel, [pc.bracket, ...pc.teamBrackets]);
+      }
     }
 
     // Detailed exchange logs (3 per match)
@@ -1825,8 +2507,12 @@ export class UnifiedEngine {
         const injA = Math.round((ex.myInjuryAfter ?? 0) * 100);
         const timed = ex.timedOut ? ' (TIMER EXPIRED)' : '';
         const timerFail = ex.timerFailureScored ? ' TIMER FAILURE: gave up points.' : '';
+        const scores = ex.scoring
+          ? ex.scoring.map((e) => `${e.by === 'me' ? 'You' : 'Them'} ${formatScoringEvent(e)}`).join(', ') || 'no score'
+          : `${ex.pointsFor}-${ex.pointsAgainst}`;
+        const rt = ex.ridingTime ? ` RT ${ex.ridingTime > 0 ? 'You' : 'Them'} ${formatRidingTime(ex.ridingTime)}` : '';
         summary.message.push(
-          `P${ex.period} ${ex.position}: ${ex.actionLabel}${timed} — ${ex.success ? 'SUCCESS' : 'FAIL'} (${ex.pointsFor}-${ex.pointsAgainst}) Energy ${Math.round(ex.myEnergyBefore)}→${Math.round(ex.myEnergyAfter)} Injury ${injB}→${injA}%${timerFail}`
+          `${ex.overtime ?? `P${ex.period}`} ${ex.position}: ${ex.actionLabel}${timed} — ${ex.success ? 'SUCCESS' : 'FAIL'} (${scores})${rt} Energy ${Math.round(ex.myEnergyBefore)}→${Math.round(ex.myEnergyAfter)} Injury ${injB}→${injA}%${timerFail}`
         );
       }
     }
@@ -1834,14 +2520,10 @@ export class UnifiedEngine {
     s.lastWeekSummary = summary;
     addStory(s, summary.message[0] ?? pc.phaseLabel);
 
-    // Conference qualification (after bracket completion)
-    if (isInCollege(s) && /conference/i.test(pc.phaseLabel) && pc.placement != null) {
-      const dnp = wins <= 1;
-      s.ncaaQualified = !dnp && pc.placement <= CONFERENCE_QUALIFY_TOP;
-      if (s.ncaaQualified) {
-        summary.message.push('Qualified for NCAA Championships!');
-        addStory(s, 'Qualified for NCAA Championships!');
-      }
+    // NCAA automatic bid (after bracket completion)
+    if (pc.conferenceQualifyTop != null && pc.bracket) {
+      this.recordConferenceFinish(summary, pc.bracket, pc.conferenceQualifyTop);
+      if (s.ncaaQualified) addStory(s, 'Qualified for NCAA Championships!');
     }
 
     // Recruiting updates after HS competition weeks
@@ -1854,7 +2536,7 @@ export class UnifiedEngine {
   canEnterTransferPortal(): boolean {
     const s = this.state;
     if (HS_LEAGUES.indexOf(s.league) !== -1) return false;
-    if ((s.eligibilityYearsRemaining ?? 0) <= 0) return false;
+    if (s.eligibilityYearsRemaining <= 0) return false;
     return !s.transferPortalActive;
   }
 
@@ -1872,7 +2554,7 @@ export class UnifiedEngine {
   requestTransferOffer(schoolId: string): { success: boolean; message: string } {
     const s = this.state;
     if (!s.transferPortalActive) return { success: false, message: 'Not in the transfer portal.' };
-    const existing = (s.transferOffers ?? []).find((o: CollegeOffer) => o.schoolId === schoolId);
+    const existing = s.transferOffers.find((o: CollegeOffer) => o.schoolId === schoolId);
     if (existing) return { success: false, message: 'You already have an offer from this school.' };
     const currentName = (s.collegeName ?? '').toLowerCase();
     const sc = SCHOOLS.find((x) => x.id === schoolId);
@@ -1893,7 +2575,6 @@ export class UnifiedEngine {
     const chance = clamp(0.15, 0.85, cfg.baseChance * 0.9 + needNorm * 0.2 + ratingNorm * 0.25);
     if (this.rng.float() > chance) return { success: false, message: `${sc.name}: Passed for now.` };
     const offer = this.buildTransferOffer(sc, collegeWc, rating, s.week ?? 1, s.year ?? 1);
-    if (!Array.isArray(s.transferOffers)) s.transferOffers = [];
     s.transferOffers.push(offer);
     this.saveRng();
     return { success: true, message: `${sc.name} sent you a transfer offer.` };
@@ -1971,7 +2652,7 @@ export class UnifiedEngine {
   }
 
   getTransferOffers(): CollegeOffer[] {
-    return Array.isArray(this.state.transferOffers) ? (this.state.transferOffers as CollegeOffer[]) : [];
+    return this.state.transferOffers;
   }
 
   negotiateTransferOffer(schoolId: string, request: { moreTuition?: boolean; moreNIL?: boolean }): { success: boolean; message: string; kind?: 'tuition' | 'nil' } {
@@ -1982,7 +2663,7 @@ export class UnifiedEngine {
     if (idx < 0 || !request.moreTuition && !request.moreNIL) return { success: false, message: 'No offer or invalid request.', kind };
     const school = SCHOOLS.find((sc) => sc.id === schoolId);
     if (!school) return { success: false, message: 'School not found.', kind };
-    const attempts = s.negotiationAttempts?.[schoolId] ?? { tuition: 0, nil: 0 };
+    const attempts = s.negotiationAttempts[schoolId] ?? { tuition: 0, nil: 0 };
     const used = kind === 'tuition' ? attempts.tuition : attempts.nil;
     if (used >= 2) {
       this.saveRng();
@@ -2012,7 +2693,6 @@ export class UnifiedEngine {
       updated.nilAnnual = Math.min(cap, offer.nilAnnual + bump);
     }
     (s.transferOffers as CollegeOffer[])[idx] = updated;
-    if (!s.negotiationAttempts) s.negotiationAttempts = {};
     if (!s.negotiationAttempts[schoolId]) s.negotiationAttempts[schoolId] = { tuition: 0, nil: 0 };
     if (request.moreTuition) s.negotiationAttempts[schoolId].tuition++;
     if (request.moreNIL) s.negotiationAttempts[schoolId].nil++;
@@ -2035,7 +2715,9 @@ export class UnifiedEngine {
     s.transferOffers = [];
     s.collegeSchedule = this.generateCollegeSchedule();
     s.collegeRoster = this.generateCollegeRoster();
+    s.teamDualRecord = { wins: 0, losses: 0, ties: 0 };
     addStory(s, `You transferred from ${prevName ?? 'your previous school'} to ${school.name}.`);
+    this.startWrestleOffIfBackup('Wrestle-off');
     this.saveRng();
     return true;
   }
@@ -2066,7 +2748,7 @@ export class UnifiedEngine {
     s.weeksInCollege = 0;
     s.eligibilityYearsRemaining = 4;
     const oldWeight = s.weightClass ?? 145;
-    s.weightClass = this.mapToCollegeWeight(oldWeight);
+    s.weightClass = Math.max(this.mapToCollegeWeight(oldWeight), this.getMakeableWeightClass());
     const bump = () => this.rng.int(1, 3);
     s.technique = Math.min(100, (s.technique ?? 50) + bump());
     s.matIQ = Math.min(100, (s.matIQ ?? 50) + bump());
@@ -2077,7 +2759,12 @@ export class UnifiedEngine {
     updateRating(s);
     s.collegeSchedule = this.generateCollegeSchedule();
     s.collegeRoster = this.generateCollegeRoster();
+    s.teamDualRecord = { wins: 0, losses: 0, ties: 0 };
     addStory(s, `You're committed to ${school.name}! You're now at ${s.weightClass} lbs (college weights). Attributes and overall updated for the next level.`);
+    s.collegeSeasonStatus = 'active';
+    s.seasonInjuredWeek = null;
+    this.considerCoachRedshirt();
+    this.startWrestleOffIfBackup('Preseason wrestle-off');
     this.computeRecruitingScore();
     this.saveRng();
     return true;
@@ -2091,7 +2778,7 @@ export class UnifiedEngine {
     if (idx < 0 || !request.moreTuition && !request.moreNIL) return { success: false, message: 'No offer or invalid request.', kind };
     const school = SCHOOLS.find((sc) => sc.id === schoolId);
     if (!school) return { success: false, message: 'School not found.', kind };
-    const attempts = s.negotiationAttempts?.[schoolId] ?? { tuition: 0, nil: 0 };
+    const attempts = s.negotiationAttempts[schoolId] ?? { tuition: 0, nil: 0 };
     const used = kind === 'tuition' ? attempts.tuition : attempts.nil;
     if (used >= 2) {
       this.saveRng();
@@ -2121,7 +2808,6 @@ export class UnifiedEngine {
       updated.nilAnnual = Math.min(cap, offer.nilAnnual + bump);
     }
     (s.offers as CollegeOffer[])[idx] = updated;
-    if (!s.negotiationAttempts) s.negotiationAttempts = {};
     if (!s.negotiationAttempts[schoolId]) s.negotiationAttempts[schoolId] = { tuition: 0, nil: 0 };
     if (request.moreTuition) s.negotiationAttempts[schoolId].tuition++;
     if (request.moreNIL) s.negotiationAttempts[schoolId].nil++;
@@ -2129,52 +2815,14 @@ export class UnifiedEngine {
     return { success: true, message: 'They increased the offer.', kind };
   }
 
+  /** This year's HS field at a weight, from the NPC universe: the top 5 are nationally ranked, the next 10 state ranked. */
   private generateOpponentPools(weightClass: number): OpponentPools {
-    const first = ['Jake', 'Kyle', 'David', 'Ryan', 'Cole', 'Blake', 'Mason', 'Hunter', 'Chase', 'Tyler'];
-    const last = ['Smith', 'Johnson', 'Brown', 'Davis', 'Wilson', 'Moore', 'Taylor', 'Anderson', 'Thomas', 'Jackson'];
-    const styles: Opponent['style'][] = ['grinder', 'scrambler', 'defensive'];
-    const unranked: Opponent[] = [];
-    for (let i = 0; i < 30; i++) {
-      unranked.push({
-        id: `unr_${weightClass}_${this.rng.next()}`,
-        name: first[this.rng.next() % first.length] + ' ' + last[this.rng.next() % last.length],
-        overallRating: clamp(40, 88, 50 + (this.rng.float() - 0.5) * 50),
-        style: styles[this.rng.next() % 3],
-        clutch: this.rng.int(20, 80),
-      });
-    }
-    const stateRanked: Opponent[] = [];
-    for (let r = 1; r <= 20; r++) {
-      stateRanked.push({
-        id: `state_${weightClass}_${r}`,
-        name: first[this.rng.next() % first.length] + ' ' + last[this.rng.next() % last.length],
-        overallRating: clamp(55, 95, 60 + (this.rng.float() - 0.5) * 30),
-        stateRank: r,
-        style: styles[this.rng.next() % 3],
-        clutch: this.rng.int(30, 90),
-      });
-    }
-    stateRanked.sort((a, b) => b.overallRating - a.overallRating);
-    if (stateRanked.length > 0 && stateRanked[0].overallRating < 90) {
-      stateRanked[0] = { ...stateRanked[0], overallRating: 90 };
-    }
-    const nationalRanked: Opponent[] = [];
-    for (let r = 1; r <= 20; r++) {
-      nationalRanked.push({
-        id: `nat_${weightClass}_${r}`,
-        name: first[this.rng.next() % first.length] + ' ' + last[this.rng.next() % last.length],
-        overallRating: clamp(65, 99, 70 + (this.rng.float() - 0.5) * 25),
-        nationalRank: r,
-        stateRank: this.rng.int(1, 10),
-        style: styles[this.rng.next() % 3],
-        clutch: this.rng.int(40, 95),
-      });
-    }
-    nationalRanked.sort((a, b) => b.overallRating - a.overallRating);
-    if (nationalRanked.length > 0 && nationalRanked[0].overallRating < 90) {
-      nationalRanked[0] = { ...nationalRanked[0], overallRating: 90 };
-    }
-    return { unranked, stateRanked, nationalRanked };
+    const field = hsNpcsAtWeight(this.state.npcs, weightClass);
+    return {
+      nationalRanked: field.slice(0, 5).map((n, i) => ({ ...npcToOpponent(n), nationalRank: i + 1, stateRank: i + 1 })),
+      stateRanked: field.slice(5, 15).map((n, i) => ({ ...npcToOpponent(n), stateRank: i + 6 })),
+      unranked: field.slice(15).map(npcToOpponent),
+    };
   }
 
   private generateHSSchedule(): HSScheduleEntry[] {
@@ -2212,16 +2860,22 @@ export class UnifiedEngine {
     return generateSeasonSchedule(schoolId, coachAggressiveness, this.rng);
   }
 
+  /**
+   * Our team from the NPC universe: the school's wrestlers at every weight plus the player, best first. A weight
+   * short of two (or a school the universe doesn't know) signs walk-ons rated from our division.
+   */
   private generateCollegeRoster(): CollegeTeammate[] {
     const s = this.state;
-    const firstNames = ['James', 'Marcus', 'David', 'Ryan', 'Cole', 'Jordan', 'Alex', 'Kyle', 'Chase', 'Carter', 'Parker', 'Brooks', 'Tyler', 'Devin', 'Luke'];
+    const school = s.collegeName ?? 'College';
     const roster: CollegeTeammate[] = [];
-    const baseRating = s.league === 'D1' ? 62 : s.league === 'D2' ? 58 : s.league === 'D3' ? 56 : s.league === 'NAIA' ? 55 : 54;
+    const baseRating = npcDivisionBaseRating(s.league);
     for (const wc of COLLEGE_WEIGHT_CLASSES) {
-      const depth = 2 + (this.rng.next() % 2);
-      const atMyWeight = wc === (s.weightClass ?? 145);
-      const players: CollegeTeammate[] = [];
-      if (atMyWeight) {
+      const npcs = schoolNpcsAtWeight(s.npcs, school, wc);
+      while (npcs.length < 2) {
+        npcs.push(signCollegeWalkOn(s.npcs, this.rng, school, s.league, wc, clamp(45, 85, baseRating + this.rng.int(-8, 12))));
+      }
+      const players: CollegeTeammate[] = npcs.map((n) => ({ id: n.id, name: n.name, weightClass: wc, overallRating: n.overallRating, isPlayer: false }));
+      if (wc === (s.weightClass ?? 145)) {
         players.push({
           id: 'player',
           name: s.name,
@@ -2230,79 +2884,343 @@ export class UnifiedEngine {
           isPlayer: true,
         });
       }
-      for (let i = 0; i < depth - (atMyWeight ? 1 : 0); i++) {
-        const name = firstNames[this.rng.next() % firstNames.length] + ' ' + (this.rng.next() % 2 ? 'Smith' : 'Jones');
-        const rating = clamp(45, 85, baseRating + this.rng.int(-8, 12));
-        players.push({ id: `tm_${wc}_${i}`, name, weightClass: wc, overallRating: rating, isPlayer: false });
-      }
       players.sort((a, b) => b.overallRating - a.overallRating);
       roster.push(...players);
     }
     return roster;
   }
 
-  /** True if player is the best at their weight on the roster (starter for duals). */
+  /** True if player is first on the depth chart at their weight (starter for duals). */
   private isStarterAtWeight(): boolean {
     const s = this.state;
     const roster = s.collegeRoster ?? [];
-    const atWeight = roster.filter((r) => r.weightClass === (s.weightClass ?? 145));
-    if (atWeight.length === 0) return true;
-    const best = atWeight.reduce((a, b) => (a.overallRating >= b.overallRating ? a : b));
-    return best.isPlayer;
+    const first = roster.find((r) => r.weightClass === (s.weightClass ?? 145));
+    return !first || first.isPlayer;
   }
 
-  /** True if grades are high enough to be eligible to compete. */
-  private canWrestle(): boolean {
-    return (this.state.grades ?? 75) >= MIN_GRADES_TO_WRESTLE;
+  /**
+   * Backups challenge the teammate directly ahead of them in a best-of-three wrestle-off (preseason, on joining a
+   * team, and in mid-season recovery weeks). Returns true if one was started.
+   */
+  private startWrestleOffIfBackup(phaseLabel: string): boolean {
+    const s = this.state;
+    if (!isInCollege(s) || s.pendingCompetition || !this.canWrestle() || this.collegeBenchReason()) return false;
+    const atWeight = (s.collegeRoster ?? []).filter((r) => r.weightClass === (s.weightClass ?? 145));
+    const idx = atWeight.findIndex((r) => r.isPlayer);
+    if (idx <= 0) return false;
+    const ahead = atWeight[idx - 1]!;
+    if (!this.weighIn('the wrestle-off').made) {
+      addStory(s, `${phaseLabel}: you forfeited — ${ahead.name} keeps the ${s.weightClass} spot.`);
+      return false;
+    }
+    const npc = findNpc(s.npcs, ahead.id);
+    const opponent: Opponent = npc ? npcToOpponent(npc) : { id: ahead.id, name: ahead.name, overallRating: ahead.overallRating, style: 'grinder', clutch: 50 };
+    const bouts = Array.from({ length: WRESTLE_OFF_WINS * 2 - 1 }, (_, i) => ({ opponent, roundLabel: `Wrestle-off bout ${i + 1}` }));
+    addStory(s, `${phaseLabel}: best of three against ${ahead.name} for the ${s.weightClass} spot.`);
+    this.startPendingQueueCompetition('wrestleoff', phaseLabel, 'wrestleoff', bouts);
+    return true;
   }
 
-  getCanWrestle(): boolean {
-    return this.canWrestle();
+  /** Swap the player with the teammate directly ahead of them on the depth chart. */
+  private promotePlayerInDepthChart(): void {
+    const roster = this.state.collegeRoster ?? [];
+    const wc = this.state.weightClass ?? 145;
+    const me = roster.findIndex((r) => r.isPlayer && r.weightClass === wc);
+    let ahead = -1;
+    for (let i = 0; i < me; i++) if (roster[i]!.weightClass === wc) ahead = i;
+    if (me < 0 || ahead < 0) return;
+    [roster[ahead], roster[me]] = [roster[me]!, roster[ahead]!];
   }
 
-  static getMinGradesToWrestle(): number {
-    return MIN_GRADES_TO_WRESTLE;
+  /**
+   * Opposing lineups for this week's duals: each school's starters from the NPC universe. An empty weight (or a
+   * school the universe doesn't know) signs a walk-on rated from our division with powerhouse/conference bumps.
+   */
+  private generateCollegeDualSetups(entry: CollegeScheduleEntry): CollegeDualSetup[] {
+    const s = this.state;
+    const opponents = entry.opponentNames?.length ? entry.opponentNames : (entry.opponentName ? [entry.opponentName] : ['Opponent']);
+    const baseRating = npcDivisionBaseRating(s.league);
+    return opponents.map((oppName) => {
+      const oppSchool = SCHOOLS.find((sc) => sc.name === oppName);
+      const isPowerhouseOpp = oppSchool ? isPowerhouse(oppSchool.id) : false;
+      const isConf = entry.isConference ?? false;
+      const ratingBump = (isPowerhouseOpp ? 4 : 0) + (isConf ? 2 : 0) + (entry.phase === 'conference_stretch' ? 2 : 0);
+      const lineup: DualLineupEntry[] = COLLEGE_WEIGHT_CLASSES.map((wc) => {
+        const starter = schoolNpcsAtWeight(s.npcs, oppName, wc)[0]
+          ?? signCollegeWalkOn(s.npcs, this.rng, oppName, oppSchool?.division ?? s.league, wc, clamp(45, 90, baseRating + ratingBump + this.rng.int(-8, 12)));
+        return { id: starter.id, weightClass: wc, name: starter.name, overallRating: starter.overallRating };
+      });
+      return { opponentTeam: oppName, lineup };
+    });
   }
 
-  private findOpponent(id: string): Opponent | null {
-    const p = this.state.opponentPools;
-    if (!p) return null;
+  /**
+   * Wrestle every weight of each dual and score it. playerBouts[i] is the player's finished bout in setups[i];
+   * without one (backup, ineligible) our best non-player teammate goes, and an empty weight forfeits.
+   */
+  private recordCollegeDuals(summary: WeekSummary, setups: CollegeDualSetup[], playerBouts: CompletedCompetitionMatch[]): void {
+    const s = this.state;
+    const team = s.collegeName ?? 'Your team';
+    const roster = s.collegeRoster ?? [];
+    const playerSlot = this.mapToCollegeWeight(s.weightClass ?? 145);
+    summary.duals = setups.map((setup, i) => {
+      const bouts: DualBoutResult[] = setup.lineup.map((opp) => {
+        const playerBout = opp.weightClass === playerSlot ? playerBouts[i] : undefined;
+        if (playerBout) return dualBout(opp, s.name, true, playerBout.won, playerBout.method);
+        const starter = roster.find((r) => r.weightClass === opp.weightClass && !r.isPlayer);
+        if (!starter) return dualBout(opp, '—', false, false, 'Forfeit');
+        const result = simEliteMatch({ baseA: starter.overallRating, energyA: 80, injuryA: 0, composureA: 70, baseB: opp.overallRating }, this.rng);
+        const gap = result.won ? starter.overallRating - opp.overallRating : opp.overallRating - starter.overallRating;
+        return dualBout(opp, starter.name, false, result.won, dualWinMethod(this.rng, gap));
+      });
+      const teamScore = bouts.reduce((sum, b) => sum + b.teamPoints, 0);
+      const opponentScore = bouts.reduce((sum, b) => sum + b.opponentPoints, 0);
+      const result: DualMeetResult['result'] = teamScore > opponentScore ? 'W' : teamScore < opponentScore ? 'L' : 'T';
+      if (result === 'W') s.teamDualRecord.wins++;
+      else if (result === 'L') s.teamDualRecord.losses++;
+      else s.teamDualRecord.ties++;
+      summary.message.push(`${team} ${result === 'W' ? 'beat' : result === 'L' ? 'lost to' : 'tied'} ${setup.opponentTeam} ${teamScore}-${opponentScore}.`);
+      return { opponentTeam: setup.opponentTeam, bouts, teamScore, opponentScore, result };
+    });
+    const r = s.teamDualRecord;
+    summary.message.push(`Team dual record: ${r.wins}-${r.losses}${r.ties > 0 ? `-${r.ties}` : ''}.`);
+  }
+
+  /** Weekly body-weight update: natural weight grows; current weight diets toward the class ahead of competitions, otherwise drifts back to natural. */
+  private updateBodyWeight(): void {
+    const s = this.state;
+    const bw = s.bodyWeight;
+    bw.naturalWeight += growthWeightGain(s.age) + MEAL_PLAN_WEIGHT_GAIN[this.getLifestyle().mealPlan];
+    const week = ((s.week - 1) % 52) + 1;
+    const dieting = this.competitionWeeks().some((w) => (w - week + 52) % 52 <= DIET_LEAD_WEEKS);
+    const target = dieting ? Math.min(bw.naturalWeight, Math.max(s.weightClass, bw.naturalWeight * DIET_FLOOR_PCT)) : bw.naturalWeight;
+    const cur = bw.currentWeight;
+    if (cur > target) {
+      bw.currentWeight = Math.max(target, cur - cur * DIET_WEEKLY_PCT);
+      if (dieting) s.energy = Math.max(0, (s.energy ?? 100) - 2);
+    } else {
+      bw.currentWeight = Math.min(target, cur + REGAIN_WEEKLY_LBS);
+    }
+  }
+
+  /** Weeks of the year with a competition the player may weigh in for: the season plus offseason events. */
+  private competitionWeeks(): number[] {
+    const college = isInCollege(this.state);
+    const season = college
+      ? Array.from({ length: NCAA_WEEK }, (_, i) => i + 1)
+      : Array.from({ length: HS_WEEK_STATE - HS_REGULAR_START + 1 }, (_, i) => HS_REGULAR_START + i);
+    const events = Object.entries(OFFSEASON_EVENTS)
+      .filter(([, ev]) => !!ev.collegeOnly === college)
+      .flatMap(([key, ev]) => (key === 'fargo' ? FARGO_WEEKS : [ev.week]));
+    return [...season, ...events];
+  }
+
+  /** Step on the scale for an event. The day-before water cut covers the last few lbs; records the result on bodyWeight. */
+  private weighIn(event: string): WeighInResult {
+    const s = this.state;
+    const bw = s.bodyWeight;
+    const waterCut = clamp(0, bw.currentWeight * WATER_CUT_PCT, bw.currentWeight - s.weightClass);
+    const scaleWeight = roundTenth(bw.currentWeight - waterCut);
+    const made = scaleWeight <= s.weightClass;
+    const cutPct = Math.max(0, bw.naturalWeight - scaleWeight) / bw.naturalWeight;
+    const severity = clamp(0, 1, ((cutPct - SAFE_CUT_PCT) / SEVERE_CUT_SPAN_PCT) * (s.weekModifiers?.weightCutSeverityMult ?? 1));
+    const result: WeighInResult = { week: s.week, year: s.year, event, weightClass: s.weightClass, scaleWeight, made, cutSeverity: made ? Math.round(severity * 100) / 100 : 0 };
+    bw.lastWeighIn = result;
+    if (!made) {
+      s.stats.weightMisses++;
+      addStory(s, `Missed weight for ${event}: ${scaleWeight} on the scale for ${s.weightClass}.`);
+    } else if (result.cutSeverity >= DANGEROUS_CUT) {
+      addStory(s, `Made ${s.weightClass} for ${event} on a dangerous cut. You'll be drained on the mat.`);
+    }
+    return result;
+  }
+
+  /** Weigh in for this week's event. On a miss, each name in forfeitTo gets a forfeit win over you in the summary and record. */
+  private makeWeight(event: string, summary: WeekSummary, forfeitTo: string[]): boolean {
+    const w = this.weighIn(event);
+    if (w.made) return true;
+    summary.message.push(`Missed weight for ${event} — ${w.scaleWeight} lbs on a ${w.weightClass}-lb limit.${forfeitTo.length > 0 ? ' Forfeit.' : ''}`);
+    if (forfeitTo.length > 0) {
+      summary.matches = [...(summary.matches ?? []), ...forfeitTo.map((name) => ({ opponentName: name, opponentOverall: 0, won: false, method: 'Forfeit' }))];
+      summary.recordChange = { wins: 0, losses: forfeitTo.length };
+      for (let i = 0; i < forfeitTo.length; i++) this.countMatchResult(false);
+    }
+    return false;
+  }
+
+  /** Out while a serious injury has more than WRAPPED_WEEKS to go; limited (wrapped) while anything else is healing. */
+  private injuryStatus(): InjuryStatus {
+    const injuries = this.state.injuries;
+    if (injuries.some((i) => i.severity >= INJURY_OUT_SEVERITY && i.weeksOut > WRAPPED_WEEKS)) return 'out';
+    return injuries.length > 0 ? 'limited' : 'healthy';
+  }
+
+  /** Can't compete this week: out with an injury, or health too low. */
+  private isTooHurtToCompete(): boolean {
+    return this.injuryStatus() === 'out' || (this.state.health ?? 100) < INJURED_HEALTH;
+  }
+
+  /** New injury with a random body part and timeline. Hurting a part that's already healing aggravates it instead. */
+  private sustainInjury(source: PlayerInjury['source'], maxSeverity = 10): void {
+    const s = this.state;
+    const type = INJURY_TYPES[this.rng.int(0, INJURY_TYPES.length - 1)]!;
+    const existing = s.injuries.find((i) => i.bodyPart === type.bodyPart);
+    if (existing) {
+      this.aggravateInjury(existing);
+      return;
+    }
+    const severity = this.rng.int(type.severity[0], Math.max(type.severity[0], Math.min(maxSeverity, type.severity[1])));
+    const weeksOut = Math.max(1, Math.round(severity * 1.2));
+    s.injuries.push({
+      id: `inj_${s.year}_${s.week}_${this.rng.next()}`,
+      bodyPart: type.bodyPart,
+      name: type.name,
+      severity,
+      source,
+      week: s.week,
+      year: s.year,
+      weeksOut,
+      totalWeeks: weeksOut,
+      reinjuryRisk: baseReinjuryRisk(severity),
+    });
+    s.health = Math.max(0, (s.health ?? 100) - severity * 3);
+    const where = source === 'training' ? 'in the room' : source === 'match' ? 'on the mat' : 'away from the mat';
+    addStory(s, `Hurt ${where}: ${type.name}, ${weeksOut} week${weeksOut === 1 ? '' : 's'} to heal. ${this.injuryStatus() === 'out' ? "You're out of competition for now." : "You can wrestle wrapped, but nothing high-risk."}`);
+  }
+
+  private aggravateInjury(injury: PlayerInjury): void {
+    injury.severity = Math.min(10, injury.severity + 1);
+    injury.weeksOut += 2;
+    injury.totalWeeks = Math.max(injury.totalWeeks, injury.weeksOut);
+    addStory(this.state, `You aggravated your ${injury.name.toLowerCase()}. ${injury.weeksOut} weeks to go.`);
+  }
+
+  /** After a hard session or a match: healing injuries may be aggravated, and a new one happens at chance × injury risk. */
+  private rollForInjury(source: 'training' | 'match', chance: number): void {
+    const s = this.state;
+    for (const injury of [...s.injuries]) {
+      if (this.rng.float() < this.getReinjuryRisk(injury)) this.aggravateInjury(injury);
+    }
+    if (chance > 0 && this.rng.float() < chance * getEffectiveModifiers(s).injuryRiskMult) this.sustainInjury(source);
+  }
+
+  /** Weekly healing: a week off every injury, plus whatever rehab earned. */
+  private healInjuries(): void {
+    const s = this.state;
+    const weeks = 1 + s.rehabBonusWeeks;
+    s.rehabBonusWeeks = 0;
+    for (const injury of s.injuries) injury.weeksOut -= weeks;
+    for (const injury of s.injuries) {
+      if (injury.weeksOut <= 0) addStory(s, `Your ${injury.name.toLowerCase()} has healed. Full go.`);
+    }
+    s.injuries = s.injuries.filter((i) => i.weeksOut > 0);
+  }
+
+  /** True if grades are high enough to be eligible to compete. */
+  private canWrestle(): boolean {
+    return (this.state.grades ?? 75) >= MIN_GRADES_TO_WRESTLE;
+  }
+
+  getCanWrestle(): boolean {
+    return this.canWrestle();
+  }
+
+  /** Why the player can't wrestle for the college team this week (redshirt, medical hardship, hurt), or null. */
+  private collegeBenchReason(): string | null {
+    const s = this.state;
+    if (s.collegeSeasonStatus === 'redshirt') return 'Redshirting';
+    if (s.collegeSeasonStatus === 'medical') return 'Out for the season on a medical hardship';
+    if (this.isTooHurtToCompete()) return 'Injured';
+    return null;
+  }
+
+  /** Season start: the coach may redshirt a backup with eligibility to spare, more often the more they trust them. */
+  private considerCoachRedshirt(): void {
+    const s = this.state;
+    if (!isInCollege(s) || s.stats.redshirtYears.length > 0 || s.eligibilityYearsRemaining < 2 || this.isStarterAtWeight()) return;
+    if (this.rng.float() >= (s.coachTrust ?? 50) / 200) return;
+    s.collegeSeasonStatus = 'redshirt';
+    s.stats.redshirtYears.push(s.year);
+    addStory(s, "Coach is redshirting you this season to develop. You keep the year of eligibility and can still wrestle opens unattached — or burn the redshirt from the Team tab.");
+  }
+
+  /**
+   * Redshirt this college season (once per career, before wrestling a match this season), or burn a redshirt
+   * already in progress. A redshirt keeps the year of eligibility; only unattached opens are allowed.
+   */
+  setRedshirt(on: boolean): { success: boolean; message: string } {
+    const s = this.state;
+    if (!isInCollege(s)) return { success: false, message: 'Redshirting is only for college seasons.' };
+    if (s.pendingCompetition || s.pendingTournamentPlay) return { success: false, message: "Finish this week's competition first." };
+    if (!on) {
+      if (s.collegeSeasonStatus !== 'redshirt') return { success: false, message: "You aren't redshirting." };
+      s.collegeSeasonStatus = 'active';
+      s.stats.redshirtYears = s.stats.redshirtYears.filter((y) => y !== s.year);
+      addStory(s, 'You burned your redshirt — this season counts, and you can compete for the team again.');
+      this.saveRng();
+      return { success: true, message: 'Redshirt burned. You can compete for the team.' };
+    }
+    if (s.collegeSeasonStatus === 'redshirt') return { success: false, message: 'You are already redshirting this season.' };
+    if (s.collegeSeasonStatus === 'medical') return { success: false, message: 'Your season is already over on a medical hardship.' };
+    if (s.stats.redshirtYears.length > 0) return { success: false, message: `You already used your redshirt (Year ${s.stats.redshirtYears[0]}).` };
+    if (s.week > SEASON_WEEKS) return { success: false, message: 'The season is over — redshirt next season before you compete.' };
+    if ((s.stats.seasonWins ?? 0) + (s.stats.seasonLosses ?? 0) > 0) return { success: false, message: "You've already wrestled this season; it counts." };
+    s.collegeSeasonStatus = 'redshirt';
+    s.stats.redshirtYears.push(s.year);
+    addStory(s, "You're redshirting this season. You keep the year of eligibility and can still wrestle opens unattached.");
+    this.saveRng();
+    return { success: true, message: 'Redshirting this season.' };
+  }
+
+  /**
+   * Petition for a medical hardship waiver: granted when the player was hurt in the first half of the season and
+   * wrestled only a few matches. The season then ends for them and doesn't count against eligibility.
+   */
+  petitionMedicalHardship(): { success: boolean; message: string } {
+    const s = this.state;
+    if (!isInCollege(s)) return { success: false, message: 'Medical hardship waivers are for college seasons.' };
+    if (s.collegeSeasonStatus === 'medical') return { success: false, message: 'Your waiver for this season was already granted.' };
+    if (s.collegeSeasonStatus === 'redshirt') return { success: false, message: 'A redshirt season already keeps your eligibility.' };
+    if (s.pendingCompetition || s.pendingTournamentPlay) return { success: false, message: "Finish this week's competition first." };
+    if (s.seasonInjuredWeek == null) return { success: false, message: 'Denied: no injury that kept you out this season.' };
+    if (s.seasonInjuredWeek > HARDSHIP_LAST_INJURY_WEEK) {
+      return { success: false, message: `Denied: the injury (week ${s.seasonInjuredWeek}) came after the first half of the season.` };
+    }
+    const matches = (s.stats.seasonWins ?? 0) + (s.stats.seasonLosses ?? 0);
+    if (matches > HARDSHIP_MAX_MATCHES) return { success: false, message: `Denied: you wrestled ${matches} matches this season (limit ${HARDSHIP_MAX_MATCHES}).` };
+    s.collegeSeasonStatus = 'medical';
+    s.stats.medicalHardshipYears.push(s.year);
+    addStory(s, "Medical hardship waiver granted. You're done for the season, and it won't count against your eligibility.");
+    this.saveRng();
+    return { success: true, message: 'Medical hardship granted — this season will not count.' };
+  }
+
+  static getMinGradesToWrestle(): number {
+    return MIN_GRADES_TO_WRESTLE;
+  }
+
+  private findOpponent(id: string): Opponent | null {
+    const p = this.state.opponentPools;
+    if (!p) return null;
     const all = [...p.unranked, ...p.stateRanked, ...p.nationalRanked];
     return all.find((o) => o.id === id) ?? null;
   }
 
-  /** Get the finals opponent from rankings at player's weight (the other top-2 wrestler). Returns null if rankings empty or only player. */
-  private getFinalsOpponentFromRankings(): Opponent | null {
+  /** Ranked wrestlers at a weight from the NPC universe, best first: your division in college, every varsity wrestler in HS. */
+  private rankedField(weightClass: number): NpcWrestler[] {
     const s = this.state;
-    this.getRankingsBoard(); // ensure rankings populated
-    const wc = s.weightClass ?? 145;
-    const list = s.rankingsByWeight?.[wc];
-    if (!list || list.length === 0) return null;
-    const withPlayer = [
-      ...list.filter((e) => e.id !== 'player'),
-      { id: 'player', name: s.name, overallRating: s.overallRating ?? 50, trueSkill: s.trueSkill ?? 50 },
-    ];
-    withPlayer.sort((a, b) => b.overallRating - a.overallRating);
-    const top2 = withPlayer.slice(0, 2);
-    const other = top2.find((e) => e.id !== 'player');
-    if (!other) return null;
-    return {
-      id: other.id,
-      name: other.name,
-      overallRating: other.overallRating,
-      style: 'grinder',
-      clutch: 50,
-    };
+    const field = isInCollege(s) ? collegeNpcsAtWeight(s.npcs, weightClass, s.league) : hsNpcsAtWeight(s.npcs, weightClass);
+    return field.slice(0, 15);
   }
 
-  private simOneMatch(opponent: Opponent, isRival: boolean): { won: boolean; method: string } {
+  private simOneMatch(opponent: Opponent, isRival: boolean, ruleSet: RuleSet = 'folkstyle'): { won: boolean; method: string } {
     const s = this.state;
     const eff = getEffectiveModifiers(s);
     const injurySeverity = Math.max(0, (100 - (s.health ?? 100)) / 100);
     const composure = Math.max(0, 100 - (s.stress ?? 50));
     const result = simEliteMatch(
       {
-        baseA: s.overallRating ?? 50,
+        baseA: this.styleOverall(ruleSet),
         energyA: s.energy ?? 100,
         injuryA: injurySeverity,
         composureA: composure,
@@ -2316,59 +3234,67 @@ export class UnifiedEngine {
       this.rng
     );
     if (result.upsetLogLine) addStory(s, (s.story || '') + '\n' + result.upsetLogLine);
-    return { won: result.won, method: result.method };
+    return { won: result.won, method: methodForRuleSet(result.method, ruleSet) };
   }
 
   /**
-   * Build bracket (8- or 16-person). Seed 1 = player; opponents pad to 7 or 15.
-   * getOpponent cycles through the opponent list by round.
+   * Seed a bracket (8, 16 or 32): you and the opponents, padded with stand-ins, best rating first. `standIns` fill
+   * in after the opponents but are entered for no team. Each opponent in it counts the bracket towards their
+   * scouting history.
    */
   private buildBracket(
     playerName: string,
     playerRating: number,
     opponents: Opponent[],
-    size: 8 | 16 = 8
-  ): { participants: BracketParticipant[]; getOpponent: (round: string) => Opponent } {
+    size: BracketSize = 8,
+    standIns: Opponent[] = []
+  ): { participants: BracketEntrant[] } {
+    const s = this.state;
     const pad: Opponent = { id: 'bracket_pad', name: 'Opponent', overallRating: 70, style: 'grinder', clutch: 50 };
-    const need = size === 16 ? 15 : 7;
-    const list = [...opponents];
-    while (list.length < need) list.push(pad);
-    const slice = list.slice(0, need);
-    const participants: BracketParticipant[] = [
-      { seed: 1, name: playerName, overallRating: playerRating },
-      ...slice.map((o, i) => ({ seed: i + 2, name: o.name, overallRating: o.overallRating ?? 50 })),
-    ];
-    let roundIndex = 0;
-    const getOpponent = (_round: string): Opponent => {
-      const o = slice[roundIndex++ % need]!;
-      return { ...o, overallRating: o.overallRating ?? 50 };
-    };
-    return { participants, getOpponent };
+    const list = [...opponents, ...standIns];
+    while (list.length < size - 1) list.push({ ...pad, id: `bracket_pad_${list.length}` });
+    const slice = list.slice(0, size - 1);
+    this.countBracketSeen(slice);
+    // Stand-ins enter for no team, so they score for nobody.
+    const teamless = new Set(standIns.map((o) => o.id));
+    const participants = seedEntrants([
+      { id: PLAYER_ENTRANT_ID, name: playerName, overallRating: playerRating, ...(s.collegeName && isInCollege(s) ? { team: s.collegeName } : {}) },
+      ...slice.map((o) => {
+        const team = teamless.has(o.id) ? undefined : findNpc(s.npcs, o.id)?.school;
+        return { ...o, overallRating: o.overallRating ?? 50, ...(team ? { team } : {}) };
+      }),
+    ]);
+    return { participants };
   }
 
-  /** Generate named opponents for brackets (no pool). Default 7; use count 15 for 16-man. */
+  /**
+   * Bracket entrants from the NPC universe at the player's weight (in-season college events pass their division).
+   * Each seed line goes to the unused wrestler closest to a target rating around the player's. Default 7; use count 15 for 16-man.
+   */
   private generateNamedBracketOpponents(
     myRating: number,
-    options: { minRating?: number; maxRating?: number; prestige?: number; count?: number }
+    options: { minRating?: number; maxRating?: number; prestige?: number; count?: number; division?: LeagueKey }
   ): Opponent[] {
-    const first = ['Jake', 'Kyle', 'David', 'Ryan', 'Cole', 'Blake', 'Mason', 'Hunter', 'Chase', 'Tyler', 'Brody', 'Cade'];
-    const last = ['Smith', 'Johnson', 'Brown', 'Davis', 'Wilson', 'Moore', 'Taylor', 'Anderson', 'Thomas', 'Jackson', 'Martinez', 'Lee'];
-    const styles: Opponent['style'][] = ['grinder', 'scrambler', 'defensive'];
+    const s = this.state;
+    const field = isInCollege(s)
+      ? collegeNpcsAtWeight(s.npcs, s.weightClass ?? 145, options.division)
+      : hsNpcsAtWeight(s.npcs, s.weightClass ?? 145);
     const min = options.minRating ?? 52;
     const max = options.maxRating ?? 95;
     const prestige = options.prestige ?? 1;
     const count = options.count ?? 7;
+    const used = new Set<string>();
     const out: Opponent[] = [];
     for (let i = 0; i < count; i++) {
       const spread = i <= 1 ? this.rng.int(2, 10) : i <= (count >> 1) ? this.rng.int(-2, 8) : this.rng.int(-4, 6);
-      const rating = clamp(min, max, myRating + spread + (prestige - 1) * 4);
-      out.push({
-        id: `bracket_${i}`,
-        name: first[this.rng.next() % first.length] + ' ' + last[this.rng.next() % last.length],
-        overallRating: rating,
-        style: styles[this.rng.next() % 3],
-        clutch: this.rng.int(40, 85),
-      });
+      const target = clamp(min, max, myRating + spread + (prestige - 1) * 4);
+      let pick: NpcWrestler | undefined;
+      for (const n of field) {
+        if (!used.has(n.id) && (!pick || Math.abs(n.overallRating - target) < Math.abs(pick.overallRating - target))) pick = n;
+      }
+      if (!pick) break;
+      used.add(pick.id);
+      out.push(npcToOpponent(pick));
     }
     out.sort((a, b) => b.overallRating - a.overallRating);
     return out;
@@ -2387,15 +3313,253 @@ export class UnifiedEngine {
     };
   }
 
+  /** The entrant across from you in a bracket bout, as an opponent. */
+  private bracketOpponent(b: TournamentBracket, bout: BracketBout): Opponent {
+    const seed = bracketPlayerSeed(b);
+    return entrantOpponent(b.entrants[(bout.top === seed ? bout.bottom! : bout.top!) - 1]!);
+  }
+
+  /**
+   * Wrestle a bracket's bouts in order up to your next one and return it. Given `playerBout`, your bouts are decided by
+   * it too and the bracket is wrestled to the end.
+   */
+  private wrestleBracket(
+    b: TournamentBracket,
+    ruleSet: RuleSet,
+    playerBout?: (bout: BracketBout, opponent: Opponent) => { won: boolean; method: string }
+  ): BracketBout | undefined {
+    const seed = bracketPlayerSeed(b);
+    for (let bout = nextBracketBout(b); bout; bout = nextBracketBout(b)) {
+      if (bout.top !== seed && bout.bottom !== seed) {
+        this.simBracketBout(b, bout, ruleSet);
+        continue;
+      }
+      if (!playerBout) return bout;
+      const { won, method } = playerBout(bout, this.bracketOpponent(b, bout));
+      decideBracketBout(b, bout, won ? seed : (bout.top === seed ? bout.bottom! : bout.top!), method, simulatedScore(method, ruleSet, this.rng));
+    }
+    return undefined;
+  }
+
+  /** A bout between two NPCs: the elite sim from the favorite's side, bonus points likelier the bigger the winner's edge. */
+  private simBracketBout(b: TournamentBracket, bout: BracketBout, ruleSet: RuleSet): void {
+    const top = b.entrants[bout.top! - 1]!;
+    const bottom = b.entrants[bout.bottom! - 1]!;
+    const [favorite, underdog] = top.overallRating >= bottom.overallRating ? [top, bottom] : [bottom, top];
+    const result = simEliteMatch(
+      {
+        baseA: favorite.overallRating,
+        energyA: 80,
+        injuryA: 0,
+        composureA: favorite.clutch ?? 50,
+        baseB: underdog.overallRating,
+        composureB: underdog.clutch ?? 50,
+      },
+      this.rng
+    );
+    const [winner, loser] = result.won ? [favorite, underdog] : [underdog, favorite];
+    const method = methodForRuleSet(dualWinMethod(this.rng, winner.overallRating - loser.overallRating), ruleSet);
+    decideBracketBout(b, bout, winner.seed, method, simulatedScore(method, ruleSet, this.rng));
+  }
+
+  /**
+   * Everyone in your division at a weight up for an NCAA bid. At your own weight (`mine`) that's you and not your
+   * teammates (they're your backups), with your conference's finishes from `places`; other conferences' tournaments
+   * aren't wrestled, so their placers go roughly by rating. At another weight every conference's placers do.
+   */
+  private ncaaCandidates(weightClass: number, mine: { conference: string; places: Record<string, number> } | null): NcaaCandidateInput[] {
+    const s = this.state;
+    const npcs = collegeStartersAtWeight(s.npcs, weightClass, s.league).filter((n) => !mine || n.school !== s.collegeName);
+    const draws = new Map<string, { id: string; score: number }[]>();
+    for (const n of npcs) {
+      const conf = schoolConference(n.school, s.league);
+      if (conf === mine?.conference) continue;
+      draws.set(conf, [...(draws.get(conf) ?? []), { id: n.id, score: n.overallRating + this.rng.normal() * 4 }]);
+    }
+    const finishes = new Map<string, number>();
+    for (const draw of draws.values()) {
+      draw.sort((a, b) => b.score - a.score).slice(0, 8).forEach((d, i) => finishes.set(d.id, i + 1));
+    }
+    const candidates: NcaaCandidateInput[] = npcs.map((n) => {
+      const rec = npcCurrentRecord(n, s.year);
+      const conf = schoolConference(n.school, s.league);
+      return {
+        ...npcToOpponent(n),
+        team: n.school,
+        conference: conf,
+        wins: rec.wins,
+        losses: rec.losses,
+        conferencePlace: conf === mine?.conference ? mine.places[n.id] : finishes.get(n.id),
+      };
+    });
+    if (!mine) return candidates;
+    return [
+      {
+        id: PLAYER_ENTRANT_ID,
+        name: s.name ?? 'You',
+        overallRating: s.overallRating ?? 50,
+        ...(s.collegeName ? { team: s.collegeName } : {}),
+        conference: mine.conference,
+        wins: s.stats.seasonWins ?? 0,
+        losses: s.stats.seasonLosses ?? 0,
+        conferencePlace: mine.places[PLAYER_ENTRANT_ID],
+      },
+      ...candidates,
+    ];
+  }
+
+  /** The NCAA bracket's entrants, seeded, with stand-ins filling out a field short of `size`. */
+  private ncaaEntrants(seeded: (NcaaQualifier & { seed: number })[], size: number): BracketEntrant[] {
+    const entrants: BracketEntrant[] = seeded.map((q) => ({
+      id: q.id,
+      name: q.name,
+      overallRating: q.overallRating,
+      seed: q.seed,
+      nationalRank: q.coachesRank,
+      ...(q.style ? { style: q.style, clutch: q.clutch } : {}),
+      ...(q.team ? { team: q.team } : {}),
+    }));
+    while (entrants.length < size) entrants.push({ ...this.standIn(entrants.length), seed: entrants.length + 1 });
+    return entrants;
+  }
+
+  /**
+   * Close out your conference tournament: rank its own members by where they placed and take an automatic NCAA bid
+   * if you finished inside your conference's allocation at the weight.
+   */
+  private recordConferenceFinish(summary: WeekSummary, bracket: TournamentBracket, bids: number): void {
+    const s = this.state;
+    const conference = s.conferenceResult?.conference ?? schoolConference(s.collegeName, s.league);
+    const placers = bracket.entrants
+      .filter((e) => e.place != null && e.place <= 8 && schoolConference(e.team, s.league) === conference)
+      .sort((a, b) => a.place! - b.place!);
+    if (s.conferenceResult) placers.forEach((e, i) => (s.conferenceResult!.places[e.id] = i + 1));
+    const finish = placers.findIndex((e) => e.id === PLAYER_ENTRANT_ID) + 1;
+    s.ncaaQualified = finish > 0 && finish <= bids;
+    if (s.ncaaQualified) {
+      summary.message.push('Qualified for NCAA Championships!');
+    } else {
+      summary.message.push(`${conference} had ${bids} automatic NCAA bid${bids === 1 ? '' : 's'} at your weight. Your hopes rest on an at-large bid.`);
+    }
+  }
+
+  /** Your NCAA finish goes on the record: top 8 are All-Americans, and a title pays $150,000. */
+  private recordNcaaFinish(summary: WeekSummary, place: number): void {
+    const s = this.state;
+    s.stats.ncaaAppearances++;
+    s.stats.collegeRecord.ncaaAppearances++;
+    s.stats.ncaaPlacements.push(place);
+    summary.placement = place;
+    if (place <= ALL_AMERICAN_PLACES) {
+      s.stats.ncaaAllAmerican++;
+      s.stats.collegeRecord.ncaaAllAmerican++;
+    }
+    if (place === 1) {
+      s.stats.ncaaTitles++;
+      s.stats.collegeRecord.ncaaTitles++;
+      s.accolades.push('NCAA Champion (Year ' + s.year + ')');
+      s.money = (s.money ?? 0) + 150_000;
+      summary.message.push('NCAA CHAMPION! $150,000 bonus.');
+    } else if (place <= ALL_AMERICAN_PLACES) {
+      summary.message.push(`NCAA Championships: placed ${place}, All-American.`);
+    } else {
+      summary.message.push(`NCAA Championships: didn't place (top ${ALL_AMERICAN_PLACES} are All-Americans).`);
+    }
+    s.ncaaQualified = false;
+  }
+
+  /** The nth stand-in filling out a short bracket: division-average, and entered for no team. */
+  private standIn(n: number): Opponent {
+    return { id: `bracket_pad_${n}`, name: 'Opponent', overallRating: npcDivisionBaseRating(this.state.league), style: 'grinder', clutch: 50 };
+  }
+
+  /** Every weight in your division but yours: the rest of the team race at a team-scored event. */
+  private otherWeights(): number[] {
+    return UnifiedEngine.getWeightClasses(this.state.league).filter((wc) => wc !== this.state.weightClass);
+  }
+
+  /** Seed a team-race field at one weight, stand-ins filling it out to the smallest bracket that holds everyone. */
+  private teamField(field: Omit<BracketEntrant, 'seed'>[]): BracketEntrant[] {
+    const size = bracketSizeFor(field.length);
+    const padded = [...field];
+    while (padded.length < size) padded.push(this.standIn(padded.length));
+    return seedEntrants(padded);
+  }
+
+  /** Your conference tournament at the other weights: every member school's starter at each one. */
+  private conferenceTeamFields(conference: string): BracketEntrant[][] {
+    const s = this.state;
+    return this.otherWeights().map((wc) =>
+      this.teamField(collegeStartersAtWeight(s.npcs, wc, s.league)
+        .filter((n) => schoolConference(n.school, s.league) === conference)
+        .map((n) => ({ ...npcToOpponent(n), team: n.school })))
+    );
+  }
+
+  /** NCAAs at the other weights: each school's starter as a candidate, the field allocated, selected and seeded like yours. */
+  private ncaaTeamFields(): BracketEntrant[][] {
+    const size = nationalsFieldSize(this.state.league);
+    return this.otherWeights().map((wc) => {
+      const rated = rateNcaaCandidates(this.ncaaCandidates(wc, null), this.rng);
+      return this.ncaaEntrants(seedNcaaField(selectNcaaField(rated, conferenceAllocations(rated, size), size)), size);
+    });
+  }
+
+  /** A big invitational at the other weights: every team in your bracket enters its starter at each one. */
+  private invitationalTeamFields(entrants: BracketEntrant[]): BracketEntrant[][] {
+    const s = this.state;
+    const teams = [...new Set(entrants.map((e) => e.team).filter((t): t is string => t != null))];
+    return this.otherWeights().map((wc) =>
+      this.teamField(teams.flatMap((team) => schoolNpcsAtWeight(s.npcs, team, wc).slice(0, 1).map((n) => ({ ...npcToOpponent(n), team }))))
+    );
+  }
+
+  /** Wrestle the other weights up to where your bracket stands (all of it once yours is done), so the team race runs live. */
+  private wrestleTeamBrackets(brackets: TournamentBracket[], mine: TournamentBracket, ruleSet: RuleSet): void {
+    const progress = (b: TournamentBracket) => b.bouts.filter((x) => x.winner != null).length / b.bouts.length;
+    const target = progress(mine);
+    for (const b of brackets) {
+      for (let bout = nextBracketBout(b); bout && progress(b) < target; bout = nextBracketBout(b)) this.simBracketBout(b, bout, ruleSet);
+    }
+  }
+
+  /** Final team standings; your school winning the event goes on your accolades. */
+  private recordTeamRace(summary: WeekSummary, phaseLabel: string, brackets: TournamentBracket[]): void {
+    const s = this.state;
+    const standings = teamStandings(brackets);
+    summary.teamScores = standings;
+    const rank = standings.findIndex((t) => t.team === s.collegeName);
+    if (rank < 0) return;
+    const mine = standings[rank]!;
+    if (rank === 0) {
+      s.accolades.push(`${phaseLabel} Team Title (Year ${s.year})`);
+      summary.message.push(`${mine.team} won the team title with ${mine.points} points!`);
+    } else {
+      summary.message.push(`Team race: ${mine.team} finished ${rank + 1} of ${standings.length} with ${mine.points} points; ${standings[0]!.team} won with ${standings[0]!.points}.`);
+    }
+  }
+
+  /** Every NPC in a finished bracket adds its bouts to their season record. */
+  private recordBracketForNpcs(b: TournamentBracket): void {
+    for (const e of b.entrants) {
+      const npc = findNpc(this.state.npcs, e.id);
+      if (!npc) continue;
+      for (const bout of entrantBouts(b, e.seed)) {
+        if (bout.winner === e.seed) npc.seasonWins++;
+        else npc.seasonLosses++;
+      }
+    }
+  }
+
   /**
-   * Run double-elimination bracket (8- or 16-man): effective rating, matchup terms, energy/injury,
-   * WB/LB and bracket reset. Placement from elimination order; record = actual match W-L.
+   * Wrestle out a whole bracket: your bouts with the tournament sim (effective rating, matchup terms, energy and injury
+   * carrying from bout to bout), everyone else's with the elite sim. Returns your place, your bouts and who you faced.
    */
-  private runDoubleElimTournament(getOpponent: (round: string) => Opponent, bracketSize: 8 | 16 = 8): { placement: number; matches: NonNullable<WeekSummary['matches']> } {
+  private simulateBracket(b: TournamentBracket, ruleSet: RuleSet = 'folkstyle'): { placement: number; matches: NonNullable<WeekSummary['matches']>; faced: Opponent[] } {
     const s = this.state;
     const eff = getEffectiveModifiers(s);
     const player: TournamentPlayerState = {
-      technique: s.technique ?? 50,
+      technique: this.styleTechnique(ruleSet),
       matIQ: s.matIQ ?? 50,
       conditioning: s.conditioning ?? 50,
       strength: s.strength ?? 50,
@@ -2405,13 +3569,31 @@ export class UnifiedEngine {
       health: s.health ?? 100,
       stress: s.stress ?? 50,
       trueSkill: s.trueSkill ?? 50,
-      overallRating: s.overallRating ?? 50,
+      overallRating: this.styleOverall(ruleSet),
       injurySeverity: 0,
       performanceMult: eff.performanceMult,
     };
-    const getTournamentOpp = (round: string): TournamentOpponent => this.toTournamentOpponent(getOpponent(round));
-    const result = runDoubleElimBracket(player, getTournamentOpp, this.rng, bracketSize);
-    const validation = validateBracketMatchSequence(result.matches);
+    const entries: BracketMatchEntry[] = [];
+    const faced: Opponent[] = [];
+    this.wrestleBracket(b, ruleSet, (bout, opponent) => {
+      const opp = this.toTournamentOpponent(opponent);
+      const result = simTournamentMatch(player, opp, this.rng);
+      applyPostMatchEnergy(player, result.intensity);
+      if (result.injuryOccurred) player.injurySeverity += result.injurySeverity;
+      const method = methodForRuleSet(result.method, ruleSet);
+      entries.push({
+        roundLabel: bracketRoundLabel(b, bout.round),
+        opponentName: opp.name,
+        opponentOverall: opp.overallRating,
+        stateRank: opp.stateRank,
+        nationalRank: opp.nationalRank,
+        won: result.won,
+        method,
+      });
+      faced.push(opponent);
+      return { won: result.won, method };
+    });
+    const validation = validateBracketMatchSequence(entries);
     if (!validation.valid && typeof console !== 'undefined' && console.warn) {
       console.warn('[Tournament] Invalid bracket sequence:', validation.message);
     }
@@ -2420,7 +3602,7 @@ export class UnifiedEngine {
       const healthPenalty = Math.min(25, player.injurySeverity * 3);
       s.health = Math.max(0, (s.health ?? 100) - healthPenalty);
     }
-    const matches: NonNullable<WeekSummary['matches']> = result.matches.map((m: BracketMatchEntry) => ({
+    const matches: NonNullable<WeekSummary['matches']> = entries.map((m) => ({
       opponentName: `${m.opponentName} (${m.roundLabel})`,
       opponentOverall: m.opponentOverall,
       stateRank: m.stateRank,
@@ -2428,7 +3610,7 @@ export class UnifiedEngine {
       won: m.won,
       method: m.method,
     }));
-    return { placement: result.placement, matches };
+    return { placement: b.entrants[bracketPlayerSeed(b) - 1]!.place!, matches, faced };
   }
 
   private runHSWeekCompetition(): WeekSummary | null {
@@ -2446,14 +3628,20 @@ export class UnifiedEngine {
       s.lastWeekSummary = summary;
       return summary;
     }
+    if ((entry.type === 'dual' || entry.type === 'rival') && s.league === 'HS_JV') {
+      summary.eventType = 'dual';
+      summary.message.push('JV week: practice only (no varsity match).');
+      s.lastWeekSummary = summary;
+      return summary;
+    }
+    if (this.isTooHurtToCompete()) {
+      summary.eventType = entry.type === 'tournament' ? 'tournament' : 'dual';
+      summary.message.push("Injured — you sat out this week's competition.");
+      s.lastWeekSummary = summary;
+      return summary;
+    }
 
     if (entry.type === 'dual' || entry.type === 'rival') {
-      if (s.league === 'HS_JV') {
-        summary.eventType = 'dual';
-        summary.message.push('JV week: practice only (no varsity match).');
-        s.lastWeekSummary = summary;
-        return summary;
-      }
       const opp = entry.opponentId ? this.findOpponent(entry.opponentId) : null;
       const opponent = opp ?? (s.opponentPools?.unranked[this.rng.next() % (s.opponentPools?.unranked?.length ?? 1)] ?? null);
       if (!opponent) {
@@ -2461,10 +3649,21 @@ export class UnifiedEngine {
         s.lastWeekSummary = summary;
         return summary;
       }
-      this.startPendingSingleMatch('dual', getHSPhase(s.week), 'dual', opponent, entry.type === 'rival' ? 'Rival dual' : 'Dual');
+      const roundLabel = entry.type === 'rival' ? 'Rival dual' : 'Dual';
+      if (!this.makeWeight(`the ${roundLabel.toLowerCase()}`, summary, [opponent.name])) {
+        summary.eventType = 'dual';
+        s.lastWeekSummary = summary;
+        return summary;
+      }
+      this.startPendingSingleMatch('dual', getHSPhase(s.week), 'dual', opponent, roundLabel);
       this.saveRng();
       return null;
     } else if (entry.type === 'tournament') {
+      if (!this.makeWeight('the tournament', summary, ['Tournament'])) {
+        summary.eventType = 'tournament';
+        s.lastWeekSummary = summary;
+        return summary;
+      }
       const pool = s.opponentPools;
       const rankedList = [...(pool?.stateRanked ?? []), ...(pool?.nationalRanked ?? [])]
         .sort((a, b) => b.overallRating - a.overallRating);
@@ -2509,11 +3708,16 @@ export class UnifiedEngine {
     const entry = s.collegeSchedule.find((e) => e.week === s.week);
     if (!entry) return null;
     if (entry.type === 'ncaa') return null;
+    if (this.isTooHurtToCompete() && s.seasonInjuredWeek == null) s.seasonInjuredWeek = s.week;
     const summary: WeekSummary = { week: s.week, year: s.year, phase: entry.phase ?? 'College season', message: [] };
     if (entry.type === 'conference') {
       return this.runConferenceTournamentWeek(summary, entry);
     }
     if (entry.type === 'none') {
+      if (entry.phase !== 'postseason' && this.startWrestleOffIfBackup('Mid-season wrestle-off')) {
+        this.saveRng();
+        return null;
+      }
       summary.message.push('Recovery week — no competition.');
       s.lastWeekSummary = summary;
       return summary;
@@ -2527,43 +3731,73 @@ export class UnifiedEngine {
     if (!this.canWrestle()) {
       summary.eventType = entry.type === 'tournament' ? 'tournament' : 'dual';
       summary.message.push("Academic ineligibility — grades too low. You didn't compete.");
+      if (entry.type === 'dual') this.recordCollegeDuals(summary, this.generateCollegeDualSetups(entry), []);
       s.lastWeekSummary = summary;
       return summary;
     }
 
+    const benched = this.collegeBenchReason();
     if (entry.type === 'dual') {
-      if (!this.isStarterAtWeight()) {
+      const setups = this.generateCollegeDualSetups(entry);
+      if (benched || !this.isStarterAtWeight()) {
         summary.eventType = 'dual';
-        summary.message.push(`You didn't start — backup at ${s.weightClass} lbs. Next week: keep training to earn the spot.`);
+        summary.message.push(benched ? `${benched} — you didn't wrestle in the dual.` : `You didn't start — backup at ${s.weightClass} lbs. Win a wrestle-off to earn the spot.`);
+        this.recordCollegeDuals(summary, setups, []);
         s.lastWeekSummary = summary;
         return summary;
       }
-      const opponents = entry.opponentNames?.length ? entry.opponentNames : (entry.opponentName ? [entry.opponentName] : ['Opponent']);
-      const queueMatches: { opponent: Opponent; roundLabel: string }[] = [];
-      for (let i = 0; i < opponents.length; i++) {
-        const oppName = opponents[i];
-        const oppSchool = SCHOOLS.find((sc) => sc.name === oppName);
-        const isPowerhouseOpp = oppSchool ? isPowerhouse(oppSchool.id) : false;
-        const isConf = entry.isConference ?? false;
-        const ratingBump = (isPowerhouseOpp ? 4 : 0) + (isConf ? 2 : 0) + (entry.phase === 'conference_stretch' ? 2 : 0);
-        const oppRating = clamp(50, 92, (s.overallRating ?? 50) + this.rng.int(-8, 10) + ratingBump);
-        const opponent: Opponent = { id: `col_dual_${i}`, name: oppName, overallRating: oppRating, style: 'grinder', clutch: 50 };
-        queueMatches.push({ opponent, roundLabel: opponents.length > 1 ? `Dual ${i + 1}` : 'Dual' });
+      if (!this.makeWeight('the dual', summary, setups.map((setup) => setup.opponentTeam))) {
+        summary.eventType = 'dual';
+        this.recordCollegeDuals(summary, setups, setups.map((setup) => ({
+          roundLabel: 'Dual', opponentName: setup.opponentTeam, opponentOverall: 0, won: false, method: 'Forfeit', myScore: 0, oppScore: 0, exchangeLog: [],
+        })));
+        s.lastWeekSummary = summary;
+        return summary;
       }
+      const playerSlot = this.mapToCollegeWeight(s.weightClass ?? 145);
+      const queueMatches = setups.map((setup, i) => {
+        const opp = setup.lineup.find((l) => l.weightClass === playerSlot)!;
+        const npc = opp.id ? findNpc(s.npcs, opp.id) : undefined;
+        const opponent: Opponent = {
+          id: opp.id ?? `col_dual_${i}`,
+          name: `${opp.name} (${setup.opponentTeam})`,
+          overallRating: opp.overallRating,
+          style: npc?.style ?? 'grinder',
+          clutch: npc?.clutch ?? 50,
+        };
+        return { opponent, roundLabel: setups.length > 1 ? `Dual ${i + 1}` : 'Dual' };
+      });
       this.startPendingQueueCompetition('dual', entry.phase ?? 'College season', 'dual', queueMatches);
+      s.pendingCompetition!.collegeDuals = setups;
       this.saveRng();
       return null;
     } else if (entry.type === 'tournament') {
-      const openNoStart = (entry.eventFormat === 'open' || entry.eventFormat === 'invite') && entry.starterParticipates === false;
-      if (openNoStart && this.isStarterAtWeight()) {
+      const unattached = s.collegeSeasonStatus === 'redshirt' && entry.eventFormat === 'open';
+      if (benched && !unattached) {
+        summary.eventType = 'tournament';
+        summary.message.push(`${benched} — you didn't compete at ${entry.tournamentName ?? 'the tournament'}.`);
+        s.lastWeekSummary = summary;
+        return summary;
+      }
+      const starter = this.isStarterAtWeight();
+      if (unattached) {
+        summary.message.push(`Redshirting — you're entered unattached at ${entry.tournamentName ?? 'the open'}.`);
+      } else if (!entersTournament(entry, starter)) {
         summary.eventType = 'tournament';
-        summary.message.push(`Coach sat the starters at ${entry.tournamentName ?? 'the open'} — recovery week for you.`);
+        summary.message.push(starter
+          ? `Coach sat the starters at ${entry.tournamentName ?? 'the open'} — recovery week for you.`
+          : `You didn't travel — backup at ${s.weightClass}. Backups wrestle opens only.`);
         s.lastWeekSummary = summary;
         return summary;
+      } else if (!starter) {
+        // When the coach sits the starters at an open, the backup is the team's entry.
+        summary.message.push(entry.starterParticipates === false
+          ? `Coach sat the starters at ${entry.tournamentName ?? 'the open'} — you're the team's entry at ${s.weightClass}.`
+          : `Backup at ${s.weightClass} — you're entered in ${entry.tournamentName ?? 'the open'}.`);
       }
-      if (!this.isStarterAtWeight()) {
+      const tournamentName = entry.tournamentName ?? 'the tournament';
+      if (!this.makeWeight(tournamentName, summary, [tournamentName])) {
         summary.eventType = 'tournament';
-        summary.message.push(`You didn't travel — backup at ${s.weightClass}.`);
         s.lastWeekSummary = summary;
         return summary;
       }
@@ -2573,6 +3807,7 @@ export class UnifiedEngine {
         minRating: 52,
         maxRating: 95,
         prestige: bigTournament ? 2 : 1,
+        division: s.league,
       });
       const { participants } = this.buildBracket(s.name, myRating, collegeOpponents);
       s.pendingTournamentPlay = {
@@ -2583,6 +3818,7 @@ export class UnifiedEngine {
         year: s.year,
         opponents: collegeOpponents,
         bracketParticipants: participants,
+        ...(entry.eventFormat === 'big_tournament' ? { teamFields: this.invitationalTeamFields(participants) } : {}),
       };
       summary.eventType = 'tournament';
       summary.message.push('Tournament this week. Go to tournament to compete.');
@@ -2608,15 +3844,38 @@ export class UnifiedEngine {
       s.lastWeekSummary = summary;
       return summary;
     }
-    if (!this.isStarterAtWeight()) {
+    const benched = this.collegeBenchReason();
+    if (benched || !this.isStarterAtWeight()) {
+      summary.eventType = 'tournament';
+      summary.message.push(benched ? `${benched} — you didn't compete at Conference.` : `You didn't compete at Conference — backup at ${s.weightClass}.`);
+      s.lastWeekSummary = summary;
+      return summary;
+    }
+    if (!this.makeWeight('Conference', summary, ['Conference Championship'])) {
       summary.eventType = 'tournament';
-      summary.message.push(`You didn't compete at Conference — backup at ${s.weightClass}.`);
       s.lastWeekSummary = summary;
       return summary;
     }
     const myRating = s.overallRating ?? 50;
-    const confOpponents = this.generateNamedBracketOpponents(myRating, { minRating: 55, maxRating: 95, prestige: 2 });
-    const { participants } = this.buildBracket(s.name, myRating, confOpponents);
+    const wc = s.weightClass ?? 145;
+    const conference = schoolConference(s.collegeName, s.league);
+    const allocations = conferenceAllocations(rateNcaaCandidates(this.ncaaCandidates(wc, { conference, places: {} }), this.rng), nationalsFieldSize(s.league));
+    const bids = allocations[conference] ?? 0;
+    s.conferenceResult = { year: s.year, weightClass: wc, conference, allocations, places: {} };
+    // Every member school's starter at the weight. A conference too small for 8 is topped up with the nearest-rated
+    // starters from the rest of the division, who wrestle for no team; a bigger field is filled out with stand-ins.
+    const division = collegeStartersAtWeight(s.npcs, wc, s.league).filter((n) => n.school !== s.collegeName);
+    const members = division.filter((n) => schoolConference(n.school, s.league) === conference);
+    const size = bracketSizeFor(members.length + 1);
+    const topUp = division
+      .filter((n) => !members.includes(n))
+      .sort((a, b) => Math.abs(a.overallRating - myRating) - Math.abs(b.overallRating - myRating))
+      .slice(0, Math.max(0, 7 - members.length))
+      .map(npcToOpponent);
+    const memberOpponents = members.map(npcToOpponent);
+    const confOpponents = [...memberOpponents, ...topUp];
+    const standIns = Array.from({ length: Math.max(0, size - 1 - members.length - topUp.length) }, (_, i) => this.standIn(members.length + topUp.length + i));
+    const { participants } = this.buildBracket(s.name, myRating, memberOpponents, size, [...topUp, ...standIns]);
     s.pendingTournamentPlay = {
       kind: 'tournament',
       phaseLabel: entry.tournamentName ?? 'Conference Championship',
@@ -2625,10 +3884,16 @@ export class UnifiedEngine {
       year: s.year,
       opponents: confOpponents,
       bracketParticipants: participants,
-      conferenceQualifyTop: CONFERENCE_QUALIFY_TOP,
+      bracketSize: size,
+      conferenceQualifyTop: bids,
+      teamFields: this.conferenceTeamFields(conference),
     };
     summary.eventType = 'tournament';
-    summary.message.push('Conference Championship this week. Go to tournament to compete.');
+    summary.message.push(
+      bids > 0
+        ? `${conference} Championship this week: ${bids} automatic NCAA bid${bids === 1 ? '' : 's'} at ${wc}. Go to tournament to compete.`
+        : `${conference} Championship this week: no automatic NCAA bids at ${wc}, so you'll need an at-large. Go to tournament to compete.`
+    );
     summary.bracketParticipants = participants;
     s.lastWeekSummary = summary;
     this.saveRng();
@@ -2647,16 +3912,18 @@ export class UnifiedEngine {
     return 'train_strength';
   }
 
-  advanceWeek(opts?: { skipAutoTrain?: boolean }): boolean {
+  advanceWeek(opts?: { skipAutoTrain?: boolean; batch?: boolean }): boolean {
     const s = this.state;
-    if (s.pendingCollegeChoice || s.pendingCollegeGraduation || s.careerEnded || s.pendingCompetition) return false;
+    if (s.pendingCollegeChoice || s.pendingCollegeGraduation || s.careerEnded || s.pendingCompetition || s.pendingRandomChoice) return false;
+    // When auto-training multiple weeks, give a small energy bump so every week can train (otherwise energy can dip below 20 after a few weeks)
+    if (opts?.batch && !opts.skipAutoTrain && (s.energy ?? 100) < 25) s.energy = Math.min(100, (s.energy ?? 0) + 8);
     // Decay grades if player didn't study this week
     if (!s.studiedThisWeek) s.grades = Math.max(0, (s.grades ?? 75) - 1);
     // Conditioning: only decay after 2+ weeks with no training (rest/rehab do not count as training but also don't trigger decay)
-    if (!s.trainedThisWeek) s.weeksWithoutTraining = (s.weeksWithoutTraining ?? 0) + 1;
+    if (!s.trainedThisWeek) s.weeksWithoutTraining = s.weeksWithoutTraining + 1;
     else s.weeksWithoutTraining = 0;
     // Conditioning drops every 2 weeks without training (reduced from every week)
-    if ((s.weeksWithoutTraining ?? 0) >= 2 && (s.weeksWithoutTraining ?? 0) % 2 === 0 && !s.didRestOrRehabThisWeek) s.conditioning = Math.max(0, (s.conditioning ?? 50) - 1);
+    if (s.weeksWithoutTraining >= 2 && s.weeksWithoutTraining % 2 === 0 && !s.didRestOrRehabThisWeek) s.conditioning = Math.max(0, (s.conditioning ?? 50) - 1);
     s.studiedThisWeek = false;
     s.trainedThisWeek = false;
     s.didRestOrRehabThisWeek = false;
@@ -2716,13 +3983,17 @@ export class UnifiedEngine {
       balance: s.money,
     };
 
+    this.healInjuries();
+
     // Random event: can help or hurt (injury, windfall, illness, etc.)
     this.applyRandomEvent(s);
 
     // Random weekly bonus: small chance for a free stat bump (makes progression a bit easier)
     this.applyRandomWeeklyBonus(s);
+    this.updateBodyWeight();
 
     if (s.week > 52) {
+      progressNpcUniverse(s.npcs, npcUniverseRng(s.seed, s.year), s.year);
       s.week = 1;
       s.age++;
       s.year++;
@@ -2737,16 +4008,26 @@ export class UnifiedEngine {
       s.stats.seasonMajors = 0;
       s.conditioning = 50;
       if (HS_LEAGUES.includes(s.league)) {
+        s.opponentPools = null;
         s.hsSchedule = this.generateHSSchedule();
         s.opponentPools = this.state.opponentPools;
       }
       if (isInCollege(s)) {
         s.collegeSchedule = this.generateCollegeSchedule();
         s.collegeRoster = this.generateCollegeRoster();
-        if ((s.eligibilityYearsRemaining ?? 4) > 0) s.eligibilityYearsRemaining = (s.eligibilityYearsRemaining ?? 4) - 1;
-        if ((s.eligibilityYearsRemaining ?? 0) <= 0) {
+        s.teamDualRecord = { wins: 0, losses: 0, ties: 0 };
+        if (s.collegeSeasonStatus !== 'active') {
+          addStory(s, `${s.collegeSeasonStatus === 'redshirt' ? 'Redshirt year' : 'Medical hardship'} — last season didn't count. ${s.eligibilityYearsRemaining} year(s) of eligibility left.`);
+        } else if (s.eligibilityYearsRemaining > 0) {
+          s.eligibilityYearsRemaining = s.eligibilityYearsRemaining - 1;
+        }
+        s.collegeSeasonStatus = 'active';
+        s.seasonInjuredWeek = null;
+        if (s.eligibilityYearsRemaining <= 0) {
           s.pendingCollegeGraduation = true;
           s.story = "You've graduated college! Choose your path: pursue the Olympics, start a new career, or retire.";
+        } else {
+          this.considerCoachRedshirt();
         }
       }
       const rating = s.overallRating ?? 50;
@@ -2783,6 +4064,7 @@ export class UnifiedEngine {
         if (!s.collegeSchedule?.length) {
           s.collegeSchedule = this.generateCollegeSchedule();
           s.collegeRoster = this.generateCollegeRoster();
+          s.teamDualRecord = { wins: 0, losses: 0, ties: 0 };
         }
         if (s.week >= 1 && s.week <= SEASON_WEEKS) this.runCollegeWeekCompetition();
         if (s.pendingCompetition) {
@@ -2816,12 +4098,14 @@ export class UnifiedEngine {
     this.computeRecruitingScore();
     // Life popups: ~35% chance per week; cap at 3 total (including when advancing multiple weeks — we never add if queue already has 3)
     const MAX_PENDING_POPUPS = 3;
-    const current = s.pendingLifePopups ?? [];
+    const current = s.pendingLifePopups;
     if (current.length < MAX_PENDING_POPUPS && this.rng.float() < 0.35) {
       const maxNew = Math.min(3, MAX_PENDING_POPUPS - current.length);
       const newPopups = generateLifePopups(s, this.rng, maxNew);
       s.pendingLifePopups = [...current, ...newPopups].slice(0, MAX_PENDING_POPUPS);
     }
+    // New season set up: backups challenge for a starting spot before week 1's events.
+    if (s.week === 1 && !s.pendingCollegeGraduation) this.startWrestleOffIfBackup('Preseason wrestle-off');
     this.saveRng();
     return s.week === 1;
   }
@@ -2829,15 +4113,12 @@ export class UnifiedEngine {
   /** Advance multiple weeks at once. Returns true if a new year was crossed. When autoTrainOnAdvance is true, each week is auto-trained (one training per week). */
   advanceWeeks(n: number): boolean {
     if (n < 1) return false;
-    const skipAutoTrain = !(this.state.autoTrainOnAdvance ?? true);
+    const skipAutoTrain = !this.state.autoTrainOnAdvance;
     let newYear = false;
     for (let i = 0; i < n; i++) {
-      if (this.state.pendingCompetition) break;
-      // When auto-training multiple weeks, give a small energy bump so every week can train (otherwise energy can dip below 20 after a few weeks)
-      if (!skipAutoTrain && n > 1 && (this.state.energy ?? 100) < 25) {
-        this.state.energy = Math.min(100, (this.state.energy ?? 0) + 8);
-      }
-      if (this.advanceWeek({ skipAutoTrain })) newYear = true;
+      if (this.state.pendingCompetition || this.state.pendingRandomChoice) break;
+      // Each week goes through advanceWeek (journaled on its own) so every week start is a rewind point
+      if (this.advanceWeek({ skipAutoTrain, batch: n > 1 })) newYear = true;
     }
     return newYear;
   }
@@ -2864,22 +4145,15 @@ export class UnifiedEngine {
   }
 
   getPendingLifePopups(): LifePopup[] {
-    return this.state.pendingLifePopups ?? [];
+    return this.state.pendingLifePopups;
   }
 
   getLifeLog(): LifeLogEntry[] {
-    return (this.state.lifeLog ?? []).slice(-80);
+    return this.state.lifeLog.slice(-80);
   }
 
-  resolveLifePopup(popupId: string, choiceIndex: number): void {
-    const s = this.state;
-    const queue = s.pendingLifePopups ?? [];
-    const idx = queue.findIndex((p) => p.id === popupId);
-    if (idx < 0) return;
-    const popup = queue[idx];
-    const choice = popup.choices[choiceIndex];
-    if (!choice) return;
-    const eff = choice.effects;
+  /** Apply serializable choice effects (life popups, random-event choices). Returns log fragments like "Energy -5". */
+  private applyChoiceEffects(s: UnifiedState, eff: LifePopupChoiceEffects): string[] {
     const logParts: string[] = [];
     if (eff.energy != null) {
       s.energy = clamp(0, 100, (s.energy ?? 100) + eff.energy);
@@ -2898,11 +4172,11 @@ export class UnifiedEngine {
       logParts.push(`Grades ${eff.grades >= 0 ? '+' : ''}${eff.grades}`);
     }
     if (eff.popularity != null) {
-      s.popularity = clamp(0, 100, (s.popularity ?? 50) + eff.popularity);
+      s.popularity = clamp(0, 100, s.popularity + eff.popularity);
       logParts.push(`Popularity ${eff.popularity >= 0 ? '+' : ''}${eff.popularity}`);
     }
     if (eff.coachTrust != null) {
-      s.coachTrust = clamp(0, 100, (s.coachTrust ?? 50) + eff.coachTrust);
+      s.coachTrust = clamp(0, 100, s.coachTrust + eff.coachTrust);
       logParts.push(`CoachTrust ${eff.coachTrust >= 0 ? '+' : ''}${eff.coachTrust}`);
     }
     if (eff.money != null) {
@@ -2926,7 +4200,7 @@ export class UnifiedEngine {
       logParts.push('Injury');
     }
     if (eff.relationshipMeter != null) {
-      s.relationshipMeter = clamp(0, 100, (s.relationshipMeter ?? 0) + eff.relationshipMeter);
+      s.relationshipMeter = clamp(0, 100, s.relationshipMeter + eff.relationshipMeter);
       logParts.push(`Rel ${eff.relationshipMeter >= 0 ? '+' : ''}${eff.relationshipMeter}`);
     }
     if (eff.chemistry != null && s.loveInterest) {
@@ -2941,19 +4215,44 @@ export class UnifiedEngine {
       s.social = clamp(0, 100, (s.social ?? 50) + eff.social);
       logParts.push(`Social ${eff.social >= 0 ? '+' : ''}${eff.social}`);
     }
+    return logParts;
+  }
+
+  getPendingRandomChoice(): PendingRandomChoice | null {
+    return this.state.pendingRandomChoice;
+  }
+
+  /** Resolve the pending random-event choice. Returns false if there is none or the index is out of range. */
+  resolveRandomChoice(optionIndex: number): boolean {
+    const s = this.state;
+    const pending = s.pendingRandomChoice;
+    const option = pending?.options[optionIndex];
+    if (!pending || !option) return false;
+    const logParts = this.applyChoiceEffects(s, option.effects);
+    s.pendingRandomChoice = null;
+    addStory(s, option.resultText);
+    addLifeLog(s, `Event: ${pending.prompt.slice(0, 50)}… / Choice: ${option.label} / Effects: ${logParts.length ? logParts.join(', ') : '—'}`);
+    this.saveRng();
+    return true;
+  }
+
+  resolveLifePopup(popupId: string, choiceIndex: number): void {
+    const s = this.state;
+    const queue = s.pendingLifePopups;
+    const idx = queue.findIndex((p) => p.id === popupId);
+    if (idx < 0) return;
+    const popup = queue[idx];
+    const choice = popup.choices[choiceIndex];
+    if (!choice) return;
+    const logParts = this.applyChoiceEffects(s, choice.effects);
     if (popup.id.startsWith('popup_love_interest_meet') && (choiceIndex === 0 || choiceIndex === 1) && !s.loveInterest) {
       const names = ['Jordan', 'Sam', 'Alex', 'Morgan', 'Riley', 'Casey', 'Quinn'];
       s.loveInterest = { name: names[this.rng.next() % names.length], chemistry: 40 + this.rng.next() % 25 };
       s.relationshipStatus = 'TALKING';
-      s.relationshipMeter = Math.min(100, (s.relationshipMeter ?? 0) + (choice.effects.relationshipMeter ?? 10));
+      s.relationshipMeter = Math.min(100, s.relationshipMeter + (choice.effects.relationshipMeter ?? 10));
     }
     const effectsStr = logParts.length ? logParts.join(', ') : '—';
-    if (!s.lifeLog) s.lifeLog = [];
-    s.lifeLog.push({
-      week: s.week,
-      year: s.year,
-      text: `Popup: ${popup.text.slice(0, 50)}… / Choice: ${choice.label} / Effects: ${effectsStr}`,
-    });
+    addLifeLog(s, `Popup: ${popup.text.slice(0, 50)}… / Choice: ${choice.label} / Effects: ${effectsStr}`);
     s.pendingLifePopups = queue.filter((_, i) => i !== idx);
     this.saveRng();
   }
@@ -2961,6 +4260,11 @@ export class UnifiedEngine {
   /** Random events each week: good or bad (expenses, health, money, stress, etc.). */
   private applyRandomEvent(s: UnifiedState): void {
     if (this.rng.float() > 0.2) return;
+    // Pickup games, icy steps: the one random event that causes a real injury.
+    if (this.rng.float() < 0.08) {
+      this.sustainInjury('event', 5);
+      return;
+    }
     const inCollege = isInCollege(s);
     const roll = this.rng.int(0, inCollege ? 11 : 7);
     switch (roll) {
@@ -2972,8 +4276,14 @@ export class UnifiedEngine {
       }
       case 1: {
         const cost = this.rng.int(50, 180);
-        s.money = Math.max(0, (s.money ?? 0) - cost);
-        addStory(s, 'Car trouble (or transit costs). -$' + cost + '.');
+        s.pendingRandomChoice = {
+          prompt: `Car trouble (or transit costs). The fix will run $${cost}.`,
+          options: [
+            { label: `Pay for it (-$${cost})`, resultText: 'You paid for the repair. Back on the road.', effects: { money: -cost } },
+            { label: 'Skip it and catch rides for a while', resultText: 'You skipped the repair. Long rides and early alarms wore you down.', effects: { energy: -12, stress: 6 } },
+          ],
+        };
+        addStory(s, 'Car trouble (or transit costs). Decide how to handle it.');
         break;
       }
       case 2: {
@@ -3099,7 +4409,7 @@ export class UnifiedEngine {
     if (list.length === 0) {
       list = this.generateNamedBracketOpponents(s.overallRating ?? 50, { minRating: 50, maxRating: 92, count: 15 });
     }
-    while (list.length < 15) list.push({ id: 'pad', name: 'Opponent', overallRating: 70, style: 'grinder', clutch: 50 });
+    while (list.length < 15) list.push({ id: `pad_${list.length}`, name: 'Opponent', overallRating: 70, style: 'grinder', clutch: 50 });
     return list.slice(0, 15);
   }
 
@@ -3115,6 +4425,16 @@ export class UnifiedEngine {
         s.lastWeekSummary = { week: s.week, year: s.year, phase: 'District/Sectional', eventType: 'district', message: ["Academic ineligibility — you didn't compete at districts."] };
         return true;
       }
+      if (this.isTooHurtToCompete()) {
+        addStory(s, 'Injured — you missed districts.');
+        s.lastWeekSummary = { week: s.week, year: s.year, phase: 'District/Sectional', eventType: 'district', message: ["Injured — you didn't compete at districts."] };
+        return true;
+      }
+      const weighIn: WeekSummary = { week: s.week, year: s.year, phase: 'District/Sectional', eventType: 'district', message: [] };
+      if (!this.makeWeight('districts', weighIn, ['District/Sectional'])) {
+        s.lastWeekSummary = weighIn;
+        return true;
+      }
       const districtOpponents = this.getHSBracketOpponents16();
       const myRating = s.overallRating ?? 50;
       const { participants } = this.buildBracket(s.name ?? 'You', myRating, districtOpponents, 16);
@@ -3139,6 +4459,18 @@ export class UnifiedEngine {
         s.lastWeekSummary = { week: s.week, year: s.year, phase: 'State Tournament', eventType: 'state', message: ["Academic ineligibility — you didn't compete at state."] };
         return true;
       }
+      if (this.isTooHurtToCompete()) {
+        addStory(s, 'Injured — you had to withdraw from state.');
+        s.stateQualified = false;
+        s.lastWeekSummary = { week: s.week, year: s.year, phase: 'State Tournament', eventType: 'state', message: ["Injured — you didn't compete at state."] };
+        return true;
+      }
+      const weighIn: WeekSummary = { week: s.week, year: s.year, phase: 'State Tournament', eventType: 'state', message: [] };
+      if (!this.makeWeight('state', weighIn, ['State Tournament'])) {
+        s.stateQualified = false;
+        s.lastWeekSummary = weighIn;
+        return true;
+      }
       const stateOpponents = this.getHSBracketOpponents16();
       const myRating = s.overallRating ?? 50;
       const { participants } = this.buildBracket(s.name ?? 'You', myRating, stateOpponents, 16);
@@ -3161,22 +4493,64 @@ export class UnifiedEngine {
       s.story = 'Week ' + s.week + ', Year ' + s.year + '. Season wrap.';
       return true;
     }
-    // Conference tournament is week 12 and handled in runCollegeWeekCompetition; NCAA qualification set there.
-    if (s.week === NCAA_WEEK && isInCollege(s) && s.ncaaQualified) {
+    // Conference tournament is week 12 and handled in runCollegeWeekCompetition; it sets this season's conferenceResult.
+    if (s.week === NCAA_WEEK && isInCollege(s) && s.conferenceResult?.year === s.year) {
+      const result = s.conferenceResult;
+      const size = nationalsFieldSize(s.league);
+      const field = selectNcaaField(rateNcaaCandidates(this.ncaaCandidates(result.weightClass, result), this.rng), result.allocations, size);
+      const seeded = seedNcaaField(field);
+      const mine = seeded.find((q) => q.id === PLAYER_ENTRANT_ID);
+      if (!mine) {
+        addStory(s, 'Left out of the NCAA Championships field.');
+        s.ncaaQualified = false;
+        s.lastWeekSummary = { week: s.week, year: s.year, phase: 'NCAA Championships', eventType: 'state', message: [`No automatic bid and passed over for an at-large at ${result.weightClass}. Your season is over.`] };
+        this.saveRng();
+        return true;
+      }
       if (!this.canWrestle()) {
         addStory(s, "Academic ineligibility — you couldn't compete at NCAA Championships.");
         s.ncaaQualified = false;
         s.lastWeekSummary = { week: s.week, year: s.year, phase: 'NCAA Championships', eventType: 'state', message: ["Academic ineligibility — you didn't compete at NCAAs."] };
+        this.saveRng();
+        return true;
+      }
+      if (this.isTooHurtToCompete()) {
+        addStory(s, 'Injured — you had to withdraw from the NCAA Championships.');
+        s.ncaaQualified = false;
+        s.lastWeekSummary = { week: s.week, year: s.year, phase: 'NCAA Championships', eventType: 'state', message: ["Injured — you didn't compete at NCAAs."] };
+        this.saveRng();
+        return true;
+      }
+      const weighIn: WeekSummary = { week: s.week, year: s.year, phase: 'NCAA Championships', eventType: 'state', message: [] };
+      if (!this.makeWeight('NCAAs', weighIn, ['NCAA Championships'])) {
+        s.ncaaQualified = false;
+        s.lastWeekSummary = weighIn;
+        this.saveRng();
         return true;
       }
-      const finalsOpp = this.getFinalsOpponentFromRankings() ?? {
-        id: 'ncaa_finals',
-        name: 'NCAA finals opponent',
-        overallRating: clamp(65, 95, (s.overallRating ?? 50) + this.rng.int(-2, 8)),
-        style: 'grinder' as const,
-        clutch: 50,
+      const participants = this.ncaaEntrants(seeded, size);
+      const opponents = participants.filter((p) => p.id !== PLAYER_ENTRANT_ID).map(entrantOpponent);
+      this.countBracketSeen(opponents);
+      s.ncaaQualified = true;
+      s.pendingTournamentPlay = {
+        kind: 'ncaa',
+        phaseLabel: 'NCAA Championships',
+        eventType: 'state',
+        week: s.week,
+        year: s.year,
+        opponents,
+        bracketParticipants: participants,
+        bracketSize: size,
+        teamFields: this.ncaaTeamFields(),
+      };
+      s.lastWeekSummary = {
+        week: s.week,
+        year: s.year,
+        phase: 'NCAA Championships',
+        eventType: 'state',
+        message: [`${mine.bid === 'automatic' ? 'Automatic' : 'At-large'} bid: you're the ${mine.seed} seed in the ${size}-man NCAA bracket at ${result.weightClass}. Go to tournament to compete.`],
+        bracketParticipants: participants,
       };
-      this.startPendingSingleMatch('ncaa', 'NCAA Championships', 'state', finalsOpp, 'Finals');
       this.saveRng();
       return true;
     }
@@ -3214,11 +4588,18 @@ export class UnifiedEngine {
     if (eventKey === 'world_championship' && !s.qualifiedForWorldChampionshipThisYear) return { success: false, message: 'Qualify at US Open first (place 1st or 2nd).' };
     if ((s.money ?? 0) < ev.cost) return { success: false, message: "You can't afford it." };
     if (!this.canWrestle()) return { success: false, message: "Grades too low — you're academically ineligible to compete." };
+    if (this.isTooHurtToCompete()) return { success: false, message: "You're injured — heal up before entering." };
     if ((s.offseasonEventsUsedThisYear ?? {})[eventKey]) return { success: false, message: 'Already competed here this year.' };
     s.offseasonEventsUsedThisYear = s.offseasonEventsUsedThisYear ?? {};
     s.offseasonEventsUsedThisYear[eventKey] = true;
     s.money = Math.max(0, (s.money ?? 0) - ev.cost);
 
+    const weighIn: WeekSummary = { week: s.week, year: s.year, phase: ev.name, eventType: 'tournament', message: [] };
+    if (!this.makeWeight(ev.name, weighIn, [ev.name])) {
+      s.lastWeekSummary = weighIn;
+      this.saveRng();
+      return { success: false, eventName: ev.name, message: weighIn.message[0] };
+    }
     const myRating = s.overallRating ?? 50;
     if (eventKey === 'wno') {
       const youAreNo1 = this.rng.float() < 0.5;
@@ -3396,47 +4777,10 @@ export class UnifiedEngine {
     const board: Record<number, BoardRow> = {} as Record<number, BoardRow>;
     const wc = s.weightClass ?? 145;
     const weightList = HS_LEAGUES.indexOf(s.league) === -1 ? COLLEGE_WEIGHT_CLASSES : WEIGHT_CLASSES;
-    const firstNames = ['Jake', 'Kyle', 'David', 'Ryan', 'Cole', 'Blake', 'Mason', 'Hunter'];
-    const lastNames = ['Smith', 'Johnson', 'Brown', 'Davis', 'Wilson', 'Moore', 'Taylor', 'Anderson'];
-    /** Synthetic season record for NPC from id+rating (stable per wrestler). */
-    const syntheticRecord = (id: string, overallRating: number): { wins: number; losses: number } => {
-      let h = 0;
-      for (let i = 0; i < id.length; i++) h = (h * 31 + id.charCodeAt(i)) | 0;
-      const spread = Math.abs(h % 7) - 3; // -3 to +3
-      const wins = clamp(0, 15, 5 + Math.floor((overallRating - 65) / 5) + spread);
-      const losses = clamp(0, 12, 10 - wins + (Math.abs(h >> 4) % 3));
-      return { wins, losses };
-    };
     /** Sort key: record first (wins - losses), then rating. */
     const rankScore = (wins: number, losses: number, overall: number) => (wins - losses) * 1000 + overall;
     for (const w of weightList) {
-      if (!s.rankingsByWeight[w] || s.rankingsByWeight[w].length === 0) {
-        const pool = s.opponentPools;
-        if (w === wc && pool && (pool.stateRanked.length > 0 || pool.nationalRanked.length > 0)) {
-          const merged = [...pool.stateRanked, ...pool.nationalRanked]
-            .sort((a, b) => b.overallRating - a.overallRating);
-          s.rankingsByWeight[w] = merged.map((o) => ({
-            id: o.id,
-            name: o.name,
-            overallRating: o.overallRating,
-            trueSkill: o.overallRating,
-          }));
-        } else {
-          s.rankingsByWeight[w] = [];
-          for (let i = 0; i < 15; i++) {
-            const ts = 58 + (this.rng.float() - 0.5) * 28;
-            const overall = clamp(62, 99, Math.round(72 + (this.rng.float() - 0.5) * 22));
-            s.rankingsByWeight[w].push({
-              id: `ai_${w}_${this.rng.next()}`,
-              name: firstNames[this.rng.next() % firstNames.length] + ' ' + lastNames[this.rng.next() % lastNames.length],
-              overallRating: overall,
-              trueSkill: ts,
-            });
-          }
-          s.rankingsByWeight[w].sort((a, b) => b.overallRating - a.overallRating);
-        }
-      }
-      const list = s.rankingsByWeight[w];
+      const list = this.rankedField(w);
       if (w === wc) {
         const myRating = s.overallRating ?? 50;
         const playerW = s.stats.seasonWins ?? 0;
@@ -3444,7 +4788,7 @@ export class UnifiedEngine {
         const playerEntry = { id: 'player', name: s.name, overallRating: myRating, trueSkill: s.trueSkill ?? 50 };
         const withRecords: { id: string; name: string; overallRating: number; wins: number; losses: number }[] = [
           ...list.map((e) => {
-            const rec = syntheticRecord(e.id, e.overallRating);
+            const rec = npcCurrentRecord(e, s.year);
             return { id: e.id, name: e.name, overallRating: e.overallRating, wins: rec.wins, losses: rec.losses };
           }),
           { id: 'player', name: playerEntry.name, overallRating: playerEntry.overallRating, wins: playerW, losses: playerL },
@@ -3463,7 +4807,7 @@ export class UnifiedEngine {
         board[w] = entry;
       } else {
         const withRecords = list.map((e) => {
-          const rec = syntheticRecord(e.id, e.overallRating);
+          const rec = npcCurrentRecord(e, s.year);
           return { ...e, wins: rec.wins, losses: rec.losses };
         });
         withRecords.sort((a, b) => rankScore(b.wins, b.losses, b.overallRating) - rankScore(a.wins, a.losses, a.overallRating));
@@ -3571,17 +4915,39 @@ export class UnifiedEngine {
     return this.isStarterAtWeight();
   }
 
+  /** Chance a healing injury is aggravated by a hard session or match, after recovery equipment. */
+  getReinjuryRisk(injury: PlayerInjury): number {
+    return injury.reinjuryRisk * RECOVERY_REINJURY_MULT[this.getLifestyle().recoveryEquipment];
+  }
+
+  /** Current injury status: out of competition, wrapped (limited move set) or healthy. */
+  getInjuryStatus(): InjuryStatus {
+    return this.injuryStatus();
+  }
+
   static getWeightClasses(league?: LeagueKey): number[] {
     const inCollege = league && HS_LEAGUES.indexOf(league) === -1;
     return inCollege ? [...COLLEGE_WEIGHT_CLASSES] : [...WEIGHT_CLASSES];
   }
 
+  /** Lightest weight class in the current league the player can make from natural weight without a dangerous cut. */
+  getMakeableWeightClass(): number {
+    const s = this.state;
+    const classes = UnifiedEngine.getWeightClasses(s.league);
+    const lowest = s.bodyWeight.naturalWeight * (1 - SAFE_CUT_PCT - SEVERE_CUT_SPAN_PCT * DANGEROUS_CUT);
+    return classes.find((wc) => wc >= lowest) ?? classes[classes.length - 1]!;
+  }
+
   /** Switch to a different weight class (must be valid for current league: HS or college). Returns true if changed. */
   setWeightClass(newWeight: number): boolean {
     const s = this.state;
     const allowed = UnifiedEngine.getWeightClasses(s.league);
     if (!allowed.includes(newWeight) || (s.weightClass ?? 145) === newWeight) return false;
     s.weightClass = newWeight;
+    // College: join the new weight at the bottom of its depth chart.
+    const roster = s.collegeRoster ?? [];
+    const me = roster.findIndex((r) => r.isPlayer);
+    if (me >= 0) roster.push({ ...roster.splice(me, 1)[0]!, weightClass: newWeight });
     addStory(s, `You moved to ${newWeight} lbs.`);
     this.saveRng();
     return true;
@@ -3,7 +3,8 @@
  * Week-based flow: choices per week, tournaments at set weeks, offseason, recruiting.
  */
 
-import type { ExchangeLogEntry, ExchangePrompt, MatchMinigameResult, MatchMinigameState, MatchPosition } from '../MatchMinigame';
+import type { ExchangeLogEntry, ExchangePrompt, MatchMinigameResult, MatchMinigameState, MatchPosition, RuleSet } from '../MatchMinigame';
+import type { OpponentIntent, OpponentStyle } from '../OpponentAI';
 
 export type LeagueKey =
   | 'HS_JV'
@@ -16,8 +17,19 @@ export type LeagueKey =
   | 'D1';
 
 export interface UnifiedState {
+  /** Save schema version; older saves are upgraded step by step when loaded (see SAVE_MIGRATIONS in UnifiedEngine). */
+  schemaVersion: number;
   seed: string;
   rngState: string;
+  /**
+   * Every player-facing engine call since createState, in order; UnifiedEngine.replay(seed, journal) rebuilds this state.
+   * Calls from before the oldest rewind point are folded into a restoreState entry holding that week's start.
+   */
+  journal: JournalEntry[];
+  /** Rolling list of recent week starts the player can rewind to (newest last). Empty when the career can't be replayed. */
+  weekCheckpoints: WeekCheckpoint[];
+  /** Ironman career: chosen at creation, disables rewinding. Kept on the save so the career shows it was played ironman. */
+  ironman: boolean;
   name: string;
   age: number;
   year: number;
@@ -27,15 +39,19 @@ export interface UnifiedState {
   collegeName: string | null;
   fromHS: boolean;
   weeksInCollege: number;
-  /** Years of eligibility remaining (4 when entering college; decrements each season). */
-  eligibilityYearsRemaining?: number;
+  /** Years of eligibility remaining (4 until entering college; decrements each college season). */
+  eligibilityYearsRemaining: number;
   weightClass: number;
+  /** Natural and current body weight; weighed in against weightClass before every competition. */
+  bodyWeight: BodyWeight;
   technique: number;
   matIQ: number;
   conditioning: number;
   strength: number;
   speed: number;
   flexibility: number;
+  /** Freestyle and Greco-Roman skill (0–100); folkstyle is technique itself. Grows with every bout wrestled in that style. */
+  styleRatings: Record<InternationalStyle, number>;
   energy: number;
   health: number;
   stress: number;
@@ -55,9 +71,12 @@ export interface UnifiedState {
   techniqueTranslationWeeks: number;
   stateQualified: boolean;
   ncaaQualified: boolean;
+  /** Set when your conference tournament starts; NCAA selection reads it. */
+  conferenceResult: ConferenceResult | null;
   didPartTimeThisWeek: boolean;
   broke: boolean;
   story: string;
+  /** Story lines, oldest first; the latest 200 are kept. */
   history: { year: number; week: number; age: number; text: string }[];
   accolades: string[];
   stats: {
@@ -87,46 +106,51 @@ export interface UnifiedState {
     wnoWins: number;
     usOpenPlacements: number[];
     worldChampionshipPlacements: number[];
+    /** Years the player redshirted (kept the year of eligibility). */
+    redshirtYears: number[];
+    /** Years a medical hardship waiver was granted. */
+    medicalHardshipYears: number[];
     hsRecord: Record<string, number>;
     collegeRecord: Record<string, number>;
   };
-  rankingsByWeight: Record<number, { id: string; name: string; overallRating: number; trueSkill: number }[]>;
   lastWeekEconomy: { expenses: { total: number; lifestyle?: number }; income: { total: number; nil?: number; partTime?: number }; net: number; balance: number } | null;
-  pendingRandomChoice: {
-    prompt: string;
-    options: { label: string; resultText: string; effect: (s: UnifiedState) => void }[];
-  } | null;
+  /** Random weekly event waiting on a decision; blocks advancing until resolved. */
+  pendingRandomChoice: PendingRandomChoice | null;
   /** College offers after HS graduation; player picks one and can negotiate NIL/scholarship. */
   offers: CollegeOffer[];
   /** Per-school recruiting context for this class: slots used and weights already committed (so not every school offers). */
   recruitingClassContext?: Record<string, { slotsUsed: number; committedWeights: number[] }>;
   pendingNILDeal: unknown | null;
   /** True when player has graduated HS (age 18+) and must choose a college before advancing. */
-  pendingCollegeChoice?: boolean;
+  pendingCollegeChoice: boolean;
   /** True when player has graduated college (eligibility exhausted) and must choose: Olympics, Restart, or Retire. */
-  pendingCollegeGraduation?: boolean;
+  pendingCollegeGraduation: boolean;
   /** True when career is over (chose Olympics or Retire); show summary and option to start new career. */
-  careerEnded?: boolean;
+  careerEnded: boolean;
   /** How the career ended: olympics or retire. */
   careerEndChoice?: 'olympics' | 'retire';
   /** True when player has entered the transfer portal (college only); must pick a school or withdraw to advance. */
-  transferPortalActive?: boolean;
+  transferPortalActive: boolean;
   /** Transfer offers from other schools when in the portal. */
-  transferOffers?: CollegeOffer[];
+  transferOffers: CollegeOffer[];
   /** Successful negotiation count per school (tuition / NIL) so schools push back after repeated asks. */
-  negotiationAttempts?: Record<string, { tuition: number; nil: number }>;
+  negotiationAttempts: Record<string, { tuition: number; nil: number }>;
   /** Hours left this week (resets each week). If 0, no actions available. */
   hoursLeftThisWeek: number;
   /** Set true when player picks Study this week; used for grades decay. */
-  studiedThisWeek?: boolean;
+  studiedThisWeek: boolean;
   /** Set true when player picks train_* this week; used for conditioning decay. */
-  trainedThisWeek?: boolean;
+  trainedThisWeek: boolean;
   /** Weeks in a row with no training; conditioning only decays after 2+ weeks without training. */
-  weeksWithoutTraining?: number;
+  weeksWithoutTraining: number;
   /** Set true when player picks rest or rehab; rest/rehab do not reduce conditioning. */
-  didRestOrRehabThisWeek?: boolean;
+  didRestOrRehabThisWeek: boolean;
+  /** Injuries still healing. Empty when healthy. */
+  injuries: PlayerInjury[];
+  /** Extra weeks of healing earned by rehab this week (0–2); applied and reset when the week advances. */
+  rehabBonusWeeks: number;
   /** When true, advancing multiple weeks will auto-train each week (train what they need most). Single-week advance always auto-trains if time/energy allow. */
-  autoTrainOnAdvance?: boolean;
+  autoTrainOnAdvance: boolean;
   /** Temporary multipliers for this week only; reset at start of each week. Affects training, match performance, injury risk, weight cut. */
   weekModifiers: WeekModifiers;
   /** Relationship; null = single. Kept for backward compat; also sync with relationships list. */
@@ -146,38 +170,48 @@ export interface UnifiedState {
   hsSchedule: HSScheduleEntry[] | null;
   /** HS only: opponent pools for schedule (state-ranked, national, unranked). Persisted. */
   opponentPools: OpponentPools | null;
+  /** Every NPC you've wrestled or seen in a bracket, keyed by opponent id and name. Kept for the whole career. */
+  opponentHistory: Record<string, OpponentHistory>;
+  /** Every other wrestler in the world, HS and college. Pools, brackets, rankings and rosters are all drawn from it. */
+  npcs: NpcUniverse;
   /** College only: season schedule (weeks 1–7 duals/tournaments, 8 conference, 12 NCAA). Generated at year start. */
   collegeSchedule: CollegeScheduleEntry[] | null;
   /** College only: roster at your weight + teammates (for lineup). Generated when entering college or year start. */
   collegeRoster: CollegeTeammate[] | null;
+  /** College only: 'redshirt' (opens only, unattached) or 'medical' (hardship waiver granted) keeps this season's eligibility. */
+  collegeSeasonStatus: CollegeSeasonStatus;
+  /** College only: first season week the player was too hurt to wrestle, for medical hardship petitions. */
+  seasonInjuredWeek: number | null;
+  /** College only: your team's dual-meet record this season. Reset with the roster. */
+  teamDualRecord: { wins: number; losses: number; ties: number };
   /** After "Next Week": summary for UI (match result, record, ranking, recruiting, etc.). Cleared when advancing again. */
   lastWeekSummary: WeekSummary | null;
   /** Lifestyle: housing, car, meal plan, recovery equipment. Affects weekly expenses and gameplay. */
-  lifestyle?: LifestyleState;
+  lifestyle: LifestyleState;
   /** BitLife-style life popups: queue of 2–5 per week; resolve one at a time. */
-  pendingLifePopups?: LifePopup[];
-  /** Life log: "Popup:… / Choice:… / Effects:…" for each resolved popup. */
-  lifeLog?: LifeLogEntry[];
+  pendingLifePopups: LifePopup[];
+  /** Life log: "Popup:… / Choice:… / Effects:…" for each resolved popup; the latest 200 are kept. */
+  lifeLog: LifeLogEntry[];
   /** Recently shown life popup def ids (for variety: downweight repeat events). */
-  recentLifePopupDefIds?: string[];
+  recentLifePopupDefIds: string[];
   /** Popularity 0–100; affects media/NIL/relationship event weight. */
-  popularity?: number;
+  popularity: number;
   /** Coach trust 0–100; affects discipline/opportunity events. */
-  coachTrust?: number;
+  coachTrust: number;
   /** If true, relationship path events can introduce LoveInterest and drama/support. */
-  allowRelationshipEvents?: boolean;
+  allowRelationshipEvents: boolean;
   /** Love interest NPC when relationship path is active. */
   loveInterest?: { name: string; chemistry: number };
   /** Relationship status with love interest. */
-  relationshipStatus?: RelationshipStatus;
+  relationshipStatus: RelationshipStatus;
   /** Relationship meter 0–100 with love interest. */
-  relationshipMeter?: number;
+  relationshipMeter: number;
 
   /** When non-null, a competition is in progress and must be played (interactive match minigame). */
-  pendingCompetition?: PendingCompetitionState | null;
+  pendingCompetition: PendingCompetitionState | null;
 
   /** When set, a tournament is waiting for "Go to tournament" → then Play or Simulate. Blocks advance until resolved. */
-  pendingTournamentPlay?: PendingTournamentPlay | null;
+  pendingTournamentPlay: PendingTournamentPlay | null;
 }
 
 /** Tournament week or offseason bracket not yet started; user must click Go to tournament then Play or Simulate. */
@@ -188,11 +222,14 @@ export interface PendingTournamentPlay {
   week: number;
   year: number;
   opponents: Opponent[];
-  bracketParticipants?: BracketParticipant[];
-  /** 8 or 16; default 8. District and state are 16-man. */
-  bracketSize?: 8 | 16;
-  /** Conference tournament: top N qualify for NCAA. */
+  /** Seeded field, you included. */
+  bracketParticipants: BracketEntrant[];
+  /** 8, 16, 32 or 33; default 8. District and state are 16-man, NCAAs 33. */
+  bracketSize?: BracketSize;
+  /** Conference tournament: the conference's automatic NCAA bids at your weight; finish this high to qualify. */
   conferenceQualifyTop?: number;
+  /** Conference, NCAAs and big invitationals: the seeded field at every other weight, wrestled alongside yours for the team race. */
+  teamFields?: BracketEntrant[][];
   /** Offseason event key when kind is 'offseason'. */
   offseasonEventKey?: string;
 }
@@ -235,6 +272,37 @@ export interface LifePopupChoiceEffects {
   social?: number;
 }
 
+/** One option of a random weekly event. Effects are data (not functions) so a pending choice survives save/load. */
+export interface RandomChoiceOption {
+  label: string;
+  /** Story line shown after picking this option. */
+  resultText: string;
+  effects: LifePopupChoiceEffects;
+}
+
+/** One recorded engine call. The first entry is createState with its options, or restoreState with a week-start snapshot. */
+export interface JournalEntry {
+  method: string;
+  args: unknown[];
+}
+
+/** Start of a week in the journal; rewinding replays journal.slice(0, journalLength). */
+export interface WeekCheckpoint {
+  year: number;
+  week: number;
+  age: number;
+  overallRating: number;
+  seasonWins: number;
+  seasonLosses: number;
+  journalLength: number;
+}
+
+/** Random weekly event that needs a decision (e.g. pay for a repair or tough it out). */
+export interface PendingRandomChoice {
+  prompt: string;
+  options: RandomChoiceOption[];
+}
+
 /** One choice in a life popup. */
 export interface LifePopupChoice {
   label: string;
@@ -335,7 +403,7 @@ export interface CollegeScheduleEntry {
   tournamentMatchCount?: number;
 }
 
-/** Teammate (or player) at a weight for college lineup. */
+/** Teammate (or player) at a weight for college lineup. Roster order within a weight is the depth chart: first is the starter. */
 export interface CollegeTeammate {
   id: string;
   name: string;
@@ -344,6 +412,88 @@ export interface CollegeTeammate {
   isPlayer: boolean;
 }
 
+export type CollegeSeasonStatus = 'active' | 'redshirt' | 'medical';
+
+export type BodyPart = 'head' | 'neck' | 'shoulder' | 'elbow' | 'hand' | 'ribs' | 'back' | 'knee' | 'ankle';
+
+export type InjuryStatus = 'healthy' | 'limited' | 'out';
+
+/** A body-part injury with a recovery timeline. Severity is 1–10, as in the legacy Injury type. */
+export interface PlayerInjury {
+  id: string;
+  bodyPart: BodyPart;
+  /** e.g. 'MCL sprain'. */
+  name: string;
+  severity: number;
+  source: 'training' | 'match' | 'event';
+  week: number;
+  year: number;
+  /** Weeks left until healed; the last few are wrestled wrapped with a limited move set. */
+  weeksOut: number;
+  /** Longest timeline this injury has had (grows when it's aggravated). */
+  totalWeeks: number;
+  /** Base 0–1 chance per hard session or match to aggravate it while healing. Physical therapy lowers it; recovery equipment scales it when rolled. */
+  reinjuryRisk: number;
+}
+
+/**
+ * Body weight in lbs. Natural weight grows with age, lifting and the meal plan; current weight is dieted
+ * toward the weight class in season and drifts back to natural out of season.
+ */
+export interface BodyWeight {
+  naturalWeight: number;
+  currentWeight: number;
+  /** Most recent weigh-in; kept until the next one. */
+  lastWeighIn: WeighInResult | null;
+}
+
+export interface WeighInResult {
+  week: number;
+  year: number;
+  event: string;
+  weightClass: number;
+  /** On the scale after the day-before water cut. */
+  scaleWeight: number;
+  made: boolean;
+  /** 0–1 how hard the cut was, after weekModifiers.weightCutSeverityMult. 0.5+ is a dangerous cut. */
+  cutSeverity: number;
+}
+
+/** One opposing starter in a college dual lineup. */
+export interface DualLineupEntry {
+  /** NPC id; missing on lineups saved before the NPC universe. */
+  id?: string;
+  weightClass: number;
+  name: string;
+  overallRating: number;
+}
+
+/** A college dual waiting on the player's bout: the opposing school and its starters at every weight. */
+export interface CollegeDualSetup {
+  opponentTeam: string;
+  lineup: DualLineupEntry[];
+}
+
+/** One weight of a dual, from our team's side. Team points go to the bout winner (3 dec, 4 major, 5 tech, 6 fall/forfeit). */
+export interface DualBoutResult {
+  weightClass: number;
+  teamWrestler: string;
+  opponentWrestler: string;
+  isPlayer: boolean;
+  won: boolean;
+  method: string;
+  teamPoints: number;
+  opponentPoints: number;
+}
+
+export interface DualMeetResult {
+  opponentTeam: string;
+  bouts: DualBoutResult[];
+  teamScore: number;
+  opponentScore: number;
+  result: 'W' | 'L' | 'T';
+}
+
 /** Next upcoming event for "Up next" on home. */
 export interface NextEventInfo {
   week: number;
@@ -390,10 +540,105 @@ export interface Opponent {
   overallRating: number;
   stateRank?: number;
   nationalRank?: number;
-  style: 'grinder' | 'scrambler' | 'defensive';
+  style: OpponentStyle;
   clutch: number;
 }
 
+/** One bout against a known NPC, played or simulated. */
+export interface OpponentBout {
+  year: number;
+  week: number;
+  event: string;
+  won: boolean;
+  method: string;
+}
+
+/** What you know about an NPC: past results against them, and their style once you've scouted them. */
+export interface OpponentHistory {
+  id: string;
+  name: string;
+  style: OpponentStyle;
+  overallRating: number;
+  bouts: OpponentBout[];
+  /** Brackets they were entered in alongside you, once you'd wrestled or scouted them. */
+  bracketsSeen: number;
+  /** Film studied: their tendencies are known and matching answers get a bonus in the minigame. */
+  scouted: boolean;
+}
+
+/** Pre-match report on an opponent. Tendencies are only filled in once they've been scouted. */
+export interface ScoutingReport {
+  name: string;
+  overallRating: number;
+  /** Your record against them. */
+  wins: number;
+  losses: number;
+  /** Most recent first. */
+  bouts: OpponentBout[];
+  bracketsSeen: number;
+  scouted: boolean;
+  style?: OpponentStyle;
+  /** Share of exchanges they go for each intent in an even match on the feet (ride from top). */
+  tendencies?: { intent: OpponentIntent; share: number }[];
+}
+
+/**
+ * A persistent NPC wrestler. Ages and develops every offseason, moves from HS to college, transfers and retires.
+ * Attributes are on the player's 0–100 scale.
+ */
+export interface NpcWrestler {
+  id: string;
+  name: string;
+  age: number;
+  /** An HS weight in high school, a college weight after. */
+  weightClass: number;
+  /** HS_JV / HS_VARSITY / HS_ELITE in high school; the school's division in college. */
+  league: LeagueKey;
+  /** High school, or college name (matches SCHOOLS for real programs). */
+  school: string;
+  style: OpponentStyle;
+  clutch: number;
+  technique: number;
+  matIQ: number;
+  conditioning: number;
+  strength: number;
+  speed: number;
+  flexibility: number;
+  overallRating: number;
+  /** Rating they develop toward; growth slows as they near it. */
+  potential: number;
+  /** Seasons wrestled in college (0 in HS). */
+  collegeYears: number;
+  transfers: number;
+  /** Career record through last season. */
+  wins: number;
+  losses: number;
+  /** Bracket bouts wrestled this season, on top of their scheduled record; banked at the offseason. */
+  seasonWins: number;
+  seasonLosses: number;
+}
+
+export interface NpcUniverse {
+  /** Next id number to hand out (ids are npc_<n>). */
+  nextId: number;
+  wrestlers: NpcWrestler[];
+  /** Everything since it was generated from the save seed, oldest first. Missing on universes from before it was kept. */
+  log?: NpcUniverseEvent[];
+}
+
+/** A wrestler's bracket bouts for a season: [id, wins, losses]. */
+export type NpcSeasonResult = [string, number, number];
+
+/** A mid-season walk-on as signed, or an offseason with the bracket results banked into it. */
+export type NpcUniverseEvent = { walkOn: NpcWrestler } | { season: number; results: NpcSeasonResult[] };
+
+/** A saved universe without its wrestlers, which are regenerated from the save seed and the log on load. */
+export interface PackedNpcUniverse {
+  log: NpcUniverseEvent[];
+  /** Bracket results so far this season. */
+  results: NpcSeasonResult[];
+}
+
 /** Pools per weight for HS schedule (generated once per year). */
 export interface OpponentPools {
   unranked: Opponent[];
@@ -422,24 +667,141 @@ export interface RelationshipActionItem {
   money?: number;
 }
 
-/** One seed in an 8-person tournament bracket (for display and sim). */
+/** One seed in a tournament bracket (for display). */
 export interface BracketParticipant {
   seed: number;
   name: string;
   overallRating: number;
 }
 
+/** 33 is the NCAA field: 32 lines plus a pigtail bout between the two lowest seeds. */
+export type BracketSize = 8 | 16 | 32 | 33;
+
+/** Everyone in a bracket: you (id 'player') or an NPC / stand-in, with what it takes to simulate their bouts. */
+export interface BracketEntrant extends BracketParticipant {
+  id: string;
+  /** NPCs only; your bouts use your own attributes. */
+  style?: OpponentStyle;
+  clutch?: number;
+  stateRank?: number;
+  nationalRank?: number;
+  /** School they wrestle for, when known. */
+  team?: string;
+  /** Final place, set once every bout is wrestled. */
+  place?: number;
+}
+
+/** Bracket rounds: championship side, consolation (wrestleback) rounds and placement bouts. */
+export type BracketRoundKey =
+  | 'PIGTAIL'
+  | 'R32'
+  | 'R16'
+  | 'QF'
+  | 'SF'
+  | 'FINAL'
+  | 'CONS_R1'
+  | 'CONS_R2'
+  | 'CONS_R3'
+  | 'CONS_R4'
+  | 'CONS_R5'
+  | 'CONS_R6'
+  | 'THIRD_FOURTH'
+  | 'FIFTH_SIXTH'
+  | 'SEVENTH_EIGHTH';
+
+/** Where a bout's wrestler comes from: the winner or loser of an earlier bout. */
+export interface BracketFeed {
+  bout: string;
+  take: 'winner' | 'loser';
+}
+
+export interface BracketBout {
+  /** Round key and bout number, e.g. "QF-2". */
+  id: string;
+  round: BracketRoundKey;
+  side: 'championship' | 'consolation';
+  /** Seeds in the top and bottom slots; null until the feeding bout is decided. */
+  top: number | null;
+  bottom: number | null;
+  topFrom?: BracketFeed;
+  bottomFrom?: BracketFeed;
+  /** Finals and placement bouts: the winner takes this place, the loser the next. */
+  places?: number;
+  /** Consolation bouts before the placement rounds: the loser is out, sharing places from this one down. */
+  eliminatedPlace?: number;
+  winner?: number;
+  method?: string;
+  /** Points for the winner and loser, for bouts played in the minigame. */
+  score?: { winner: number; loser: number };
+}
+
+/** A whole tournament at one weight: every entrant, every bout in the order wrestled, and final places. */
+export interface TournamentBracket {
+  size: BracketSize;
+  /** Indexed by seed - 1. */
+  entrants: BracketEntrant[];
+  bouts: BracketBout[];
+}
+
+/** One program's total in a tournament team race. */
+export interface TeamScore {
+  team: string;
+  points: number;
+  /** Wrestlers in the top 8 (decided so far, while it's live). */
+  placers: number;
+}
+
+/** A wrestler in the running for an NCAA bid at one weight, with what the selection committee looks at. */
+export interface NcaaCandidate {
+  id: string;
+  name: string;
+  overallRating: number;
+  style?: OpponentStyle;
+  clutch?: number;
+  team?: string;
+  conference: string;
+  wins: number;
+  losses: number;
+  /** Place at their conference tournament; unset if they didn't place. */
+  conferencePlace?: number;
+  /** Coaches' panel ranking, 1 = best. */
+  coachesRank: number;
+  rpi: number;
+  rpiRank: number;
+}
+
+export interface NcaaQualifier extends NcaaCandidate {
+  bid: 'automatic' | 'at-large';
+}
+
+/** This season's conference tournament at your weight: the NCAA allocations it was wrestled for and where everyone placed. */
+export interface ConferenceResult {
+  year: number;
+  weightClass: number;
+  conference: string;
+  /** Automatic NCAA bids per conference at this weight. */
+  allocations: Record<string, number>;
+  /** Entrant id → finish among the conference's own placers (top-ups from other conferences don't count), you as 'player'; empty until it's wrestled. */
+  places: Record<string, number>;
+}
+
 /** Shown after Next Week: competition result and deltas. */
 export interface WeekSummary {
   week: number;
   year: number;
   phase: string;
-  eventType?: 'dual' | 'tournament' | 'district' | 'state' | 'wrap' | 'none';
+  eventType?: 'dual' | 'tournament' | 'district' | 'state' | 'wrap' | 'wrestleoff' | 'none';
   matches?: { opponentName: string; opponentOverall: number; stateRank?: number; nationalRank?: number; won: boolean; method?: string }[];
-  /** 8-person bracket (seed 1 = player, 2–8 = opponents) when eventType is tournament. */
+  /** Seeded field when eventType is tournament. */
   bracketParticipants?: BracketParticipant[];
+  /** Every bout of the bracket and every entrant's place, once it's been wrestled. */
+  bracket?: TournamentBracket;
+  /** Final team standings at a team-scored event, best first. */
+  teamScores?: TeamScore[];
   placement?: number;
   recordChange?: { wins: number; losses: number };
+  /** College dual weeks: full 10-weight scorecard for each dual, in the order wrestled. */
+  duals?: DualMeetResult[];
   message: string[];
   energyChange?: number;
   stressChange?: number;
@@ -506,32 +868,19 @@ export interface OffseasonEventItem {
   cost: number;
   prestige: number;
   canAfford: boolean;
+  ruleSet: RuleSet;
 }
 
-export type CompetitionKind = 'dual' | 'tournament' | 'district' | 'state' | 'ncaa' | 'offseason';
+export type InternationalStyle = Exclude<RuleSet, 'folkstyle'>;
 
-export type PendingBracketPhase =
-  | 'R16'
-  | 'QF'
-  | 'CONS_R1'
-  | 'CONS_R2'
-  | 'CONS_R3'
-  | 'CONS_R4'
-  | 'SF'
-  | 'WB_FINAL'
-  | 'LB_FINAL'
-  | 'FINAL'
-  | 'RESET'
-  | 'THIRD_FOURTH'
-  | 'DONE';
+export type CompetitionKind = 'dual' | 'tournament' | 'district' | 'state' | 'ncaa' | 'offseason' | 'wrestleoff';
+
+/** Round of your next bout, or DONE once you have no more. */
+export type PendingBracketPhase = BracketRoundKey | 'DONE';
 
-export interface PendingBracketState {
-  /** 8-man (QF start) or 16-man (R16 start). */
-  size: 8 | 16;
+/** The bracket being wrestled: bouts ahead of yours are simulated as the event moves along. */
+export interface PendingBracketState extends TournamentBracket {
   phase: PendingBracketPhase;
-  /** Opponents: 7 for 8-man, 15 for 16-man. */
-  opponents: Opponent[];
-  opponentIndex: number;
   /** Set when DONE. */
   placement?: number;
 }
@@ -567,10 +916,16 @@ export interface PendingCompetitionState {
   eventType?: WeekSummary['eventType'];
   /** Optional: offseason event key when kind is 'offseason'. */
   offseasonEventKey?: string;
+  /** Conference tournament: finish this high to take an automatic NCAA bid. */
+  conferenceQualifyTop?: number;
   /** For tournaments/brackets. */
   bracket?: PendingBracketState;
+  /** Team-scored events: the other weights' brackets, wrestled alongside yours. */
+  teamBrackets?: TournamentBracket[];
   /** For multi-match dual weeks (travel dual weekend, triangular/quad). */
   queue?: { matches: { opponent: Opponent; roundLabel: string }[]; index: number };
+  /** College dual weeks: one setup per queued match, so the rest of the lineup is wrestled when the week finishes. */
+  collegeDuals?: CollegeDualSetup[];
   /** Single-match competitions (dual/district/state/ncaa). */
   singleMatch?: { opponent: Opponent; roundLabel: string };
   /** Current match being played (always present until completion). */
@@ -0,0 +1,125 @@
+'use client';
+
+import { useState } from 'react';
+import { BRACKET_ROUND_LABELS, PLAYER_ENTRANT_ID, bracketRoundLabel } from '@/engine/unified/Bracket';
+import type { BracketBout, BracketEntrant, BracketFeed, BracketRoundKey, PendingBracketState, TournamentBracket } from '@/engine/unified/types';
+
+type Side = BracketBout['side'];
+
+const PLACE_LABELS: Record<number, string> = { 1: '1st', 3: '3rd', 5: '5th', 7: '7th' };
+
+/** A bracket's bouts on one side, grouped by round in the order they're wrestled. */
+function roundsOf(bracket: TournamentBracket, side: Side): { round: BracketRoundKey; bouts: BracketBout[] }[] {
+  const rounds: { round: BracketRoundKey; bouts: BracketBout[] }[] = [];
+  for (const bout of bracket.bouts) {
+    if (bout.side !== side) continue;
+    const last = rounds[rounds.length - 1];
+    if (last?.round === bout.round) last.bouts.push(bout);
+    else rounds.push({ round: bout.round, bouts: [bout] });
+  }
+  return rounds;
+}
+
+/** Where an empty slot's wrestler comes from, e.g. "W Quarterfinal 2". */
+function feedLabel(feed: BracketFeed | undefined): string {
+  if (!feed) return 'TBD';
+  const [round, n] = feed.bout.split('-') as [BracketRoundKey, string];
+  return `${feed.take === 'winner' ? 'W' : 'L'} ${BRACKET_ROUND_LABELS[round] ?? round} ${n}`;
+}
+
+function BoutCard({ bout, entrants, playerSeed, live }: { bout: BracketBout; entrants: BracketEntrant[]; playerSeed: number | null; live: boolean }) {
+  const yours = playerSeed != null && (bout.top === playerSeed || bout.bottom === playerSeed);
+  const line = (seed: number | null, feed: BracketFeed | undefined) => {
+    const e = seed != null ? entrants[seed - 1] : undefined;
+    if (!e) return <div className="text-slate-400 dark:text-zinc-500 italic truncate">{feedLabel(feed)}</div>;
+    const won = bout.winner != null && bout.winner === seed;
+    const lost = bout.winner != null && !won;
+    return (
+      <div className={`flex items-center justify-between gap-2 ${won ? 'font-semibold text-slate-900 dark:text-zinc-100' : lost ? 'text-slate-400 dark:text-zinc-500' : 'text-slate-700 dark:text-zinc-200'}`}>
+        <span className={`truncate ${e.id === PLAYER_ENTRANT_ID ? 'text-blue-600 dark:text-blue-400' : ''}`}>
+          <span className="text-slate-400 dark:text-zinc-500">{e.seed}.</span> {e.name}
+          {e.team && <span className="text-slate-400 dark:text-zinc-500 font-normal"> · {e.team}</span>}
+        </span>
+        <span className="shrink-0 text-slate-400 dark:text-zinc-500 font-normal">{Math.round(e.overallRating)}</span>
+      </div>
+    );
+  };
+  const result = bout.winner != null ? [bout.method, bout.score && `${bout.score.winner}-${bout.score.loser}`].filter(Boolean).join(' ') : live ? 'On the mat' : null;
+  return (
+    <div
+      className={`rounded border px-2 py-1 text-xs ${live ? 'border-amber-500 ring-1 ring-amber-400 bg-amber-50 dark:bg-amber-950/40' : yours ? 'border-blue-500 bg-blue-50 dark:bg-blue-950/40' : 'border-slate-200 dark:border-zinc-700 bg-white dark:bg-zinc-900'}`}
+    >
+      {bout.places != null && <div className="text-[10px] uppercase tracking-wide text-slate-500 dark:text-zinc-400">For {PLACE_LABELS[bout.places] ?? bout.places}</div>}
+      {line(bout.top, bout.topFrom)}
+      {line(bout.bottom, bout.bottomFrom)}
+      {result && <div className={`text-[10px] mt-0.5 ${live ? 'text-amber-700 dark:text-amber-300 font-medium' : 'text-slate-500 dark:text-zinc-400'}`}>{result}</div>}
+    </div>
+  );
+}
+
+/**
+ * A championship and consolation bracket, round by round. Your bouts are highlighted; pass a pending bracket and the
+ * bout you're about to wrestle is marked live, so it follows along as you play.
+ */
+export function BracketViewer({ bracket, title }: { bracket: TournamentBracket | PendingBracketState; title?: string }) {
+  const [side, setSide] = useState<Side>('championship');
+  const [yoursOnly, setYoursOnly] = useState(false);
+  const playerSeed = bracket.entrants.find((e) => e.id === PLAYER_ENTRANT_ID)?.seed ?? null;
+  const phase = 'phase' in bracket ? bracket.phase : 'DONE';
+  const liveBout =
+    phase !== 'DONE' && playerSeed != null
+      ? bracket.bouts.find((b) => b.round === phase && b.winner == null && (b.top === playerSeed || b.bottom === playerSeed))
+      : undefined;
+  const rounds = roundsOf(bracket, side)
+    .map(({ round, bouts }) => ({ round, bouts: yoursOnly ? bouts.filter((b) => playerSeed != null && (b.top === playerSeed || b.bottom === playerSeed)) : bouts }))
+    .filter(({ bouts }) => bouts.length > 0);
+  const placers = bracket.entrants.filter((e) => e.place != null && e.place <= 8).sort((a, b) => a.place! - b.place!);
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <p className="text-xs font-medium text-slate-600 dark:text-zinc-300">{title ?? `Bracket (${bracket.size}-man)`}</p>
+        <div className="flex gap-1">
+          {(['championship', 'consolation'] as const).map((s) => (
+            <button
+              key={s}
+              type="button"
+              onClick={() => setSide(s)}
+              className={`rounded px-2 py-1 text-xs capitalize touch-manipulation ${side === s ? 'bg-blue-600 text-white' : 'bg-slate-300 dark:bg-zinc-700 text-slate-700 dark:text-zinc-200'}`}
+            >
+              {s}
+            </button>
+          ))}
+          {playerSeed != null && (
+            <button
+              type="button"
+              onClick={() => setYoursOnly(!yoursOnly)}
+              className={`rounded px-2 py-1 text-xs touch-manipulation ${yoursOnly ? 'bg-blue-600 text-white' : 'bg-slate-300 dark:bg-zinc-700 text-slate-700 dark:text-zinc-200'}`}
+            >
+              Your path
+            </button>
+          )}
+        </div>
+      </div>
+      {rounds.length === 0 ? (
+        <p className="text-xs text-slate-500 dark:text-zinc-400">You didn&apos;t wrestle on this side.</p>
+      ) : (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {rounds.map(({ round, bouts }) => (
+            <div key={round} className="flex flex-col justify-around gap-1.5 min-w-[11rem] w-44 shrink-0">
+              <p className="text-[11px] font-semibold text-slate-600 dark:text-zinc-300">{bracketRoundLabel(bracket, round)}</p>
+              {bouts.map((bout) => (
+                <BoutCard key={bout.id} bout={bout} entrants={bracket.entrants} playerSeed={playerSeed} live={bout === liveBout} />
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+      {placers.length > 0 && (
+        <p className="text-xs text-slate-600 dark:text-zinc-300 mt-2">
+          Placers: {placers.map((e, i) => <span key={e.seed} className={e.id === PLAYER_ENTRANT_ID ? 'font-semibold text-blue-600 dark:text-blue-400' : ''}>{i > 0 && ' · '}{e.place}. {e.name}</span>)}
+        </p>
+      )}
+    </div>
+  );
+}
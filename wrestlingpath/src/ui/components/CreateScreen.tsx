@@ -3,7 +3,9 @@
 import { useState, useEffect } from 'react';
 import { useGame } from '@/ui/context/GameContext';
 import { UnifiedEngine } from '@/engine/unified/UnifiedEngine';
-import { loadGame, hasSave } from '@/db/persistence';
+import { listSaveSlots, renameSaveSlot, duplicateSaveSlot, deleteSaveSlot, createSaveSlot } from '@/db/persistence';
+import { importSave } from '@/db/portable';
+import type { SaveSlotMeta } from '@/db/persistence';
 import type { LeagueKey, CustomStartOptions } from '@/engine/unified/types';
 
 const LEAGUES: { value: LeagueKey; label: string }[] = [
@@ -22,7 +24,13 @@ export function CreateScreen() {
   const [name, setName] = useState('');
   const [weightClass, setWeightClass] = useState(145);
   const [seed, setSeed] = useState('');
-  const [canLoad, setCanLoad] = useState(false);
+  const [slots, setSlots] = useState<SaveSlotMeta[]>([]);
+  const [renamingSlotId, setRenamingSlotId] = useState<string | null>(null);
+  const [renameLabel, setRenameLabel] = useState('');
+  const [slotError, setSlotError] = useState<string | null>(null);
+  const [importText, setImportText] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const [ironman, setIronman] = useState(false);
   const [customStart, setCustomStart] = useState(false);
   const [customAge, setCustomAge] = useState(14);
   const [customYear, setCustomYear] = useState(1);
@@ -43,7 +51,7 @@ export function CreateScreen() {
   const [customRecruiting, setCustomRecruiting] = useState(50);
 
   useEffect(() => {
-    setCanLoad(hasSave());
+    listSaveSlots().then(setSlots);
     if (!seed) setSeed(Math.random().toString(36).slice(2, 10));
   }, []);
 
@@ -64,10 +72,11 @@ export function CreateScreen() {
   };
 
   const handleStart = () => {
-    const options: { name: string; weightClass: number; customStart?: CustomStartOptions } = {
+    const options: { name: string; weightClass: number; customStart?: CustomStartOptions; ironman?: boolean } = {
       name: name.trim() || 'Wrestler',
       weightClass,
     };
+    if (ironman) options.ironman = true;
     if (customStart) {
       options.customStart = {
         age: customAge,
@@ -92,6 +101,45 @@ export function CreateScreen() {
     startNewGame(seed || 'default', options);
   };
 
+  const refreshSlots = async () => setSlots(await listSaveSlots());
+
+  const handleRename = async (id: string) => {
+    if (await renameSaveSlot(id, renameLabel)) {
+      setRenamingSlotId(null);
+      await refreshSlots();
+    }
+  };
+
+  const handleDelete = async (slot: SaveSlotMeta) => {
+    if (!window.confirm(`Delete "${slot.label}"? This can't be undone.`)) return;
+    await deleteSaveSlot(slot.id);
+    await refreshSlots();
+  };
+
+  const handleImport = async (text: string) => {
+    if (!text.trim()) return;
+    const result = await importSave(text);
+    if (!result.success) {
+      setImportError(result.message);
+      return;
+    }
+    const slot = await createSaveSlot(result.state);
+    if (!slot) {
+      setImportError('Imported, but this browser has no room to store the career.');
+      return;
+    }
+    setImportError(null);
+    setImportText('');
+    await loadIntoEngine(slot.id);
+  };
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    await handleImport(await file.text());
+  };
+
+  const fmtLastPlayed = (ms: number) => new Date(ms).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
   const weights = UnifiedEngine.getWeightClasses();
 
   return (
@@ -140,6 +188,15 @@ export function CreateScreen() {
             className="w-full rounded-xl bg-[#252830] border border-slate-700 px-3 py-3 min-h-[48px] text-white font-mono text-sm touch-manipulation"
           />
         </div>
+        <label className="flex items-center gap-3 cursor-pointer min-h-[44px] py-2">
+          <input
+            type="checkbox"
+            checked={ironman}
+            onChange={(e) => setIronman(e.target.checked)}
+            className="rounded border-slate-500 bg-[#252830] text-sky-400 w-5 h-5 shrink-0 touch-manipulation"
+          />
+          <span className="text-sm text-slate-700 dark:text-zinc-300">Ironman <span className="text-slate-500">— no rewinding; every choice is final</span></span>
+        </label>
         <div className="pt-2 border-t border-slate-300/60 dark:border-zinc-700">
           <label className="flex items-center gap-3 cursor-pointer min-h-[44px] py-2">
             <input
@@ -254,19 +311,108 @@ export function CreateScreen() {
         >
           Start career
         </button>
-        {canLoad && (
-          <button
-            type="button"
-            onClick={() => {
-              const saved = loadGame();
-              if (saved) loadIntoEngine(saved as import('@/engine/unified/types').UnifiedState);
-            }}
-            className="rounded-full bg-slate-700/80 py-4 sm:py-3 min-h-[52px] px-4 font-medium text-slate-50 hover:bg-slate-600 active:bg-slate-800 touch-manipulation border border-slate-600"
-          >
-            Load game
-          </button>
-        )}
       </div>
+      <section className="mt-6">
+        <h2 className="text-[11px] uppercase tracking-[0.18em] text-slate-400 mb-2">Import career</h2>
+        <div className="rounded-xl bg-[#3f424a] border border-slate-700 p-3 space-y-2">
+          <p className="text-xs text-slate-400">Paste a share code or load an exported save file. Imported careers get their own slot.</p>
+          <textarea
+            value={importText}
+            onChange={(e) => setImportText(e.target.value)}
+            placeholder="WP1.…"
+            rows={2}
+            className="w-full rounded-xl bg-[#252830] border border-slate-700 px-3 py-2 text-white font-mono text-xs placeholder-slate-500 touch-manipulation"
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              type="button"
+              onClick={() => handleImport(importText)}
+              disabled={!importText.trim()}
+              className="rounded-full bg-sky-500/90 px-4 py-2 min-h-[40px] text-xs font-semibold uppercase tracking-wide text-white disabled:opacity-50 touch-manipulation"
+            >
+              Import code
+            </button>
+            <label className="rounded-full bg-slate-700/80 px-4 py-2 min-h-[40px] flex items-center text-xs text-slate-100 border border-slate-600 cursor-pointer touch-manipulation">
+              Import file
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => { handleImportFile(e.target.files?.[0]); e.target.value = ''; }}
+              />
+            </label>
+          </div>
+          {importError && <p className="text-sm text-red-400">{importError}</p>}
+        </div>
+      </section>
+      {slots.length > 0 && (
+        <section className="mt-6">
+          <h2 className="text-[11px] uppercase tracking-[0.18em] text-slate-400 mb-2">Saved careers</h2>
+          {slotError && <p className="text-sm text-red-400 mb-2">{slotError}</p>}
+          <ul className="space-y-2">
+            {slots.map((slot) => (
+              <li key={slot.id} className="rounded-xl bg-[#3f424a] border border-slate-700 p-3">
+                {renamingSlotId === slot.id ? (
+                  <div className="flex gap-2 mb-2">
+                    <input
+                      type="text"
+                      value={renameLabel}
+                      onChange={(e) => setRenameLabel(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') handleRename(slot.id); }}
+                      className="flex-1 rounded-xl bg-[#252830] border border-slate-700 px-3 py-2 min-h-[44px] text-white text-sm touch-manipulation"
+                      autoFocus
+                    />
+                    <button type="button" onClick={() => handleRename(slot.id)} className="rounded-full bg-sky-500/90 px-4 min-h-[44px] text-xs font-semibold text-white touch-manipulation">Save</button>
+                    <button type="button" onClick={() => setRenamingSlotId(null)} className="rounded-full bg-slate-700/80 px-4 min-h-[44px] text-xs text-slate-200 touch-manipulation">Cancel</button>
+                  </div>
+                ) : (
+                  <div className="flex items-baseline justify-between gap-2">
+                    <span className="font-semibold text-white truncate">{slot.label}</span>
+                    <span className="text-[11px] text-slate-500 shrink-0">{fmtLastPlayed(slot.lastPlayed)}</span>
+                  </div>
+                )}
+                <p className="text-xs text-slate-400 mt-0.5">
+                  {slot.summary.name} · Age {slot.summary.age} · {slot.summary.league.replace(/_/g, ' ')}
+                  {slot.summary.collegeName ? ` · ${slot.summary.collegeName}` : ''} · {slot.summary.weightClass} lbs · Record {slot.summary.record}{slot.summary.ironman ? ' · Ironman' : ''}
+                </p>
+                <p className="text-[11px] text-slate-500">Week {slot.summary.week}, Year {slot.summary.year}</p>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  <button
+                    type="button"
+                    onClick={async () => { setSlotError((await loadIntoEngine(slot.id)) ? null : `Couldn't read "${slot.label}".`); }}
+                    className="rounded-full bg-[#22c55e] px-4 py-2 min-h-[40px] text-xs font-bold uppercase tracking-wide text-white touch-manipulation"
+                  >
+                    Load
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => { setRenamingSlotId(slot.id); setRenameLabel(slot.label); }}
+                    className="rounded-full bg-slate-700/80 px-4 py-2 min-h-[40px] text-xs text-slate-100 border border-slate-600 touch-manipulation"
+                  >
+                    Rename
+                  </button>
+                  {!slot.summary.ironman && (
+                    <button
+                      type="button"
+                      onClick={async () => { await duplicateSaveSlot(slot.id); await refreshSlots(); }}
+                      className="rounded-full bg-slate-700/80 px-4 py-2 min-h-[40px] text-xs text-slate-100 border border-slate-600 touch-manipulation"
+                    >
+                      Duplicate
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(slot)}
+                    className="rounded-full bg-slate-700/80 px-4 py-2 min-h-[40px] text-xs text-red-300 border border-slate-600 touch-manipulation"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
     </div>
   );
 }
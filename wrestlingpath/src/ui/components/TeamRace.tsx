@@ -0,0 +1,31 @@
+'use client';
+
+import type { TeamScore } from '@/engine/unified/types';
+
+function formatPoints(points: number): string {
+  return Number.isInteger(points) ? String(points) : points.toFixed(1);
+}
+
+/** Team standings, best first: the top few, plus your school wherever it sits. */
+export function TeamRace({ standings, yourTeam, title, top = 5 }: { standings: TeamScore[]; yourTeam?: string | null; title?: string; top?: number }) {
+  const rows = standings.map((t, i) => ({ ...t, rank: i + 1 })).filter((t) => t.rank <= top || t.team === yourTeam);
+  return (
+    <div>
+      <p className="text-xs font-medium text-slate-600 dark:text-zinc-300 mb-1">{title ?? 'Team race'}</p>
+      <ol className="text-xs space-y-0.5">
+        {rows.map((t) => (
+          <li
+            key={t.team}
+            className={`flex justify-between gap-2 ${t.team === yourTeam ? 'font-semibold text-blue-600 dark:text-blue-400' : 'text-slate-700 dark:text-zinc-200'}`}
+          >
+            <span className="truncate">
+              {t.rank}. {t.team}
+              <span className="text-slate-400 dark:text-zinc-500 font-normal"> · {t.placers} placer{t.placers === 1 ? '' : 's'}</span>
+            </span>
+            <span className="shrink-0">{formatPoints(t.points)}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
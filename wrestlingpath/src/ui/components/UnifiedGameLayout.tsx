@@ -2,15 +2,20 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { useGame } from '@/ui/context/GameContext';
-import type { HousingTier, CarTier, MealPlanTier, RecoveryTier, BracketParticipant } from '@/engine/unified/types';
+import type { HousingTier, CarTier, MealPlanTier, RecoveryTier } from '@/engine/unified/types';
 import { saveGame } from '@/db/persistence';
+import { exportSaveFile, exportShareCode } from '@/db/portable';
 import { UnifiedEngine } from '@/engine/unified/UnifiedEngine';
+import { createBracket, isBracketSize } from '@/engine/unified/Bracket';
+import { BracketViewer } from '@/ui/components/BracketViewer';
+import { TeamRace } from '@/ui/components/TeamRace';
 import type { ExchangeLogEntry } from '@/engine/MatchMinigame';
-import { DECISION_TIMER_SECONDS } from '@/engine/MatchMinigame';
+import { OPPONENT_INTENT_LABELS } from '@/engine/OpponentAI';
+import { DECISION_TIMER_SECONDS, DEFAULT_OUT_KEY, INJURY_TIMEOUT_KEY, describeScoringEvent, formatRidingTime, ruleSetLabel } from '@/engine/MatchMinigame';
 
 export function UnifiedGameLayout() {
-  const { state, engine, applyChoice, applyRelationshipAction, advanceWeek, advanceWeeks, autoTrainOnAdvance, setAutoTrainOnAdvance, runOffseasonEvent, getCollegeOffers, getSchools, requestCollegeOffer, getCanAdvanceWeek, acceptOffer, negotiateOffer, canEnterTransferPortal, enterTransferPortal, getTransferOffers, requestTransferOffer, negotiateTransferOffer, acceptTransfer, withdrawFromTransferPortal, purchaseLifestyle, upgradeLifestyleWeekly, purchaseCustomItem, getPendingLifePopups, resolveLifePopup, getLifeLog, playCompetitionAction, getPendingTournamentPlay, startTournamentPlay, simulateTournamentBracket, simulatePendingCompetitionMatch, choosePostCollegeOption, setWeightClass, goToCreate } = useGame();
-  const [view, setView] = useState<'play' | 'rankings' | 'trophies' | 'schedule' | 'settings' | 'relationships' | 'team' | 'college' | 'lifestyle' | 'life'>('play');
+  const { state, engine, applyChoice, applyRelationshipAction, advanceWeek, advanceWeeks, autoTrainOnAdvance, setAutoTrainOnAdvance, runOffseasonEvent, getCollegeOffers, getSchools, requestCollegeOffer, getCanAdvanceWeek, acceptOffer, negotiateOffer, canEnterTransferPortal, enterTransferPortal, getTransferOffers, requestTransferOffer, negotiateTransferOffer, acceptTransfer, withdrawFromTransferPortal, purchaseLifestyle, upgradeLifestyleWeekly, purchaseCustomItem, getPendingLifePopups, resolveLifePopup, getLifeLog, resolveRandomChoice, playCompetitionAction, getPendingTournamentPlay, startTournamentPlay, simulateTournamentBracket, simulatePendingCompetitionMatch, choosePostCollegeOption, setWeightClass, rewindToWeek, setRedshirt, petitionMedicalHardship, scoutPendingOpponent, goToCreate, activeSlotId, recoveredFromBackup } = useGame();
+  const [view, setView] = useState<'play' | 'rankings' | 'trophies' | 'schedule' | 'settings' | 'relationships' | 'team' | 'college' | 'lifestyle' | 'life' | 'timeline'>('play');
   const [playActionTab, setPlayActionTab] = useState<'training' | 'school' | 'relationship'>('training');
   const [navExpanded, setNavExpanded] = useState(false);
   const [leftBarOpen, setLeftBarOpen] = useState(false);
@@ -19,7 +24,14 @@ export function UnifiedGameLayout() {
   const [requestTransferMessage, setRequestTransferMessage] = useState<string | null>(null);
   const [viewingWeightClass, setViewingWeightClass] = useState<number | null>(null);
   const [tipsOpen, setTipsOpen] = useState(false);
-  const [lastOffseasonBracket, setLastOffseasonBracket] = useState<{ name: string; participants: BracketParticipant[] } | null>(null);
+  const [shareCode, setShareCode] = useState<string | null>(null);
+  const [shareCopied, setShareCopied] = useState(false);
+  const [rewindMessage, setRewindMessage] = useState<string | null>(null);
+  const [eligibilityMessage, setEligibilityMessage] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [scoutMessage, setScoutMessage] = useState<string | null>(null);
+  const [lastOffseasonBracket, setLastOffseasonBracket] = useState<{ name: string } | null>(null);
+  const [showLiveBracket, setShowLiveBracket] = useState(false);
   const prevWeekRef = useRef<number | undefined>(undefined);
   const [tournamentRevealCount, setTournamentRevealCount] = useState<number>(0);
   const pendingComp = state?.pendingCompetition ?? null;
@@ -28,9 +40,15 @@ export function UnifiedGameLayout() {
   const fmtNIL = (n: number) => n >= 1000 ? (n >= 1_000_000 ? `${Math.round(n / 1_000_000)}M` : `${Math.round(n / 1000)}K`) : n.toLocaleString();
   const fmtOfferType = (t?: string) => { switch (t) { case 'full': return 'Full scholarship'; case 'partial': return 'Partial'; case 'preferred_walkon': return 'Preferred walk-on'; case 'walkon': return 'Walk-on'; default: return 'Full'; } };
 
-  /** One-line summary of an exchange for the match log. */
+  /** One-line summary of an exchange for the match log, bout-sheet style when scoring moves were recorded. */
   function formatExchangeLogEntry(e: ExchangeLogEntry): string {
-    const p = `P${e.period} ${e.position}`;
+    const p = `${e.overtime ?? `P${e.period}`} ${e.position}`;
+    if (e.actionKey === INJURY_TIMEOUT_KEY || e.actionKey === DEFAULT_OUT_KEY || e.actionKey.startsWith('choose_')) return `${p}: ${e.actionLabel}${e.timedOut ? ' (timer)' : ''}.`;
+    if (e.scoring) {
+      const what = e.timedOut ? 'You hesitated (timer)' : `${e.actionLabel} — ${e.success ? 'success' : 'no'}`;
+      const scores = e.scoring.length > 0 ? ` ${e.scoring.map(describeScoringEvent).join('; ')}.` : '';
+      return `${p}: ${what}.${scores}`;
+    }
     if (e.timedOut) {
       const them = e.pointsAgainst > 0 ? ` Opponent scores ${e.pointsAgainst}.` : '';
       return `${p}: You hesitated (timer).${them}`;
@@ -44,8 +62,9 @@ export function UnifiedGameLayout() {
   }
 
   useEffect(() => {
-    if (state) saveGame(state);
-  }, [state]);
+    if (!state || !activeSlotId) return;
+    saveGame(state, activeSlotId).then((result) => setSaveError(result.success ? null : result.message));
+  }, [state, activeSlotId]);
 
   // Reset exchange timer whenever a new exchange prompt is shown
   useEffect(() => {
@@ -100,6 +119,27 @@ export function UnifiedGameLayout() {
 
   if (!state || !engine) return null;
 
+  const downloadSaveFile = () => {
+    const blob = new Blob([exportSaveFile(state)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `wrestlingpath-${state.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-y${state.year}w${state.week}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const copyShareCode = async () => {
+    const code = await exportShareCode(state);
+    setShareCode(code);
+    try {
+      await navigator.clipboard.writeText(code);
+      setShareCopied(true);
+    } catch {
+      setShareCopied(false);
+    }
+  };
+
   function LeftBarContent({ gameState }: { gameState: NonNullable<typeof state> }) {
     return (
       <>
@@ -108,7 +148,7 @@ export function UnifiedGameLayout() {
           <div className="text-xs text-slate-500 dark:text-zinc-500">Age {gameState.age} · Week {gameState.week ?? 1} Year {gameState.year}</div>
           <div className="text-lg font-bold text-slate-900 dark:text-white mt-1">{gameState.overallRating}</div>
           <div className="text-xs text-slate-600 dark:text-zinc-400">{gameState.league.replace(/_/g, ' ')} · {gameState.weightClass} lbs</div>
-          {typeof gameState.eligibilityYearsRemaining === 'number' && (
+          {gameState.collegeName != null && (
             <div className="text-xs text-slate-500 dark:text-zinc-500 mt-0.5">Eligibility: {gameState.eligibilityYearsRemaining} year{gameState.eligibilityYearsRemaining !== 1 ? 's' : ''} left</div>
           )}
         </div>
@@ -116,6 +156,7 @@ export function UnifiedGameLayout() {
           <div className="text-slate-500 dark:text-zinc-500 mb-1">Attributes</div>
           <div>Tech {gameState.technique} · IQ {gameState.matIQ} · Cond {gameState.conditioning}</div>
           <div>Str {gameState.strength} · Spd {gameState.speed} · Flex {gameState.flexibility}</div>
+          {gameState.styleRatings && <div>Freestyle {gameState.styleRatings.freestyle} · Greco {gameState.styleRatings.greco}</div>}
         </div>
         <div className="text-xs">
           <div className="text-slate-500 dark:text-zinc-500 mb-1">Meters</div>
@@ -148,7 +189,7 @@ export function UnifiedGameLayout() {
         ? 'bg-sky-500/90 text-white'
         : 'bg-[#3f424a] text-slate-400 hover:bg-slate-600/80'
     }`;
-  const viewLabels: Record<typeof view, string> = { play: 'Play', rankings: 'Rankings', trophies: 'Trophies', schedule: 'Schedule', settings: 'Settings', relationships: 'Relationships', team: 'Team', college: 'College', lifestyle: 'Lifestyle', life: 'Life' };
+  const viewLabels: Record<typeof view, string> = { play: 'Play', rankings: 'Rankings', trophies: 'Trophies', schedule: 'Schedule', settings: 'Settings', relationships: 'Relationships', team: 'Team', college: 'College', lifestyle: 'Lifestyle', life: 'Life', timeline: 'Timeline' };
   const pendingPopups = getPendingLifePopups();
   const currentPopup = pendingPopups[0];
   const lifeLog = getLifeLog();
@@ -163,8 +204,30 @@ export function UnifiedGameLayout() {
 
   return (
     <div className="relative flex flex-1 min-h-0 flex-col md:flex-row bg-[#1e2128] text-slate-50 overflow-hidden">
+      {/* Random weekly event that needs a decision (blocks advancing) */}
+      {state.pendingRandomChoice && (
+        <div className="fixed inset-0 z-[105] flex items-center justify-center p-4 bg-black/60" role="dialog" aria-modal="true" aria-labelledby="random-choice-title">
+          <div className="rounded-xl bg-slate-100 dark:bg-zinc-800 border-2 border-slate-300 dark:border-zinc-600 shadow-2xl max-w-md w-full p-5 flex flex-col gap-4">
+            <h2 id="random-choice-title" className="text-sm font-medium text-slate-500 dark:text-zinc-400 uppercase tracking-wide">This week</h2>
+            <p className="text-slate-800 dark:text-zinc-200 text-base leading-relaxed">{state.pendingRandomChoice.prompt}</p>
+            <div className="flex flex-col gap-2">
+              {state.pendingRandomChoice.options.map((option, i) => (
+                <button
+                  key={i}
+                  type="button"
+                  onClick={() => resolveRandomChoice(i)}
+                  className="rounded-lg bg-slate-300 dark:bg-zinc-600 hover:bg-blue-500 dark:hover:bg-blue-600 text-slate-900 dark:text-zinc-100 px-4 py-3 text-left text-sm font-medium transition-colors touch-manipulation"
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* BitLife-style life popup modal */}
-      {currentPopup && (
+      {currentPopup && !state.pendingRandomChoice && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60" role="dialog" aria-modal="true" aria-labelledby="life-popup-title">
           <div className="rounded-xl bg-slate-100 dark:bg-zinc-800 border-2 border-slate-300 dark:border-zinc-600 shadow-2xl max-w-md w-full p-5 flex flex-col gap-4">
             <h2 id="life-popup-title" className="text-sm font-medium text-slate-500 dark:text-zinc-400 uppercase tracking-wide">
@@ -201,6 +264,7 @@ export function UnifiedGameLayout() {
                 </h2>
                 <p className="text-xs text-slate-500 dark:text-zinc-400">
                   {pendingComp.current.roundLabel} · vs <span className="font-medium text-slate-700 dark:text-zinc-200">{pendingComp.current.opponent.name}</span> ({Math.round(pendingComp.current.opponent.overallRating)})
+                  {pendingComp.kind === 'wrestleoff' && ` · Series ${pendingComp.completed.filter((m) => m.won).length}-${pendingComp.completed.filter((m) => !m.won).length}`}
                 </p>
               </div>
               <div className="text-right">
@@ -211,14 +275,47 @@ export function UnifiedGameLayout() {
               </div>
             </div>
 
+            {pendingComp.bracket && (
+              <div>
+                <button type="button" onClick={() => setShowLiveBracket(!showLiveBracket)} className="text-xs text-blue-600 dark:text-blue-400 hover:underline">
+                  {showLiveBracket ? 'Hide bracket' : 'Show bracket'}
+                </button>
+                {showLiveBracket && (
+                  <div className="mt-2 max-h-64 overflow-y-auto rounded-lg bg-slate-100 dark:bg-zinc-800 border border-slate-200 dark:border-zinc-700 p-2">
+                    <BracketViewer bracket={pendingComp.bracket} title={pendingComp.phaseLabel} />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {(() => {
+              const race = engine.getTeamRace();
+              return race && (
+                <div className="rounded-lg bg-slate-100 dark:bg-zinc-800 border border-slate-200 dark:border-zinc-700 p-2">
+                  <TeamRace standings={race} yourTeam={state.collegeName} title="Team race (live)" top={3} />
+                </div>
+              );
+            })()}
+
             <div className="rounded-lg bg-slate-100 dark:bg-zinc-800 border border-slate-200 dark:border-zinc-700 p-3">
               <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
                 <span className="font-medium text-slate-700 dark:text-zinc-200">
-                  Period {pendingComp.current.matchState.period} · {pendingComp.current.matchState.position}
+                  {pendingComp.current.matchState.ruleSet && pendingComp.current.matchState.ruleSet !== 'folkstyle' && `${ruleSetLabel(pendingComp.current.matchState.ruleSet)} · `}
+                  {pendingComp.current.matchState.overtime ?? `Period ${pendingComp.current.matchState.period}`} · {pendingComp.current.matchState.position}
                 </span>
                 <span className="text-slate-600 dark:text-zinc-300">
                   Score: <span className="font-semibold">{pendingComp.current.matchState.myScore}</span>-<span className="font-semibold">{pendingComp.current.matchState.oppScore}</span>
                 </span>
+                {(pendingComp.current.matchState.ruleSet ?? 'folkstyle') === 'folkstyle' && (
+                  <span className="text-slate-600 dark:text-zinc-300">
+                    RT: <span className="font-semibold">{(pendingComp.current.matchState.ridingTime ?? 0) >= 0 ? 'You' : 'Them'} {formatRidingTime(pendingComp.current.matchState.ridingTime ?? 0)}</span>
+                  </span>
+                )}
+                {pendingComp.current.matchState.referee && (
+                  <span className="text-slate-600 dark:text-zinc-300" title="Stalling calls / cautions">
+                    Penalties: <span className="font-semibold">You {pendingComp.current.matchState.referee.me.stalls}S {pendingComp.current.matchState.referee.me.cautions}C · Them {pendingComp.current.matchState.referee.opp.stalls}S {pendingComp.current.matchState.referee.opp.cautions}C</span>
+                  </span>
+                )}
                 <span className="text-slate-600 dark:text-zinc-300">
                   Energy: <span className="font-semibold">{Math.round(pendingComp.current.matchState.my.energy)}</span>
                 </span>
@@ -226,6 +323,45 @@ export function UnifiedGameLayout() {
               <p className="text-sm text-slate-700 dark:text-zinc-200 mt-2">{pendingComp.current.prompt.prompt}</p>
             </div>
 
+            {pendingComp.current.matchState.logs.length === 0 && engine && (() => {
+              const report = engine.getPendingScoutingReport();
+              if (!report) return null;
+              return (
+                <div className="rounded-lg bg-slate-50 dark:bg-zinc-800/80 border border-slate-200 dark:border-zinc-700 p-2 text-xs text-slate-700 dark:text-zinc-300">
+                  <div className="flex items-center justify-between gap-2 mb-1">
+                    <p className="font-semibold text-slate-600 dark:text-zinc-400">Scouting report</p>
+                    {!report.scouted && (
+                      <button
+                        type="button"
+                        onClick={() => setScoutMessage(scoutPendingOpponent().message)}
+                        className="rounded bg-slate-200 dark:bg-zinc-700 hover:bg-slate-300 dark:hover:bg-zinc-600 px-2 py-1 text-xs font-medium touch-manipulation"
+                      >
+                        Study film ({engine.getChoicePreview('study_film')?.hours ?? 4}h)
+                      </button>
+                    )}
+                  </div>
+                  <p>
+                    {report.wins + report.losses > 0 ? `You're ${report.wins}-${report.losses} against them.` : 'Never wrestled them.'}
+                    {report.bracketsSeen > 0 && ` Seen in ${report.bracketsSeen} bracket${report.bracketsSeen === 1 ? '' : 's'}.`}
+                  </p>
+                  {report.bouts.length > 0 && (
+                    <p className="text-slate-500 dark:text-zinc-500">{report.bouts.map((b) => `${b.won ? 'W' : 'L'} ${b.method} (${b.event}, Y${b.year})`).join(' · ')}</p>
+                  )}
+                  {report.tendencies ? (
+                    <ul className="mt-1 space-y-0.5">
+                      <li className="capitalize">{report.style}</li>
+                      {report.tendencies.map((t) => (
+                        <li key={t.intent}>{OPPONENT_INTENT_LABELS[t.intent]}: {Math.round(t.share * 100)}%</li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-slate-500 dark:text-zinc-500 mt-1">Tendencies unknown — study film to scout them.</p>
+                  )}
+                  {scoutMessage && <p className="mt-1 text-slate-500 dark:text-zinc-500">{scoutMessage}</p>}
+                </div>
+              );
+            })()}
+
             {pendingComp.current.matchState.logs.length > 0 && (
               <div className="rounded-lg bg-slate-50 dark:bg-zinc-800/80 border border-slate-200 dark:border-zinc-700 p-2">
                 <p className="text-xs font-semibold text-slate-600 dark:text-zinc-400 mb-1.5">Match log</p>
@@ -254,7 +390,7 @@ export function UnifiedGameLayout() {
                 >
                   <div className="flex items-center justify-between gap-2">
                     <span>{opt.label}</span>
-                    <span className="text-[10px] uppercase tracking-wide text-slate-500 dark:text-zinc-300">{opt.risk}</span>
+                    <span className="text-[10px] uppercase tracking-wide text-slate-500 dark:text-zinc-300">{opt.scouted ? 'Scouted · ' : ''}{opt.risk}</span>
                   </div>
                   <div className="text-xs text-slate-600 dark:text-zinc-300 mt-1">{opt.description}</div>
                 </button>
@@ -271,7 +407,11 @@ export function UnifiedGameLayout() {
               </button>
             </div>
             <p className="text-xs text-slate-500 dark:text-zinc-400">
-              If the timer hits 0, you automatically <strong>Hesitate</strong> (momentum loss + higher chance they score).
+              {pendingComp.current.matchState.injuryDecision
+                ? <>If the timer hits 0, you take the <strong>injury timeout</strong> and keep wrestling.</>
+                : pendingComp.current.matchState.positionChoice
+                ? <>If the timer hits 0, the period starts <strong>neutral</strong>.</>
+                : <>If the timer hits 0, you automatically <strong>Hesitate</strong> (momentum loss + higher chance they score).</>}
             </p>
           </div>
         </div>
@@ -353,7 +493,7 @@ export function UnifiedGameLayout() {
             </div>
             {navExpanded && (
               <div className="mt-2 p-2 rounded-2xl bg-slate-950/90 border border-slate-800 flex flex-wrap gap-1.5 max-h-[50vh] overflow-y-auto">
-                {(['play', 'rankings', 'college', 'relationships', 'trophies', 'schedule', 'lifestyle', 'life', 'team', 'settings'] as const).filter((v) => (v !== 'college' || isHS || isInCollege) && (v !== 'team' || isInCollege)).map((v) => (
+                {(['play', 'rankings', 'college', 'relationships', 'trophies', 'schedule', 'lifestyle', 'life', 'timeline', 'team', 'settings'] as const).filter((v) => (v !== 'college' || isHS || isInCollege) && (v !== 'team' || isInCollege)).map((v) => (
                   <button key={v} type="button" onClick={() => { setView(v); setNavExpanded(false); }} className={tabClass(v)}>
                     {v === 'college' && state.pendingCollegeChoice ? 'College (pick)' : viewLabels[v]}
                   </button>
@@ -374,12 +514,19 @@ export function UnifiedGameLayout() {
               <button type="button" onClick={() => setView('schedule')} className={tabClass('schedule')}>Schedule</button>
               <button type="button" onClick={() => setView('lifestyle')} className={tabClass('lifestyle')}>Lifestyle</button>
               <button type="button" onClick={() => setView('life')} className={tabClass('life')}>Life</button>
+              <button type="button" onClick={() => setView('timeline')} className={tabClass('timeline')}>Timeline</button>
               {isInCollege && <button type="button" onClick={() => setView('team')} className={tabClass('team')}>Team</button>}
               <button type="button" onClick={() => setView('settings')} className={tabClass('settings')}>Settings</button>
             </div>
           </div>
         </div>
 
+        {(saveError || recoveredFromBackup) && (
+          <div className="rounded-lg bg-red-950/40 border border-red-500/60 p-3 text-sm text-red-200">
+            {saveError ? `Autosave failed: ${saveError}` : 'This save was damaged, so your last good autosave was loaded instead. You may have lost the most recent week.'}
+          </div>
+        )}
+
         {/* College choice: show on every tab when you've graduated so you can always pick */}
         {state.pendingCollegeChoice && (
           <div className="rounded-lg bg-amber-50 dark:bg-amber-950/40 border-2 border-amber-500 dark:border-amber-400 p-4">
@@ -507,6 +654,11 @@ export function UnifiedGameLayout() {
                   <div className="rounded-xl bg-amber-950/40 border border-amber-500/50 p-4 mb-4">
                     <h2 className="wp-section-title text-amber-300/90">Tournament</h2>
                     <p className="text-sm text-amber-200/80 mb-3">{label} — play the bracket or simulate all matches.</p>
+                    {isBracketSize(pendingTournament.bracketParticipants.length) && (
+                      <div className="mb-3 p-2 rounded bg-slate-200/80 dark:bg-zinc-700/80">
+                        <BracketViewer bracket={createBracket(pendingTournament.bracketParticipants)} />
+                      </div>
+                    )}
                     <div className="flex flex-wrap gap-2">
                       <button
                         type="button"
@@ -558,16 +710,17 @@ export function UnifiedGameLayout() {
               <div className="rounded-lg bg-blue-50 dark:bg-blue-950/50 border border-blue-600/60 dark:border-blue-500/60 p-4">
                 <h3 className="text-blue-600 dark:text-blue-400 font-semibold mb-2">Week {state.lastWeekSummary.week} summary · {state.lastWeekSummary.phase}</h3>
                 {state.lastWeekSummary.eventType && (
-                  <p className="text-xs text-zinc-400 mb-2">{state.lastWeekSummary.eventType === 'dual' ? 'Dual meet' : state.lastWeekSummary.eventType === 'tournament' ? 'Tournament' : state.lastWeekSummary.eventType}</p>
+                  <p className="text-xs text-zinc-400 mb-2">{state.lastWeekSummary.eventType === 'dual' ? 'Dual meet' : state.lastWeekSummary.eventType === 'tournament' ? 'Tournament' : state.lastWeekSummary.eventType === 'wrestleoff' ? 'Wrestle-off' : state.lastWeekSummary.eventType}</p>
                 )}
                 {(state.lastWeekSummary.eventType === 'tournament' ||
                   state.lastWeekSummary.eventType === 'district' ||
                   state.lastWeekSummary.eventType === 'state') &&
-                  state.lastWeekSummary.bracketParticipants &&
-                  state.lastWeekSummary.bracketParticipants.length >= 8 && (
+                  (state.lastWeekSummary.bracket || (state.lastWeekSummary.bracketParticipants && state.lastWeekSummary.bracketParticipants.length >= 8)) && (
                   <div className="mb-3 p-2 rounded bg-slate-200/80 dark:bg-zinc-700/80">
-                    {(() => {
-                      const seeds = [...state.lastWeekSummary.bracketParticipants].sort((a, b) => a.seed - b.seed);
+                    {state.lastWeekSummary.bracket ? (
+                      <BracketViewer bracket={state.lastWeekSummary.bracket} />
+                    ) : (() => {
+                      const seeds = [...(state.lastWeekSummary.bracketParticipants ?? [])].sort((a, b) => a.seed - b.seed);
                       const is16 = seeds.length >= 16;
                       const label = is16 ? 'Bracket (16-man)' : 'Bracket (8-man)';
                       if (is16 && seeds.length >= 16) {
@@ -620,6 +773,11 @@ export function UnifiedGameLayout() {
                     })()}
                   </div>
                 )}
+                {state.lastWeekSummary.teamScores && state.lastWeekSummary.teamScores.length > 0 && (
+                  <div className="mb-3 p-2 rounded bg-slate-200/80 dark:bg-zinc-700/80">
+                    <TeamRace standings={state.lastWeekSummary.teamScores} yourTeam={state.collegeName} title="Team standings" />
+                  </div>
+                )}
                 {(state.lastWeekSummary.eventType === 'tournament' ||
                   state.lastWeekSummary.eventType === 'district' ||
                   state.lastWeekSummary.eventType === 'state') &&
@@ -680,6 +838,30 @@ export function UnifiedGameLayout() {
                     ))}
                   </ul>
                 )}
+                {state.lastWeekSummary.duals && state.lastWeekSummary.duals.length > 0 && (
+                  <div className="mb-2 space-y-2">
+                    {state.lastWeekSummary.duals.map((dual, i) => (
+                      <div key={i} className="p-2 rounded bg-slate-200/80 dark:bg-zinc-700/80">
+                        <p className="text-xs font-medium text-slate-600 dark:text-zinc-300 mb-1.5">
+                          {dual.result === 'W' ? 'Won' : dual.result === 'L' ? 'Lost' : 'Tied'} {dual.teamScore}–{dual.opponentScore} vs {dual.opponentTeam}
+                        </p>
+                        <table className="w-full text-xs text-slate-700 dark:text-zinc-200">
+                          <tbody>
+                            {dual.bouts.map((b) => (
+                              <tr key={b.weightClass} className={b.isPlayer ? 'font-semibold text-blue-700 dark:text-blue-300' : undefined}>
+                                <td className="pr-2">{b.weightClass}</td>
+                                <td className="pr-2">{b.teamWrestler}</td>
+                                <td className="pr-2">{b.opponentWrestler}</td>
+                                <td className="pr-2">{b.won ? 'W' : 'L'} {b.method}</td>
+                                <td className="text-right">{b.teamPoints}–{b.opponentPoints}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    ))}
+                  </div>
+                )}
                 {state.lastWeekSummary.placement != null && (
                   <p className="text-sm text-blue-700 dark:text-blue-200">Placed {state.lastWeekSummary.placement === 1 ? '1st' : state.lastWeekSummary.placement === 2 ? '2nd' : state.lastWeekSummary.placement === 3 ? '3rd' : '4th'}</p>
                 )}
@@ -725,32 +907,77 @@ export function UnifiedGameLayout() {
               );
             })()}
 
-            {lastOffseasonBracket && lastOffseasonBracket.participants.length >= 8 && (
-              <div className="rounded-lg bg-blue-50 dark:bg-blue-950/40 border border-blue-200 dark:border-blue-800 p-4">
-                <h3 className="text-blue-600 dark:text-blue-400 font-semibold mb-2">Bracket: {lastOffseasonBracket.name}</h3>
-                {(() => {
-                  const seeds = [...lastOffseasonBracket.participants].sort((a, b) => a.seed - b.seed);
-                  if (seeds.length < 8) return null;
-                  const qfs = [
-                    [seeds[0], seeds[7]],
-                    [seeds[3], seeds[4]],
-                    [seeds[1], seeds[6]],
-                    [seeds[2], seeds[5]],
-                  ];
-                  return (
-                    <ul className="text-xs sm:text-sm text-slate-700 dark:text-zinc-200 space-y-0.5">
-                      <li className="font-semibold text-slate-600 dark:text-zinc-300">Quarterfinals</li>
-                      {qfs.map(([a, b], idx) => (
-                        <li key={idx}>
-                          {a.seed}. {a.name} ({Math.round(a.overallRating)}) vs {b.seed}. {b.name} ({Math.round(b.overallRating)})
-                        </li>
-                      ))}
-                    </ul>
-                  );
-                })()}
-                <button type="button" onClick={() => setLastOffseasonBracket(null)} className="text-xs text-slate-500 dark:text-zinc-400 mt-2 hover:underline">Dismiss</button>
-              </div>
-            )}
+            {(() => {
+              const bw = state.bodyWeight;
+              const w = bw.lastWeighIn;
+              const makeable = engine.getMakeableWeightClass();
+              return (
+                <div className="rounded-lg bg-slate-100 dark:bg-zinc-800/80 border border-slate-200 dark:border-zinc-700 p-4">
+                  <h3 className="text-blue-600 dark:text-blue-400 font-semibold mb-2">Body weight</h3>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+                    <div><span className="text-slate-500 dark:text-zinc-500">Class:</span> <span className="text-slate-800 dark:text-zinc-200">{state.weightClass} lbs</span></div>
+                    <div><span className="text-slate-500 dark:text-zinc-500">Current:</span> <span className={bw.currentWeight > state.weightClass ? 'text-amber-600 dark:text-amber-400' : 'text-slate-800 dark:text-zinc-200'}>{bw.currentWeight.toFixed(1)} lbs</span></div>
+                    <div><span className="text-slate-500 dark:text-zinc-500">Natural:</span> <span className="text-slate-800 dark:text-zinc-200">{bw.naturalWeight.toFixed(1)} lbs</span></div>
+                    <div><span className="text-slate-500 dark:text-zinc-500">Missed weight:</span> <span className="text-slate-800 dark:text-zinc-200">{state.stats.weightMisses}</span></div>
+                  </div>
+                  {w && (
+                    <p className={`text-xs mt-2 ${!w.made ? 'text-red-600 dark:text-red-400' : w.cutSeverity >= 0.5 ? 'text-amber-600 dark:text-amber-400' : 'text-slate-500 dark:text-zinc-500'}`}>
+                      Last weigh-in (week {w.week}, {w.event}): {w.scaleWeight.toFixed(1)} for {w.weightClass} — {!w.made ? 'missed weight, forfeit.' : w.cutSeverity >= 0.5 ? 'made it on a dangerous cut.' : w.cutSeverity > 0 ? 'made it, hard cut.' : 'made it easily.'}
+                    </p>
+                  )}
+                  {makeable > state.weightClass && (
+                    <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">You&apos;ve outgrown {state.weightClass} — {makeable} is the lightest you can make safely. Change weight in Settings.</p>
+                  )}
+                </div>
+              );
+            })()}
+
+            {state.injuries.length > 0 && (() => {
+              const status = engine.getInjuryStatus();
+              return (
+                <div className="rounded-lg bg-slate-100 dark:bg-zinc-800/80 border border-slate-200 dark:border-zinc-700 p-4">
+                  <h3 className="text-blue-600 dark:text-blue-400 font-semibold mb-2">Injuries</h3>
+                  <p className={`text-sm mb-2 ${status === 'out' ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'}`}>
+                    {status === 'out' ? "Out — you can't compete until it heals." : 'Wrestling wrapped — high-risk attacks are off the table.'}
+                  </p>
+                  <ul className="space-y-1 text-sm">
+                    {state.injuries.map((inj) => (
+                      <li key={inj.id} className="flex justify-between gap-2">
+                        <span className="text-slate-800 dark:text-zinc-200">{inj.name} <span className="text-slate-500 dark:text-zinc-500 capitalize">({inj.bodyPart})</span></span>
+                        <span className="text-slate-500 dark:text-zinc-500">{inj.weeksOut} wk left · {Math.round(engine.getReinjuryRisk(inj) * 100)}% reinjury</span>
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-slate-500 dark:text-zinc-500 mt-2">Rehab heals a week faster; physical therapy two, and cuts reinjury risk. Recovery gear lowers it too.</p>
+                </div>
+              );
+            })()}
+
+            {lastOffseasonBracket && (() => {
+              // Follows the event from your first bout to the final result; WNO is a single bout, so it gets one line.
+              const live = pendingComp?.phaseLabel === lastOffseasonBracket.name ? pendingComp : null;
+              const done = !live && state.lastWeekSummary?.phase === lastOffseasonBracket.name ? state.lastWeekSummary : null;
+              const bracket = live?.bracket ?? done?.bracket;
+              const single = bracket ? null : live?.current ?? done?.matches?.[0];
+              if (!bracket && !single) return null;
+              return (
+                <div className="rounded-lg bg-blue-50 dark:bg-blue-950/40 border border-blue-200 dark:border-blue-800 p-4">
+                  <h3 className="text-blue-600 dark:text-blue-400 font-semibold mb-2">Bracket: {lastOffseasonBracket.name}</h3>
+                  {bracket ? (
+                    <BracketViewer bracket={bracket} />
+                  ) : live?.current ? (
+                    <p className="text-xs sm:text-sm text-slate-700 dark:text-zinc-200">
+                      {live.current.roundLabel}: {state.name} vs {live.current.opponent.name} ({Math.round(live.current.opponent.overallRating)}) — on the mat
+                    </p>
+                  ) : done?.matches?.[0] ? (
+                    <p className="text-xs sm:text-sm text-slate-700 dark:text-zinc-200">
+                      {done.matches[0].won ? 'W' : 'L'} vs {done.matches[0].opponentName} ({Math.round(done.matches[0].opponentOverall)}) — {done.matches[0].method}
+                    </p>
+                  ) : null}
+                  <button type="button" onClick={() => setLastOffseasonBracket(null)} className="text-xs text-slate-500 dark:text-zinc-400 mt-2 hover:underline">Dismiss</button>
+                </div>
+              );
+            })()}
 
             {(offseasonEvents.length > 0 || (state.week === 27 || state.week === 28 || state.week === 36 || state.week === 37) || (isInCollege && (state.week === 18 || state.week === 22))) && (
               <div className="rounded-lg bg-slate-100 dark:bg-zinc-800/80 border border-slate-200 dark:border-zinc-700 p-4">
@@ -765,13 +992,13 @@ export function UnifiedGameLayout() {
                         const result = runOffseasonEvent(ev.key) as { success: boolean; eventName?: string; message?: string };
                         if (result.success) {
                           setView('play');
-                          setLastOffseasonBracket(null);
+                          setLastOffseasonBracket({ name: result.eventName ?? ev.name });
                         }
                       }}
                       disabled={!ev.canAfford}
                       className="rounded-lg bg-slate-300 dark:bg-zinc-700 px-3 py-2.5 min-h-[44px] text-sm hover:bg-slate-400 dark:hover:bg-zinc-600 active:bg-slate-500 dark:active:bg-zinc-500 disabled:opacity-50 touch-manipulation"
                     >
-                      {ev.name} (${ev.cost}) {!ev.canAfford && '(can\'t afford)'}
+                      {ev.name} · {ruleSetLabel(ev.ruleSet)} (${ev.cost}) {!ev.canAfford && '(can\'t afford)'}
                     </button>
                   ))}
                 </div>
@@ -881,6 +1108,8 @@ export function UnifiedGameLayout() {
               <p className="text-xs text-slate-500 dark:text-zinc-400 mt-1">
                 {state.pendingCompetition
                   ? 'Finish your current match before advancing.'
+                  : state.pendingRandomChoice
+                  ? 'Decide how to handle this week\'s event before advancing.'
                   : state.pendingTournamentPlay
                   ? 'Go to tournament and play or simulate to advance.'
                   : state.transferPortalActive
@@ -1013,15 +1242,13 @@ export function UnifiedGameLayout() {
                   <>
                     <div>
                       <p className="text-slate-700 dark:text-zinc-300">You&apos;re at <strong>{state.collegeName ?? 'your school'}</strong> ({state.league}).</p>
-                      {typeof state.eligibilityYearsRemaining === 'number' && (
-                        <p className="text-sm text-slate-500 dark:text-zinc-500 mt-2">Eligibility: <strong>{state.eligibilityYearsRemaining}</strong> year{state.eligibilityYearsRemaining !== 1 ? 's' : ''} remaining</p>
-                      )}
+                      <p className="text-sm text-slate-500 dark:text-zinc-500 mt-2">Eligibility: <strong>{state.eligibilityYearsRemaining}</strong> year{state.eligibilityYearsRemaining !== 1 ? 's' : ''} remaining</p>
                     </div>
                     <div className="mt-4 pt-4 border-t border-slate-200 dark:border-zinc-600">
                       <h4 className="text-sm font-medium text-slate-600 dark:text-zinc-300 mb-2">Transfer portal</h4>
                       <p className="text-sm text-slate-600 dark:text-zinc-400 mb-2">Enter the transfer portal to explore offers from other schools. You must pick a new school or withdraw before advancing.</p>
                       <button type="button" onClick={() => enterTransferPortal()} disabled={!canEnterTransferPortal()} className="rounded-lg bg-amber-500 dark:bg-amber-600 text-amber-950 dark:text-white px-3 py-2 text-sm font-medium min-h-[44px] touch-manipulation disabled:opacity-50 disabled:cursor-not-allowed">Enter transfer portal</button>
-                      {!canEnterTransferPortal() && (state.eligibilityYearsRemaining ?? 0) <= 0 && <p className="text-xs text-slate-500 dark:text-zinc-500 mt-1">No eligibility left — transfer not available.</p>}
+                      {!canEnterTransferPortal() && state.eligibilityYearsRemaining <= 0 && <p className="text-xs text-slate-500 dark:text-zinc-500 mt-1">No eligibility left — transfer not available.</p>}
                     </div>
                   </>
                 )}
@@ -1237,6 +1464,8 @@ export function UnifiedGameLayout() {
                 <p>NCAA titles: <span className="text-blue-600 dark:text-blue-400 font-semibold">{state.stats.ncaaTitles ?? 0}</span></p>
                 <p>All-American finishes: <span className="text-blue-600 dark:text-blue-400 font-semibold">{state.stats.ncaaAllAmerican ?? 0}</span></p>
                 <p>NCAA appearances: {state.stats.ncaaAppearances ?? 0}</p>
+                {(state.stats.redshirtYears?.length ?? 0) > 0 && <p>Redshirt: Year {state.stats.redshirtYears.join(', ')}</p>}
+                {(state.stats.medicalHardshipYears?.length ?? 0) > 0 && <p>Medical hardship: Year {state.stats.medicalHardshipYears.join(', ')}</p>}
                 {(state.stats.ncaaPlacements?.length ?? 0) > 0 && (
                   <p className="mt-1">Placements: {state.stats.ncaaPlacements.join(', ')}</p>
                 )}
@@ -1309,7 +1538,7 @@ export function UnifiedGameLayout() {
               </div>
             </div>
             <p className="text-xs text-slate-500 mt-1">
-              {isInCollege ? 'Weeks 1–14: early season (opens + duals), midseason (duals + invites), conference stretch, Conf Champs (12), recovery; Week 15 NCAA. Travel duals = 2 matches; opens may rest starters.' : 'Duals and tournaments show opponent or event name. Weeks 9–20 Offseason, 21–30 Summer (Fargo 27–28), 31–38 Preseason, 39–49 Regular, 50 Districts, 51 State, 52 Wrap.'}
+              {isInCollege ? 'Weeks 1–14: early season (opens + duals), midseason (duals + invites), conference stretch, Conf Champs (12), recovery; Week 15 NCAA (conference finishes earn automatic bids, the rest go at-large; D1 is a 33-man bracket, top 8 All-American). Travel duals = 2 matches; opens may rest starters.' : 'Duals and tournaments show opponent or event name. Weeks 9–20 Offseason, 21–30 Summer (Fargo 27–28), 31–38 Preseason, 39–49 Regular, 50 Districts, 51 State, 52 Wrap.'}
             </p>
           </div>
         )}
@@ -1415,6 +1644,49 @@ export function UnifiedGameLayout() {
           </div>
         )}
 
+        {view === 'timeline' && (
+          <div className="max-w-lg">
+            <h2 className="wp-section-title">Career Timeline</h2>
+            {state.ironman ? (
+              <p className="text-sm text-slate-300">Ironman career — every choice is final, so rewinding is off.</p>
+            ) : state.weekCheckpoints.length === 0 ? (
+              <p className="text-sm text-slate-300">Rewinding isn&apos;t available for this career (it was saved before the timeline existed).</p>
+            ) : (
+              <>
+                <p className="text-sm text-slate-300 mb-4">Rewind to the start of any of your last {state.weekCheckpoints.length} weeks. Everything you did after that point is undone.</p>
+                {rewindMessage && <p className="text-sm text-sky-300 mb-3">{rewindMessage}</p>}
+                <ul className="space-y-2">
+                  {[...state.weekCheckpoints].reverse().map((c) => {
+                    const isCurrent = c.journalLength >= state.journal.length;
+                    return (
+                      <li key={c.journalLength} className="flex items-center justify-between gap-3 text-sm text-slate-200 border-l-2 border-slate-700 pl-3 py-1">
+                        <span>
+                          Year {c.year} · Week {c.week} · Age {c.age}
+                          <span className="text-slate-500"> · OVR {c.overallRating} · Season {c.seasonWins}-{c.seasonLosses}</span>
+                        </span>
+                        {isCurrent ? (
+                          <span className="text-xs text-slate-500">Now</span>
+                        ) : (
+                          <button
+                            type="button"
+                            onClick={() => {
+                              if (!window.confirm(`Rewind to Year ${c.year}, Week ${c.week}? Everything after it is lost.`)) return;
+                              setRewindMessage(rewindToWeek(c.journalLength).message);
+                            }}
+                            className="shrink-0 px-3 py-1.5 rounded-lg bg-slate-700 hover:bg-slate-600 text-xs font-semibold text-white"
+                          >
+                            Rewind
+                          </button>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </>
+            )}
+          </div>
+        )}
+
         {view === 'team' && isInCollege && (
           <div className="wp-card">
             <div className="flex items-center justify-between mb-2">
@@ -1425,19 +1697,38 @@ export function UnifiedGameLayout() {
               <p className="text-slate-300 text-sm">Roster will appear after you advance a week.</p>
             ) : (
               <>
-                <p className="text-slate-300 text-sm mb-4">Your weight: {state.weightClass} lbs. {engine.isCollegeStarter() ? 'You are the starter at your weight for duals.' : "You're the backup — you don't start in duals until you're the best at your weight."}</p>
+                <p className="text-slate-300 text-sm mb-4">Your weight: {state.weightClass} lbs. {state.collegeSeasonStatus === 'redshirt' ? "You're redshirting — unattached opens only, and this season won't count against your eligibility." : state.collegeSeasonStatus === 'medical' ? "You're out for the season on a medical hardship waiver." : engine.isCollegeStarter() ? 'You are the starter at your weight for duals.' : "You're the backup — you wrestle opens, and win a wrestle-off (preseason or a mid-season recovery week) to start in duals."}</p>
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                  <button
+                    type="button"
+                    onClick={() => setEligibilityMessage(setRedshirt(state.collegeSeasonStatus !== 'redshirt').message)}
+                    className="rounded-lg px-3 py-1.5 text-sm bg-slate-700 text-slate-100 hover:bg-slate-600"
+                  >
+                    {state.collegeSeasonStatus === 'redshirt' ? 'Burn redshirt' : 'Redshirt this season'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEligibilityMessage(petitionMedicalHardship().message)}
+                    className="rounded-lg px-3 py-1.5 text-sm bg-slate-700 text-slate-100 hover:bg-slate-600"
+                  >
+                    Petition medical hardship
+                  </button>
+                  <span className="text-xs text-slate-400">{state.eligibilityYearsRemaining} year(s) of eligibility left</span>
+                </div>
+                {eligibilityMessage && <p className="text-sm text-amber-300 mb-4">{eligibilityMessage}</p>}
                 <div className="space-y-4">
                   {Array.from(new Set((state.collegeRoster ?? []).map((r) => r.weightClass))).sort((a, b) => a - b).map((wc) => {
-                const atWeight = (state.collegeRoster ?? []).filter((r) => r.weightClass === wc).sort((a, b) => b.overallRating - a.overallRating);
+                const atWeight = (state.collegeRoster ?? []).filter((r) => r.weightClass === wc);
+                const starterId = atWeight.find((r) => !(r.isPlayer && state.collegeSeasonStatus !== 'active'))?.id;
                 const isMyWeight = wc === state.weightClass;
                 return (
                   <div key={wc} className={`rounded-2xl border p-3 ${isMyWeight ? 'border-emerald-400 bg-emerald-900/10' : 'border-slate-800'}`}>
                     <h4 className="text-sm font-medium text-slate-100 mb-2">{wc} lbs</h4>
                     <ul className="space-y-1">
-                      {atWeight.map((r, i) => (
+                      {atWeight.map((r) => (
                         <li key={r.id} className={`flex justify-between text-sm ${r.isPlayer ? 'text-emerald-300 font-medium' : 'text-slate-300'}`}>
                           <span>{r.name}{r.isPlayer ? ' (you)' : ''}</span>
-                          <span>{r.overallRating} {i === 0 ? '· Starter' : '· Backup'}</span>
+                          <span>{r.overallRating} {r.isPlayer && state.collegeSeasonStatus === 'redshirt' ? '· Redshirt' : r.isPlayer && state.collegeSeasonStatus === 'medical' ? '· Medical hardship' : r.id === starterId ? '· Starter' : '· Backup'}</span>
                         </li>
                       ))}
                     </ul>
@@ -1471,13 +1762,32 @@ export function UnifiedGameLayout() {
             <section>
               <h4 className="text-sm font-medium text-slate-100 mb-2">Game</h4>
               <div className="space-y-2 text-sm text-slate-300">
-                <p>Save data is stored in this browser. Start a new game to reset your career.</p>
+                <p>Save data is stored in this browser. This career autosaves to its own slot; start a new game to begin another one without losing this save.</p>
                 <button type="button" onClick={goToCreate} className="rounded-full bg-slate-800 px-4 py-2.5 text-sm font-medium text-slate-100 active:bg-slate-700 touch-manipulation mt-2 border border-slate-700">
                   New game
                 </button>
               </div>
             </section>
 
+            <section>
+              <h4 className="text-sm font-medium text-slate-100 mb-2">Export career</h4>
+              <p className="text-xs text-slate-400 mb-2">Move this career to another browser or send it to a friend. Import it from the start screen.</p>
+              <div className="flex flex-wrap gap-2">
+                <button type="button" onClick={downloadSaveFile} className="rounded-full bg-slate-800 px-4 py-2.5 text-sm font-medium text-slate-100 active:bg-slate-700 touch-manipulation border border-slate-700">
+                  Download save file
+                </button>
+                <button type="button" onClick={() => copyShareCode()} className="rounded-full bg-slate-800 px-4 py-2.5 text-sm font-medium text-slate-100 active:bg-slate-700 touch-manipulation border border-slate-700">
+                  Copy share code
+                </button>
+              </div>
+              {shareCode && (
+                <div className="mt-2">
+                  <p className="text-xs text-slate-400 mb-1">{shareCopied ? 'Copied to clipboard.' : 'Copy the code below.'}</p>
+                  <textarea readOnly value={shareCode} rows={3} onFocus={(e) => e.target.select()} className="w-full rounded-2xl border border-slate-700 bg-slate-900 text-slate-100 px-3 py-2 font-mono text-[11px]" />
+                </div>
+              )}
+            </section>
+
             <section>
               <button type="button" onClick={() => setTipsOpen(!tipsOpen)} className="flex items-center justify-between w-full text-left">
                 <h4 className="text-sm font-medium text-slate-100">How to play / Tips &amp; tricks</h4>
@@ -4,6 +4,7 @@ import React, { createContext, useCallback, useContext, useState } from 'react';
 import type { UnifiedState, CustomStartOptions, CollegeOffer, HousingTier, CarTier, MealPlanTier, RecoveryTier, LifePopup, LifeLogEntry, BracketParticipant, PendingTournamentPlay } from '@/engine/unified/types';
 import type { School } from '@/engine/types';
 import { UnifiedEngine } from '@/engine/unified/UnifiedEngine';
+import { createSaveSlot, loadGame as loadSlot, setActiveSlotId } from '@/db/persistence';
 
 type Screen = 'create' | 'game';
 
@@ -11,8 +12,13 @@ interface GameContextValue {
   screen: Screen;
   state: UnifiedState | null;
   engine: UnifiedEngine | null;
-  startNewGame: (seed: string, options: { name: string; weightClass?: number; customStart?: CustomStartOptions }) => void;
-  loadGame: (loaded: UnifiedState) => void;
+  /** Save slot the running game autosaves into. */
+  activeSlotId: string | null;
+  startNewGame: (seed: string, options: { name: string; weightClass?: number; customStart?: CustomStartOptions; ironman?: boolean }) => void;
+  /** True when the loaded slot was damaged and its last good backup was used instead. */
+  recoveredFromBackup: boolean;
+  /** Load a save slot into the engine and make it the active slot. False if the slot is missing or unreadable. */
+  loadGame: (slotId: string) => Promise<boolean>;
   applyChoice: (choiceKey: string) => void;
   applyRelationshipAction: (relId: string, actionKey: string) => void;
   advanceWeek: () => boolean;
@@ -39,6 +45,7 @@ interface GameContextValue {
   getPendingLifePopups: () => LifePopup[];
   resolveLifePopup: (popupId: string, choiceIndex: number) => void;
   getLifeLog: () => LifeLogEntry[];
+  resolveRandomChoice: (optionIndex: number) => boolean;
   playCompetitionAction: (actionKey: string, opts?: { timedOut?: boolean }) => void;
   getPendingTournamentPlay: () => PendingTournamentPlay | null;
   startTournamentPlay: () => boolean;
@@ -46,6 +53,12 @@ interface GameContextValue {
   simulatePendingCompetitionMatch: () => boolean;
   choosePostCollegeOption: (option: 'olympics' | 'restart' | 'retire') => void;
   setWeightClass: (newWeight: number) => boolean;
+  /** Rewind to a week start from state.weekCheckpoints (by its journalLength). Refused for ironman careers. */
+  rewindToWeek: (journalLength: number) => { success: boolean; message: string };
+  setRedshirt: (on: boolean) => { success: boolean; message: string };
+  petitionMedicalHardship: () => { success: boolean; message: string };
+  /** Film session on the next opponent before the match starts (see UnifiedEngine.scoutPendingOpponent). */
+  scoutPendingOpponent: () => { success: boolean; message: string };
   goToCreate: () => void;
   goToGame: () => void;
 }
@@ -56,20 +69,38 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
   const [screen, setScreen] = useState<Screen>('create');
   const [state, setState] = useState<UnifiedState | null>(null);
   const [engine, setEngine] = useState<UnifiedEngine | null>(null);
+  const [activeSlotId, setActiveSlot] = useState<string | null>(null);
+  const [recoveredFromBackup, setRecoveredFromBackup] = useState(false);
 
-  const startNewGame = useCallback((seed: string, options: { name: string; weightClass?: number; customStart?: CustomStartOptions }) => {
+  const startNewGame = useCallback((seed: string, options: { name: string; weightClass?: number; customStart?: CustomStartOptions; ironman?: boolean }) => {
     const initial = UnifiedEngine.createState(seed, options);
     const eng = new UnifiedEngine(initial);
+    // New careers always get their own slot so existing saves are never overwritten. Autosave starts once it exists.
+    setActiveSlot(null);
+    setRecoveredFromBackup(false);
+    createSaveSlot(eng.getState()).then((slot) => setActiveSlot(slot?.id ?? null));
     setEngine(eng);
     setState(eng.getState());
     setScreen('game');
   }, []);
 
-  const loadGame = useCallback((loaded: UnifiedState) => {
-    const eng = new UnifiedEngine(loaded);
+  const loadGame = useCallback(async (slotId: string): Promise<boolean> => {
+    const loaded = await loadSlot(slotId);
+    if (!loaded) return false;
+    let eng: UnifiedEngine;
+    try {
+      eng = new UnifiedEngine(loaded.state as UnifiedState);
+    } catch (e) {
+      console.warn('Load failed', e);
+      return false;
+    }
+    await setActiveSlotId(slotId);
+    setActiveSlot(slotId);
+    setRecoveredFromBackup(loaded.fromBackup);
     setEngine(eng);
     setState(eng.getState());
     setScreen('game');
+    return true;
   }, []);
 
   const applyChoice = useCallback((choiceKey: string) => {
@@ -193,6 +224,12 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
     setState(JSON.parse(JSON.stringify(engine.getState())));
   }, [engine]);
   const getLifeLog = useCallback(() => (engine ? engine.getLifeLog() : []), [engine]);
+  const resolveRandomChoice = useCallback((optionIndex: number) => {
+    if (!engine) return false;
+    const ok = engine.resolveRandomChoice(optionIndex);
+    if (ok) setState(JSON.parse(JSON.stringify(engine.getState())));
+    return ok;
+  }, [engine]);
 
   const playCompetitionAction = useCallback((actionKey: string, opts?: { timedOut?: boolean }) => {
     if (!engine) return;
@@ -233,10 +270,40 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
     return ok;
   }, [engine]);
 
+  const rewindToWeek = useCallback((journalLength: number) => {
+    if (!engine) return { success: false, message: 'No game loaded.' };
+    const result = engine.rewindToWeek(journalLength);
+    if (result.success) setState(JSON.parse(JSON.stringify(engine.getState())));
+    return result;
+  }, [engine]);
+
+  const setRedshirt = useCallback((on: boolean) => {
+    if (!engine) return { success: false, message: 'No game loaded.' };
+    const result = engine.setRedshirt(on);
+    if (result.success) setState(JSON.parse(JSON.stringify(engine.getState())));
+    return result;
+  }, [engine]);
+
+  const petitionMedicalHardship = useCallback(() => {
+    if (!engine) return { success: false, message: 'No game loaded.' };
+    const result = engine.petitionMedicalHardship();
+    if (result.success) setState(JSON.parse(JSON.stringify(engine.getState())));
+    return result;
+  }, [engine]);
+
+  const scoutPendingOpponent = useCallback(() => {
+    if (!engine) return { success: false, message: 'No game loaded.' };
+    const result = engine.scoutPendingOpponent();
+    if (result.success) setState(JSON.parse(JSON.stringify(engine.getState())));
+    return result;
+  }, [engine]);
+
   const value: GameContextValue = {
     screen,
     state,
     engine,
+    activeSlotId,
+    recoveredFromBackup,
     startNewGame,
     loadGame,
     applyChoice,
@@ -265,6 +332,7 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
     getPendingLifePopups,
     resolveLifePopup,
     getLifeLog,
+    resolveRandomChoice,
     playCompetitionAction,
     getPendingTournamentPlay,
     startTournamentPlay,
@@ -272,6 +340,10 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
     simulatePendingCompetitionMatch,
     choosePostCollegeOption,
     setWeightClass,
+    rewindToWeek,
+    setRedshirt,
+    petitionMedicalHardship,
+    scoutPendingOpponent,
     goToCreate: () => setScreen('create'),
     goToGame: () => setScreen('game'),
   };